@@ -1,7 +1,7 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { fetchProducer, fetchProducerTracks } from '@/lib/supabase';
-import { QueryResult, Producers } from '@/lib/supabaseTypes';
+import { QueryResult, Producers, CreditRole } from '@/lib/supabaseTypes';
 
 export function useProducer(id: string) {
   return useQuery({
@@ -21,6 +21,7 @@ export function useProducerTracks(
       year?: number;
       artistId?: string;
       albumId?: string;
+      role?: CreditRole | CreditRole[];
     };
   }
 ) {
@@ -17,6 +17,7 @@ export type Database = {
           id: string
           metadata: Json | null
           name: string
+          relationship: string
           release_date: string | null
           spotify_id: string | null
           updated_at: string | null
@@ -28,6 +29,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           name: string
+          relationship?: string
           release_date?: string | null
           spotify_id?: string | null
           updated_at?: string | null
@@ -39,6 +41,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           name?: string
+          relationship?: string
           release_date?: string | null
           spotify_id?: string | null
           updated_at?: string | null
@@ -62,6 +65,7 @@ export type Database = {
       }
       artists: {
         Row: {
+          crawl_scope: string
           created_at: string | null
           followers: number | null
           genres: string[] | null
@@ -77,6 +81,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          crawl_scope?: string
           created_at?: string | null
           followers?: number | null
           genres?: string[] | null
@@ -92,6 +97,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          crawl_scope?: string
           created_at?: string | null
           followers?: number | null
           genres?: string[] | null
@@ -637,28 +643,136 @@ export type Database = {
         }
         Relationships: []
       }
+      track_credits: {
+        Row: {
+          confidence: number
+          created_at: string | null
+          credited_as: string | null
+          evidence: Json
+          id: string
+          producer_id: string
+          role: string
+          source: string
+          track_id: string
+          updated_at: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string | null
+          credited_as?: string | null
+          evidence?: Json
+          id?: string
+          producer_id: string
+          role?: string
+          source: string
+          track_id: string
+          updated_at?: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string | null
+          credited_as?: string | null
+          evidence?: Json
+          id?: string
+          producer_id?: string
+          role?: string
+          source?: string
+          track_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_producers_producer_id_fkey"
+            columns: ["producer_id"]
+            isOneToOne: false
+            referencedRelation: "producers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "track_producers_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      track_performers: {
+        Row: {
+          artist_id: string | null
+          created_at: string
+          id: number
+          name: string
+          position: number | null
+          role: string
+          spotify_artist_id: string | null
+          track_id: string
+        }
+        Insert: {
+          artist_id?: string | null
+          created_at?: string
+          id?: number
+          name: string
+          position?: number | null
+          role?: string
+          spotify_artist_id?: string | null
+          track_id: string
+        }
+        Update: {
+          artist_id?: string | null
+          created_at?: string
+          id?: number
+          name?: string
+          position?: number | null
+          role?: string
+          spotify_artist_id?: string | null
+          track_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_performers_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "track_performers_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       track_producers: {
         Row: {
           confidence: number
           created_at: string | null
+          credited_as: string | null
           id: string
           producer_id: string
+          role: string
           source: string
           track_id: string
         }
         Insert: {
           confidence: number
           created_at?: string | null
+          credited_as?: string | null
           id?: string
           producer_id: string
+          role?: string
           source: string
           track_id: string
         }
         Update: {
           confidence?: number
           created_at?: string | null
+          credited_as?: string | null
           id?: string
           producer_id?: string
+          role?: string
           source?: string
           track_id?: string
         }
@@ -698,10 +812,13 @@ export type Database = {
           album_id: string
           created_at: string | null
           duration_ms: number | null
+          genius_match_score: number | null
+          genius_song_id: number | null
           id: string
           metadata: Json | null
           name: string
           popularity: number | null
+          relationship: string
           spotify_id: string | null
           spotify_preview_url: string | null
           updated_at: string | null
@@ -710,10 +827,13 @@ export type Database = {
           album_id: string
           created_at?: string | null
           duration_ms?: number | null
+          genius_match_score?: number | null
+          genius_song_id?: number | null
           id?: string
           metadata?: Json | null
           name: string
           popularity?: number | null
+          relationship?: string
           spotify_id?: string | null
           spotify_preview_url?: string | null
           updated_at?: string | null
@@ -722,10 +842,13 @@ export type Database = {
           album_id?: string
           created_at?: string | null
           duration_ms?: number | null
+          genius_match_score?: number | null
+          genius_song_id?: number | null
           id?: string
           metadata?: Json | null
           name?: string
           popularity?: number | null
+          relationship?: string
           spotify_id?: string | null
           spotify_preview_url?: string | null
           updated_at?: string | null
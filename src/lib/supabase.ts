@@ -1,6 +1,6 @@
 
 import { supabase } from "@/integrations/supabase/client";
-import { Artists, Albums, Tracks, Producers, TrackProducers, QueryResult, QueryListResult } from "./supabaseTypes";
+import { Artists, Albums, Tracks, Producers, TrackProducers, TrackCredits, CreditRole, ProducerTrack, QueryResult, QueryListResult } from "./supabaseTypes";
 
 // Generic fetch function for single items
 export async function fetchOne<T>(
@@ -91,13 +91,15 @@ export async function searchAcross(
 
 // Export all the types for use in the app
 // Using "export type" to fix the isolatedModules errors
-export type { Artists, Albums, Tracks, Producers, TrackProducers };
+export type { Artists, Albums, Tracks, Producers, TrackProducers, TrackCredits, CreditRole, ProducerTrack };
 
 // Producer-specific functions
 export async function fetchProducer(id: string): Promise<QueryResult<Producers>> {
   return fetchOne<Producers>('producers', id);
 }
 
+// Tracks a producer is credited on, once per track with every role they had on it.
+// Pages count tracks, not credits. filters.role limits the credits to one role or a list of roles.
 export async function fetchProducerTracks(
   producerId: string,
   options?: {
@@ -108,71 +110,80 @@ export async function fetchProducerTracks(
       year?: number;
       artistId?: string;
       albumId?: string;
+      role?: CreditRole | CreditRole[];
     };
   }
-): Promise<QueryListResult<any>> {
+): Promise<QueryListResult<ProducerTrack>> {
   const { page = 1, pageSize = 25, orderBy, filters } = options || {};
   const start = (page - 1) * pageSize;
   const end = start + pageSize - 1;
 
+  // Inner joins keep only the tracks whose album and credits match the filters.
+  // tracks and albums each carry two identical foreign keys, so embeds name one.
   let query = supabase
-    .from('track_producers')
+    .from('tracks')
     .select(`
       *,
-      tracks:track_id (
+      albums!tracks_album_id_fkey!inner (
         *,
-        albums:album_id (
-          *,
-          artists:artist_id (*)
-        )
+        artists!albums_artist_id_fkey (*)
+      ),
+      track_credits!track_producers_track_id_fkey!inner (
+        producer_id,
+        role
       )
     `)
-    .eq('producer_id', producerId);
+    .eq('track_credits.producer_id', producerId);
 
   // Apply filters
   if (filters) {
     if (filters.year) {
-      // Filter by release year - requires a join to tracks and albums
-      query = query.gte('tracks.albums.release_date', `${filters.year}-01-01`)
-        .lt('tracks.albums.release_date', `${filters.year + 1}-01-01`);
+      query = query.gte('albums.release_date', `${filters.year}-01-01`)
+        .lt('albums.release_date', `${filters.year + 1}-01-01`);
     }
 
     if (filters.artistId) {
-      query = query.eq('tracks.albums.artist_id', filters.artistId);
+      query = query.eq('albums.artist_id', filters.artistId);
     }
 
     if (filters.albumId) {
-      query = query.eq('tracks.album_id', filters.albumId);
+      query = query.eq('album_id', filters.albumId);
     }
-  }
 
-  // Apply ordering
-  if (orderBy) {
-    if (orderBy.column.includes('.')) {
-      // Handle ordering on nested fields
-      const [table, column] = orderBy.column.split('.');
-      query = query.order(`${table}:${column}`, { 
-        ascending: orderBy.ascending ?? false,
-        foreignTable: table
-      });
-    } else {
-      query = query.order(orderBy.column, { 
-        ascending: orderBy.ascending ?? false 
-      });
+    if (Array.isArray(filters.role)) {
+      query = query.in('track_credits.role', filters.role);
+    } else if (filters.role) {
+      query = query.eq('track_credits.role', filters.role);
     }
-  } else {
-    // Default order by release date
-    query = query.order('tracks.albums.release_date', { 
-      ascending: false,
-      foreignTable: 'tracks.albums'
-    });
   }
 
+  // Columns are named from the row's tracks field, e.g. 'tracks.albums.release_date'.
+  // Tracks are ordered by a related column as albums(release_date).
+  const [column, ...related] = (orderBy?.column ?? 'tracks.albums.release_date')
+    .replace(/^tracks\./, '')
+    .split('.')
+    .reverse();
+  const orderColumn = related.reduce((inner, table) => `${table}(${inner})`, column);
+
+  query = query
+    .order(orderColumn, { ascending: orderBy?.ascending ?? false })
+    .order('id');
+
   // Apply pagination
   query = query.range(start, end);
 
   const { data, error } = await query;
-  return { data, error: error as Error };
+
+  // The track_credits embed holds just this producer's (role-filtered) credits
+  const tracks = (data || []).map(({ track_credits, ...track }): ProducerTrack => ({
+    id: track.id,
+    track_id: track.id,
+    producer_id: producerId,
+    roles: track_credits.map(credit => credit.role as CreditRole),
+    tracks: track
+  }));
+
+  return { data: data ? tracks : null, error: error as Error };
 }
 
 // Artist-specific functions
@@ -9,6 +9,32 @@ export type Albums = Tables<'albums'>;
 export type Tracks = Tables<'tracks'>;
 export type Producers = Tables<'producers'>;
 export type TrackProducers = Tables<'track_producers'>;
+export type TrackCredits = Tables<'track_credits'>;
+export type TrackPerformers = Tables<'track_performers'>;
+
+// Roles of track_credits rows; 'collaborator' rows are Spotify co-artists
+// left over until maintenance moves them to track_performers
+export type CreditRole =
+  | 'producer'
+  | 'co_producer'
+  | 'additional_producer'
+  | 'writer'
+  | 'mixing_engineer'
+  | 'mastering_engineer'
+  | 'recording_engineer'
+  | 'programmer'
+  | 'collaborator';
+
+// A track a producer is credited on, with every role they had on it
+export type ProducerTrack = {
+  id: string;
+  track_id: string;
+  producer_id: string;
+  roles: CreditRole[];
+  tracks: Tracks & {
+    albums: (Albums & { artists: Artists | null }) | null;
+  };
+};
 
 // Define return types for our queries
 export interface QueryResult<T> {
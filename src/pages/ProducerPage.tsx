@@ -50,7 +50,7 @@ export default function ProducerPage() {
   
   // Extract unique artists from tracks
   const artistsMap = new Map();
-  tracks.forEach((trackProducer: any) => {
+  tracks.forEach((trackProducer) => {
     const track = trackProducer.tracks;
     if (track?.albums?.artists) {
       const artist = track.albums.artists;
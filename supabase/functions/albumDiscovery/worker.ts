@@ -0,0 +1,508 @@
+
+import { PageWorker, WorkerDependencies } from "../lib/pageWorker.ts";
+import { NotFoundError, ValidationError } from "../lib/errors.ts";
+import { getArtistAlbums, getSeveralAlbums, wait } from "../lib/spotifyClient.ts";
+import { logger } from "../lib/logger.ts";
+import { startPipelineRun } from "../lib/pipelineRuns.ts";
+import { laneQueues } from "../lib/priorityLanes.ts";
+import { AlbumRelationship, CrawlScope, albumRelationship, parseCrawlScope, releaseGroupsForScope, trackDiscoveryDedupKey } from "../lib/crawlScope.ts";
+import { validate as uuidValidate } from "https://deno.land/std@0.178.0/uuid/mod.ts";
+
+export interface AlbumDiscoveryMsg {
+  artistId: string;
+  offset: number;
+  // 'refresh' only looks for releases at or after sinceReleaseDate, one release group at a time
+  mode?: 'full' | 'refresh';
+  includeGroup?: string;
+  sinceReleaseDate?: string | null;
+  crawlScope?: CrawlScope; // Overrides the artist's crawl_scope
+  pipelineRunId?: string;
+}
+
+interface ArtistRecord {
+  id: string;
+  crawlScope: CrawlScope;
+}
+
+interface SpotifyAlbumImages {
+  id: string;
+  images?: Array<{ url: string; height: number | null; width: number | null }>;
+}
+
+// Artists queued per scheduled refresh, override with ARTIST_REFRESH_BATCH_SIZE
+const REFRESH_BATCH_SIZE = Number(Deno.env.get('ARTIST_REFRESH_BATCH_SIZE') || '50');
+
+export class AlbumDiscoveryWorker extends PageWorker<AlbumDiscoveryMsg> {
+  private workerLogger = logger.child({ worker: 'AlbumDiscoveryWorker' });
+  
+  constructor(deps: WorkerDependencies = {}) {
+    // Read two messages per run
+    super('album_discovery', 120, { batchSize: 2 }, deps);
+  }
+
+  /**
+   * Validates if the string is a valid UUID
+   */
+  private isValidUuid(id: string): boolean {
+    return uuidValidate(id);
+  }
+
+  private formatReleaseDate(spotifyReleaseDate: string): string | null {
+    if (!spotifyReleaseDate) return null;
+    
+    if (/^\d{4}$/.test(spotifyReleaseDate)) {
+      return `${spotifyReleaseDate}-01-01`;
+    } else if (/^\d{4}-\d{2}$/.test(spotifyReleaseDate)) {
+      return `${spotifyReleaseDate}-01`;
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(spotifyReleaseDate)) {
+      return spotifyReleaseDate;
+    }
+    
+    this.workerLogger.warn(`Unrecognized release date format: ${spotifyReleaseDate}`);
+    return null;
+  }
+
+  /**
+   * Spotify ids of the given albums that are already in the database
+   */
+  private async existingAlbumIds(spotifyIds: string[]): Promise<Set<string>> {
+    if (spotifyIds.length === 0) return new Set();
+
+    const { data, error } = await this.supabase
+      .from('albums')
+      .select('spotify_id')
+      .in('spotify_id', spotifyIds);
+
+    if (error) {
+      this.workerLogger.error(`Error checking album existence for ${spotifyIds.length} albums:`, error);
+      return new Set(); // Assume none exist on error
+    }
+
+    return new Set((data || []).map(album => album.spotify_id));
+  }
+
+  /**
+   * Safely retrieves an album ID given a Spotify ID, handling potential conflicts
+   * @param spotifyId The Spotify album ID
+   * @param albumName Album name for logging
+   * @returns The database UUID of the album (existing or newly inserted)
+   */
+  private async getOrUpsertAlbum(
+    album: any,
+    artist: ArtistRecord,
+    relationship: AlbumRelationship,
+    coverUrl: string | null,
+    formattedReleaseDate: string | null
+  ): Promise<string | null> {
+    try {
+      // A guest appearance doesn't take over an album already stored for its own artist
+      if (relationship !== 'primary') {
+        const { data: existingAlbum } = await this.supabase
+          .from('albums')
+          .select('id')
+          .eq('spotify_id', album.id)
+          .maybeSingle();
+
+        if (existingAlbum && this.isValidUuid(existingAlbum.id)) {
+          return existingAlbum.id;
+        }
+      }
+
+      // Use upsert with onConflict to handle duplicate spotify_id values
+      const { data: insertedAlbum, error: upsertError } = await this.supabase
+        .from('albums')
+        .upsert({
+          spotify_id: album.id,
+          artist_id: artist.id,
+          name: album.name,
+          release_date: formattedReleaseDate,
+          cover_url: coverUrl, // Store the cover URL
+          relationship,
+          metadata: {
+            source: 'spotify',
+            type: album.album_type,
+            total_tracks: album.total_tracks,
+            images: album.images, // Store all images in metadata
+            discovery_timestamp: new Date().toISOString()
+          }
+        }, {
+          onConflict: 'spotify_id', // Add onConflict option to handle duplicates
+          ignoreDuplicates: false // Update existing records
+        })
+        .select('id, spotify_id')
+        .single();
+
+      if (upsertError) {
+        // Check if this is a unique constraint violation (code 23505)
+        if (upsertError.code === '23505') {
+          this.workerLogger.info(`Conflict on album ${album.name}, fetching existing ID`);
+          
+          // Fetch the existing album record instead of failing
+          const { data: existingAlbum, error: fetchError } = await this.supabase
+            .from('albums')
+            .select('id')
+            .eq('spotify_id', album.id)
+            .single();
+            
+          if (fetchError) {
+            this.workerLogger.error(`Error fetching existing album ${album.name} after conflict:`, fetchError);
+            return null;
+          }
+          
+          if (!existingAlbum || !this.isValidUuid(existingAlbum.id)) {
+            this.workerLogger.warn(`Invalid or missing album UUID for ${album.name} after conflict resolution`);
+            return null;
+          }
+          
+          this.workerLogger.info(`Resolved duplicate album ${album.name} (${album.id}), using UUID ${existingAlbum.id}`);
+          return existingAlbum.id;
+        } else {
+          // For other types of errors, log and return null
+          this.workerLogger.error(`Error upserting album ${album.name}:`, upsertError);
+          return null;
+        }
+      }
+      
+      this.workerLogger.info(`Upserted album record: ${album.name} (${album.id}) with UUID ${insertedAlbum.id}`);
+      
+      if (!insertedAlbum || !this.isValidUuid(insertedAlbum.id)) {
+        this.workerLogger.warn(`Invalid or missing album UUID for ${album.name}, skipping track discovery`);
+        return null;
+      }
+      
+      return insertedAlbum.id;
+    } catch (error) {
+      this.workerLogger.error(`Unexpected error processing album ${album.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Look up the database record of an artist by Spotify ID
+   */
+  private async getArtistRecord(artistId: string): Promise<ArtistRecord> {
+    const { data: artist, error: artistError } = await this.supabase
+      .from('artists')
+      .select('id, crawl_scope')
+      .eq('spotify_id', artistId)
+      .single();
+
+    if (artistError) {
+      this.workerLogger.error(`Error finding artist ${artistId} in database:`, artistError);
+      throw artistError;
+    }
+
+    if (!artist) {
+      throw new NotFoundError(`Artist ${artistId} not found in database`);
+    }
+    
+    if (!this.isValidUuid(artist.id)) {
+      throw new ValidationError(`Invalid artist UUID format: ${artist.id}`);
+    }
+
+    return { id: artist.id, crawlScope: parseCrawlScope(artist.crawl_scope) };
+  }
+
+  /**
+   * Store a page of albums and enqueue track discovery for each.
+   * Returns the number of albums enqueued.
+   */
+  private async processAlbums(albums: any[], artist: ArtistRecord, artistId: string, scope: CrawlScope): Promise<number> {
+    let validAlbumsCount = 0;
+    
+    // Fetch full album details (for high-quality images) for the whole page in batches of 20
+    const fullAlbums = albums.length > 0
+      ? await getSeveralAlbums<SpotifyAlbumImages>(albums.map(album => album.id))
+      : new Map<string, SpotifyAlbumImages>();
+    
+    for (const album of albums) {
+      try {
+        const fullAlbumDetails = fullAlbums.get(album.id);
+        const images = fullAlbumDetails?.images || album.images || [];
+        const coverUrl = images[0]?.url || null;
+        
+        const formattedReleaseDate = this.formatReleaseDate(album.release_date);
+        const relationship = albumRelationship(album, artistId);
+        
+        // Use our new robust method to get or create the album
+        const albumUuid = await this.getOrUpsertAlbum(
+          { ...album, images },
+          artist,
+          relationship,
+          coverUrl,
+          formattedReleaseDate
+        );
+        
+        if (!albumUuid) {
+          this.workerLogger.warn(`Could not get or create album ${album.name}, skipping track discovery`);
+          continue;
+        }
+        
+        // Albums shared between artists are only sent to track discovery once;
+        // a guest appearance is looked at separately, for the guest's tracks
+        const msgId = await this.enqueueOnce('track_discovery', {
+          albumId: album.id,
+          albumUuid: albumUuid, // Send the database UUID along with the message
+          albumName: album.name,
+          artistId,
+          crawlScope: scope,
+          albumRelationship: relationship
+        }, trackDiscoveryDedupKey(album.id, artistId, relationship, 0));
+        
+        if (msgId === null) {
+          this.workerLogger.debug(`Track discovery for album ${album.name} is already queued, skipping`);
+          continue;
+        }
+        
+        this.workerLogger.info(`Enqueued track discovery for album: ${album.name}`);
+        validAlbumsCount++;
+      } catch (albumError) {
+        this.workerLogger.error(`Error processing album ${album.name}:`, albumError);
+      }
+    }
+
+    return validAlbumsCount;
+  }
+
+  /**
+   * Record that all of an artist's releases have been looked at
+   */
+  private async markCrawled(artistUuid: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('artists')
+      .update({ last_crawled_at: new Date().toISOString() })
+      .eq('id', artistUuid);
+
+    if (error) {
+      // The artist will just be refreshed again sooner than needed
+      this.workerLogger.error(`Error recording crawl time for artist ${artistUuid}:`, error);
+    }
+  }
+
+  protected async process(msg: AlbumDiscoveryMsg): Promise<void> {
+    if (msg.mode === 'refresh') {
+      return this.processRefresh(msg);
+    }
+
+    const { artistId, offset } = msg;
+    this.workerLogger.info(`Processing album discovery for artist ${artistId} with offset ${offset}`);
+    
+    try {
+      const artist = await this.getArtistRecord(artistId);
+      const scope = msg.crawlScope ? parseCrawlScope(msg.crawlScope) : artist.crawlScope;
+
+      const albums = await getArtistAlbums(artistId, offset, undefined, scope);
+      this.workerLogger.info(`Found ${albums.items.length} albums for artist ${artistId} in ${scope} scope`);
+
+      const validAlbumsCount = await this.processAlbums(albums.items, artist, artistId, scope);
+      
+      this.workerLogger.info(`Processed ${albums.items.length} albums, valid: ${validAlbumsCount}`);
+      
+      // Page by Spotify's page size, as items only keeps the releases in scope
+      if (albums.next) {
+        const newOffset = offset + albums.limit;
+        // Add a longer delay before enqueueing the next page to reduce overall throughput
+        await wait(3000); // Increased from 2000ms to 3000ms
+        await this.enqueueOnce('album_discovery', { artistId, offset: newOffset, crawlScope: msg.crawlScope }, `album_discovery:${artistId}:${newOffset}`);
+        this.workerLogger.info(`Enqueued next page of albums for artist ${artistId} with offset ${newOffset}`);
+      } else {
+        await this.markCrawled(artist.id);
+        this.workerLogger.info(`Finished processing all albums for artist ${artistId}`);
+      }
+    } catch (error) {
+      this.workerLogger.error(`Error in album discovery for artist ${artistId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Incremental crawl: walk each release group newest first and stop paging
+   * as soon as we reach releases older than the newest one we already have.
+   */
+  private async processRefresh(msg: AlbumDiscoveryMsg): Promise<void> {
+    const { artistId, offset, sinceReleaseDate = null } = msg;
+
+    try {
+      const artist = await this.getArtistRecord(artistId);
+      const scope = msg.crawlScope ? parseCrawlScope(msg.crawlScope) : artist.crawlScope;
+      const groups = releaseGroupsForScope(scope);
+      const includeGroup = msg.includeGroup || groups[0];
+      this.workerLogger.info(`Refreshing ${includeGroup} releases for artist ${artistId} since ${sinceReleaseDate || 'the beginning'} (offset ${offset})`);
+
+      const albums = await getArtistAlbums(artistId, offset, includeGroup, scope);
+
+      // Same-day releases are kept and filtered below by whether we already store them
+      const recent = albums.items.filter(album =>
+        !sinceReleaseDate || (this.formatReleaseDate(album.release_date) || '') >= sinceReleaseDate
+      );
+      const reachedKnownReleases = recent.length < albums.items.length;
+
+      const existing = await this.existingAlbumIds(recent.map(album => album.id));
+      const unknown = recent.filter(album => !existing.has(album.id));
+
+      const validAlbumsCount = await this.processAlbums(unknown, artist, artistId, scope);
+      this.workerLogger.info(`Found ${unknown.length} new ${includeGroup} releases for artist ${artistId}, enqueued: ${validAlbumsCount}`);
+
+      if (!reachedKnownReleases && albums.next) {
+        await wait(3000);
+        await this.enqueueOnce('album_discovery', {
+          artistId,
+          offset: offset + albums.limit,
+          mode: 'refresh',
+          includeGroup,
+          sinceReleaseDate,
+          crawlScope: msg.crawlScope
+        }, this.refreshDedupKey(artistId, includeGroup, offset + albums.limit, sinceReleaseDate));
+        return;
+      }
+
+      const nextGroup = groups[groups.indexOf(includeGroup) + 1];
+      if (nextGroup) {
+        await this.enqueueOnce('album_discovery', {
+          artistId,
+          offset: 0,
+          mode: 'refresh',
+          includeGroup: nextGroup,
+          sinceReleaseDate,
+          crawlScope: msg.crawlScope
+        }, this.refreshDedupKey(artistId, nextGroup, 0, sinceReleaseDate));
+        return;
+      }
+
+      await this.markCrawled(artist.id);
+      this.workerLogger.info(`Finished refreshing releases for artist ${artistId}`);
+    } catch (error) {
+      this.workerLogger.error(`Error refreshing albums for artist ${artistId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Queue a refresh crawl for artists whose last crawl is older than the
+   * cadence for their popularity (see artist_refresh_cadence)
+   */
+  async scheduleRefresh(limit = REFRESH_BATCH_SIZE): Promise<string[]> {
+    const { data: artists, error } = await this.supabase.rpc('claim_artists_for_refresh', { p_limit: limit });
+    if (error) throw error;
+
+    const queued: string[] = [];
+    for (const artist of artists || []) {
+      try {
+        await this.queueRefresh(artist.spotify_id, artist.name, artist.latest_release_date);
+        queued.push(artist.spotify_id);
+      } catch (queueError) {
+        // The claim expires and the artist is picked up again later
+        this.workerLogger.error(`Error queueing refresh for artist ${artist.spotify_id}:`, queueError);
+      }
+    }
+
+    this.workerLogger.info(`Queued refresh crawls for ${queued.length}/${artists?.length || 0} due artists`);
+    return queued;
+  }
+
+  /**
+   * Queue a refresh crawl for one artist now, regardless of its cadence
+   */
+  async refreshArtist(artistId: string): Promise<string> {
+    const { data: artist, error } = await this.supabase
+      .from('artists')
+      .select('id, name')
+      .eq('spotify_id', artistId)
+      .single();
+
+    if (error) throw error;
+
+    const { data: latest } = await this.supabase
+      .from('albums')
+      .select('release_date')
+      .eq('artist_id', artist.id)
+      .eq('relationship', 'primary')
+      .not('release_date', 'is', null)
+      .order('release_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    await this.supabase
+      .from('artists')
+      .update({ refresh_requested_at: new Date().toISOString() })
+      .eq('id', artist.id);
+
+    return this.queueRefresh(artistId, artist.name, latest?.release_date || null);
+  }
+
+  private async queueRefresh(artistId: string, artistName: string, sinceReleaseDate: string | null): Promise<string> {
+    const pipelineRunId = await startPipelineRun(this.supabase, {
+      artistSpotifyId: artistId,
+      artistName,
+      source: 'refresh',
+      metadata: { sinceReleaseDate }
+    });
+
+    await this.enqueue('album_discovery', {
+      artistId,
+      offset: 0,
+      mode: 'refresh',
+      sinceReleaseDate,
+      pipelineRunId
+    });
+
+    return pipelineRunId;
+  }
+
+  /**
+   * Dedup key of a refresh page; the cutoff is part of it so a later refresh
+   * of the same artist is not mistaken for a duplicate
+   */
+  private refreshDedupKey(artistId: string, includeGroup: string, offset: number, sinceReleaseDate: string | null): string {
+    return `album_discovery:refresh:${artistId}:${includeGroup}:${offset}:${sinceReleaseDate || 'all'}`;
+  }
+
+  async resetQueue(): Promise<void> {
+    try {
+      this.workerLogger.info("Resetting album_discovery queue...");
+      
+      for (const queue of laneQueues("album_discovery")) {
+        await this.supabase.rpc("pgmq_drop_and_recreate_queue", { queue_name: queue });
+      }
+      
+      this.workerLogger.info("Successfully reset album_discovery queue");
+      return;
+    } catch (error) {
+      this.workerLogger.error("Error resetting album_discovery queue:", error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Implement health check endpoint
+   */
+  async getHealthStatus(): Promise<object> {
+    try {
+      // Get queue statistics
+      const { data: queueStats, error } = await this.supabase.rpc(
+        'pgmq_read', 
+        { 
+          queue_name: 'album_discovery', 
+          visibility_timeout: 0,
+          batch_size: 1
+        }
+      );
+      
+      // Count pending messages
+      const pendingMessagesCount = queueStats?.length || 0;
+      
+      return {
+        status: 'healthy',
+        queue: 'album_discovery',
+        pendingMessages: pendingMessagesCount,
+        workerTimeout: 120,
+        deduplicationEnabled: true
+      };
+    } catch (e) {
+      return {
+        status: 'unhealthy',
+        error: e.message
+      };
+    }
+  }
+}
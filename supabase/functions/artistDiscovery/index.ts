@@ -1,228 +1,18 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { PageWorker } from "../lib/pageWorker.ts";
-import { getSpotifyArtistId, spotifyApi, wait, resetSpotifyCallCount, getSpotifyCallCount } from "../lib/spotifyClient.ts";
 import { logger } from "../lib/logger.ts";
-
-interface ArtistDiscoveryMsg {
-  artistId?: string;
-  artistName?: string;
-  metadata?: Record<string, any>;
-}
+import { InvocationRequest } from "../lib/pageWorker.ts";
+import { ArtistDiscoveryMsg, ArtistDiscoveryWorker } from "./worker.ts";
+import { traceRequests } from "../lib/tracing.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-class ArtistDiscoveryWorker extends PageWorker<ArtistDiscoveryMsg> {
-  private workerLogger = logger.child({ worker: 'ArtistDiscoveryWorker' });
-  // Track already processed artists to avoid duplication in the same session
-  private processedArtists = new Set<string>();
-
-  constructor() {
-    // Increase visibility timeout from 60 to 120 seconds
-    super('artist_discovery', 120);
-  }
-
-  protected async process(msg: ArtistDiscoveryMsg): Promise<void> {
-    // Reset call counter at the start
-    resetSpotifyCallCount();
-    
-    this.workerLogger.info(`Processing artist discovery message:`, msg);
-    
-    // Enhanced logging for input validation
-    if (!msg.artistId && !msg.artistName) {
-      const errorMsg = 'No artist ID or name provided';
-      this.workerLogger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-    
-    let artistId = msg.artistId;
-    
-    // Detailed logging for artist ID resolution
-    if (!artistId && msg.artistName) {
-      this.workerLogger.info(`Looking up artist ID for name: ${msg.artistName}`);
-      try {
-        artistId = await getSpotifyArtistId(msg.artistName);
-      } catch (error) {
-        this.workerLogger.error(`Failed to resolve artist ID for name ${msg.artistName}:`, error);
-        throw error;
-      }
-      
-      if (!artistId) {
-        const errorMsg = `Artist not found: ${msg.artistName}`;
-        this.workerLogger.error(errorMsg);
-        throw new Error(errorMsg);
-      }
-      
-      this.workerLogger.info(`Found artist ID: ${artistId} for name: ${msg.artistName}`);
-    }
-    
-    if (!artistId) {
-      const errorMsg = 'No artistId or artistName provided';
-      this.workerLogger.error(errorMsg);
-      throw new Error(errorMsg);
-    }
-    
-    // Check for duplicate processing
-    if (this.processedArtists.has(artistId)) {
-      this.workerLogger.info(`Skipping already processed artist ${artistId}`);
-      return;
-    }
-    this.processedArtists.add(artistId);
-
-    try {
-      // Add retry logic and timeout to the Spotify API call
-      let retries = 0;
-      const maxRetries = 3;
-      let artistDetails = null;
-      
-      while (retries <= maxRetries) {
-        try {
-          // Fetch additional artist details from Spotify with shorter timeout
-          artistDetails = await spotifyApi<any>(`artists/${artistId}`, { timeout: 25000 });
-          break;
-        } catch (error) {
-          retries++;
-          
-          if (error.status === 429 || retries > maxRetries) {
-            this.workerLogger.error(`Failed to fetch artist details after ${retries} attempts:`, error);
-            throw error;
-          }
-          
-          const delayMs = Math.pow(2, retries) * 1000; // Exponential backoff
-          this.workerLogger.warn(`Retrying artist details fetch, attempt ${retries}/${maxRetries}, waiting ${delayMs}ms`);
-          await wait(delayMs);
-        }
-      }
-      
-      if (!artistDetails) {
-        throw new Error(`Failed to fetch artist details for ${artistId} after ${maxRetries} attempts`);
-      }
-      
-      // Extract image URL from artist details
-      const imageUrl = artistDetails.images?.[0]?.url || null;
-      
-      // Check if artist already exists
-      const { data: existingArtist, error: selectError } = await this.supabase
-        .from('artists')
-        .select('id, metadata')
-        .eq('spotify_id', artistId)
-        .maybeSingle();
-
-      if (selectError && selectError.code !== 'PGRST116') {  // Not a "no rows" error
-        this.workerLogger.error('Database select error:', selectError);
-        throw selectError;
-      }
-
-      // Extract followers count properly, ensuring it's a number
-      let followersCount = null;
-      if (artistDetails.followers) {
-        if (typeof artistDetails.followers === 'number') {
-          followersCount = artistDetails.followers;
-        } else if (typeof artistDetails.followers === 'object' && artistDetails.followers !== null) {
-          followersCount = artistDetails.followers.total || null;
-        }
-      }
-
-      // Extract genres as an array
-      const genres = Array.isArray(artistDetails.genres) ? artistDetails.genres : [];
-
-      // Combine any incoming metadata with existing metadata
-      const combinedMetadata = { 
-        ...(existingArtist?.metadata || {}),
-        ...(msg.metadata || {}),
-        source: msg.metadata?.source || 'spotify',
-        images: artistDetails.images, // Store all images in metadata
-        discovery_timestamp: new Date().toISOString()
-      };
-
-      // Prepare artist update data
-      const artistUpdateData = {
-        spotify_id: artistId,
-        name: artistDetails.name || msg.artistName, // Prioritize Spotify's name but fallback to msg name
-        followers: followersCount,
-        popularity: artistDetails.popularity,
-        genres: genres,
-        image_url: imageUrl,
-        metadata: combinedMetadata
-      };
-
-      // For debugging purposes
-      this.workerLogger.debug('Artist data to insert/update:', artistUpdateData);
-
-      let insertOrUpdateResult;
-      if (!existingArtist) {
-        // Insert new artist
-        insertOrUpdateResult = await this.supabase
-          .from('artists')
-          .insert(artistUpdateData)
-          .select('id')
-          .single();
-      } else {
-        // Update existing artist
-        insertOrUpdateResult = await this.supabase
-          .from('artists')
-          .update(artistUpdateData)
-          .eq('spotify_id', artistId)
-          .select('id')
-          .single();
-      }
-
-      if (insertOrUpdateResult.error) {
-        this.workerLogger.error('Error inserting/updating artist:', insertOrUpdateResult.error);
-        throw insertOrUpdateResult.error;
-      }
-      
-      // Get the assigned ID of the artist
-      const artistDbId = insertOrUpdateResult.data.id;
-      this.workerLogger.info(`Created/Updated artist record: ${artistUpdateData.name} with ID: ${artistDbId}`);
-
-      // Add delay before queuing the next job
-      await wait(1000);
-      
-      // Queue album discovery with offset 0
-      await this.enqueue('album_discovery', { 
-        artistId,
-        offset: 0
-      });
-      
-      this.workerLogger.info(`Enqueued album discovery task for artist ${artistId}`);
-      
-      // Log the total API calls made for this artist
-      this.workerLogger.info(`Artist discovery for ${artistId} made ${getSpotifyCallCount()} Spotify calls`);
-      
-      // IMPORTANT: Update the seeding_artists record to mark as processed
-      if (msg.metadata?.source === 'seeder') {
-        try {
-          await this.supabase
-            .from('seeding_artists')
-            .update({ 
-              processed_at: new Date().toISOString(),
-              details: {
-                ...msg.metadata,
-                artistDbId
-              }
-            })
-            .eq('spotify_id', artistId);
-          
-          this.workerLogger.info(`Updated seeding_artists record for ${artistId}`);
-        } catch (error) {
-          this.workerLogger.error(`Failed to update seeding_artists record:`, error);
-          // Don't throw error here as the main processing succeeded
-        }
-      }
-    } catch (error) {
-      this.workerLogger.error(`Comprehensive error in artist discovery:`, error);
-      throw error;  // Re-throw to allow PageWorker to handle
-    }
-  }
-}
-
 const worker = new ArtistDiscoveryWorker();
 
-serve(async (req: Request) => {
+serve(traceRequests('artistDiscovery', async (req: Request) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -231,20 +21,27 @@ serve(async (req: Request) => {
     // Enhanced logging for function entry
     logger.info('Artist Discovery worker received request');
 
+    let body: ArtistDiscoveryMsg & InvocationRequest = {};
+    
     if (req.method === 'POST') {
       try {
-        const body = await req.json();
+        body = await req.json();
         
         if (body.artistId || body.artistName) {
-          await worker.enqueue('artist_discovery', {
+          const pipelineRunId = await worker.seed({
             artistId: body.artistId,
             artistName: body.artistName,
-            metadata: body.metadata || {}
+            metadata: body.metadata || {},
+            crawlScope: body.crawlScope,
+            pipelineRunId: body.pipelineRunId,
+            // Requests jump ahead of bulk work unless they ask for the low lane (e.g. the seeder)
+            priority: body.priority === 'low' ? 'low' : 'high'
           });
           
           return new Response(JSON.stringify({ 
             success: true, 
-            message: 'Artist discovery task enqueued' 
+            message: 'Artist discovery task enqueued',
+            pipelineRunId
           }), { 
             headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
           });
@@ -254,9 +51,9 @@ serve(async (req: Request) => {
       }
     }
     
-    await worker.run();
+    const stats = await worker.invoke(body);
     
-    return new Response(JSON.stringify({ success: true }), { 
+    return new Response(JSON.stringify({ success: true, stats }), { 
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     });
   } catch (error) {
@@ -270,4 +67,4 @@ serve(async (req: Request) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     });
   }
-});
+}));
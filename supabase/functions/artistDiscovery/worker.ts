@@ -0,0 +1,239 @@
+
+import { PageWorker, MessageContext, WorkerDependencies } from "../lib/pageWorker.ts";
+import { getSpotifyArtistId, spotifyApi, wait, resetSpotifyCallCount, getSpotifyCallCount } from "../lib/spotifyClient.ts";
+import { logger } from "../lib/logger.ts";
+import { startPipelineRun } from "../lib/pipelineRuns.ts";
+import { MessagePriority } from "../lib/priorityLanes.ts";
+import { abortableWait } from "../lib/cancellation.ts";
+import { ErrorCategory, NotFoundError, ValidationError, categorizeError, isRetryable } from "../lib/errors.ts";
+import { CrawlScope, parseCrawlScope } from "../lib/crawlScope.ts";
+
+export interface ArtistDiscoveryMsg {
+  artistId?: string;
+  artistName?: string;
+  metadata?: Record<string, any>;
+  crawlScope?: CrawlScope; // Stored on the artist for this and later crawls; unset keeps the artist's current scope
+  pipelineRunId?: string;
+  priority?: MessagePriority;
+}
+
+export class ArtistDiscoveryWorker extends PageWorker<ArtistDiscoveryMsg> {
+  private workerLogger = logger.child({ worker: 'ArtistDiscoveryWorker' });
+
+  constructor(deps: WorkerDependencies = {}) {
+    // Increase visibility timeout from 60 to 120 seconds
+    super('artist_discovery', 120, {}, deps);
+  }
+
+  protected async process(msg: ArtistDiscoveryMsg, ctx: MessageContext): Promise<void> {
+    // Reset call counter at the start
+    resetSpotifyCallCount();
+    
+    this.workerLogger.info(`Processing artist discovery message:`, msg);
+    
+    // Enhanced logging for input validation
+    if (!msg.artistId && !msg.artistName) {
+      const errorMsg = 'No artist ID or name provided';
+      this.workerLogger.error(errorMsg);
+      throw new ValidationError(errorMsg);
+    }
+    
+    const crawlScope = msg.crawlScope ? parseCrawlScope(msg.crawlScope) : undefined;
+    
+    let artistId = msg.artistId;
+    
+    // Detailed logging for artist ID resolution
+    if (!artistId && msg.artistName) {
+      this.workerLogger.info(`Looking up artist ID for name: ${msg.artistName}`);
+      try {
+        artistId = await getSpotifyArtistId(msg.artistName);
+      } catch (error) {
+        this.workerLogger.error(`Failed to resolve artist ID for name ${msg.artistName}:`, error);
+        throw error;
+      }
+      
+      if (!artistId) {
+        const errorMsg = `Artist not found: ${msg.artistName}`;
+        this.workerLogger.error(errorMsg);
+        throw new NotFoundError(errorMsg);
+      }
+      
+      this.workerLogger.info(`Found artist ID: ${artistId} for name: ${msg.artistName}`);
+    }
+    
+    if (!artistId) {
+      const errorMsg = 'No artistId or artistName provided';
+      this.workerLogger.error(errorMsg);
+      throw new ValidationError(errorMsg);
+    }
+
+    try {
+      // Add retry logic and timeout to the Spotify API call
+      let retries = 0;
+      const maxRetries = 3;
+      let artistDetails = null;
+      
+      while (retries <= maxRetries) {
+        try {
+          // Fetch additional artist details from Spotify with shorter timeout
+          artistDetails = await spotifyApi<any>(`artists/${artistId}`, { timeout: 25000, signal: ctx.signal });
+          break;
+        } catch (error) {
+          retries++;
+          
+          // spotifyApi already retried transient failures; rate limits and permanent errors end here
+          if (ctx.signal.aborted || categorizeError(error) === ErrorCategory.RATE_LIMIT || !isRetryable(error) || retries > maxRetries) {
+            this.workerLogger.error(`Failed to fetch artist details after ${retries} attempts:`, error);
+            throw error;
+          }
+          
+          const delayMs = Math.pow(2, retries) * 1000; // Exponential backoff
+          this.workerLogger.warn(`Retrying artist details fetch, attempt ${retries}/${maxRetries}, waiting ${delayMs}ms`);
+          await abortableWait(delayMs, ctx.signal);
+        }
+      }
+      
+      if (!artistDetails) {
+        throw new Error(`Failed to fetch artist details for ${artistId} after ${maxRetries} attempts`);
+      }
+      
+      // Extract image URL from artist details
+      const imageUrl = artistDetails.images?.[0]?.url || null;
+      
+      // Check if artist already exists
+      const { data: existingArtist, error: selectError } = await this.supabase
+        .from('artists')
+        .select('id, metadata')
+        .eq('spotify_id', artistId)
+        .maybeSingle();
+
+      if (selectError && selectError.code !== 'PGRST116') {  // Not a "no rows" error
+        this.workerLogger.error('Database select error:', selectError);
+        throw selectError;
+      }
+
+      // Extract followers count properly, ensuring it's a number
+      let followersCount = null;
+      if (artistDetails.followers) {
+        if (typeof artistDetails.followers === 'number') {
+          followersCount = artistDetails.followers;
+        } else if (typeof artistDetails.followers === 'object' && artistDetails.followers !== null) {
+          followersCount = artistDetails.followers.total || null;
+        }
+      }
+
+      // Extract genres as an array
+      const genres = Array.isArray(artistDetails.genres) ? artistDetails.genres : [];
+
+      // Combine any incoming metadata with existing metadata
+      const combinedMetadata = { 
+        ...(existingArtist?.metadata || {}),
+        ...(msg.metadata || {}),
+        source: msg.metadata?.source || 'spotify',
+        images: artistDetails.images, // Store all images in metadata
+        discovery_timestamp: new Date().toISOString()
+      };
+
+      // Prepare artist update data
+      const artistUpdateData = {
+        spotify_id: artistId,
+        name: artistDetails.name || msg.artistName, // Prioritize Spotify's name but fallback to msg name
+        followers: followersCount,
+        popularity: artistDetails.popularity,
+        genres: genres,
+        image_url: imageUrl,
+        metadata: combinedMetadata,
+        ...(crawlScope ? { crawl_scope: crawlScope } : {})
+      };
+
+      // For debugging purposes
+      this.workerLogger.debug('Artist data to insert/update:', artistUpdateData);
+
+      let insertOrUpdateResult;
+      if (!existingArtist) {
+        // Insert new artist
+        insertOrUpdateResult = await this.supabase
+          .from('artists')
+          .insert(artistUpdateData)
+          .select('id')
+          .single();
+      } else {
+        // Update existing artist
+        insertOrUpdateResult = await this.supabase
+          .from('artists')
+          .update(artistUpdateData)
+          .eq('spotify_id', artistId)
+          .select('id')
+          .single();
+      }
+
+      if (insertOrUpdateResult.error) {
+        this.workerLogger.error('Error inserting/updating artist:', insertOrUpdateResult.error);
+        throw insertOrUpdateResult.error;
+      }
+      
+      // Get the assigned ID of the artist
+      const artistDbId = insertOrUpdateResult.data.id;
+      this.workerLogger.info(`Created/Updated artist record: ${artistUpdateData.name} with ID: ${artistDbId}`);
+
+      // Add delay before queuing the next job
+      await wait(1000);
+      
+      // Queue album discovery with offset 0, once per artist within the dedup window
+      const msgId = await this.enqueueOnce('album_discovery', {
+        artistId,
+        offset: 0
+      }, `album_discovery:${artistId}:0`);
+      
+      if (msgId === null) {
+        this.workerLogger.info(`Album discovery for artist ${artistId} is already queued, skipping`);
+      } else {
+        this.workerLogger.info(`Enqueued album discovery task for artist ${artistId}`);
+      }
+      
+      // Log the total API calls made for this artist
+      this.workerLogger.info(`Artist discovery for ${artistId} made ${getSpotifyCallCount()} Spotify calls`);
+      
+      // IMPORTANT: Update the seeding_artists record to mark as processed
+      if (msg.metadata?.source === 'seeder') {
+        try {
+          await this.supabase
+            .from('seeding_artists')
+            .update({ 
+              processed_at: new Date().toISOString(),
+              details: {
+                ...msg.metadata,
+                artistDbId
+              }
+            })
+            .eq('spotify_id', artistId);
+          
+          this.workerLogger.info(`Updated seeding_artists record for ${artistId}`);
+        } catch (error) {
+          this.workerLogger.error(`Failed to update seeding_artists record:`, error);
+          // Don't throw error here as the main processing succeeded
+        }
+      }
+    } catch (error) {
+      this.workerLogger.error(`Comprehensive error in artist discovery:`, error);
+      throw error;  // Re-throw to allow PageWorker to handle
+    }
+  }
+
+  /**
+   * Start a pipeline run for a seed artist and enqueue its discovery.
+   * Callers may supply the run id so retried requests don't start a second run.
+   */
+  async seed(msg: ArtistDiscoveryMsg): Promise<string> {
+    const pipelineRunId = await startPipelineRun(this.supabase, {
+      id: msg.pipelineRunId,
+      artistSpotifyId: msg.artistId,
+      artistName: msg.artistName,
+      source: msg.metadata?.source || 'manual',
+      seedingJobId: msg.metadata?.seedingJobId
+    });
+
+    await this.enqueue('artist_discovery', { ...msg, pipelineRunId });
+    return pipelineRunId;
+  }
+}
@@ -1,9 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { Database } from '../types.ts';
-import { getSpotifyArtistId, spotifyApi } from "../lib/spotifyClient.ts";
+import { getSpotifyArtistId, spotifyApi, setSpotifyRateLimiter } from "../lib/spotifyClient.ts";
+import { RateLimiter } from "../lib/rateLimiter.ts";
 import { CircuitBreakerRegistry } from "../lib/circuitBreaker.ts";
-import { globalCache } from "../lib/cache.ts";
+import { globalCache, PostgresCacheStore } from "../lib/cache.ts";
+import { CrawlScope, parseCrawlScope } from "../lib/crawlScope.ts";
+import { traceRequests } from "../lib/tracing.ts";
 
 interface SeederConfig {
   markets: string[];          // e.g., ['US', 'GB', 'FR']
@@ -15,6 +18,7 @@ interface SeederConfig {
     end: number;
   };
   excludeArtists?: string[];
+  crawlScope?: CrawlScope;   // Catalog coverage of the seeded artists; unset keeps each artist's own scope
 }
 
 interface JobProgress {
@@ -119,7 +123,7 @@ async function searchArtists(market: string, genre: string, config: SeederConfig
         console.error(`Error searching artists: ${error}`);
         throw error;
       }
-    }, 3600000); // Cache for 1 hour
+    }, { namespace: 'spotify', ttlMs: 3600000 }); // Cache for 1 hour
   });
 }
 
@@ -158,14 +162,20 @@ async function processMarketGenreCombination(
 
         const retryCount = 3;
         let queueSuccess = false;
+        // Same run id on every attempt so a retried invoke doesn't start a second run
+        const pipelineRunId = crypto.randomUUID();
         
         for (let attempt = 0; attempt < retryCount; attempt++) {
           try {
             await supabase.functions.invoke('artistDiscovery', {
               body: { 
                 artistId: artist.id,
+                pipelineRunId,
+                priority: 'low',
+                crawlScope: config.crawlScope,
                 metadata: {
                   source: 'seeder',
+                  seedingJobId: jobId,
                   market,
                   genre,
                   followers: artist.followers?.total,
@@ -194,6 +204,7 @@ async function processMarketGenreCombination(
               market, 
               genre,
               name: artist.name,
+              pipeline_run_id: pipelineRunId,
               queued_at: new Date().toISOString()
             }
           });
@@ -283,7 +294,7 @@ async function completeJob(supabase: any, jobId: string, jobProgress: JobProgres
   }
 }
 
-serve(async (req) => {
+serve(traceRequests('artistSeeder', async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
@@ -291,6 +302,8 @@ serve(async (req) => {
   try {
     const startTime = Date.now();
     const supabase = initSupabaseClient();
+    globalCache.setPersistentStore(new PostgresCacheStore(supabase));
+    setSpotifyRateLimiter(new RateLimiter(supabase));
     
     const config: SeederConfig = await req.json();
     
@@ -303,6 +316,9 @@ serve(async (req) => {
     }
     
     config.excludeArtists = config.excludeArtists || [];
+    if (config.crawlScope) {
+      config.crawlScope = parseCrawlScope(config.crawlScope);
+    }
     
     const jobId = await initializeJob(supabase, config);
     console.log(`Started seeding job ${jobId}`);
@@ -399,4 +415,4 @@ serve(async (req) => {
       }
     );
   }
-});
+}));
@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { getCircuitEvents, listCircuits, transitionCircuit } from "../lib/circuitBreaker.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const adminLogger = logger.child({ operation: 'circuitBreakers' });
+
+const EVENT_BY_ACTION = {
+  'force-open': 'force_open',
+  'force-close': 'force_close',
+  tune: 'tune'
+} as const;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function optionalCount(value: unknown, min: number): number | null | undefined {
+  if (value === undefined || value === null) return null;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= min ? count : undefined;
+}
+
+/**
+ * Inspect and operate circuit breakers. Changes go through the same atomic
+ * transition as the breakers themselves and apply to every instance once its
+ * cached copy expires.
+ *
+ * GET [?name=circuit]                                          -> circuits and their recent events
+ * POST { action: 'force-open' | 'force-close', name, reason?, actor? }
+ *      (a forced-open circuit stays open until it is force-closed)
+ * POST { action: 'tune', name, failureThreshold?, resetTimeoutMs?, halfOpenSuccessThreshold?, reason?, actor? }
+ */
+serve(traceRequests('circuitBreakers', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    if (req.method === 'GET') {
+      const name = new URL(req.url).searchParams.get('name') || undefined;
+      const circuits = (await listCircuits(supabase)).filter(circuit => !name || circuit.name === name);
+      const events = await getCircuitEvents(supabase, name);
+
+      return jsonResponse({ success: true, circuits, events });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const name = String(body.name || '');
+
+    if (!name) {
+      return jsonResponse({ success: false, error: 'name is required' }, 400);
+    }
+
+    if (!(body.action in EVENT_BY_ACTION)) {
+      return jsonResponse({ success: false, error: "action must be one of: force-open, force-close, tune" }, 400);
+    }
+
+    const event = EVENT_BY_ACTION[body.action as keyof typeof EVENT_BY_ACTION];
+    const details: Record<string, unknown> = { reason: body.reason };
+
+    if (event === 'tune') {
+      const failureThreshold = optionalCount(body.failureThreshold, 1);
+      const resetTimeoutMs = optionalCount(body.resetTimeoutMs, 1000);
+      const halfOpenSuccessThreshold = optionalCount(body.halfOpenSuccessThreshold, 1);
+
+      if (failureThreshold === undefined || resetTimeoutMs === undefined || halfOpenSuccessThreshold === undefined) {
+        return jsonResponse({
+          success: false,
+          error: 'failureThreshold and halfOpenSuccessThreshold must be integers of at least 1 and resetTimeoutMs at least 1000'
+        }, 400);
+      }
+
+      // Omitted values keep the circuit's current setting
+      Object.assign(details, {
+        failure_threshold: failureThreshold ?? undefined,
+        reset_timeout_ms: resetTimeoutMs ?? undefined,
+        half_open_success_threshold: halfOpenSuccessThreshold ?? undefined
+      });
+    }
+
+    const circuit = await transitionCircuit(supabase, name, event, {
+      details,
+      actor: body.actor || 'circuitBreakers'
+    });
+
+    adminLogger.info(`Applied ${event} to circuit ${name}`, { state: circuit.state, actor: circuit.updated_by });
+
+    return jsonResponse({ success: true, circuit });
+  } catch (error) {
+    adminLogger.error('Circuit breaker admin error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
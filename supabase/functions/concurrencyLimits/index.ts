@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const limitsLogger = logger.child({ operation: 'concurrencyLimits' });
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Inspect and override the adaptive Spotify concurrency limits learned by the workers.
+ *
+ * GET                                   -> learned limit per endpoint pool, and the Spotify
+ *                                          credential and limit state each worker last reported
+ * POST { name, limit }                  -> set the limit workers start from next run
+ * POST { action: 'reset', name? }       -> forget learned limits (one or all)
+ */
+serve(traceRequests('concurrencyLimits', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+
+    if (body.action === 'reset') {
+      let query = supabase.from('adaptive_concurrency_limits').delete();
+      query = body.name ? query.eq('name', body.name) : query.neq('name', '');
+
+      const { error } = await query;
+      if (error) throw error;
+
+      limitsLogger.info(`Reset adaptive concurrency limits`, { name: body.name || 'all' });
+      return jsonResponse({ success: true, reset: body.name || 'all' });
+    }
+
+    if (body.name !== undefined || body.limit !== undefined) {
+      const limit = Number(body.limit);
+      if (!body.name || !Number.isFinite(limit) || limit < 1) {
+        return jsonResponse({ success: false, error: 'name and a limit of at least 1 are required' }, 400);
+      }
+
+      const { error } = await supabase
+        .from('adaptive_concurrency_limits')
+        .upsert({
+          name: body.name,
+          current_limit: limit,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'name' });
+
+      if (error) throw error;
+
+      limitsLogger.info(`Set ${body.name} concurrency limit to ${limit}`);
+      return jsonResponse({ success: true, name: body.name, limit });
+    }
+
+    const { data, error } = await supabase
+      .from('adaptive_concurrency_limits')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+
+    // Workers record their state after each run that processed messages (see PageWorker)
+    const { data: reports, error: reportsError } = await supabase
+      .from('queue_metrics')
+      .select('queue_name, processed_at, details')
+      .eq('status', 'spotify_status')
+      .order('processed_at', { ascending: false })
+      .limit(100);
+
+    if (reportsError) throw reportsError;
+
+    const workers: Record<string, unknown> = {};
+    for (const report of reports || []) {
+      workers[report.queue_name] ??= { reported_at: report.processed_at, ...report.details };
+    }
+
+    return jsonResponse({
+      success: true,
+      limits: (data || []).map(row => ({
+        ...row,
+        effective_limit: Math.floor(row.current_limit)
+      })),
+      workers
+    });
+  } catch (error) {
+    limitsLogger.error('Concurrency limits error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
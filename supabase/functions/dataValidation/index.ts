@@ -2,6 +2,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
 import { Database } from "../types.ts";
+import { traceRequests } from "../lib/tracing.ts";
 
 // Define types for validation
 interface ValidationResult {
@@ -28,7 +29,7 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req: Request) => {
+serve(traceRequests('dataValidation', async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -379,4 +380,4 @@ serve(async (req: Request) => {
       } 
     });
   }
-});
+}));
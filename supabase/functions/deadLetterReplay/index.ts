@@ -0,0 +1,329 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { recordPipelineEvent } from "../lib/pipelineRuns.ts";
+import { laneQueue } from "../lib/priorityLanes.ts";
+import { isPermanentCategory } from "../lib/errors.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Queues that dead letters may be replayed into
+const PIPELINE_QUEUES = [
+  'artist_discovery',
+  'album_discovery',
+  'track_discovery',
+  'producer_identification',
+  'social_enrichment'
+];
+
+const DEFAULT_LIST_LIMIT = 100;
+const MAX_REPLAY_BATCH = 500;
+
+interface ListRequest {
+  action: 'list';
+  queue?: string;
+  category?: string;
+  from?: string;
+  to?: string;
+  includeReplayed?: boolean;
+  limit?: number;
+}
+
+interface ReplayRequest {
+  action: 'replay';
+  ids?: number[];
+  queue?: string;
+  category?: string;
+  from?: string;
+  to?: string;
+  patch?: Record<string, unknown>;  // Also the only way to replay an item that failed with a permanent error
+  actor?: string;
+  reason?: string;
+  force?: boolean;  // Replay items that were already replayed
+  dryRun?: boolean;
+}
+
+type DeadLetterRow = Database['public']['Tables']['pgmq_dead_letter_items']['Row'];
+
+interface ReplayOutcome {
+  id: number;
+  queue_name: string;
+  status: 'replayed' | 'skipped' | 'failed';
+  new_msg_id?: number;
+  reason?: string;
+}
+
+const replayLogger = logger.child({ operation: 'deadLetterReplay' });
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * List dead letters filtered by queue, error category and failure date
+ */
+async function listDeadLetters(supabase: SupabaseClient<Database>, params: ListRequest) {
+  let query = supabase
+    .from('pgmq_dead_letter_items')
+    .select('*')
+    .order('failed_at', { ascending: false })
+    .limit(Math.min(params.limit || DEFAULT_LIST_LIMIT, MAX_REPLAY_BATCH));
+
+  if (params.queue) query = query.eq('queue_name', params.queue);
+  if (params.category) query = query.eq('details->>category', params.category);
+  if (params.from) query = query.gte('failed_at', params.from);
+  if (params.to) query = query.lte('failed_at', params.to);
+  if (!params.includeReplayed) query = query.is('replayed_at', null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return {
+    count: data?.length || 0,
+    items: data || []
+  };
+}
+
+/**
+ * Select the dead letters a replay request refers to: explicit ids, or a whole category
+ */
+async function selectForReplay(supabase: SupabaseClient<Database>, params: ReplayRequest): Promise<DeadLetterRow[]> {
+  if (params.ids && params.ids.length > 0) {
+    if (params.ids.length > MAX_REPLAY_BATCH) {
+      throw new Error(`Cannot replay more than ${MAX_REPLAY_BATCH} dead letters at once`);
+    }
+
+    const { data, error } = await supabase
+      .from('pgmq_dead_letter_items')
+      .select('*')
+      .in('id', params.ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  if (!params.category) {
+    throw new Error('Replay requires either ids or a category');
+  }
+
+  const { items } = await listDeadLetters(supabase, {
+    action: 'list',
+    queue: params.queue,
+    category: params.category,
+    from: params.from,
+    to: params.to,
+    includeReplayed: params.force,
+    limit: MAX_REPLAY_BATCH
+  });
+
+  return items;
+}
+
+/**
+ * Explain why a dead letter must not be replayed, or null if it may be
+ */
+function getReplayBlocker(item: DeadLetterRow, params: ReplayRequest): string | null {
+  if (!PIPELINE_QUEUES.includes(item.queue_name)) {
+    return `Unknown queue ${item.queue_name}`;
+  }
+
+  // The same message would fail the same way again; force doesn't change that
+  const category = item.details?.category || 'unknown';
+  const patched = Object.keys(params.patch || {}).length > 0;
+  if ((item.details?.permanent === true || isPermanentCategory(category)) && !patched) {
+    return `Message failed with a permanent ${category} error; replay it with a patch`;
+  }
+
+  if (item.replayed_at && !params.force) {
+    return `Already replayed at ${item.replayed_at}`;
+  }
+
+  return null;
+}
+
+/**
+ * Mark a dead letter as replayed unless another replay got to it first. The
+ * update only matches the row as it was read, so concurrent replays of one
+ * dead letter can't both send it.
+ */
+async function claimDeadLetter(
+  supabase: SupabaseClient<Database>,
+  item: DeadLetterRow,
+  actor: string,
+  replayedAt: string
+): Promise<boolean> {
+  let claim = supabase
+    .from('pgmq_dead_letter_items')
+    .update({
+      replayed_at: replayedAt,
+      replayed_by: actor,
+      replay_count: (item.replay_count || 0) + 1
+    })
+    .eq('id', item.id)
+    .eq('replay_count', item.replay_count || 0);
+
+  claim = item.replayed_at ? claim.eq('replayed_at', item.replayed_at) : claim.is('replayed_at', null);
+
+  const { data, error } = await claim.select('id');
+  if (error) throw error;
+
+  return (data?.length || 0) > 0;
+}
+
+/**
+ * Undo a claim whose message could not be sent, so the dead letter can be replayed again
+ */
+async function releaseDeadLetter(supabase: SupabaseClient<Database>, item: DeadLetterRow): Promise<void> {
+  const { error } = await supabase
+    .from('pgmq_dead_letter_items')
+    .update({
+      replayed_at: item.replayed_at,
+      replayed_by: item.replayed_by,
+      replay_count: item.replay_count || 0
+    })
+    .eq('id', item.id)
+    .eq('replay_count', (item.replay_count || 0) + 1);
+
+  if (error) {
+    replayLogger.error(`Failed to release the replay claim on dead letter ${item.id}`, error);
+  }
+}
+
+/**
+ * Send dead letters back to their original queue and record an audit trail
+ */
+async function replayDeadLetters(supabase: SupabaseClient<Database>, params: ReplayRequest) {
+  const actor = params.actor || 'unknown';
+  const items = await selectForReplay(supabase, params);
+  const outcomes: ReplayOutcome[] = [];
+
+  for (const item of items) {
+    const blocker = getReplayBlocker(item, params);
+    if (blocker) {
+      outcomes.push({ id: item.id, queue_name: item.queue_name, status: 'skipped', reason: blocker });
+      continue;
+    }
+
+    const message = params.patch ? { ...item.msg, ...params.patch } : item.msg;
+
+    if (params.dryRun) {
+      outcomes.push({ id: item.id, queue_name: item.queue_name, status: 'skipped', reason: 'dry run' });
+      continue;
+    }
+
+    const replayedAt = new Date().toISOString();
+    let claimed = false;
+
+    try {
+      claimed = await claimDeadLetter(supabase, item, actor, replayedAt);
+      if (!claimed) {
+        outcomes.push({ id: item.id, queue_name: item.queue_name, status: 'skipped', reason: 'Replayed concurrently by another request' });
+        continue;
+      }
+
+      // Reopen the pipeline run the message belonged to, before a consumer can process it
+      if (message?.pipelineRunId) {
+        await recordPipelineEvent(supabase, message.pipelineRunId, item.queue_name, 'enqueued');
+      }
+
+      // Back into the lane of the message's original priority
+      const { data: newMsgId, error: sendError } = await supabase.rpc('pgmq_send', {
+        queue_name: laneQueue(item.queue_name, message?.priority),
+        msg: message
+      });
+
+      if (sendError) {
+        if (message?.pipelineRunId) {
+          await recordPipelineEvent(supabase, message.pipelineRunId, item.queue_name, 'enqueued', -1);
+        }
+        throw sendError;
+      }
+
+      const { error: auditError } = await supabase
+        .from('dead_letter_replays')
+        .insert({
+          dead_letter_id: item.id,
+          queue_name: item.queue_name,
+          new_msg_id: newMsgId,
+          replayed_by: actor,
+          reason: params.reason || null,
+          patch: params.patch || null,
+          replayed_at: replayedAt
+        });
+
+      if (auditError) {
+        replayLogger.error(`Failed to write replay audit record for dead letter ${item.id}`, auditError);
+      }
+
+      outcomes.push({ id: item.id, queue_name: item.queue_name, status: 'replayed', new_msg_id: newMsgId });
+    } catch (error) {
+      if (claimed) {
+        await releaseDeadLetter(supabase, item);
+      }
+      replayLogger.error(`Failed to replay dead letter ${item.id}`, error);
+      outcomes.push({ id: item.id, queue_name: item.queue_name, status: 'failed', reason: error.message });
+    }
+  }
+
+  const summary = {
+    requested: items.length,
+    replayed: outcomes.filter(o => o.status === 'replayed').length,
+    skipped: outcomes.filter(o => o.status === 'skipped').length,
+    failed: outcomes.filter(o => o.status === 'failed').length
+  };
+
+  replayLogger.info(`Dead letter replay by ${actor} finished`, summary);
+
+  return { ...summary, dryRun: !!params.dryRun, outcomes };
+}
+
+serve(traceRequests('deadLetterReplay', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    if (req.method === 'GET') {
+      const url = new URL(req.url);
+      const result = await listDeadLetters(supabase, {
+        action: 'list',
+        queue: url.searchParams.get('queue') || undefined,
+        category: url.searchParams.get('category') || undefined,
+        from: url.searchParams.get('from') || undefined,
+        to: url.searchParams.get('to') || undefined,
+        includeReplayed: url.searchParams.get('includeReplayed') === 'true',
+        limit: Number(url.searchParams.get('limit')) || undefined
+      });
+
+      return jsonResponse({ success: true, ...result });
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    switch (body.action) {
+      case 'list':
+        return jsonResponse({ success: true, ...(await listDeadLetters(supabase, body as ListRequest)) });
+      case 'replay':
+        return jsonResponse({ success: true, ...(await replayDeadLetters(supabase, body as ReplayRequest)) });
+      default:
+        return jsonResponse({ success: false, error: `Unknown action: ${body.action}` }, 400);
+    }
+  } catch (error) {
+    replayLogger.error('Dead letter replay error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
@@ -0,0 +1,147 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { isMessagePriority, laneQueue } from "../lib/priorityLanes.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const adminLogger = logger.child({ operation: 'geniusMatchReviews' });
+
+const REVIEW_STATUSES = ['pending', 'accepted', 'rejected'];
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Review Genius matches the producer identification worker wasn't sure of.
+ * Accepting a match records the song on the track and requeues the track's
+ * message with it, so its credits are identified from that song.
+ *
+ * GET [?status=pending&limit=50]                             -> reviews, oldest first
+ * POST { action: 'accept', id, geniusSongId?, actor? }
+ *      (geniusSongId defaults to the best scored candidate)
+ * POST { action: 'reject', id, actor? }
+ */
+serve(traceRequests('geniusMatchReviews', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    if (req.method === 'GET') {
+      const params = new URL(req.url).searchParams;
+      const status = params.get('status') || 'pending';
+      const limit = Math.min(Math.max(Number(params.get('limit')) || 50, 1), 500);
+
+      if (!REVIEW_STATUSES.includes(status)) {
+        return jsonResponse({ success: false, error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` }, 400);
+      }
+
+      const { data: reviews, error } = await supabase
+        .from('genius_match_reviews')
+        .select('*')
+        .eq('status', status)
+        .order('created_at', { ascending: true })
+        .limit(limit);
+
+      if (error) throw error;
+
+      return jsonResponse({ success: true, reviews });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const id = Number(body.id);
+
+    if (!Number.isInteger(id)) {
+      return jsonResponse({ success: false, error: 'id is required' }, 400);
+    }
+
+    if (body.action !== 'accept' && body.action !== 'reject') {
+      return jsonResponse({ success: false, error: "action must be one of: accept, reject" }, 400);
+    }
+
+    const { data: review, error: reviewError } = await supabase
+      .from('genius_match_reviews')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (reviewError) throw reviewError;
+
+    if (!review) {
+      return jsonResponse({ success: false, error: `Review ${id} not found` }, 404);
+    }
+
+    if (review.status !== 'pending') {
+      return jsonResponse({ success: false, error: `Review ${id} is already ${review.status}` }, 400);
+    }
+
+    const actor = body.actor || 'geniusMatchReviews';
+    const reviewedAt = new Date().toISOString();
+
+    if (body.action === 'reject') {
+      const { error } = await supabase
+        .from('genius_match_reviews')
+        .update({ status: 'rejected', reviewed_by: actor, reviewed_at: reviewedAt })
+        .eq('id', id);
+
+      if (error) throw error;
+
+      adminLogger.info(`Rejected Genius match review ${id}`, { trackId: review.track_id, actor });
+
+      return jsonResponse({ success: true, id, status: 'rejected' });
+    }
+
+    const candidates = (review.candidates || []) as Array<{ songId?: number }>;
+    const geniusSongId = Number(body.geniusSongId ?? candidates[0]?.songId);
+
+    if (!Number.isInteger(geniusSongId) || geniusSongId <= 0) {
+      return jsonResponse({ success: false, error: 'geniusSongId is required when the review has no candidates' }, 400);
+    }
+
+    const { error: trackError } = await supabase
+      .from('tracks')
+      .update({ genius_song_id: geniusSongId, genius_match_score: 1 })
+      .eq('id', review.track_id);
+
+    if (trackError) throw trackError;
+
+    // Back into the lane of the message's original priority, with the chosen song
+    const message = { ...review.message, geniusSongId };
+    const { data: msgId, error: sendError } = await supabase.rpc('pgmq_send', {
+      queue_name: laneQueue('producer_identification', isMessagePriority(message.priority) ? message.priority : undefined),
+      msg: message
+    });
+
+    if (sendError) throw sendError;
+
+    const { error: updateError } = await supabase
+      .from('genius_match_reviews')
+      .update({ status: 'accepted', genius_song_id: geniusSongId, reviewed_by: actor, reviewed_at: reviewedAt })
+      .eq('id', id);
+
+    if (updateError) throw updateError;
+
+    adminLogger.info(`Accepted Genius song ${geniusSongId} for review ${id}`, { trackId: review.track_id, msgId, actor });
+
+    return jsonResponse({ success: true, id, status: 'accepted', geniusSongId, msgId });
+  } catch (error) {
+    adminLogger.error('Genius match review admin error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
@@ -0,0 +1,187 @@
+/**
+ * AIMD (additive increase, multiplicative decrease) concurrency controller.
+ *
+ * Each successful fast call raises the limit by increaseStep / limit, so the
+ * limit grows by about increaseStep per "window" of calls. A rate limit or a
+ * latency spike cuts it by decreaseFactor, at most once per decreaseCooldownMs
+ * so a burst of failures from the same window only counts once.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
+import { logger } from './logger.ts';
+
+export interface AdaptiveLimitConfig {
+  initialLimit: number;
+  minLimit: number;
+  maxLimit: number;
+  latencyThresholdMs: number; // Slower successful calls count as congestion
+  increaseStep: number;
+  decreaseFactor: number;
+  decreaseCooldownMs: number;
+}
+
+const DEFAULT_CONFIG: Omit<AdaptiveLimitConfig, 'initialLimit' | 'maxLimit'> = {
+  minLimit: 1,
+  latencyThresholdMs: 3000,
+  increaseStep: 1,
+  decreaseFactor: 0.5,
+  decreaseCooldownMs: 5000
+};
+
+export interface AdaptiveLimitState {
+  limit: number;
+  successes: number;
+  rateLimits: number;
+  slowCalls: number;
+  lastDecreaseAt: number | null;
+}
+
+const aimdLogger = logger.child({ component: 'AdaptiveConcurrency' });
+
+export class AdaptiveConcurrencyLimit {
+  private config: AdaptiveLimitConfig;
+  private state: AdaptiveLimitState;
+  private persistedLimit: number;
+
+  constructor(
+    readonly name: string,
+    config: Partial<AdaptiveLimitConfig> & Pick<AdaptiveLimitConfig, 'initialLimit' | 'maxLimit'>,
+    private onLimitChange: (limit: number) => void = () => {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.state = {
+      limit: this.config.initialLimit,
+      successes: 0,
+      rateLimits: 0,
+      slowCalls: 0,
+      lastDecreaseAt: null
+    };
+    this.persistedLimit = this.state.limit;
+  }
+
+  /**
+   * Current whole-number concurrency limit
+   */
+  get limit(): number {
+    return Math.floor(this.state.limit);
+  }
+
+  getState(): AdaptiveLimitState {
+    return { ...this.state };
+  }
+
+  recordSuccess(latencyMs: number): void {
+    if (latencyMs > this.config.latencyThresholdMs) {
+      this.state.slowCalls++;
+      this.decrease(`latency ${latencyMs}ms over ${this.config.latencyThresholdMs}ms`);
+      return;
+    }
+
+    this.state.successes++;
+    this.setLimit(this.state.limit + this.config.increaseStep / this.state.limit);
+  }
+
+  recordRateLimited(): void {
+    this.state.rateLimits++;
+    this.decrease('rate limited');
+  }
+
+  /**
+   * Start from a limit learned by a previous invocation
+   */
+  restore(limit: number): void {
+    this.persistedLimit = limit;
+    this.setLimit(limit);
+  }
+
+  /**
+   * Whether the limit moved since it was last restored or persisted
+   */
+  isDirty(): boolean {
+    return Math.abs(this.state.limit - this.persistedLimit) >= 0.01;
+  }
+
+  markPersisted(): void {
+    this.persistedLimit = this.state.limit;
+  }
+
+  private decrease(reason: string): void {
+    const now = Date.now();
+    if (this.state.lastDecreaseAt && now - this.state.lastDecreaseAt < this.config.decreaseCooldownMs) {
+      return;
+    }
+
+    this.state.lastDecreaseAt = now;
+    const previous = this.limit;
+    this.setLimit(this.state.limit * this.config.decreaseFactor);
+    aimdLogger.warn(`Lowering ${this.name} concurrency ${previous} -> ${this.limit} (${reason})`);
+  }
+
+  private setLimit(limit: number): void {
+    const previous = this.limit;
+    this.state.limit = Math.min(this.config.maxLimit, Math.max(this.config.minLimit, limit));
+
+    if (this.limit !== previous) {
+      this.onLimitChange(this.limit);
+    }
+  }
+}
+
+/**
+ * Load persisted limits into the given controllers (keyed by name)
+ */
+export async function loadAdaptiveLimits(
+  supabase: SupabaseClient<Database>,
+  limits: AdaptiveConcurrencyLimit[]
+): Promise<void> {
+  try {
+    const { data, error } = await supabase
+      .from('adaptive_concurrency_limits')
+      .select('name, current_limit')
+      .in('name', limits.map(l => l.name));
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      limits.find(l => l.name === row.name)?.restore(row.current_limit);
+    }
+  } catch (error) {
+    aimdLogger.error('Failed to load adaptive concurrency limits:', error);
+  }
+}
+
+/**
+ * Persist limits that changed so the next invocation starts from them
+ */
+export async function persistAdaptiveLimits(
+  supabase: SupabaseClient<Database>,
+  limits: AdaptiveConcurrencyLimit[]
+): Promise<void> {
+  const changed = limits.filter(l => l.isDirty());
+  if (changed.length === 0) return;
+
+  try {
+    const { error } = await supabase
+      .from('adaptive_concurrency_limits')
+      .upsert(changed.map(l => {
+        const state = l.getState();
+        return {
+          name: l.name,
+          current_limit: state.limit,
+          last_decrease_at: state.lastDecreaseAt ? new Date(state.lastDecreaseAt).toISOString() : null,
+          stats: {
+            successes: state.successes,
+            rate_limits: state.rateLimits,
+            slow_calls: state.slowCalls
+          },
+          updated_at: new Date().toISOString()
+        };
+      }), { onConflict: 'name' });
+
+    if (error) throw error;
+    changed.forEach(l => l.markPersisted());
+  } catch (error) {
+    aimdLogger.error('Failed to persist adaptive concurrency limits:', error);
+  }
+}
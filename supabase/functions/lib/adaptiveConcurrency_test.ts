@@ -0,0 +1,65 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { AdaptiveConcurrencyLimit, loadAdaptiveLimits, persistAdaptiveLimits } from './adaptiveConcurrency.ts';
+import { FakeSupabase } from './testing/fakeSupabase.ts';
+
+Deno.test('limit grows by about increaseStep per window of fast calls', () => {
+  const changes: number[] = [];
+  const aimd = new AdaptiveConcurrencyLimit('test', { initialLimit: 4, maxLimit: 10 }, limit => changes.push(limit));
+
+  for (let i = 0; i < 4; i++) aimd.recordSuccess(100);
+  assertEquals(aimd.limit, 4);
+  aimd.recordSuccess(100);
+  assertEquals(aimd.limit, 5);
+  assertEquals(changes, [5]);
+});
+
+Deno.test('limit never exceeds maxLimit', () => {
+  const aimd = new AdaptiveConcurrencyLimit('test', { initialLimit: 2, maxLimit: 3 });
+
+  for (let i = 0; i < 100; i++) aimd.recordSuccess(100);
+  assertEquals(aimd.limit, 3);
+});
+
+Deno.test('a rate limit halves the limit once per cooldown, down to minLimit', () => {
+  const aimd = new AdaptiveConcurrencyLimit('test', { initialLimit: 8, maxLimit: 10, minLimit: 3 });
+
+  aimd.recordRateLimited();
+  assertEquals(aimd.limit, 4);
+
+  // The rest of the burst falls within the cooldown
+  aimd.recordRateLimited();
+  aimd.recordRateLimited();
+  assertEquals(aimd.limit, 4);
+  assertEquals(aimd.getState().rateLimits, 3);
+
+  const cooledDown = new AdaptiveConcurrencyLimit('test', { initialLimit: 8, maxLimit: 10, minLimit: 3, decreaseCooldownMs: 0 });
+  cooledDown.recordRateLimited();
+  cooledDown.recordRateLimited();
+  assertEquals(cooledDown.limit, 3);
+});
+
+Deno.test('slow successful calls count as congestion', () => {
+  const aimd = new AdaptiveConcurrencyLimit('test', { initialLimit: 6, maxLimit: 10, latencyThresholdMs: 1000 });
+
+  aimd.recordSuccess(2500);
+  assertEquals(aimd.limit, 3);
+  assertEquals(aimd.getState().slowCalls, 1);
+  assertEquals(aimd.getState().successes, 0);
+});
+
+Deno.test('limits persist only when they moved, and restore in the next invocation', async () => {
+  const db = new FakeSupabase();
+  const aimd = new AdaptiveConcurrencyLimit('spotify-test', { initialLimit: 8, maxLimit: 10 });
+
+  await persistAdaptiveLimits(db.client, [aimd]);
+  assertEquals(db.table('adaptive_concurrency_limits').length, 0);
+
+  aimd.recordRateLimited();
+  await persistAdaptiveLimits(db.client, [aimd]);
+  assertEquals(db.table('adaptive_concurrency_limits').map(row => row.current_limit), [4]);
+
+  const next = new AdaptiveConcurrencyLimit('spotify-test', { initialLimit: 8, maxLimit: 10 });
+  await loadAdaptiveLimits(db.client, [next]);
+  assertEquals(next.limit, 4);
+  assertEquals(next.isDirty(), false);
+});
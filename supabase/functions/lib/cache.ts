@@ -1,18 +1,132 @@
 
-// Simple in-memory TTL cache for API responses with automatic cleanup
+// Two-level TTL cache for API responses: an in-memory LRU in front of an
+// optional persistent store (the api_cache table) shared by all function instances
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
 
 interface CacheEntry<T> {
   value: T;
   expires: number;
+  staleUntil: number; // Past expires, the entry may still be served while it is refreshed
   lastAccessed: number; // Track when entries are accessed for LRU eviction
+  etag?: string | null; // Validator of the upstream response, for conditional refreshes
+}
+
+// Namespaces group cache keys by upstream service for TTL configuration
+export type CacheNamespace = 'spotify' | 'genius' | 'instagram';
+
+export interface NamespaceConfig {
+  ttlMs: number; // How long entries are fresh
+  staleWhileRevalidateMs: number; // How long after expiry a stale entry is served while refetching
+  persist: boolean; // Whether entries are shared through the persistent store
+}
+
+// Defaults; override with CACHE_TTL_<NAMESPACE>_SECONDS and CACHE_STALE_<NAMESPACE>_SECONDS
+const NAMESPACE_DEFAULTS: Record<CacheNamespace, NamespaceConfig> = {
+  spotify: { ttlMs: 60 * 60 * 1000, staleWhileRevalidateMs: 24 * 60 * 60 * 1000, persist: true },
+  genius: { ttlMs: 24 * 60 * 60 * 1000, staleWhileRevalidateMs: 7 * 24 * 60 * 60 * 1000, persist: true },
+  instagram: { ttlMs: 24 * 60 * 60 * 1000, staleWhileRevalidateMs: 3 * 24 * 60 * 60 * 1000, persist: true }
+};
+
+// Read a duration in seconds from the environment, returning milliseconds
+function readDurationEnv(name: string): number | undefined {
+  const raw = Deno.env.get(name);
+  if (!raw) return undefined;
+
+  const seconds = Number(raw);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
+
+export function getNamespaceConfig(namespace: CacheNamespace): NamespaceConfig {
+  const defaults = NAMESPACE_DEFAULTS[namespace];
+  const suffix = namespace.toUpperCase();
+
+  return {
+    ...defaults,
+    ttlMs: readDurationEnv(`CACHE_TTL_${suffix}_SECONDS`) ?? defaults.ttlMs,
+    staleWhileRevalidateMs: readDurationEnv(`CACHE_STALE_${suffix}_SECONDS`) ?? defaults.staleWhileRevalidateMs
+  };
+}
+
+export interface GetOrFetchOptions {
+  namespace?: CacheNamespace; // Provides TTL, stale window and persistence defaults
+  ttlMs?: number; // Overrides the namespace TTL
+  fetchTimeoutMs?: number;
+}
+
+// Result of a conditional fetch: a new value, or confirmation that the cached one is current
+export type ConditionalFetchResult<T> = { value: T; etag?: string | null } | { notModified: true };
+
+// Fetches given the ETag of the cached value (null without one), e.g. to send as If-None-Match
+export type ConditionalFetchFn<T> = (etag: string | null) => Promise<ConditionalFetchResult<T>>;
+
+export interface PersistedCacheEntry {
+  value: unknown;
+  expiresAt: number;
+  staleUntil: number;
+  etag?: string | null;
+  source?: string;
+}
+
+// Second cache tier shared across function instances
+export interface PersistentCacheStore {
+  get(key: string): Promise<PersistedCacheEntry | null>;
+  set(key: string, entry: PersistedCacheEntry): Promise<void>;
+}
+
+// Persistent tier backed by the api_cache table
+export class PostgresCacheStore implements PersistentCacheStore {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  async get(key: string): Promise<PersistedCacheEntry | null> {
+    const { data, error } = await this.supabase
+      .from('api_cache')
+      .select('value, expires_at, stale_until, etag, source')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      value: data.value,
+      expiresAt: Date.parse(data.expires_at),
+      staleUntil: Date.parse(data.stale_until),
+      etag: data.etag,
+      source: data.source
+    };
+  }
+
+  async set(key: string, entry: PersistedCacheEntry): Promise<void> {
+    const { error } = await this.supabase
+      .from('api_cache')
+      .upsert({
+        key,
+        value: entry.value,
+        expires_at: new Date(entry.expiresAt).toISOString(),
+        stale_until: new Date(entry.staleUntil).toISOString(),
+        etag: entry.etag || null,
+        source: entry.source || 'unknown',
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'key' });
+
+    if (error) throw error;
+  }
 }
 
 export class MemoryCache {
   private cache: Map<string, CacheEntry<any>> = new Map();
+  private inflight: Map<string, Promise<unknown>> = new Map(); // Deduplicates concurrent fetches per key
+  private persistentStore: PersistentCacheStore | null = null;
   private maxEntries: number = 2000; // Default max entries
   private cleanupInterval: number | undefined;
   private hits: number = 0;
+  private persistentHits: number = 0;
+  private staleHits: number = 0;
   private misses: number = 0;
+  private conditionalRequests: number = 0; // Refreshes sent with the cached ETag
+  private notModified: number = 0; // Of those, answered with "not modified"
   
   constructor(options?: { maxEntries?: number; cleanupIntervalMs?: number }) {
     this.maxEntries = options?.maxEntries || 2000;
@@ -25,18 +139,45 @@ export class MemoryCache {
     }
   }
   
-  // Get a cached item or fetch it using the provided function
-  async getOrFetch<T>(
+  // Use a persistent store as the second tier for namespaces that persist
+  setPersistentStore(store: PersistentCacheStore | null): void {
+    this.persistentStore = store;
+  }
+  
+  // Get a cached item or fetch it using the provided function.
+  // Reads through memory, then the persistent store; stale entries within the
+  // namespace's stale window are returned immediately and refreshed in the background.
+  getOrFetch<T>(
     key: string, 
     fetchFn: () => Promise<T>, 
-    ttlMs: number = 60000, // Default 1min TTL
+    ttlOrOptions: number | GetOrFetchOptions = 60000, // Default 1min TTL
     fetchTimeout: number = 25000 // Add timeout parameter with 25s default
   ): Promise<T> {
+    const options: GetOrFetchOptions = typeof ttlOrOptions === 'number' ? { ttlMs: ttlOrOptions } : ttlOrOptions;
+    return this.read(key, async () => ({ value: await fetchFn() }), { ...options, fetchTimeoutMs: options.fetchTimeoutMs ?? fetchTimeout });
+  }
+  
+  // Like getOrFetch, but refreshes send the ETag of the cached value, even one
+  // past its stale window, and a "not modified" answer renews it for another TTL.
+  getOrFetchConditional<T>(key: string, fetchFn: ConditionalFetchFn<T>, options: GetOrFetchOptions = {}): Promise<T> {
+    return this.read(key, fetchFn, options);
+  }
+  
+  private async read<T>(key: string, fetchFn: ConditionalFetchFn<T>, options: GetOrFetchOptions): Promise<T> {
+    const config = options.namespace ? getNamespaceConfig(options.namespace) : null;
+    const ttlMs = options.ttlMs ?? config?.ttlMs ?? 60000;
+    const staleMs = config?.staleWhileRevalidateMs ?? 0;
+    const timeoutMs = options.fetchTimeoutMs ?? 25000;
+    const store = config?.persist ? this.persistentStore : null;
     const now = Date.now();
+    // Value and ETag to revalidate against, once found
+    let previous: { value: unknown; etag?: string | null } | null = null;
+    const refetch = () => this.fetchAndStore(key, fetchFn, previous, ttlMs, staleMs, timeoutMs, store, options.namespace);
     
-    // Check cache first
-    if (this.cache.has(key)) {
-      const entry = this.cache.get(key)!;
+    // Check memory first
+    const entry = this.cache.get(key);
+    if (entry) {
+      previous = entry;
       // Return if not expired
       if (now < entry.expires) {
         // Update access time and increment hits counter
@@ -44,28 +185,41 @@ export class MemoryCache {
         this.hits++;
         return entry.value as T;
       }
+      if (now < entry.staleUntil) {
+        entry.lastAccessed = now;
+        this.staleHits++;
+        this.revalidate(key, refetch);
+        return entry.value as T;
+      }
       // Remove expired entry
       this.cache.delete(key);
     }
     
-    this.misses++;
+    // Then the shared persistent tier
+    if (store) {
+      const persisted = await this.readPersistent(store, key);
+      if (persisted && now < persisted.staleUntil) {
+        previous = persisted;
+        this.setEntry(key, persisted.value, persisted.expiresAt, persisted.staleUntil, persisted.etag);
+        
+        if (now < persisted.expiresAt) {
+          this.persistentHits++;
+        } else {
+          this.staleHits++;
+          this.revalidate(key, refetch);
+        }
+        return persisted.value as T;
+      }
+      // Not yet pruned; its ETag may still save the download
+      if (persisted?.etag && !previous?.etag) {
+        previous = persisted;
+      }
+    }
     
-    // Fetch with timeout
-    const fetchPromise = fetchFn();
-    const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => reject(new Error(`Fetch timeout after ${fetchTimeout}ms for key: ${key}`)), fetchTimeout);
-    });
+    this.misses++;
     
     try {
-      // Race between the fetch and timeout
-      const result = await Promise.race([fetchPromise, timeoutPromise]);
-      
-      // Only store valid results in cache
-      if (result !== undefined && result !== null) {
-        this.set(key, result, ttlMs);
-      }
-      
-      return result;
+      return await refetch();
     } catch (error) {
       // Check if there's a stale value we can return as fallback
       const staleEntry = this.cache.get(key);
@@ -77,17 +231,110 @@ export class MemoryCache {
     }
   }
   
+  // Fetch with timeout and store the result in both tiers; concurrent callers share one fetch
+  private fetchAndStore<T>(
+    key: string,
+    fetchFn: ConditionalFetchFn<T>,
+    previous: { value: unknown; etag?: string | null } | null,
+    ttlMs: number,
+    staleMs: number,
+    timeoutMs: number,
+    store: PersistentCacheStore | null,
+    source?: string
+  ): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+    
+    const promise = (async () => {
+      let timeoutId: number | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error(`Fetch timeout after ${timeoutMs}ms for key: ${key}`)), timeoutMs);
+      });
+      
+      try {
+        // Race between the fetch and timeout
+        const etag = previous?.etag || null;
+        if (etag) this.conditionalRequests++;
+        const fetched = await Promise.race([fetchFn(etag), timeoutPromise]);
+        
+        let result: T;
+        let resultEtag: string | null | undefined;
+        if ('notModified' in fetched) {
+          if (!previous) throw new Error(`Fetch for key ${key} reported not modified without a cached value`);
+          this.notModified++;
+          result = previous.value as T;
+          resultEtag = etag;
+        } else {
+          result = fetched.value;
+          resultEtag = fetched.etag;
+        }
+        
+        // Only store valid results in cache
+        if (result !== undefined && result !== null) {
+          const expiresAt = Date.now() + ttlMs;
+          this.setEntry(key, result, expiresAt, expiresAt + staleMs, resultEtag);
+          
+          if (store) {
+            await this.writePersistent(store, key, { value: result, expiresAt, staleUntil: expiresAt + staleMs, etag: resultEtag, source });
+          }
+        }
+        
+        return result;
+      } finally {
+        clearTimeout(timeoutId);
+        this.inflight.delete(key);
+      }
+    })();
+    
+    this.inflight.set(key, promise);
+    return promise;
+  }
+  
+  // Refresh a stale entry without making the caller wait
+  private revalidate(key: string, refetch: () => Promise<unknown>): void {
+    if (this.inflight.has(key)) return;
+    
+    refetch().catch(error => {
+      console.warn(`Background revalidation failed for ${key}: ${error.message}`);
+    });
+  }
+  
+  // Persistent tier failures degrade to a cache miss rather than failing the caller
+  private async readPersistent(store: PersistentCacheStore, key: string): Promise<PersistedCacheEntry | null> {
+    try {
+      return await store.get(key);
+    } catch (error) {
+      console.warn(`Persistent cache read failed for ${key}: ${error.message}`);
+      return null;
+    }
+  }
+  
+  private async writePersistent(store: PersistentCacheStore, key: string, entry: PersistedCacheEntry): Promise<void> {
+    try {
+      await store.set(key, entry);
+    } catch (error) {
+      console.warn(`Persistent cache write failed for ${key}: ${error.message}`);
+    }
+  }
+  
   // Manual set to cache
-  set<T>(key: string, value: T, ttlMs: number = 60000): void {
+  set<T>(key: string, value: T, ttlMs: number = 60000, staleWhileRevalidateMs: number = 0): void {
+    const expires = Date.now() + ttlMs;
+    this.setEntry(key, value, expires, expires + staleWhileRevalidateMs);
+  }
+  
+  private setEntry<T>(key: string, value: T, expires: number, staleUntil: number, etag?: string | null): void {
     // If cache is at max capacity, remove oldest items before adding new one
-    if (this.cache.size >= this.maxEntries) {
+    if (this.cache.size >= this.maxEntries && !this.cache.has(key)) {
       this.removeOldestEntries(Math.ceil(this.maxEntries * 0.1)); // Remove 10% of oldest entries
     }
     
     this.cache.set(key, {
       value,
-      expires: Date.now() + ttlMs,
-      lastAccessed: Date.now()
+      expires,
+      staleUntil,
+      lastAccessed: Date.now(),
+      etag
     });
   }
   
@@ -97,7 +344,10 @@ export class MemoryCache {
     
     const entry = this.cache.get(key)!;
     if (Date.now() > entry.expires) {
-      this.cache.delete(key);
+      // Keep stale entries around for stale-while-revalidate
+      if (Date.now() > entry.staleUntil) {
+        this.cache.delete(key);
+      }
       return false;
     }
     
@@ -125,7 +375,11 @@ export class MemoryCache {
   clear(): void {
     this.cache.clear();
     this.hits = 0;
+    this.persistentHits = 0;
+    this.staleHits = 0;
     this.misses = 0;
+    this.conditionalRequests = 0;
+    this.notModified = 0;
   }
   
   // Get all keys matching a prefix
@@ -143,13 +397,13 @@ export class MemoryCache {
     return count;
   }
   
-  // Remove all expired entries
+  // Remove all entries past their stale window
   removeExpiredEntries(): number {
     const now = Date.now();
     let removed = 0;
     
     for (const [key, entry] of this.cache.entries()) {
-      if (now > entry.expires) {
+      if (now > entry.staleUntil) {
         this.cache.delete(key);
         removed++;
       }
@@ -175,20 +429,36 @@ export class MemoryCache {
     }
   }
   
+  // Conditional refresh counters alone, cheap enough to read around every message
+  getConditionalStats(): { conditionalRequests: number; notModified: number } {
+    return { conditionalRequests: this.conditionalRequests, notModified: this.notModified };
+  }
+  
   // Get cache statistics
   getStats(): {
     size: number;
     hits: number;
+    persistentHits: number;
+    staleHits: number;
     misses: number;
     hitRatio: number;
+    conditionalRequests: number;
+    notModified: number;
+    conditionalHitRatio: number; // Share of conditional refreshes that needed no download
     keyCount: number;
   } {
-    const totalAccesses = this.hits + this.misses;
+    const totalHits = this.hits + this.persistentHits + this.staleHits;
+    const totalAccesses = totalHits + this.misses;
     return {
       size: this.estimateCacheSize(),
       hits: this.hits,
+      persistentHits: this.persistentHits,
+      staleHits: this.staleHits,
       misses: this.misses,
-      hitRatio: totalAccesses > 0 ? this.hits / totalAccesses : 0,
+      hitRatio: totalAccesses > 0 ? totalHits / totalAccesses : 0,
+      conditionalRequests: this.conditionalRequests,
+      notModified: this.notModified,
+      conditionalHitRatio: this.conditionalRequests > 0 ? this.notModified / this.conditionalRequests : 0,
       keyCount: this.cache.size
     };
   }
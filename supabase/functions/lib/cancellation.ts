@@ -0,0 +1,94 @@
+/**
+ * Cancellation of in-flight work.
+ *
+ * PageWorker aborts the signal of a message that exceeds its processing
+ * timeout. Like the active span, the signal follows async execution, so
+ * HTTP clients, retries and database writes started while processing the
+ * message stop without every call site being handed the signal.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const activeSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run fn with signal as the abort signal of everything it starts
+ */
+export function withAbortSignal<T>(signal: AbortSignal, fn: () => Promise<T>): Promise<T> {
+  return activeSignal.run(signal, fn);
+}
+
+/**
+ * Get the abort signal of the code currently executing, if any
+ */
+export function getAbortSignal(): AbortSignal | undefined {
+  return activeSignal.getStore();
+}
+
+/**
+ * The error to surface for an aborted signal: its reason when that is an Error
+ * (e.g. the processing timeout), otherwise a standard AbortError
+ */
+export function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Throw if the given (or active) signal has been aborted
+ */
+export function throwIfAborted(signal: AbortSignal | null | undefined = getAbortSignal()): void {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Signal aborted as soon as any of the given signals is
+ */
+export function anySignal(...signals: Array<AbortSignal | null | undefined>): AbortSignal | undefined {
+  const present = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (present.length <= 1) {
+    return present[0];
+  }
+  return AbortSignal.any(present);
+}
+
+/**
+ * Wait for ms, rejecting early once the given (or active) signal is aborted
+ */
+export function abortableWait(ms: number, signal: AbortSignal | null | undefined = getAbortSignal()): Promise<void> {
+  if (!signal) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError(signal));
+    };
+    const timeoutId = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch that also honors the active signal, so requests made on behalf of an
+ * aborted message are never sent
+ */
+export function abortableFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const signal = anySignal(init?.signal, getAbortSignal());
+  if (signal?.aborted) {
+    return Promise.reject(abortError(signal));
+  }
+  return fetch(input, signal ? { ...init, signal } : init);
+}
@@ -1,6 +1,19 @@
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+/**
+ * Circuit breakers with their state in the circuit_breakers table.
+ *
+ * Every change goes through the circuit_breaker_transition function, which
+ * applies one event atomically (compare-and-set on the state the caller saw)
+ * and records each state change in circuit_breaker_events. Breakers only keep
+ * a short-lived cached copy of their row, so all instances and the admin API
+ * see the same state.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
 import { logger } from "./logger.ts";
-import { wait, getRetryDelayFromHeaders } from "./retry.ts";
+import { getRetryDelayFromHeaders } from "./retry.ts";
+import { getAbortSignal } from "./cancellation.ts";
+import { ErrorCategory, RateLimitError, TransientError, categorizeError } from "./errors.ts";
 
 export enum CircuitState {
   CLOSED = 'closed',   // Normal operation - requests go through
@@ -15,19 +28,254 @@ export interface CircuitBreakerOptions {
   halfOpenSuccessThreshold?: number; // How many successes in half-open before closing
 }
 
+/**
+ * Events accepted by circuit_breaker_transition
+ */
+export type CircuitEvent = 'register' | 'success' | 'failure' | 'probe' | 'force_open' | 'force_close' | 'tune';
+
+export type CircuitRecord = Database['public']['Tables']['circuit_breakers']['Row'];
+
+export type CircuitHistoryEntry = Database['public']['Tables']['circuit_breaker_events']['Insert'];
+
+/**
+ * Settings and context passed along with an event
+ */
+export interface CircuitEventDetails {
+  failure_threshold?: number;
+  reset_timeout_ms?: number;
+  half_open_success_threshold?: number;
+  retry_after_ms?: number; // Overrides reset_timeout_ms when opening, e.g. from Retry-After
+  reason?: string;
+}
+
+/**
+ * Thrown by fire() instead of calling an open circuit
+ */
+export class CircuitOpenError extends TransientError {
+  constructor(public circuitName: string, public retryAt: string | null) {
+    super(`Circuit ${circuitName} is open; failing fast until ${retryAt ?? 'an operator closes it'}`, {
+      retryAfterMs: retryAt ? Math.max(Date.parse(retryAt) - Date.now(), 0) : undefined
+    });
+  }
+}
+
+// How long a breaker trusts its cached copy of the circuit row
+const CACHE_TTL_MS = Number(Deno.env.get('CIRCUIT_BREAKER_CACHE_TTL_MS') || '5000');
+
+// Cap on Retry-After delays taken from responses
+const MAX_RETRY_AFTER_MS = 2 * 60 * 1000;
+
+// Per-instance circuits used only while the database is unreachable
+const localCircuits = new Map<string, CircuitRecord>();
+
+/**
+ * Same state machine as circuit_breaker_transition, applied to a copy of the row.
+ * Returns the circuit after the event and the history entry to record, if any.
+ */
+export function applyCircuitEvent(
+  current: CircuitRecord | undefined,
+  name: string,
+  event: CircuitEvent,
+  expectedState: CircuitState | null = null,
+  details: CircuitEventDetails = {},
+  actor: string | null = null,
+  now = Date.now()
+): { circuit: CircuitRecord; history: CircuitHistoryEntry | null } {
+  const old: CircuitRecord = current || {
+    name,
+    state: CircuitState.CLOSED,
+    failure_count: 0,
+    success_count: 0,
+    failure_threshold: details.failure_threshold ?? 5,
+    reset_timeout_ms: details.reset_timeout_ms ?? 30000,
+    half_open_success_threshold: details.half_open_success_threshold ?? 1,
+    last_failure_time: null,
+    last_state_change: new Date(now).toISOString(),
+    retry_at: null,
+    forced: false,
+    version: 0,
+    updated_by: null
+  };
+
+  if (expectedState && old.state !== expectedState) {
+    return { circuit: old, history: null };
+  }
+
+  const circuit = { ...old };
+  const retryAt = new Date(now + (details.retry_after_ms ?? circuit.reset_timeout_ms)).toISOString();
+
+  switch (event) {
+    case 'register':
+      break;
+    case 'success':
+      if (circuit.state === CircuitState.HALF_OPEN) {
+        circuit.success_count++;
+        if (circuit.success_count >= circuit.half_open_success_threshold) {
+          Object.assign(circuit, { state: CircuitState.CLOSED, failure_count: 0, success_count: 0, retry_at: null });
+        }
+      } else if (circuit.state === CircuitState.CLOSED) {
+        // The threshold counts consecutive failures
+        circuit.failure_count = 0;
+      }
+      break;
+    case 'failure':
+      circuit.last_failure_time = new Date(now).toISOString();
+      if (circuit.state === CircuitState.CLOSED) {
+        circuit.failure_count++;
+        if (circuit.failure_count >= circuit.failure_threshold) {
+          Object.assign(circuit, { state: CircuitState.OPEN, retry_at: retryAt });
+        }
+      } else if (circuit.state === CircuitState.HALF_OPEN) {
+        Object.assign(circuit, {
+          state: CircuitState.OPEN,
+          failure_count: circuit.failure_count + 1,
+          success_count: 0,
+          retry_at: retryAt
+        });
+      } else if (!circuit.forced && (!circuit.retry_at || circuit.retry_at < retryAt)) {
+        // Late failures of an open circuit can only push its retry time out
+        circuit.retry_at = retryAt;
+      }
+      break;
+    case 'probe':
+      if (circuit.state === CircuitState.OPEN && !circuit.forced && Date.parse(circuit.retry_at || '') <= now) {
+        Object.assign(circuit, { state: CircuitState.HALF_OPEN, success_count: 0 });
+      }
+      break;
+    case 'force_open':
+      Object.assign(circuit, { state: CircuitState.OPEN, forced: true, success_count: 0, retry_at: null });
+      break;
+    case 'force_close':
+      Object.assign(circuit, { state: CircuitState.CLOSED, forced: false, failure_count: 0, success_count: 0, retry_at: null });
+      break;
+    case 'tune':
+      circuit.failure_threshold = details.failure_threshold ?? circuit.failure_threshold;
+      circuit.reset_timeout_ms = details.reset_timeout_ms ?? circuit.reset_timeout_ms;
+      circuit.half_open_success_threshold = details.half_open_success_threshold ?? circuit.half_open_success_threshold;
+      break;
+    default:
+      throw new Error(`Unknown circuit breaker event ${event}`);
+  }
+
+  const changed = (Object.keys(circuit) as Array<keyof CircuitRecord>).some(key => circuit[key] !== old[key]);
+  if (!changed && current) {
+    return { circuit: old, history: null };
+  }
+
+  if (circuit.state !== old.state) {
+    circuit.last_state_change = new Date(now).toISOString();
+  }
+  circuit.version = old.version + 1;
+  circuit.updated_by = actor ?? old.updated_by;
+
+  // Every state change and every operator action is part of the history
+  const logged = circuit.state !== old.state || event === 'force_open' || event === 'force_close' || event === 'tune';
+  return {
+    circuit,
+    history: logged ? {
+      circuit_name: name,
+      old_state: old.state,
+      new_state: circuit.state,
+      failure_count: circuit.failure_count,
+      event,
+      actor,
+      details: {
+        reason: details.reason ?? null,
+        failure_threshold: circuit.failure_threshold,
+        reset_timeout_ms: circuit.reset_timeout_ms,
+        half_open_success_threshold: circuit.half_open_success_threshold,
+        retry_at: circuit.retry_at
+      }
+    } : null
+  };
+}
+
+/**
+ * Apply an event to a circuit in the database and return the circuit after it
+ */
+export async function transitionCircuit(
+  supabase: SupabaseClient<Database>,
+  name: string,
+  event: CircuitEvent,
+  options: { expectedState?: CircuitState; details?: CircuitEventDetails; actor?: string } = {}
+): Promise<CircuitRecord> {
+  const { data, error } = await supabase.rpc('circuit_breaker_transition', {
+    p_name: name,
+    p_event: event,
+    p_expected_state: options.expectedState ?? null,
+    p_details: { ...options.details },
+    p_actor: options.actor ?? null
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Every circuit known to the database, by name
+ */
+export async function listCircuits(supabase: SupabaseClient<Database>): Promise<CircuitRecord[]> {
+  const { data, error } = await supabase
+    .from('circuit_breakers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Most recent transitions, of one circuit or of all of them
+ */
+export async function getCircuitEvents(
+  supabase: SupabaseClient<Database>,
+  name?: string,
+  limit = 50
+): Promise<Database['public']['Tables']['circuit_breaker_events']['Row'][]> {
+  let query = supabase
+    .from('circuit_breaker_events')
+    .select('*');
+
+  if (name) {
+    query = query.eq('circuit_name', name);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Status shape reported by the registry and the maintenance job
+ */
+function circuitStatus(circuit: CircuitRecord): Record<string, unknown> {
+  return {
+    name: circuit.name,
+    state: circuit.state,
+    forced: circuit.forced,
+    failureCount: circuit.failure_count,
+    successCount: circuit.success_count,
+    failureThreshold: circuit.failure_threshold,
+    resetTimeoutMs: circuit.reset_timeout_ms,
+    halfOpenSuccessThreshold: circuit.half_open_success_threshold,
+    retryAt: circuit.retry_at,
+    lastFailureTime: circuit.last_failure_time,
+    lastStateChange: circuit.last_state_change,
+    timeInCurrentState: Date.now() - Date.parse(circuit.last_state_change)
+  };
+}
+
 export class CircuitBreaker {
-  private state: CircuitState = CircuitState.CLOSED;
-  private failureCount: number = 0;
-  private successCount: number = 0;
-  private lastFailureTime: number = 0;
-  private lastStateChange: number = Date.now();
   private options: CircuitBreakerOptions;
-  private supabase: any;
+  private supabase: SupabaseClient<Database> | null;
   private logger = logger.child({ component: 'CircuitBreaker' });
-  private lastRequestTime: number = 0;
-  private customResetTimeout: number | null = null;
-  
-  constructor(options: CircuitBreakerOptions, supabaseClient?: any) {
+  private cached: CircuitRecord | null = null;
+  private cachedAt = 0;
+
+  constructor(options: CircuitBreakerOptions, supabaseClient: SupabaseClient<Database> | null = null) {
     this.options = {
       failureThreshold: 5,
       resetTimeoutMs: 30000, // 30s default
@@ -35,353 +283,238 @@ export class CircuitBreaker {
       ...options
     };
     this.supabase = supabaseClient;
-    
-    // Auto-initialize from database if supabase client is provided
-    if (this.supabase) {
-      this.syncStateFromStorage().catch(err => {
-        this.logger.error(`Error initializing circuit breaker from database`, err);
-      });
-    }
   }
-  
+
+  /**
+   * Switch to another client, dropping the cached row read through the old one
+   */
+  useClient(supabaseClient: SupabaseClient<Database> | null): void {
+    this.supabase = supabaseClient;
+    this.cached = null;
+  }
+
   async fire<T>(action: () => Promise<T>): Promise<T> {
-    const startTime = Date.now();
-    const operationLogger = this.logger.child({ 
-      circuit: this.options.name, 
-      state: this.state 
-    });
-    
-    if (this.supabase) {
-      await this.syncStateFromStorage();
-    }
-    
-    if (this.state === CircuitState.OPEN) {
-      const now = Date.now();
-      // Use customResetTimeout if set (from Retry-After headers)
-      const resetTimeoutMs = this.customResetTimeout || this.options.resetTimeoutMs;
-      
-      if (now - this.lastFailureTime > resetTimeoutMs) {
-        await this.changeState(CircuitState.HALF_OPEN);
-        operationLogger.info(`Circuit ${this.options.name} entering half-open state`);
-      } else {
-        const remainingMs = this.lastFailureTime + resetTimeoutMs - now;
-        operationLogger.debug(`Circuit ${this.options.name} is open; failing fast`, { 
-          remainingMs,
-          resetAt: new Date(this.lastFailureTime + resetTimeoutMs).toISOString()
-        });
-        
-        throw new Error(`Circuit ${this.options.name} is open; failing fast until ${new Date(this.lastFailureTime + resetTimeoutMs).toISOString()}`);
+    let circuit = await this.read();
+
+    if (circuit.state === CircuitState.OPEN) {
+      // Only one instance wins the open -> half-open transition; the rest see its result
+      if (!circuit.forced && Date.parse(circuit.retry_at || '') <= Date.now()) {
+        circuit = await this.transition('probe', {}, CircuitState.OPEN);
       }
-    }
-    
-    // For HALF_OPEN state, ensure requests are properly spaced
-    if (this.state === CircuitState.HALF_OPEN) {
-      const now = Date.now();
-      const timeSinceLastRequest = now - this.lastRequestTime;
-      
-      // Only allow one request every 10 seconds in HALF_OPEN state
-      if (timeSinceLastRequest < 10000) {
-        const waitTime = 10000 - timeSinceLastRequest;
-        operationLogger.debug(`Waiting ${waitTime}ms before next half-open test`);
-        await wait(waitTime);
+
+      if (circuit.state === CircuitState.OPEN) {
+        this.logger.debug(`Circuit ${this.options.name} is open; failing fast`, { retryAt: circuit.retry_at });
+        throw new CircuitOpenError(this.options.name, circuit.retry_at);
       }
-      
-      this.lastRequestTime = Date.now();
     }
-    
+
     try {
       const result = await action();
-      const duration = Date.now() - startTime;
-      
-      await this.logExecution(true, duration);
-      
-      if (this.state === CircuitState.HALF_OPEN) {
-        this.successCount++;
-        if (this.successCount >= (this.options.halfOpenSuccessThreshold || 1)) {
-          await this.reset();
-          operationLogger.info(`Circuit ${this.options.name} closed after ${this.successCount} successful tests`);
-        }
+
+      // Successes of a healthy circuit change nothing, so they cost no write
+      if (circuit.state === CircuitState.HALF_OPEN) {
+        await this.transition('success', {}, CircuitState.HALF_OPEN);
+      } else if (circuit.failure_count > 0) {
+        await this.transition('success', {}, CircuitState.CLOSED);
       }
-      
+
       return result;
     } catch (error) {
-      const duration = Date.now() - startTime;
-      await this.logExecution(false, duration, error);
-      await this.handleFailure(error);
+      // Cancelled work says nothing about the health of the service
+      if (getAbortSignal()?.aborted) {
+        throw error;
+      }
+
+      // A missing resource or an invalid request says nothing about the health of the service either
+      const category = categorizeError(error);
+      if (category === ErrorCategory.NOT_FOUND || category === ErrorCategory.VALIDATION) {
+        throw error;
+      }
+
+      // Rate limit errors keep the circuit open for their Retry-After delay
+      const retryAfterMs = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+      await this.transition('failure', {
+        retry_after_ms: retryAfterMs ? Math.min(retryAfterMs, MAX_RETRY_AFTER_MS) : undefined,
+        reason: error instanceof Error ? error.message : String(error)
+      });
       throw error;
     }
   }
-  
+
   // Record a failure from response for rate limits
   async recordFailure(response: Response, customTimeoutMs?: number): Promise<void> {
+    let retryDelayMs: number | null = null;
+
     if (response.status === 429) {
-      let retryDelayMs: number | null = null;
-      
-      // Use provided custom timeout if available
-      if (customTimeoutMs !== undefined && customTimeoutMs > 0) {
-        retryDelayMs = customTimeoutMs;
-        this.logger.info(`Using provided custom reset timeout for ${this.options.name}: ${retryDelayMs}ms`);
-      } 
-      // Otherwise, try to parse from Retry-After header with validation
-      else {
-        const retryAfter = response.headers.get('Retry-After');
-        if (retryAfter) {
-          // Parse the retry delay from headers
-          retryDelayMs = getRetryDelayFromHeaders(response.headers);
-          
-          // Apply validation and capping to the delay
-          if (retryDelayMs) {
-            // IMPORTANT CHANGE: Use Spotify's actual retry time + small buffer 
-            // Cap to 2 minutes instead of 1 hour
-            const MAX_ALLOWED_RETRY_DELAY = 2 * 60 * 1000; // 2 minutes max
-            
-            if (retryDelayMs > MAX_ALLOWED_RETRY_DELAY) {
-              this.logger.warn(`Capping excessive retry delay ${retryDelayMs}ms to ${MAX_ALLOWED_RETRY_DELAY}ms`);
-              retryDelayMs = MAX_ALLOWED_RETRY_DELAY;
-            }
-            
-            this.logger.info(`Setting custom reset timeout for ${this.options.name}: ${retryDelayMs}ms`);
-          }
-        }
-      }
-      
-      // Only set custom timeout if we have a valid value
-      if (retryDelayMs && retryDelayMs > 0) {
-        this.customResetTimeout = retryDelayMs;
+      // Use provided custom timeout if available, otherwise the Retry-After header
+      retryDelayMs = customTimeoutMs !== undefined && customTimeoutMs > 0
+        ? customTimeoutMs
+        : getRetryDelayFromHeaders(response.headers);
+
+      if (retryDelayMs && retryDelayMs > MAX_RETRY_AFTER_MS) {
+        this.logger.warn(`Capping excessive retry delay ${retryDelayMs}ms to ${MAX_RETRY_AFTER_MS}ms`);
+        retryDelayMs = MAX_RETRY_AFTER_MS;
       }
     }
-    
-    await this.handleFailure();
-  }
-  
-  private async handleFailure(error?: any): Promise<void> {
-    this.failureCount++;
-    this.lastFailureTime = Date.now();
-    
-    const isRateLimitError = error && (
-      error.status === 429 || 
-      (error.message && error.message.includes('rate limit'))
-    );
-    
-    // Extract endpoint type for more granular circuit breaker logic
-    const endpointType = error?.endpointType || 'unknown';
-    
-    // Log detailed information about failures
-    this.logger.debug(`Circuit ${this.options.name} failure #${this.failureCount}`, {
-      isRateLimitError,
-      threshold: this.options.failureThreshold,
-      state: this.state,
-      errorStatus: error?.status,
-      errorMessage: error?.message,
-      customTimeout: this.customResetTimeout,
-      endpointType
+
+    await this.transition('failure', {
+      retry_after_ms: retryDelayMs && retryDelayMs > 0 ? retryDelayMs : undefined,
+      reason: `HTTP ${response.status}`
     });
-    
-    // For rate limit circuits, be more conservative about opening
-    const shouldOpenCircuit = (
-      this.state === CircuitState.CLOSED && 
-      (
-        // Standard failure threshold for most circuits
-        (this.failureCount >= this.options.failureThreshold) ||
-        // Special case: rate-limit circuit with confirmed rate limit error
-        (isRateLimitError && 
-         this.options.name.includes('rate-limit') && 
-         this.failureCount >= this.options.failureThreshold)
-      )
-    );
-    
-    if (shouldOpenCircuit) {
-      await this.changeState(CircuitState.OPEN);
-      this.logger.warn(`Circuit ${this.options.name} opened after ${this.failureCount} failures`, {
-        endpoint: endpointType,
-        failures: this.failureCount,
-        threshold: this.options.failureThreshold,
-        resetTimeout: this.customResetTimeout || this.options.resetTimeoutMs
-      });
-    } else if (this.state === CircuitState.HALF_OPEN) {
-      await this.changeState(CircuitState.OPEN);
-      this.logger.warn(`Circuit ${this.options.name} reopened after failed test`);
-      this.successCount = 0;
-    }
-    
-    if (this.supabase) {
-      await this.syncStateToStorage();
-    }
   }
-  
-  async reset(): Promise<void> {
-    this.failureCount = 0;
-    this.successCount = 0;
-    this.customResetTimeout = null;  // Reset custom timeout
-    await this.changeState(CircuitState.CLOSED);
-    
-    if (this.supabase) {
-      await this.syncStateToStorage();
-    }
+
+  async reset(actor = 'manual_reset'): Promise<void> {
+    await this.transition('force_close', { reason: 'reset' }, null, actor);
   }
-  
-  private async changeState(newState: CircuitState): Promise<void> {
-    const oldState = this.state;
-    this.state = newState;
-    this.lastStateChange = Date.now();
-    
-    this.logger.info(`Circuit ${this.options.name} state changed from ${oldState} to ${newState}`);
-    
+
+  getState(): CircuitState {
+    return (this.cached?.state as CircuitState) || CircuitState.CLOSED;
+  }
+
+  getStatus(): Record<string, unknown> {
+    return circuitStatus(this.cached || applyCircuitEvent(undefined, this.options.name, 'register', null, this.settings()).circuit);
+  }
+
+  /**
+   * The circuit row, from the cache while it is fresh
+   */
+  private async read(): Promise<CircuitRecord> {
+    if (this.cached && Date.now() - this.cachedAt < CACHE_TTL_MS) {
+      return this.cached;
+    }
+
     if (this.supabase) {
       try {
-        await this.supabase
-          .from('circuit_breaker_events')
-          .insert({
-            circuit_name: this.options.name,
-            old_state: oldState,
-            new_state: newState,
-            failure_count: this.failureCount,
-            details: {
-              threshold: this.options.failureThreshold,
-              reset_timeout_ms: this.customResetTimeout || this.options.resetTimeoutMs,
-              last_failure: this.lastFailureTime ? new Date(this.lastFailureTime).toISOString() : null
-            }
-          });
+        const { data, error } = await this.supabase
+          .from('circuit_breakers')
+          .select('*')
+          .eq('name', this.options.name)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          return this.cache(data);
+        }
       } catch (err) {
-        this.logger.error(`Failed to log circuit state change to database`, err);
+        this.logger.warn(`Error reading circuit ${this.options.name}, using local state`, {
+          error: err instanceof Error ? err.message : String(err)
+        });
+        return this.cache(this.applyLocally('register', {}, null, null));
       }
     }
+
+    return this.transition('register');
   }
-  
-  private async logExecution(success: boolean, durationMs: number, error?: any): Promise<void> {
+
+  /**
+   * Apply an event in one atomic call; falls back to a per-instance circuit if the call fails
+   */
+  private async transition(
+    event: CircuitEvent,
+    details: CircuitEventDetails = {},
+    expectedState: CircuitState | null = null,
+    actor: string | null = null
+  ): Promise<CircuitRecord> {
+    // A circuit that doesn't exist yet is created with this breaker's settings
+    const fullDetails = { ...this.settings(), ...details };
+
     if (this.supabase) {
       try {
-        await this.supabase
-          .from('circuit_breaker_executions')
-          .insert({
-            circuit_name: this.options.name,
-            state: this.state,
-            success,
-            duration_ms: durationMs,
-            details: error ? {
-              error_message: error.message,
-              error_name: error.name,
-              stack: error.stack
-            } : {
-              success_count: this.successCount,
-              failure_count: this.failureCount
-            }
-          });
+        const circuit = await transitionCircuit(this.supabase, this.options.name, event, {
+          expectedState: expectedState ?? undefined,
+          details: fullDetails,
+          actor: actor ?? undefined
+        });
+        this.logStateChange(this.cached, circuit);
+        return this.cache(circuit);
       } catch (err) {
-        this.logger.error(`Failed to log circuit execution`, err);
-      }
-    }
-  }
-  
-  private async syncStateFromStorage(): Promise<void> {
-    try {
-      const { data, error } = await this.supabase
-        .from('circuit_breakers')
-        .select('*')
-        .eq('name', this.options.name)
-        .maybeSingle();
-        
-      if (error) {
-        this.logger.error(`Error fetching circuit state: ${error.message}`);
-        return;
-      }
-      
-      if (data) {
-        this.state = data.state as CircuitState;
-        this.failureCount = data.failure_count;
-        this.successCount = data.success_count;
-        this.lastFailureTime = data.last_failure_time ? new Date(data.last_failure_time).getTime() : 0;
-        this.lastStateChange = data.last_state_change ? new Date(data.last_state_change).getTime() : Date.now();
-        
-        // Automatic transition to HALF_OPEN if needed
-        if (this.state === CircuitState.OPEN && 
-            Date.now() - this.lastFailureTime > this.options.resetTimeoutMs) {
-          await this.changeState(CircuitState.HALF_OPEN);
-        }
-        
-        this.logger.debug(`Circuit state loaded from database`, { 
-          name: this.options.name, 
-          state: this.state 
+        this.logger.warn(`Circuit transition RPC failed for ${this.options.name}, using local state`, {
+          event,
+          error: err instanceof Error ? err.message : String(err)
         });
-      } else {
-        // Initialize state in database
-        await this.syncStateToStorage();
       }
-    } catch (err) {
-      this.logger.error(`Error syncing circuit state from storage`, err);
     }
+
+    return this.cache(this.applyLocally(event, fullDetails, expectedState, actor));
   }
-  
-  private async syncStateToStorage(): Promise<void> {
-    try {
-      await this.supabase
-        .from('circuit_breakers')
-        .upsert({
-          name: this.options.name,
-          state: this.state,
-          failure_count: this.failureCount,
-          success_count: this.successCount,
-          failure_threshold: this.options.failureThreshold,
-          reset_timeout_ms: this.customResetTimeout || this.options.resetTimeoutMs,
-          last_failure_time: this.lastFailureTime ? new Date(this.lastFailureTime).toISOString() : null,
-          last_state_change: new Date(this.lastStateChange).toISOString()
-        });
-        
-      this.logger.debug(`Circuit state synchronized to database`, { 
-        name: this.options.name,
-        state: this.state
-      });
-    } catch (err) {
-      this.logger.error(`Error syncing circuit state to storage`, err);
-    }
+
+  // Same state machine as circuit_breaker_transition, scoped to this instance
+  private applyLocally(
+    event: CircuitEvent,
+    details: CircuitEventDetails,
+    expectedState: CircuitState | null,
+    actor: string | null
+  ): CircuitRecord {
+    const { circuit } = applyCircuitEvent(
+      localCircuits.get(this.options.name) || this.cached || undefined,
+      this.options.name,
+      event,
+      expectedState,
+      { ...this.settings(), ...details },
+      actor
+    );
+    this.logStateChange(this.cached, circuit);
+    localCircuits.set(this.options.name, circuit);
+    return circuit;
   }
-  
-  getState(): CircuitState {
-    return this.state;
+
+  private cache(circuit: CircuitRecord): CircuitRecord {
+    this.cached = circuit;
+    this.cachedAt = Date.now();
+    return circuit;
   }
-  
-  getStatus(): any {
+
+  private settings(): CircuitEventDetails {
     return {
-      name: this.options.name,
-      state: this.state,
-      failureCount: this.failureCount,
-      successCount: this.successCount,
-      failureThreshold: this.options.failureThreshold,
-      resetTimeoutMs: this.customResetTimeout || this.options.resetTimeoutMs,
-      lastFailureTime: this.lastFailureTime ? new Date(this.lastFailureTime).toISOString() : null,
-      lastStateChange: new Date(this.lastStateChange).toISOString(),
-      timeInCurrentState: Date.now() - this.lastStateChange
+      failure_threshold: this.options.failureThreshold,
+      reset_timeout_ms: this.options.resetTimeoutMs,
+      half_open_success_threshold: this.options.halfOpenSuccessThreshold
     };
   }
+
+  private logStateChange(before: CircuitRecord | null, after: CircuitRecord): void {
+    if (before && before.state !== after.state) {
+      this.logger.info(`Circuit ${this.options.name} state changed from ${before.state} to ${after.state}`, {
+        failures: after.failure_count,
+        retryAt: after.retry_at
+      });
+    }
+  }
 }
 
 export class CircuitBreakerRegistry {
   private static circuits: Map<string, CircuitBreaker> = new Map();
-  private static supabaseClient: any = null;
+  private static supabaseClient: SupabaseClient<Database> | null = null;
   private static logger = logger.child({ component: 'CircuitBreakerRegistry' });
-  
-  static setSupabaseClient(client: any): void {
+
+  /**
+   * Back every circuit, existing and future, with the circuit_breakers table
+   */
+  static setSupabaseClient(client: SupabaseClient<Database> | null): void {
     this.supabaseClient = client;
+    for (const circuit of this.circuits.values()) {
+      circuit.useClient(client);
+    }
   }
-  
+
   static getOrCreate(options: CircuitBreakerOptions): CircuitBreaker {
     const circuitName = options.name;
-    
+
     if (!this.circuits.has(circuitName)) {
       const defaultSettings = this.getDefaultSettingsForCircuit(circuitName);
       const finalOptions = {
         ...options,
         ...defaultSettings
       };
-      
+
       this.logger.debug(`Creating new circuit breaker: ${circuitName}`, finalOptions);
       const circuit = new CircuitBreaker(finalOptions, this.supabaseClient);
       this.circuits.set(circuitName, circuit);
     }
-    
+
     return this.circuits.get(circuitName)!;
   }
-  
+
   private static getDefaultSettingsForCircuit(name: string): Partial<CircuitBreakerOptions> {
     // Apply different default settings based on circuit name
     if (name.includes('artists')) {
@@ -402,7 +535,7 @@ export class CircuitBreakerRegistry {
         resetTimeoutMs: 10 * 60 * 1000,
         halfOpenSuccessThreshold: 2
       };
-    } else if (name === 'spotify-token-refresh') {
+    } else if (name.startsWith('spotify-token-refresh')) {
       return {
         failureThreshold: 3,
         resetTimeoutMs: 60 * 60 * 1000,
@@ -416,81 +549,41 @@ export class CircuitBreakerRegistry {
       };
     } else if (name.includes('api')) {
       return {
-        failureThreshold: 10, 
+        failureThreshold: 10,
         resetTimeoutMs: 15 * 60 * 1000,
         halfOpenSuccessThreshold: 2
       };
     }
-    
+
     // Default settings
     return {};
   }
-  
-  static async reset(name: string): Promise<void> {
+
+  static async reset(name: string, actor = 'manual_reset'): Promise<void> {
+    if (this.supabaseClient) {
+      await transitionCircuit(this.supabaseClient, name, 'force_close', { details: { reason: 'reset' }, actor });
+      // Drop the cached copy so the reset is seen immediately in this instance
+      this.circuits.get(name)?.useClient(this.supabaseClient);
+      this.logger.info(`Circuit ${name} was manually reset`);
+      return;
+    }
+
     const circuit = this.circuits.get(name);
     if (circuit) {
-      await circuit.reset();
+      await circuit.reset(actor);
       this.logger.info(`Circuit ${name} was manually reset`);
     } else {
       this.logger.warn(`Attempted to reset non-existent circuit: ${name}`);
     }
   }
-  
-  static async getAllStatuses(): Promise<any[]> {
-    return Array.from(this.circuits.values()).map(circuit => circuit.getStatus());
-  }
-  
-  static async resetEndpointCircuits(endpointPrefix: string): Promise<number> {
-    let resetCount = 0;
-    const circuitNames: string[] = [];
-    
-    for (const [name, circuit] of this.circuits.entries()) {
-      if (name.includes(endpointPrefix)) {
-        circuitNames.push(name);
-        await circuit.reset();
-        resetCount++;
-      }
-    }
-    
-    if (resetCount > 0) {
-      this.logger.info(`Reset ${resetCount} ${endpointPrefix} circuit breakers`, {
-        circuits: circuitNames
-      });
-    }
-    
-    return resetCount;
-  }
-  
-  static async loadFromStorage(): Promise<void> {
-    if (!this.supabaseClient) {
-      this.logger.info('No Supabase client provided, skipping loading circuit breakers from storage');
-      return;
-    }
-    
-    try {
-      const { data, error } = await this.supabaseClient
-        .from('circuit_breakers')
-        .select('*');
-        
-      if (error) {
-        this.logger.error(`Error loading circuit breakers: ${error.message}`);
-        return;
-      }
-      
-      if (data && data.length > 0) {
-        for (const record of data) {
-          const options: CircuitBreakerOptions = {
-            name: record.name,
-            failureThreshold: record.failure_threshold,
-            resetTimeoutMs: record.reset_timeout_ms
-          };
-          
-          this.getOrCreate(options);
-        }
-        this.logger.info(`Loaded ${data.length} circuit breakers from database`);
-      }
-    } catch (err) {
-      this.logger.error(`Error loading circuit breakers from storage`, err);
+
+  /**
+   * Status of every circuit in the database, or of this instance's circuits without one
+   */
+  static async getAllStatuses(): Promise<Record<string, unknown>[]> {
+    if (this.supabaseClient) {
+      return (await listCircuits(this.supabaseClient)).map(circuitStatus);
     }
+    return Array.from(this.circuits.values()).map(circuit => circuit.getStatus());
   }
 }
@@ -0,0 +1,93 @@
+/**
+ * How much of an artist's Spotify catalog a crawl covers, and how the
+ * artist relates to the albums and tracks it finds.
+ *
+ * - primary: the artist's own albums and singles, and only the tracks on them
+ *   where the artist is the first artist
+ * - features: the same releases, including their tracks where the artist is
+ *   a featured artist
+ * - appears_on: also compilations and other artists' releases the artist
+ *   appears on, keeping only the tracks that credit the artist
+ */
+
+import { ValidationError } from './errors.ts';
+
+export type CrawlScope = 'primary' | 'features' | 'appears_on';
+
+export const CRAWL_SCOPES: CrawlScope[] = ['primary', 'features', 'appears_on'];
+
+export const DEFAULT_CRAWL_SCOPE: CrawlScope = 'primary';
+
+// How the crawled artist relates to an album, stored in albums.relationship
+export type AlbumRelationship = 'primary' | 'appears_on' | 'compilation';
+
+// How the crawled artist is credited on a track, stored in tracks.relationship
+export type TrackRelationship = 'primary' | 'featured';
+
+interface SpotifyCredited {
+  artists?: Array<{ id: string }>;
+}
+
+interface SpotifyRelease extends SpotifyCredited {
+  album_type?: string;
+  album_group?: string;
+}
+
+/**
+ * The scope of a message or request; unset means the default
+ */
+export function parseCrawlScope(value: unknown): CrawlScope {
+  if (value === undefined || value === null) return DEFAULT_CRAWL_SCOPE;
+
+  if (!CRAWL_SCOPES.includes(value as CrawlScope)) {
+    throw new ValidationError(`Invalid crawl scope ${value}, expected one of ${CRAWL_SCOPES.join(', ')}`);
+  }
+  return value as CrawlScope;
+}
+
+/**
+ * Spotify release groups (include_groups) to walk for a scope, in crawl order
+ */
+export function releaseGroupsForScope(scope: CrawlScope): string[] {
+  return scope === 'appears_on'
+    ? ['album', 'single', 'compilation', 'appears_on']
+    : ['album', 'single'];
+}
+
+export function albumRelationship(album: SpotifyRelease, artistId: string): AlbumRelationship {
+  if (album.album_type === 'compilation' || album.album_group === 'compilation') {
+    return 'compilation';
+  }
+  if (album.album_group === 'appears_on' || album.artists?.[0]?.id !== artistId) {
+    return 'appears_on';
+  }
+  return 'primary';
+}
+
+export function isAlbumInScope(relationship: AlbumRelationship, scope: CrawlScope): boolean {
+  return scope === 'appears_on' || relationship === 'primary';
+}
+
+/**
+ * How the artist is credited on a track, or null if it isn't
+ */
+export function trackRelationship(track: SpotifyCredited, artistId: string): TrackRelationship | null {
+  const artists = track.artists || [];
+  if (artists[0]?.id === artistId) return 'primary';
+  return artists.some(artist => artist.id === artistId) ? 'featured' : null;
+}
+
+export function isTrackInScope(relationship: TrackRelationship | null, scope: CrawlScope): boolean {
+  if (!relationship) return false;
+  return scope !== 'primary' || relationship === 'primary';
+}
+
+/**
+ * Dedup key of a track discovery page. An album is looked at once for its own
+ * artist, and once more for each guest artist crawled, for the guest's tracks.
+ */
+export function trackDiscoveryDedupKey(albumId: string, artistId: string, relationship: AlbumRelationship, offset: number): string {
+  return relationship === 'primary'
+    ? `track_discovery:${albumId}:${offset}`
+    : `track_discovery:${albumId}:${artistId}:${offset}`;
+}
@@ -0,0 +1,59 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  CRAWL_SCOPES,
+  albumRelationship,
+  isAlbumInScope,
+  isTrackInScope,
+  parseCrawlScope,
+  releaseGroupsForScope,
+  trackDiscoveryDedupKey,
+  trackRelationship
+} from './crawlScope.ts';
+import { ValidationError } from './errors.ts';
+
+const ARTIST = 'artist-1';
+const GUEST = 'artist-2';
+
+Deno.test('parseCrawlScope defaults unset scopes and rejects unknown ones', () => {
+  assertEquals(parseCrawlScope(undefined), 'primary');
+  assertEquals(parseCrawlScope(null), 'primary');
+  assertEquals(parseCrawlScope('appears_on'), 'appears_on');
+  assertThrows(() => parseCrawlScope('everything'), ValidationError);
+  assertThrows(() => parseCrawlScope(''), ValidationError);
+});
+
+Deno.test('only the appears_on scope walks compilations and other artists\' releases', () => {
+  assertEquals(releaseGroupsForScope('primary'), ['album', 'single']);
+  assertEquals(releaseGroupsForScope('features'), ['album', 'single']);
+  assertEquals(releaseGroupsForScope('appears_on'), ['album', 'single', 'compilation', 'appears_on']);
+});
+
+Deno.test('albums relate to the artist by their group, type and first artist', () => {
+  assertEquals(albumRelationship({ album_group: 'album', artists: [{ id: ARTIST }] }, ARTIST), 'primary');
+  assertEquals(albumRelationship({ album_group: 'single', artists: [{ id: GUEST }, { id: ARTIST }] }, ARTIST), 'appears_on');
+  assertEquals(albumRelationship({ album_group: 'appears_on', artists: [{ id: ARTIST }] }, ARTIST), 'appears_on');
+  assertEquals(albumRelationship({ album_type: 'compilation', artists: [{ id: ARTIST }] }, ARTIST), 'compilation');
+  assertEquals(albumRelationship({ album_group: 'compilation', artists: [{ id: GUEST }] }, ARTIST), 'compilation');
+
+  assertEquals(isAlbumInScope('primary', 'primary'), true);
+  assertEquals(isAlbumInScope('appears_on', 'features'), false);
+  assertEquals(isAlbumInScope('compilation', 'appears_on'), true);
+});
+
+Deno.test('tracks are kept by how they credit the artist', () => {
+  const own = { artists: [{ id: ARTIST }, { id: GUEST }] };
+  const featuring = { artists: [{ id: GUEST }, { id: ARTIST }] };
+  const without = { artists: [{ id: GUEST }] };
+
+  assertEquals([own, featuring, without].map(track => trackRelationship(track, ARTIST)), ['primary', 'featured', null]);
+  assertEquals(trackRelationship({}, ARTIST), null);
+
+  assertEquals(CRAWL_SCOPES.map(scope => isTrackInScope('featured', scope)), [false, true, true]);
+  assertEquals(isTrackInScope('primary', 'primary'), true);
+  assertEquals(isTrackInScope(null, 'appears_on'), false);
+});
+
+Deno.test('a guest crawl of an album gets its own dedup key', () => {
+  assertEquals(trackDiscoveryDedupKey('album-1', ARTIST, 'primary', 0), 'track_discovery:album-1:0');
+  assertEquals(trackDiscoveryDedupKey('album-1', GUEST, 'appears_on', 50), 'track_discovery:album-1:artist-2:50');
+});
@@ -0,0 +1,63 @@
+/**
+ * Role vocabulary of track credits.
+ *
+ * Genius lists producers and writers in producer_artists and writer_artists,
+ * and every other credit in custom_performances under a free-form label such
+ * as "Mixing Engineer", "Additional Production" or "Recorded At". Labels are
+ * mapped to a fixed set of roles; labels outside it (studios, labels,
+ * performers) are not credits of a person and are skipped.
+ */
+
+export const CREDIT_ROLES = [
+  'producer',
+  'co_producer',
+  'additional_producer',
+  'writer',
+  'mixing_engineer',
+  'mastering_engineer',
+  'recording_engineer',
+  'programmer'
+] as const;
+
+export type CreditRole = typeof CREDIT_ROLES[number];
+
+/**
+ * What a source said to credit a person, stored in track_credits.evidence
+ */
+export interface CreditEvidence {
+  spotify_track_id?: string;
+  spotify_artist_id?: string;
+  genius_song_id?: number;
+  genius_artist_id?: number;
+}
+
+// Normalized Genius labels, checked in order; the first pattern that matches wins
+const LABEL_ROLES: Array<[RegExp, CreditRole]> = [
+  [/^co ?produc(er|tion)/, 'co_producer'],
+  [/^additional produc(er|tion)/, 'additional_producer'],
+  [/^(produced by|producer|production)$/, 'producer'],
+  [/^(mix(ing)?( engineer)?|mixed by)$/, 'mixing_engineer'],
+  [/^(master(ing)?( engineer)?|mastered by)$/, 'mastering_engineer'],
+  [/^((assistant )?(recording )?engineer|recorded by|recording|vocal engineer|engineered by)$/, 'recording_engineer'],
+  [/^((drum |synth )?programm(er|ing)|programmed by)$/, 'programmer'],
+  [/^(writer|written by|songwriter|composer|lyricist|co writer)$/, 'writer']
+];
+
+export function isCreditRole(value: unknown): value is CreditRole {
+  return (CREDIT_ROLES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Role of a Genius custom performance label, e.g. "Mixing Engineer" ->
+ * 'mixing_engineer', or null if the label isn't a role of the vocabulary
+ */
+export function creditRoleForLabel(label: string): CreditRole | null {
+  const normalized = label
+    .toLowerCase()
+    .replace(/[-_]/g, ' ')
+    .replace(/[^a-z ]/g, '')
+    .trim()
+    .replace(/\s+/g, ' ');
+
+  return LABEL_ROLES.find(([pattern]) => pattern.test(normalized))?.[1] ?? null;
+}
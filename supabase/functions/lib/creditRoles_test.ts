@@ -0,0 +1,35 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CREDIT_ROLES, creditRoleForLabel, isCreditRole } from './creditRoles.ts';
+
+Deno.test('Genius labels map to the role vocabulary', () => {
+  const labels: Record<string, string> = {
+    'Producer': 'producer',
+    'Produced By': 'producer',
+    'Co-Producer': 'co_producer',
+    'Co Production': 'co_producer',
+    'Additional Production': 'additional_producer',
+    'Mixing Engineer': 'mixing_engineer',
+    'Mixed By': 'mixing_engineer',
+    'Mastering Engineer': 'mastering_engineer',
+    'Assistant Recording Engineer': 'recording_engineer',
+    'Vocal Engineer': 'recording_engineer',
+    'Drum Programming': 'programmer',
+    'Songwriter': 'writer',
+    'Co-Writer': 'writer'
+  };
+
+  for (const [label, role] of Object.entries(labels)) {
+    assertEquals(creditRoleForLabel(label), role, label);
+  }
+});
+
+Deno.test('labels that aren\'t credits of a person are skipped', () => {
+  for (const label of ['Recorded At', 'Label', 'Publisher', 'Vocals', 'Guitar', 'Executive Producer', '']) {
+    assertEquals(creditRoleForLabel(label), null, label);
+  }
+});
+
+Deno.test('isCreditRole accepts only roles of the vocabulary', () => {
+  assertEquals(CREDIT_ROLES.every(role => isCreditRole(role)), true);
+  assertEquals(['collaborator', 'Producer', null, undefined, 1].map(isCreditRole), [false, false, false, false, false]);
+});
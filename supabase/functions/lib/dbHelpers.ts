@@ -5,6 +5,7 @@ import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { Database } from '../types.ts';
 import { logger } from './logger.ts';
 import { withRetry } from './retry.ts';
+import { throwIfAborted } from './cancellation.ts';
 
 // Transaction helper for managing database transactions
 export class Transaction {
@@ -30,11 +31,13 @@ export class Transaction {
     this.logger.warn('Transaction rolled back');
   }
   
-  // Run a function within a transaction
+  // Run a function within a transaction; work cancelled before the commit is rolled back
   async run<T>(fn: () => Promise<T>): Promise<T> {
+    throwIfAborted();
     try {
       await this.begin();
       const result = await fn();
+      throwIfAborted();
       await this.commit();
       return result;
     } catch (error) {
@@ -70,6 +73,7 @@ export function createDbTransactionHelpers(supabase: SupabaseClient<Database>) {
       return withRetry(fn, {
         maxAttempts: 3,
         initialDelayMs: 500,
+        service: 'supabase',
         retryableErrorPredicate: (error) => {
           // Add specific database error conditions that should be retried
           return error && (
@@ -96,6 +100,7 @@ export function createDbTransactionHelpers(supabase: SupabaseClient<Database>) {
         returnFields: string 
       }
     ): Promise<{ data: T | null; error: Error | null }> {
+      throwIfAborted();
       try {
         // First try the upsert operation
         const { data: upsertedData, error: upsertError } = await supabase
@@ -0,0 +1,134 @@
+/**
+ * Error taxonomy shared by the API clients, the retry helpers and the workers.
+ *
+ * Clients throw one of the classes below; everything else is categorized from
+ * its status code and error class. The category decides whether an operation is
+ * retried and is what queue_metrics and dead letters record.
+ */
+
+export enum ErrorCategory {
+  TRANSIENT = 'transient',   // Temporary failure (5xx, timeout, network), retryable
+  RATE_LIMIT = 'rate_limit', // Throttled, retryable after a delay
+  NOT_FOUND = 'not_found',   // The resource doesn't exist
+  VALIDATION = 'validation', // The input is invalid
+  AUTH = 'auth',             // Credentials are missing, invalid or not allowed
+  UNKNOWN = 'unknown'        // Unrecognized, retried like a transient error
+}
+
+// Retrying these can't succeed until something else changes
+const PERMANENT_CATEGORIES = new Set([ErrorCategory.NOT_FOUND, ErrorCategory.VALIDATION, ErrorCategory.AUTH]);
+
+export interface PipelineErrorOptions {
+  status?: number;       // HTTP status of the failed response
+  service?: string;      // Service that failed, e.g. 'spotify'; its retry budget pays for retries
+  retryAfterMs?: number; // Delay requested by the service
+  headers?: Headers;     // Response headers, for Retry-After parsing
+  cause?: unknown;
+}
+
+/**
+ * Base class of the taxonomy; use one of the subclasses
+ */
+export abstract class PipelineError extends Error {
+  abstract readonly category: ErrorCategory;
+  status?: number;
+  service?: string;
+  retryAfterMs?: number;
+  headers?: Headers;
+
+  constructor(message: string, options: PipelineErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.service = options.service;
+    this.retryAfterMs = options.retryAfterMs;
+    this.headers = options.headers;
+  }
+}
+
+export class TransientError extends PipelineError {
+  readonly category = ErrorCategory.TRANSIENT;
+}
+
+export class RateLimitError extends PipelineError {
+  readonly category = ErrorCategory.RATE_LIMIT;
+}
+
+export class NotFoundError extends PipelineError {
+  readonly category = ErrorCategory.NOT_FOUND;
+}
+
+export class ValidationError extends PipelineError {
+  readonly category = ErrorCategory.VALIDATION;
+}
+
+export class AuthError extends PipelineError {
+  readonly category = ErrorCategory.AUTH;
+}
+
+/**
+ * The error to throw for a failed HTTP response
+ */
+export function errorForStatus(status: number, message: string, options: Omit<PipelineErrorOptions, 'status'> = {}): PipelineError {
+  const errorOptions = { ...options, status };
+
+  if (status === 429) return new RateLimitError(message, errorOptions);
+  if (status === 401 || status === 403) return new AuthError(message, errorOptions);
+  if (status === 404 || status === 410) return new NotFoundError(message, errorOptions);
+  if (status >= 400 && status < 500 && status !== 408 && status !== 425) return new ValidationError(message, errorOptions);
+  return new TransientError(message, errorOptions);
+}
+
+/**
+ * Categorize any error: taxonomy errors by class, others by status code and
+ * error class. Messages aren't matched, so an error without a status (e.g. from
+ * PostgREST) stays retryable whatever it says.
+ */
+export function categorizeError(error: unknown): ErrorCategory {
+  if (error instanceof PipelineError) {
+    return error.category;
+  }
+
+  const err = (error ?? {}) as { status?: number; statusCode?: number; code?: string; name?: string };
+  const status = err.status || err.statusCode || 0;
+
+  if (status === 429) {
+    return ErrorCategory.RATE_LIMIT;
+  }
+  if (status === 401 || status === 403) {
+    return ErrorCategory.AUTH;
+  }
+  if (status === 404 || status === 410) {
+    return ErrorCategory.NOT_FOUND;
+  }
+  if ((status >= 400 && status < 500 && status !== 408 && status !== 425) || err.name === 'ValidationError') {
+    return ErrorCategory.VALIDATION;
+  }
+  if (
+    status === 408 || // Request Timeout
+    status === 425 || // Too Early
+    (status >= 500 && status < 600) ||
+    ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'ENETUNREACH'].includes(err.code || '') ||
+    err.name === 'AbortError' ||
+    err.name === 'TimeoutError' ||
+    err instanceof TypeError // fetch network failures
+  ) {
+    return ErrorCategory.TRANSIENT;
+  }
+
+  return ErrorCategory.UNKNOWN;
+}
+
+/**
+ * Whether a recorded category, e.g. a dead letter's details.category, is one retrying can't fix
+ */
+export function isPermanentCategory(category: string | null | undefined): boolean {
+  return PERMANENT_CATEGORIES.has(category as ErrorCategory);
+}
+
+/**
+ * Whether retrying the failed operation may succeed
+ */
+export function isRetryable(error: unknown): boolean {
+  return !PERMANENT_CATEGORIES.has(categorizeError(error));
+}
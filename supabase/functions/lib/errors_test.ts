@@ -0,0 +1,62 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  AuthError,
+  ErrorCategory,
+  NotFoundError,
+  TransientError,
+  categorizeError,
+  errorForStatus,
+  isPermanentCategory,
+  isRetryable
+} from './errors.ts';
+
+Deno.test('errorForStatus picks the class for each HTTP status', () => {
+  assertEquals(categorizeError(errorForStatus(429, 'slow down')), ErrorCategory.RATE_LIMIT);
+  assertEquals(categorizeError(errorForStatus(401, 'expired token')), ErrorCategory.AUTH);
+  assertEquals(categorizeError(errorForStatus(403, 'forbidden')), ErrorCategory.AUTH);
+  assertEquals(categorizeError(errorForStatus(404, 'no such album')), ErrorCategory.NOT_FOUND);
+  assertEquals(categorizeError(errorForStatus(410, 'gone')), ErrorCategory.NOT_FOUND);
+  assertEquals(categorizeError(errorForStatus(400, 'bad id')), ErrorCategory.VALIDATION);
+  assertEquals(categorizeError(errorForStatus(408, 'request timeout')), ErrorCategory.TRANSIENT);
+  assertEquals(categorizeError(errorForStatus(503, 'unavailable')), ErrorCategory.TRANSIENT);
+});
+
+Deno.test('taxonomy errors keep their class whatever their status or message', () => {
+  assertEquals(categorizeError(new TransientError('Artist not found', { status: 404 })), ErrorCategory.TRANSIENT);
+  assertEquals(categorizeError(new NotFoundError('Artist not found')), ErrorCategory.NOT_FOUND);
+  assertEquals(categorizeError(new AuthError('Token refresh failed')), ErrorCategory.AUTH);
+});
+
+Deno.test('other errors are categorized by status code and error class', () => {
+  assertEquals(categorizeError({ status: 429, message: 'busy' }), ErrorCategory.RATE_LIMIT);
+  assertEquals(categorizeError({ statusCode: 404, message: 'missing' }), ErrorCategory.NOT_FOUND);
+  assertEquals(categorizeError({ status: 422, message: 'unprocessable' }), ErrorCategory.VALIDATION);
+  assertEquals(categorizeError({ status: 502, message: 'bad gateway' }), ErrorCategory.TRANSIENT);
+  assertEquals(categorizeError({ code: 'ECONNRESET', message: 'socket hang up' }), ErrorCategory.TRANSIENT);
+  assertEquals(categorizeError(new DOMException('The signal was aborted', 'AbortError')), ErrorCategory.TRANSIENT);
+  assertEquals(categorizeError(new TypeError('error sending request')), ErrorCategory.TRANSIENT);
+});
+
+Deno.test('messages alone never make an error permanent', () => {
+  // PostgREST errors carry a code and message but no HTTP status
+  const postgrest = { code: 'PGRST301', message: 'relation "albums" does not exist', details: null };
+
+  assertEquals(categorizeError(postgrest), ErrorCategory.UNKNOWN);
+  assertEquals(categorizeError(new Error('Album a1 not found in database')), ErrorCategory.UNKNOWN);
+  assertEquals(categorizeError(new Error('invalid input syntax for type uuid')), ErrorCategory.UNKNOWN);
+  assertEquals(categorizeError(new Error('No access token provided')), ErrorCategory.UNKNOWN);
+  assertEquals(isRetryable(postgrest), true);
+  assertEquals(isRetryable(new Error('Album a1 not found in database')), true);
+});
+
+Deno.test('only not found, validation and auth errors are permanent', () => {
+  assertEquals(isRetryable(errorForStatus(404, 'missing')), false);
+  assertEquals(isRetryable(errorForStatus(400, 'bad id')), false);
+  assertEquals(isRetryable(errorForStatus(401, 'expired token')), false);
+  assertEquals(isRetryable(errorForStatus(429, 'slow down')), true);
+  assertEquals(isRetryable(errorForStatus(500, 'boom')), true);
+  assertEquals(isRetryable(null), true);
+
+  assertEquals(['not_found', 'validation', 'auth'].map(isPermanentCategory), [true, true, true]);
+  assertEquals(['transient', 'rate_limit', 'unknown', null, undefined].map(isPermanentCategory), [false, false, false, false, false]);
+});
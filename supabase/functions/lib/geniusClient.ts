@@ -1,10 +1,37 @@
 import { CircuitBreakerRegistry } from './circuitBreaker.ts';
 import { globalCache } from './cache.ts';
-import { RateLimiter } from './rateLimiter.ts';
+import { RateLimiter, RateLimitExceededError } from './rateLimiter.ts';
+import { RateLimitError, ValidationError, errorForStatus } from './errors.ts';
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { Database } from '../types.ts';
 import { logger } from './logger.ts';
 import { withRateLimitedRetry } from './retry.ts';
+import { withChildSpan } from './tracing.ts';
+import { getAbortSignal, throwIfAborted } from './cancellation.ts';
+
+// Overridable with GENIUS_API_URL, e.g. to point at a local fake
+const API = 'https://api.genius.com';
+
+/**
+ * A song in Genius API search results
+ */
+export interface GeniusSearchHit {
+  result: {
+    id: number;
+    title: string;
+    title_with_featured?: string; // e.g. "Afterglow (Ft. Echo Park)"
+    artist_names?: string;        // e.g. "Nova Lane (Ft. Echo Park)"
+    primary_artist: {
+      id: number;
+      name: string;
+      image_url?: string;
+    };
+    featured_artists?: Array<{
+      id: number;
+      name: string;
+    }>;
+  };
+}
 
 /**
  * Interface for Genius API search results
@@ -14,20 +41,27 @@ export interface GeniusSearchResult {
     status: number;
   };
   response: {
-    hits: Array<{
-      result: {
-        id: number;
-        title: string;
-        primary_artist: {
-          id: number;
-          name: string;
-          image_url?: string;
-        };
-      };
-    }>;
+    hits: GeniusSearchHit[];
   };
 }
 
+/**
+ * An artist as Genius returns it on songs
+ */
+export interface GeniusArtist {
+  id: number;
+  name: string;
+  image_url?: string;
+}
+
+/**
+ * A credit outside producers and writers, e.g. { label: 'Mixing Engineer', artists: [...] }
+ */
+export interface GeniusCustomPerformance {
+  label: string;
+  artists: GeniusArtist[];
+}
+
 /**
  * Interface for Genius song details response
  */
@@ -39,54 +73,15 @@ export interface GeniusSongResult {
     song: {
       id: number;
       title: string;
-      primary_artist: {
-        id: number;
-        name: string;
-        image_url?: string;
-      };
-      producer_artists?: Array<{
-        id: number;
-        name: string;
-        image_url?: string;
-      }>;
-      writer_artists?: Array<{
-        id: number;
-        name: string;
-        image_url?: string;
-      }>;
+      primary_artist: GeniusArtist;
+      featured_artists?: GeniusArtist[];
+      producer_artists?: GeniusArtist[];
+      writer_artists?: GeniusArtist[];
+      custom_performances?: GeniusCustomPerformance[];
     };
   };
 }
 
-/**
- * Error categories for Genius API
- */
-enum GeniusErrorCategory {
-  RateLimit = 'rate-limit',
-  Authentication = 'authentication',
-  NotFound = 'not-found',
-  ServerError = 'server-error',
-  NetworkError = 'network-error',
-  Unknown = 'unknown'
-}
-
-/**
- * Custom error class for Genius API errors
- */
-class GeniusApiError extends Error {
-  category: GeniusErrorCategory;
-  status?: number;
-  retryAfterMs?: number;
-  
-  constructor(message: string, category: GeniusErrorCategory, options: { status?: number, retryAfterMs?: number } = {}) {
-    super(message);
-    this.name = 'GeniusApiError';
-    this.category = category;
-    this.status = options.status;
-    this.retryAfterMs = options.retryAfterMs;
-  }
-}
-
 /**
  * Genius API client with resilience features
  * - Circuit breaker for API error handling
@@ -106,26 +101,16 @@ export class GeniusClient {
       name: 'genius-api',
       failureThreshold: 5,
       resetTimeoutMs: 60000, // 1 minute
-      halfOpenMaxCalls: 1,
       halfOpenSuccessThreshold: 1
     });
     
-    // Special circuit breaker for rate limiting
+    // Special circuit breaker for rate limiting; it stays open for the
+    // Retry-After delay of the RateLimitError that tripped it
     this.rateLimitCircuitBreaker = CircuitBreakerRegistry.getOrCreate({
       name: 'genius-rate-limit',
       failureThreshold: 1, // Trip immediately on rate limit
-      resetTimeoutMs: 60000, // Default 1 minute, will be overridden by Retry-After
-      halfOpenMaxCalls: 1,
-      halfOpenSuccessThreshold: 1,
-      onStateChange: (from, to, context) => {
-        this.logger.info(`Circuit genius-rate-limit state changed from ${from} to ${to}`);
-        
-        // If we're opening the circuit due to a rate limit, set custom timeout
-        if (to === 'open' && context?.retryAfterMs) {
-          this.logger.info(`Setting custom reset timeout for genius-rate-limit: ${context.retryAfterMs}ms`);
-          this.rateLimitCircuitBreaker.setCustomResetTimeout(context.retryAfterMs);
-        }
-      }
+      resetTimeoutMs: 60000, // Default 1 minute, overridden by Retry-After
+      halfOpenSuccessThreshold: 1
     });
     
     // Ensure we pass the supabase client to the rate limiter
@@ -133,29 +118,47 @@ export class GeniusClient {
   }
   
   /**
-   * Make a request to the Genius API with resilience patterns
+   * Make a request to the Genius API, traced as a client span of the current operation
    */
-  private async geniusRequest<T>(path: string, options?: RequestInit): Promise<T> {
-    const url = `https://api.genius.com/${path}`;
+  private geniusRequest<T>(path: string, options?: RequestInit): Promise<T> {
+    const resource = path.split(/[/?]/)[0];
+    return withChildSpan(`genius ${resource}`, () => this.executeGeniusRequest<T>(path, options), {
+      kind: 'client',
+      attributes: { 'peer.service': 'genius', 'genius.path': path.split('?')[0] }
+    });
+  }
+
+  /**
+   * Make a request to the Genius API with resilience patterns.
+   * options.signal (by default the active signal) cancels the request.
+   */
+  private async executeGeniusRequest<T>(path: string, options?: RequestInit): Promise<T> {
+    const url = `${Deno.env.get('GENIUS_API_URL') || API}/${path}`;
     const contextLogger = this.logger.child({ operation: path });
+    const signal = options?.signal ?? getAbortSignal();
     
     try {
-      // Check rate limits before making request
-      const canProceed = await this.rateLimiter.canProceed({
-        key: 'genius-api',
-        maxRequests: this.apiMaxRequestsPerMin, 
-        windowMs: 60000 // 1 minute window
-      });
-
-      if (!canProceed) {
-        contextLogger.warn('Rate limiter prevented request to Genius API');
-        throw new GeniusApiError('Rate limit reached for Genius API', GeniusErrorCategory.RateLimit, {
-          retryAfterMs: 30000 // Default retry after 30s when rate limited locally
+      throwIfAborted(signal);
+      
+      // Wait for a token from the bucket shared by all workers
+      try {
+        await this.rateLimiter.acquire('genius-api', 1, {
+          refillPerSecond: this.apiMaxRequestsPerMin / 60
         });
+      } catch (error) {
+        if (error instanceof RateLimitExceededError) {
+          contextLogger.warn('Rate limiter prevented request to Genius API');
+          throw new RateLimitError('Rate limit reached for Genius API', {
+            service: 'genius',
+            retryAfterMs: error.retryAfterMs,
+            cause: error
+          });
+        }
+        throw error;
       }
       
       // Check if rate limit circuit is open
-      await this.rateLimitCircuitBreaker.fire(async () => {
+      return await this.rateLimitCircuitBreaker.fire(async () => {
         // If rate limit circuit is closed, proceed with main API circuit
         return this.apiCircuitBreaker.fire(async () => {
           contextLogger.debug(`Making Genius API request to ${path}`);
@@ -167,12 +170,10 @@ export class GeniusClient {
           
           const res = await fetch(url, {
             ...options,
-            headers
+            headers,
+            signal
           });
           
-          // Increment the rate limit counter for successful requests
-          await this.rateLimiter.increment('genius-api');
-          
           // Handle different response statuses
           if (!res.ok) {
             let retryAfterMs: number | undefined;
@@ -183,42 +184,18 @@ export class GeniusClient {
               retryAfterMs = parseInt(retryAfter, 10) * 1000;
             }
             
-            const errorText = await res.text();
-            
-            // Categorize the error based on status code
-            let category = GeniusErrorCategory.Unknown;
-            switch (res.status) {
-              case 401:
-              case 403:
-                category = GeniusErrorCategory.Authentication;
-                break;
-              case 404:
-                category = GeniusErrorCategory.NotFound;
-                break;
-              case 429:
-                category = GeniusErrorCategory.RateLimit;
-                // Default retry-after if header is missing
-                retryAfterMs = retryAfterMs || 60000; 
-                // Update rate limiter when we get a 429
-                if (retryAfterMs) {
-                  await this.rateLimiter.reset('genius-api', Date.now() + retryAfterMs);
-                }
-                break;
-              case 500:
-              case 502:
-              case 503:
-              case 504:
-                category = GeniusErrorCategory.ServerError;
-                break;
-              default:
-                category = GeniusErrorCategory.Unknown;
+            if (res.status === 429) {
+              // Default retry-after if header is missing
+              retryAfterMs = retryAfterMs || 60000;
+              // Stop every worker from using the bucket until Genius allows requests again
+              await this.rateLimiter.block('genius-api', Date.now() + retryAfterMs);
             }
             
-            const error = new GeniusApiError(
-              `Genius API error: ${res.status}. Details: ${errorText}`, 
-              category,
-              { status: res.status, retryAfterMs }
-            );
+            const errorText = await res.text();
+            const error = errorForStatus(res.status, `Genius API error: ${res.status}. Details: ${errorText}`, {
+              service: 'genius',
+              retryAfterMs
+            });
             
             contextLogger.error(`Request failed: ${error.message}`, {
               category: error.category,
@@ -226,14 +203,7 @@ export class GeniusClient {
               path
             });
             
-            // Pass the retry-after information to the circuit breaker
-            if (category === GeniusErrorCategory.RateLimit) {
-              throw { 
-                error, 
-                circuitBreakerContext: { retryAfterMs } 
-              };
-            }
-            
+            // The rate limit circuit stays open for the error's retryAfterMs
             throw error;
           }
 
@@ -242,9 +212,9 @@ export class GeniusClient {
         });
       });
     } catch (error) {
-      // Handle circuit breaker context wrapper
-      if (error && typeof error === 'object' && 'error' in error && 'circuitBreakerContext' in error) {
-        throw error.error;
+      // Cancellation is expected, not a failed request
+      if (signal?.aborted) {
+        throw error;
       }
       
       contextLogger.error(`Error in Genius API request to ${path}`, error);
@@ -256,44 +226,27 @@ export class GeniusClient {
    * Search for a track on Genius
    * @param song - Song/track title
    * @param artist - Artist name
+   * @param signal - Cancels the request and its retries (defaults to the active signal)
    * @returns Search results
    */
-  async search(song: string, artist: string): Promise<GeniusSearchResult> {
+  async search(song: string, artist: string, signal?: AbortSignal): Promise<GeniusSearchResult> {
     const query = encodeURIComponent(`${artist} ${song}`);
     const cacheKey = `genius-search:${query}`;
     const contextLogger = this.logger.child({ operation: 'search', song, artist });
     
     try {
-      // Use cache with 1-day TTL for search results (increased from 7-day for more frequent freshness)
+      // Use the genius namespace TTL (1 day by default) for search results
       return globalCache.getOrFetch<GeniusSearchResult>(cacheKey, async () => {
         contextLogger.debug(`Making Genius API search request`, { query });
         
         // Use rate-limited retry with exponential backoff
         return withRateLimitedRetry(async () => {
-          return await this.geniusRequest<GeniusSearchResult>(`search?q=${query}`);
+          return await this.geniusRequest<GeniusSearchResult>(`search?q=${query}`, { signal });
         }, 'genius-search', {
-          isRetryableError: (err) => {
-            if (err instanceof GeniusApiError) {
-              // Only retry on rate limits and server errors
-              return [
-                GeniusErrorCategory.RateLimit, 
-                GeniusErrorCategory.ServerError, 
-                GeniusErrorCategory.NetworkError
-              ].includes(err.category);
-            }
-            // Retry on network errors
-            return err instanceof TypeError || err.message?.includes('network');
-          },
-          getRetryDelayMs: (err, attempt) => {
-            if (err instanceof GeniusApiError && err.retryAfterMs) {
-              // Use the server-provided retry delay
-              return err.retryAfterMs;
-            }
-            // Default exponential backoff
-            return Math.min(2 ** attempt * 1000, 30000);
-          }
+          signal,
+          service: 'genius'
         });
-      }, 24 * 60 * 60 * 1000); // 1-day cache
+      }, { namespace: 'genius' });
     } catch (error) {
       contextLogger.error(`Error in Genius API search for "${query}"`, error);
       throw error;
@@ -303,11 +256,12 @@ export class GeniusClient {
   /**
    * Get detailed information about a specific song
    * @param id - Genius song ID
+   * @param signal - Cancels the request and its retries (defaults to the active signal)
    * @returns Song details including producers and writers
    */
-  async getSong(id: number): Promise<GeniusSongResult> {
+  async getSong(id: number, signal?: AbortSignal): Promise<GeniusSongResult> {
     if (!id) {
-      throw new Error('Invalid Genius song ID');
+      throw new ValidationError('Invalid Genius song ID', { service: 'genius' });
     }
     
     const cacheKey = `genius-song:${id}`;
@@ -320,30 +274,12 @@ export class GeniusClient {
         
         // Use rate-limited retry with exponential backoff
         return withRateLimitedRetry(async () => {
-          return await this.geniusRequest<GeniusSongResult>(`songs/${id}`);
+          return await this.geniusRequest<GeniusSongResult>(`songs/${id}`, { signal });
         }, 'genius-song', {
-          isRetryableError: (err) => {
-            if (err instanceof GeniusApiError) {
-              // Only retry on rate limits and server errors
-              return [
-                GeniusErrorCategory.RateLimit, 
-                GeniusErrorCategory.ServerError, 
-                GeniusErrorCategory.NetworkError
-              ].includes(err.category);
-            }
-            // Retry on network errors
-            return err instanceof TypeError || err.message?.includes('network');
-          },
-          getRetryDelayMs: (err, attempt) => {
-            if (err instanceof GeniusApiError && err.retryAfterMs) {
-              // Use the server-provided retry delay
-              return err.retryAfterMs;
-            }
-            // Default exponential backoff
-            return Math.min(2 ** attempt * 1000, 30000);
-          }
+          signal,
+          service: 'genius'
         });
-      }, 30 * 24 * 60 * 60 * 1000); // 30-day cache
+      }, { namespace: 'genius', ttlMs: 30 * 24 * 60 * 60 * 1000 }); // 30-day cache
     } catch (error) {
       contextLogger.error(`Error in Genius API getSong for ID ${id}`, error);
       throw error;
@@ -351,8 +287,6 @@ export class GeniusClient {
   }
 }
 
-const API = 'https://api.genius.com';
-
 /**
  * Create a Genius client instance with provided token
  * @param token - Genius API access token
@@ -0,0 +1,231 @@
+/**
+ * Scores Genius search hits against a Spotify track, so credits come from the
+ * same recording rather than from whichever hit Genius ranks first.
+ *
+ * Each hit is scored from 0 to 1 on its title (normalized, with version
+ * markers like "Remix" or "Live" compared separately), its primary artist and
+ * its featured artists. Genius doesn't return durations, so duration isn't
+ * scored. The best hit is accepted, sent to review when the score is in
+ * between or another song scores almost as well, or rejected.
+ */
+
+import { GeniusSearchHit } from './geniusClient.ts';
+
+export interface MatchTarget {
+  title: string;
+  primaryArtist: string;
+  featuredArtists: string[];
+}
+
+export interface GeniusCandidate {
+  songId: number;
+  title: string;
+  artist: string;
+  score: number;
+  titleScore: number;
+  artistScore: number;
+  featuredScore: number;
+}
+
+export type MatchDecision = 'accepted' | 'review' | 'rejected';
+
+export interface GeniusMatchResult {
+  decision: MatchDecision;
+  best: GeniusCandidate | null;
+  candidates: GeniusCandidate[]; // Best first
+  reason: string;
+}
+
+export interface MatchThresholds {
+  acceptScore: number;     // At or above, the best hit is used
+  minScore: number;        // Below, the best hit is rejected; in between it is reviewed
+  ambiguityMargin: number; // A different song within this margin of the best sends it to review
+}
+
+// Defaults; override with GENIUS_MATCH_ACCEPT_SCORE and GENIUS_MATCH_MIN_SCORE
+const DEFAULT_THRESHOLDS: MatchThresholds = {
+  acceptScore: 0.85,
+  minScore: 0.6,
+  ambiguityMargin: 0.05
+};
+
+const WEIGHTS = { title: 0.55, artist: 0.35, featured: 0.1 };
+
+// Markers of a different recording than the original; a remaster has the same credits
+const VERSION_MARKERS = [
+  'remix', 'live', 'acoustic', 'instrumental', 'demo', 'a cappella', 'acapella',
+  'radio edit', 'extended', 'sped up', 'slowed', 'reprise', 'karaoke', 'cover'
+];
+
+export function getMatchThresholds(): MatchThresholds {
+  const read = (name: string, fallback: number) => {
+    const value = Number(Deno.env.get(name));
+    return Deno.env.get(name) && Number.isFinite(value) ? value : fallback;
+  };
+
+  return {
+    ...DEFAULT_THRESHOLDS,
+    acceptScore: read('GENIUS_MATCH_ACCEPT_SCORE', DEFAULT_THRESHOLDS.acceptScore),
+    minScore: read('GENIUS_MATCH_MIN_SCORE', DEFAULT_THRESHOLDS.minScore)
+  };
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * The title without featured artists and version suffixes,
+ * e.g. "Hotline Bling - Remix (feat. X)" -> "hotline bling"
+ */
+export function normalizeTitle(title: string): string {
+  return normalize(
+    title
+      .replace(/\s+-\s+.*$/, '')     // Spotify's " - Remastered 2011", " - Live"
+      .replace(/\([^)]*\)/g, ' ')    // Genius' "(Remix)", "(Ft. X)"
+      .replace(/\[[^\]]*\]/g, ' ')
+      .replace(/\b(feat|ft)\b.*$/i, '')
+  );
+}
+
+function versionMarkers(title: string): Set<string> {
+  const text = normalize(title.replace(/[-()[\]]/g, ' '));
+  return new Set(VERSION_MARKERS.filter(marker => new RegExp(`\\b${marker}\\b`).test(text)));
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s/g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    grams.push(compact.slice(i, i + 2));
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient of the character bigrams of two normalized strings
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) return a ? 1 : 0;
+
+  const left = bigrams(a);
+  const right = bigrams(b);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const gram of left) counts.set(gram, (counts.get(gram) || 0) + 1);
+
+  let shared = 0;
+  for (const gram of right) {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length);
+}
+
+function scoreTitle(target: MatchTarget, hitTitle: string): number {
+  const score = similarity(normalizeTitle(target.title), normalizeTitle(hitTitle));
+
+  // "Song (Live)" is a different recording of "Song", with different credits
+  const wanted = versionMarkers(target.title);
+  const found = versionMarkers(hitTitle);
+  const sameVersion = wanted.size === found.size && [...wanted].every(marker => found.has(marker));
+
+  return sameVersion ? score : score * 0.5;
+}
+
+function scoreArtist(target: MatchTarget, hitArtist: string): number {
+  const wanted = normalize(target.primaryArtist);
+  const found = normalize(hitArtist);
+  if (!wanted || !found) return 0;
+
+  let score = similarity(wanted, found);
+
+  // Genius lists some collaborations under a combined artist, e.g. "Drake & Future"
+  if (found.includes(wanted)) score = Math.max(score, 0.9);
+
+  // Or under the artist Spotify lists as featured
+  if (target.featuredArtists.some(name => normalize(name) === found)) score = Math.max(score, 0.8);
+
+  return score;
+}
+
+function scoreFeatured(target: MatchTarget, hit: GeniusSearchHit['result']): number {
+  const hitFeatured = (hit.featured_artists || []).map(artist => normalize(artist.name));
+  const credits = normalize([hit.artist_names || '', hit.title_with_featured || '', ...hitFeatured].join(' '));
+  const knowsFeatures = hit.featured_artists !== undefined || !!hit.artist_names || !!hit.title_with_featured;
+
+  // Without featured artist information on the hit, this signal is neutral
+  if (!knowsFeatures) return 0.5;
+
+  if (target.featuredArtists.length === 0) {
+    return hitFeatured.length === 0 ? 1 : 0.5;
+  }
+
+  const credited = target.featuredArtists.filter(name => credits.includes(normalize(name)));
+  return credited.length / target.featuredArtists.length;
+}
+
+export function scoreHit(target: MatchTarget, hit: GeniusSearchHit['result']): GeniusCandidate {
+  const titleScore = scoreTitle(target, hit.title);
+  const artistScore = scoreArtist(target, hit.primary_artist?.name || '');
+  const featuredScore = scoreFeatured(target, hit);
+
+  const round = (score: number) => Math.round(score * 1000) / 1000;
+
+  return {
+    songId: hit.id,
+    title: hit.title,
+    artist: hit.primary_artist?.name || '',
+    score: round(WEIGHTS.title * titleScore + WEIGHTS.artist * artistScore + WEIGHTS.featured * featuredScore),
+    titleScore: round(titleScore),
+    artistScore: round(artistScore),
+    featuredScore: round(featuredScore)
+  };
+}
+
+/**
+ * Score every hit and decide whether the best one is the track
+ */
+export function matchGeniusHits(
+  target: MatchTarget,
+  hits: GeniusSearchHit[],
+  thresholds: MatchThresholds = getMatchThresholds()
+): GeniusMatchResult {
+  const candidates = hits
+    .filter(hit => hit?.result?.id)
+    .map(hit => scoreHit(target, hit.result))
+    .sort((a, b) => b.score - a.score);
+
+  const best = candidates[0] || null;
+
+  if (!best) {
+    return { decision: 'rejected', best, candidates, reason: 'no hits' };
+  }
+
+  if (best.score < thresholds.minScore) {
+    return { decision: 'rejected', best, candidates, reason: `best score ${best.score} is below ${thresholds.minScore}` };
+  }
+
+  const runnerUp = candidates.find(candidate => candidate.songId !== best.songId);
+  if (runnerUp && best.score - runnerUp.score < thresholds.ambiguityMargin) {
+    return { decision: 'review', best, candidates, reason: `song ${runnerUp.songId} scores ${runnerUp.score}, close to ${best.score}` };
+  }
+
+  if (best.score < thresholds.acceptScore) {
+    return { decision: 'review', best, candidates, reason: `best score ${best.score} is below ${thresholds.acceptScore}` };
+  }
+
+  return { decision: 'accepted', best, candidates, reason: `best score ${best.score}` };
+}
@@ -0,0 +1,76 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { GeniusSearchHit } from './geniusClient.ts';
+import { MatchTarget, matchGeniusHits, normalizeTitle, similarity } from './geniusMatcher.ts';
+
+const THRESHOLDS = { acceptScore: 0.85, minScore: 0.6, ambiguityMargin: 0.05 };
+
+const AFTERGLOW: MatchTarget = { title: 'Afterglow', primaryArtist: 'Nova Lane', featuredArtists: ['Echo Park'] };
+
+function hit(id: number, title: string, artist: string, featured: string[] = []): GeniusSearchHit {
+  return {
+    result: {
+      id,
+      title,
+      primary_artist: { id: id * 10, name: artist },
+      featured_artists: featured.map((name, i) => ({ id: id * 10 + i + 1, name }))
+    }
+  };
+}
+
+Deno.test('titles are compared without features and version suffixes', () => {
+  assertEquals(normalizeTitle('Hotline Bling - Remix (feat. X)'), 'hotline bling');
+  assertEquals(normalizeTitle('Café del Mar [Ft. Y]'), 'cafe del mar');
+  assertEquals(normalizeTitle('Rock & Roll'), 'rock and roll');
+
+  assertEquals(similarity('night', 'night'), 1);
+  assertEquals(similarity('', ''), 0);
+  assert(similarity('night drive', 'night drives') > 0.9);
+  assert(similarity('night drive', 'slow burn') < 0.2);
+});
+
+Deno.test('the hit of the same recording is accepted', () => {
+  const result = matchGeniusHits(AFTERGLOW, [
+    hit(2, 'Afterglow (Live)', 'Nova Lane', ['Echo Park']),
+    hit(1, 'Afterglow', 'Nova Lane', ['Echo Park']),
+    hit(3, 'Afterglow', 'Someone Else')
+  ], THRESHOLDS);
+
+  assertEquals(result.decision, 'accepted');
+  assertEquals(result.best?.songId, 1);
+  assertEquals(result.candidates.map(candidate => candidate.songId), [1, 2, 3]);
+  assertEquals(result.best?.titleScore, 1);
+});
+
+Deno.test('a live version scores below the studio recording it shares a title with', () => {
+  const result = matchGeniusHits(AFTERGLOW, [hit(2, 'Afterglow (Live)', 'Nova Lane', ['Echo Park'])], THRESHOLDS);
+
+  assertEquals(result.best?.titleScore, 0.5);
+  assert(result.decision !== 'accepted');
+});
+
+Deno.test('a different song scoring almost as well sends the match to review', () => {
+  const result = matchGeniusHits(
+    { title: 'Afterglow', primaryArtist: 'Nova Lane', featuredArtists: [] },
+    [hit(1, 'Afterglow', 'Nova Lane'), hit(4, 'Afterglow', 'Nova Lane')],
+    THRESHOLDS
+  );
+
+  assertEquals(result.decision, 'review');
+  assert(result.reason.includes('song 4'));
+});
+
+Deno.test('hits by another artist or with another title are rejected', () => {
+  assertEquals(matchGeniusHits(AFTERGLOW, [], THRESHOLDS).decision, 'rejected');
+  assertEquals(matchGeniusHits(AFTERGLOW, [hit(5, 'Slow Burn', 'Theo Banks')], THRESHOLDS).decision, 'rejected');
+});
+
+Deno.test('a collaboration listed under a combined artist still matches', () => {
+  const result = matchGeniusHits(
+    { title: 'City Lights', primaryArtist: 'Nova Lane', featuredArtists: [] },
+    [hit(6, 'City Lights', 'Nova Lane & Theo Banks')],
+    THRESHOLDS
+  );
+
+  assertEquals(result.best?.artistScore, 0.9);
+  assertEquals(result.decision, 'accepted');
+});
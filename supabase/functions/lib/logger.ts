@@ -115,8 +115,8 @@ export class Logger {
 // Create a default logger
 export const logger = new Logger();
 
-// Generate a random trace ID with improved format
+// Generate a random 16-byte trace ID in W3C/OpenTelemetry hex format
 export function generateTraceId(): string {
-  const randomPart = () => Math.random().toString(36).substring(2, 15);
-  return randomPart() + randomPart();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
 }
@@ -1,9 +1,18 @@
-
 import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { Database } from '../types.ts';
-import { BatchProcessor } from './batchProcessor.ts';
 import { logger } from './logger.ts';
-import { wait } from './retry.ts';
+import { wait, withRetry, setRetryBudgetLimiter } from './retry.ts';
+import { ErrorCategory, TransientError, categorizeError, isRetryable } from './errors.ts';
+import { safeUpsert } from './upsertHelpers.ts';
+import { globalCache, PostgresCacheStore } from './cache.ts';
+import { RateLimiter } from './rateLimiter.ts';
+import { setSpotifyRateLimiter, loadSpotifyConcurrencyLimits, loadSpotifyUserCredentials, persistSpotifyConcurrencyLimits, getAdaptiveLimitStatus, getSpotifyCredentialStatus } from './spotifyClient.ts';
+import { PipelineMessage, recordPipelineEvent } from './pipelineRuns.ts';
+import { getWorkerControl } from './workerControl.ts';
+import { DEFAULT_PRIORITY, MessagePriority, PrioritizedMessage, isMessagePriority, laneOrder, laneQueue } from './priorityLanes.ts';
+import { Span, SpanAttributes, TracedMessage, flushSpans, getTraceContext, tracedFetch, withSpan } from './tracing.ts';
+import { withAbortSignal } from './cancellation.ts';
+import { CircuitBreakerRegistry } from './circuitBreaker.ts';
 
 // Global state shared across all workers to implement backpressure control
 const globalState = {
@@ -13,11 +22,11 @@ const globalState = {
     if (this.concurrentOperations >= this.maxConcurrentOperations) {
       const waitLogger = logger.child({ component: 'Backpressure', worker: workerName });
       waitLogger.info(`Applying backpressure, waiting for capacity. Current: ${this.concurrentOperations}/${this.maxConcurrentOperations}`);
-      
+
       while (this.concurrentOperations >= this.maxConcurrentOperations) {
         await wait(500);
       }
-      
+
       waitLogger.debug('Backpressure released, proceeding with operation');
     }
   },
@@ -30,137 +39,816 @@ const globalState = {
 };
 
 /**
- * Base Worker for processing work from a PGMQ queue using a page-based approach
+ * Options controlling the message lifecycle of a worker
+ */
+export interface WorkerOptions {
+  batchSize: number;           // Messages read per run
+  maxAttempts: number;         // Deliveries before a message is dead-lettered
+  processingTimeoutMs: number; // Max time a single message may take
+  delayBetweenItemsMs: number; // Delay between processing items
+  runBudgetMs: number;         // Wall-clock budget of a looping invocation
+  maxReinvocations: number;    // Consecutive self re-invocations before leaving the backlog to cron
+  highPriorityWeight: number;  // Polls that favor the high lane for each poll that favors the low lane
+  dedupTtlSeconds: number;     // How long a dedup key blocks duplicate messages
+}
+
+const DEFAULT_WORKER_OPTIONS: WorkerOptions = {
+  batchSize: 1,               // Read one message at a time
+  maxAttempts: 5,
+  processingTimeoutMs: 60000, // 60 seconds
+  delayBetweenItemsMs: 1000,  // 1 second between items by default
+  // Safely under the 150s edge function wall-clock limit
+  runBudgetMs: Number(Deno.env.get('WORKER_RUN_BUDGET_MS') || '110000'),
+  maxReinvocations: Number(Deno.env.get('WORKER_MAX_REINVOCATIONS') || '10'),
+  highPriorityWeight: 3,
+  dedupTtlSeconds: Number(Deno.env.get('QUEUE_DEDUP_TTL_SECONDS') || '21600') // 6 hours
+};
+
+/**
+ * Collaborators a worker would otherwise create itself, injectable for tests
+ */
+export interface WorkerDependencies {
+  supabase?: SupabaseClient<Database>; // Defaults to a service-role client for SUPABASE_URL
+  options?: Partial<WorkerOptions>;    // Applied over the worker's own options
+}
+
+/**
+ * Create the service-role client workers use against the project database
+ */
+export function createWorkerClient(): SupabaseClient<Database> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Writes made while processing a message are recorded as spans of its trace
+  return createClient<Database>(supabaseUrl, supabaseKey, {
+    global: { fetch: tracedFetch }
+  });
+}
+
+/**
+ * Row shape returned by the pgmq_read RPC
+ */
+export interface QueueMessage<T> {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  vt: string;
+  message: T;
+}
+
+/**
+ * A message read from one of the stage's priority lanes
+ */
+export interface LaneMessage<T> extends QueueMessage<T> {
+  queue: string; // PGMQ queue the message was read from, needed to archive it
+  priority: MessagePriority;
+}
+
+/**
+ * Delivery information passed to process() and the lifecycle hooks
+ */
+export interface MessageContext {
+  queueName: string;    // Pipeline stage, the same for both priority lanes
+  queue: string;        // PGMQ queue of the lane the message was read from
+  priority: MessagePriority; // Inherited by messages enqueued while processing
+  msgId: number;
+  attempt: number;      // 1-based delivery count (pgmq read_ct)
+  maxAttempts: number;
+  enqueuedAt: string;
+  pipelineRunId?: string; // Run this message belongs to, propagated to enqueued children
+  signal: AbortSignal;  // Aborted when processing times out; pass to work that doesn't pick it up itself
+}
+
+/**
+ * Outcome of a single message run through the lifecycle
+ */
+export type MessageOutcome = 'success' | 'error' | 'dead_letter';
+
+/**
+ * Why a run stopped before its batch, or why a loop stopped
+ */
+export type RunStopReason = 'empty' | 'paused' | 'draining' | 'budget' | 'rate_limited' | 'error';
+
+export interface RunStats {
+  processed: number;
+  succeeded: number;
+  failed: number;
+  deadLettered: number;
+  rateLimited: number; // Failures caused by rate limiting (also counted in failed)
+  durationMs: number;
+  stopReason?: RunStopReason; // Unset when the run processed a batch normally
+}
+
+export interface LoopOptions {
+  budgetMs?: number;  // Defaults to the runBudgetMs option
+  reinvoke?: boolean; // Re-invoke the function when the budget runs out (default true)
+  chain?: number;     // Invocations in a row that led to this one
+  lease?: string;     // Lease the chain holds on the worker (see reinvoke_worker)
+}
+
+export interface LoopStats extends RunStats {
+  batches: number;
+  stopReason: RunStopReason;
+  reinvoked: boolean;
+}
+
+/**
+ * Body of a worker invocation: one batch, or a loop until the queue is empty
+ */
+export interface InvocationRequest {
+  mode?: 'single' | 'loop'; // Defaults to WORKER_RUN_MODE, else 'loop'
+  chain?: number;
+  lease?: string;
+}
+
+/**
+ * Queue worker runtime shared by every pipeline stage.
+ *
+ * Each message goes through the same lifecycle: read with a visibility timeout,
+ * process, then archive on success, leave for redelivery on failure, or move to
+ * pgmq_dead_letter_items once it has been delivered maxAttempts times (or fails
+ * with a permanent error). Subclasses implement process() and may override the
+ * onSuccess/onFailure/onDeadLetter hooks.
  * @template T - The message payload type
  */
 export abstract class PageWorker<T> {
   protected supabase: SupabaseClient<Database>;
   protected queueName: string;
   protected visibilityTimeout: number;
-  protected batchProcessor: BatchProcessor<T>;
+  protected options: WorkerOptions;
   protected logger: any;
   protected isRunning = false;
   protected lastRunTime = 0;
   protected minTimeBetweenRuns = 1000; // Minimum 1s between worker runs
-  
-  constructor(queueName: string, visibilityTimeout = 300) {
+  // Context of the message currently being processed (messages are handled one at a time)
+  protected currentContext: MessageContext | null = null;
+  // Messages of the current run that failed because of rate limiting
+  private rateLimitedInRun = 0;
+  // Reads so far, for weighted polling of the priority lanes
+  private pollCount = 0;
+
+  constructor(
+    queueName: string,
+    visibilityTimeout = 300,
+    options: Partial<WorkerOptions> = {},
+    deps: WorkerDependencies = {}
+  ) {
     this.queueName = queueName;
     this.visibilityTimeout = visibilityTimeout;
-    
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    
-    this.supabase = createClient<Database>(supabaseUrl, supabaseKey);
-    this.batchProcessor = new BatchProcessor<T>(this.supabase, {
-      concurrency: 1,   // Process one message at a time
-      batchSize: 1,     // Read one message at a time 
-      delayBetweenItemsMs: 1000 // 1 second between items by default
-    });
-    
+    this.options = { ...DEFAULT_WORKER_OPTIONS, ...options, ...(deps.options || {}) };
+    this.supabase = deps.supabase || createWorkerClient();
+
+    // Share cached API responses, the Spotify rate limit, retry budgets and circuit state with other function instances
+    const rateLimiter = new RateLimiter(this.supabase);
+    globalCache.setPersistentStore(new PostgresCacheStore(this.supabase));
+    setSpotifyRateLimiter(rateLimiter);
+    setRetryBudgetLimiter(rateLimiter);
+    CircuitBreakerRegistry.setSupabaseClient(this.supabase);
+
     this.logger = logger.child({ worker: queueName });
-    
+
     // Log worker initialization
-    this.logger.info(`Worker initialized with visibility timeout: ${visibilityTimeout}s`);
+    this.logger.info(`Worker initialized with visibility timeout: ${visibilityTimeout}s, max attempts: ${this.options.maxAttempts}`);
   }
-  
+
   /**
    * Process a single message
    * This must be implemented by the derived class
    */
-  protected abstract process(msg: T): Promise<void>;
-  
+  protected abstract process(msg: T, ctx: MessageContext): Promise<void>;
+
+  /**
+   * Called after a message has been processed and archived
+   */
+  protected async onSuccess(_msg: T, _ctx: MessageContext): Promise<void> {}
+
+  /**
+   * Called when processing fails and the message will be redelivered after its visibility timeout
+   */
+  protected async onFailure(_msg: T, _ctx: MessageContext, _error: Error): Promise<void> {}
+
+  /**
+   * Called after a message has been moved to the dead letter table
+   */
+  protected async onDeadLetter(_msg: T, _ctx: MessageContext, _error: Error): Promise<void> {}
+
   /**
    * Run the worker to process messages from the queue
    */
-  async run(): Promise<void> {
+  async run(): Promise<RunStats> {
+    const stats: RunStats = { processed: 0, succeeded: 0, failed: 0, deadLettered: 0, rateLimited: 0, durationMs: 0 };
+
     // Apply rate limiting to prevent too frequent worker invocations
     const now = Date.now();
     const timeSinceLastRun = now - this.lastRunTime;
-    
+
     if (timeSinceLastRun < this.minTimeBetweenRuns) {
       const waitTime = this.minTimeBetweenRuns - timeSinceLastRun;
       this.logger.debug(`Throttling worker execution, waiting ${waitTime}ms`);
       await wait(waitTime);
     }
-    
+
     // Mark this worker as running
-    this.lastRunTime = Date.now();
+    const startTime = Date.now();
+    this.lastRunTime = startTime;
     this.isRunning = true;
-    
+    this.rateLimitedInRun = 0;
+
     try {
       // Wait for global backpressure to allow this operation
       await globalState.waitForBackpressure(this.queueName);
-      
+
       // Increase the global operation counter
       globalState.incrementOperations();
-      
-      // Check if this worker is paused in the database
-      const { data: workerStatus } = await this.supabase
-        .from('worker_status')
-        .select('is_paused, paused_at, paused_by')
-        .eq('worker_name', this.queueName)
-        .maybeSingle();
-        
-      if (workerStatus?.is_paused) {
-        this.logger.info(`Worker is paused by ${workerStatus.paused_by} at ${workerStatus.paused_at}, skipping execution`);
-        return;
-      }
-      
-      // Read batch of messages from queue
-      this.logger.info(`Reading batch of messages from queue: ${this.queueName}`);
-      
-      // Process messages in batch
-      const stats = await this.batchProcessor.processBatch(
-        this.queueName, 
-        async (messages) => {
-          // Process each message in series
-          await Promise.all(messages.map(async msg => {
-            try {
-              await this.process(msg);
-            } catch (error) {
-              this.logger.error(`Error processing message:`, error);
-              throw error; // Let BatchProcessor handle this error
-            }
-          }));
-        },
-        this.visibilityTimeout
-      );
-      
-      // Log results
-      if (stats.processed > 0) {
-        this.logger.info(`Processed ${stats.processed} messages, succeeded: ${stats.succeeded}, failed: ${stats.failed}`);
-      } else {
+
+      // Honor pause/drain/throttle set through the worker control plane (keyed by queue name)
+      const control = await getWorkerControl(this.supabase, this.queueName);
+
+      if (control?.state === 'paused') {
+        this.logger.info(`Worker is paused by ${control.paused_by} at ${control.paused_at}${control.reason ? ` (${control.reason})` : ''}, skipping execution`);
+        stats.stopReason = 'paused';
+        return stats;
+      }
+
+      if (control?.state === 'draining') {
+        this.logger.info(`Worker is draining since ${control.drain_requested_at}, not reading new messages`);
+        stats.stopReason = 'draining';
+        return stats;
+      }
+
+      const messages = await this.readMessages(control?.batch_size ?? this.options.batchSize);
+
+      if (messages.length === 0) {
         this.logger.debug(`No messages to process in queue ${this.queueName}`);
+        stats.stopReason = 'empty';
+        return stats;
+      }
+
+      this.logger.info(`Processing ${messages.length} messages from queue ${this.queueName}`);
+
+      // Start from the Spotify concurrency limits learned by earlier invocations
+      await loadSpotifyConcurrencyLimits(this.supabase);
+      await this.loadSpotifyUserTokens();
+
+      for (const row of messages) {
+        const outcome = await this.handleMessage(row);
+
+        stats.processed++;
+        if (outcome === 'success') stats.succeeded++;
+        else if (outcome === 'dead_letter') stats.deadLettered++;
+        else stats.failed++;
+
+        // Add delay between items to prevent rate limiting
+        await wait(control?.delay_between_items_ms ?? this.options.delayBetweenItemsMs);
       }
+
+      this.logger.info(`Processed ${stats.processed} messages, succeeded: ${stats.succeeded}, failed: ${stats.failed}, dead-lettered: ${stats.deadLettered}`);
     } catch (error) {
       this.logger.error(`Unexpected error in worker:`, error);
+      await this.logIssue('worker_execution_error', { error: String(error) });
+      stats.stopReason = 'error';
     } finally {
+      await flushSpans(this.supabase);
+      await persistSpotifyConcurrencyLimits(this.supabase);
+      if (stats.processed > 0) {
+        await this.recordSpotifyStatus();
+      }
+
       // Decrement global operation counter
       globalState.decrementOperations();
       this.isRunning = false;
+      stats.rateLimited = this.rateLimitedInRun;
+      stats.durationMs = Date.now() - startTime;
     }
+
+    return stats;
   }
-  
+
   /**
-   * Enqueue a message to a queue
+   * Keep running batches until the queue is empty, the worker is paused or
+   * draining, the rate limiter pushes back, or the wall-clock budget runs out.
+   * In the last case the function re-invokes itself so the backlog keeps draining.
    */
-  async enqueue(queueName: string, message: any): Promise<void> {
+  async runLoop(options: LoopOptions = {}): Promise<LoopStats> {
+    const budgetMs = options.budgetMs ?? this.options.runBudgetMs;
+    const chain = options.chain ?? 0;
+    const startTime = Date.now();
+    const totals: LoopStats = {
+      processed: 0, succeeded: 0, failed: 0, deadLettered: 0, rateLimited: 0, durationMs: 0,
+      batches: 0,
+      stopReason: 'budget',
+      reinvoked: false
+    };
+
+    // Only start a batch that can run to the processing timeout within the budget
+    while (totals.batches === 0 || Date.now() - startTime + this.options.processingTimeoutMs <= budgetMs) {
+      const stats = await this.run();
+      totals.batches++;
+      totals.processed += stats.processed;
+      totals.succeeded += stats.succeeded;
+      totals.failed += stats.failed;
+      totals.deadLettered += stats.deadLettered;
+      totals.rateLimited += stats.rateLimited;
+
+      if (stats.stopReason) {
+        totals.stopReason = stats.stopReason;
+        break;
+      }
+
+      if (stats.rateLimited > 0) {
+        totals.stopReason = 'rate_limited';
+        break;
+      }
+    }
+
+    totals.durationMs = Date.now() - startTime;
+
+    if (totals.stopReason === 'budget' && (options.reinvoke ?? true)) {
+      if (chain < this.options.maxReinvocations) {
+        totals.reinvoked = await this.reinvoke(chain + 1, options.lease ?? crypto.randomUUID());
+      } else {
+        this.logger.info(`Reached ${chain} consecutive invocations, leaving the backlog to the next cron run`);
+      }
+    }
+
+    // The chain ends here, so cron can start the worker again
+    if (options.lease && !totals.reinvoked) {
+      await this.releaseLease(options.lease);
+    }
+
+    this.logger.info(`Loop stopped (${totals.stopReason}) after ${totals.batches} batches: processed ${totals.processed}, succeeded ${totals.succeeded}, failed ${totals.failed}, dead-lettered ${totals.deadLettered}`);
+    return totals;
+  }
+
+  /**
+   * Handle an invocation: { mode: 'single' } runs one batch, anything else loops
+   */
+  invoke(request: InvocationRequest = {}): Promise<RunStats | LoopStats> {
+    const mode = request.mode || Deno.env.get('WORKER_RUN_MODE') || 'loop';
+    return mode === 'single' ? this.run() : this.runLoop({ chain: request.chain, lease: request.lease });
+  }
+
+  /**
+   * Edge function serving this worker, e.g. artist_discovery -> artistDiscovery
+   */
+  protected get functionName(): string {
+    return this.queueName.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase());
+  }
+
+  /**
+   * Invoke this worker's function again through pg_net, unless it was paused or
+   * set draining meanwhile, or another chain holds the worker's lease. The call
+   * is queued by the database, so this invocation can end without waiting for
+   * the next one. The lease lasts until the next invocation is done.
+   */
+  protected async reinvoke(chain: number, lease: string): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('reinvoke_worker', {
+      p_worker_name: this.queueName,
+      p_function_name: this.functionName,
+      p_lease_id: lease,
+      p_lease_seconds: Math.ceil((this.options.runBudgetMs + this.options.processingTimeoutMs) / 1000),
+      p_body: { mode: 'loop', chain, lease }
+    });
+
+    if (error) {
+      this.logger.error(`Failed to re-invoke ${this.functionName}:`, error);
+      return false;
+    }
+
+    if (data) {
+      this.logger.info(`Re-invoked ${this.functionName} to keep draining ${this.queueName} (chain ${chain})`);
+    }
+    return !!data;
+  }
+
+  /**
+   * Give up the lease of the chain this invocation belongs to. If this fails
+   * the lease still expires on its own.
+   */
+  protected async releaseLease(lease: string): Promise<void> {
+    const { error } = await this.supabase.rpc('release_worker_lease', {
+      p_worker_name: this.queueName,
+      p_lease_id: lease
+    });
+
+    if (error) {
+      this.logger.warn(`Failed to release the re-invocation lease of ${this.queueName}:`, error);
+    }
+  }
+
+  /**
+   * Read a batch of messages, hiding them for the visibility timeout. Lanes are
+   * polled in weighted order and the second lane fills what the first leaves.
+   */
+  protected async readMessages(batchSize = this.options.batchSize): Promise<LaneMessage<T>[]> {
+    const messages: LaneMessage<T>[] = [];
+
+    for (const priority of laneOrder(this.pollCount++, this.options.highPriorityWeight)) {
+      if (messages.length >= batchSize) break;
+
+      const queue = laneQueue(this.queueName, priority);
+      const { data, error } = await this.supabase.rpc('pgmq_read', {
+        queue_name: queue,
+        visibility_timeout: this.visibilityTimeout,
+        batch_size: batchSize - messages.length
+      });
+
+      if (error) {
+        this.logger.error(`Error reading from queue ${queue}:`, error);
+        await this.logIssue('queue_poll_error', { error: error.message, queue });
+        throw error;
+      }
+
+      messages.push(...((data || []) as QueueMessage<T>[]).map(row => ({ ...row, queue, priority })));
+    }
+
+    return messages;
+  }
+
+  /**
+   * Drive a single message through process → archive / retry / dead-letter
+   */
+  protected async handleMessage(row: LaneMessage<T>): Promise<MessageOutcome> {
+    const controller = new AbortController();
+    const ctx: MessageContext = {
+      queueName: this.queueName,
+      queue: row.queue,
+      priority: row.priority,
+      msgId: row.msg_id,
+      attempt: row.read_ct || 1,
+      maxAttempts: this.options.maxAttempts,
+      enqueuedAt: row.enqueued_at,
+      pipelineRunId: (row.message as PipelineMessage)?.pipelineRunId,
+      signal: controller.signal
+    };
+
+    // Continue the trace of whoever enqueued this message
+    return withSpan(`${this.queueName}.process`, (span) => this.settleMessage(row, ctx, span, controller), {
+      service: this.queueName,
+      kind: 'consumer',
+      parent: (row.message as TracedMessage)?.traceContext,
+      attributes: {
+        'messaging.message_id': ctx.msgId,
+        'messaging.attempt': ctx.attempt,
+        'messaging.priority': ctx.priority,
+        'pipeline.run_id': ctx.pipelineRunId
+      }
+    });
+  }
+
+  /**
+   * Process a message inside its span, then archive it, leave it for retry or dead-letter it
+   */
+  private async settleMessage(row: LaneMessage<T>, ctx: MessageContext, span: Span, controller: AbortController): Promise<MessageOutcome> {
+    const startTime = Date.now();
+    const conditionalBefore = globalCache.getConditionalStats();
+    this.currentContext = ctx;
+
+    try {
+      await this.processWithTimeout(row.message, ctx, controller);
+      const processingTime = Date.now() - startTime;
+      const conditional = globalCache.getConditionalStats();
+
+      await this.archive(ctx);
+      await this.recordMetric(ctx, 'success', {
+        processing_time_ms: processingTime,
+        // ETag refreshes of cached API responses, and how many were answered "not modified"
+        conditional_requests: conditional.conditionalRequests - conditionalBefore.conditionalRequests,
+        not_modified: conditional.notModified - conditionalBefore.notModified
+      });
+      if (ctx.pipelineRunId) {
+        await recordPipelineEvent(this.supabase, ctx.pipelineRunId, this.queueName, 'processed');
+      }
+
+      this.logger.debug(`Processed message ${ctx.msgId} in ${processingTime}ms (attempt ${ctx.attempt})`);
+      await this.runHook('onSuccess', () => this.onSuccess(row.message, ctx));
+      return 'success';
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      const processingTime = Date.now() - startTime;
+      const category = categorizeError(error);
+      if (category === ErrorCategory.RATE_LIMIT) {
+        this.rateLimitedInRun++;
+      }
+      span.setError(error);
+      span.setAttribute('error.category', category);
+
+      this.logger.error(`Error processing message ${ctx.msgId} (attempt ${ctx.attempt}/${ctx.maxAttempts}):`, error);
+
+      if (this.shouldDeadLetter(error, ctx) && await this.deadLetter(row, ctx, error, category)) {
+        await this.recordMetric(ctx, 'dead_letter', {
+          processing_time_ms: processingTime,
+          error: error.message,
+          category
+        });
+        if (ctx.pipelineRunId) {
+          await recordPipelineEvent(this.supabase, ctx.pipelineRunId, this.queueName, 'failed');
+        }
+
+        this.logger.warn(`Moved message ${ctx.msgId} to dead letter queue after ${ctx.attempt} attempts`);
+        await this.runHook('onDeadLetter', () => this.onDeadLetter(row.message, ctx, error));
+        return 'dead_letter';
+      }
+
+      // Leave the message in the queue; it reappears once the visibility timeout expires
+      await this.recordMetric(ctx, 'error', {
+        processing_time_ms: processingTime,
+        error: error.message,
+        category
+      });
+
+      await this.runHook('onFailure', () => this.onFailure(row.message, ctx, error));
+      return 'error';
+    } finally {
+      this.currentContext = null;
+    }
+  }
+
+  /**
+   * Run process() with the per-message timeout, always clearing the timer.
+   * On timeout the message's signal is aborted: its in-flight Spotify and Genius
+   * requests are cancelled and any database request it still makes fails
+   * without being sent, so a timed-out message writes nothing more.
+   */
+  private async processWithTimeout(msg: T, ctx: MessageContext, controller: AbortController): Promise<void> {
+    let timeoutId: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(() => {
+        const error = new TransientError(`Processing timeout (${this.options.processingTimeoutMs}ms) for message ${ctx.msgId} in queue ${this.queueName}`);
+        controller.abort(error);
+        reject(error);
+      }, this.options.processingTimeoutMs);
+    });
+
+    try {
+      await Promise.race([withAbortSignal(ctx.signal, () => this.process(msg, ctx)), timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Whether a failed message should stop being retried
+   */
+  protected shouldDeadLetter(error: Error, ctx: MessageContext): boolean {
+    return ctx.attempt >= ctx.maxAttempts || !isRetryable(error);
+  }
+
+  /**
+   * Move a message to pgmq_dead_letter_items; returns false if it had to stay in the queue
+   */
+  private async deadLetter(row: LaneMessage<T>, ctx: MessageContext, error: Error, category: ErrorCategory): Promise<boolean> {
+    const { error: insertError } = await this.supabase.from('pgmq_dead_letter_items').insert({
+      queue_name: this.queueName,
+      msg: row.message,
+      fail_count: ctx.attempt,
+      details: {
+        error: error.message,
+        category,
+        permanent: !isRetryable(error),
+        msg_id: ctx.msgId,
+        queue: ctx.queue,
+        enqueued_at: ctx.enqueuedAt
+      }
+    });
+
+    if (insertError) {
+      // Keep the message in the queue rather than losing it
+      this.logger.error(`Failed to dead-letter message ${ctx.msgId}, leaving it in the queue:`, insertError);
+      return false;
+    }
+
+    // Archive so it doesn't reappear
+    await this.archive(ctx);
+    return true;
+  }
+
+  private async archive(ctx: MessageContext): Promise<void> {
+    const { error } = await this.supabase.rpc('pgmq_archive', {
+      queue_name: ctx.queue,
+      msg_id: ctx.msgId
+    });
+
+    if (error) {
+      this.logger.error(`Error archiving message ${ctx.msgId} from queue ${ctx.queue}:`, error);
+    }
+  }
+
+  /**
+   * Pick up refresh tokens users granted since the last run; without them the
+   * apps keep using client credentials
+   */
+  private async loadSpotifyUserTokens(): Promise<void> {
+    try {
+      await loadSpotifyUserCredentials(this.supabase);
+    } catch (error) {
+      this.logger.warn('Failed to load Spotify user tokens, using client credentials:', error);
+    }
+  }
+
+  /**
+   * Record the Spotify credential and concurrency state of this instance as a
+   * 'spotify_status' queue metric (msg_id 0), read by the concurrencyLimits function
+   */
+  private async recordSpotifyStatus(): Promise<void> {
+    const credentials = getSpotifyCredentialStatus();
+    if (Object.keys(credentials).length === 0) return;
+
+    try {
+      await this.supabase.from('queue_metrics').insert({
+        queue_name: this.queueName,
+        msg_id: 0,
+        status: 'spotify_status',
+        details: { credentials, concurrency: getAdaptiveLimitStatus() }
+      });
+    } catch (error) {
+      this.logger.error('Failed to record Spotify status:', error);
+    }
+  }
+
+  private async recordMetric(ctx: MessageContext, status: MessageOutcome, details: Record<string, unknown>): Promise<void> {
+    try {
+      await this.supabase.from('queue_metrics').insert({
+        queue_name: this.queueName,
+        msg_id: ctx.msgId,
+        status,
+        details: {
+          ...details,
+          attempt: ctx.attempt,
+          max_attempts: ctx.maxAttempts,
+          priority: ctx.priority
+        }
+      });
+    } catch (error) {
+      // Don't let metrics logging cause more errors
+      this.logger.error('Failed to record queue metric:', error);
+    }
+  }
+
+  private async runHook(name: string, hook: () => Promise<void>): Promise<void> {
+    try {
+      await hook();
+    } catch (error) {
+      this.logger.error(`Error in ${name} hook:`, error);
+    }
+  }
+
+  /**
+   * Log an issue to the worker_issues table
+   */
+  protected async logIssue(type: string, details: Record<string, unknown>): Promise<void> {
+    try {
+      await this.supabase.from('worker_issues').insert({
+        worker_name: this.queueName,
+        issue_type: type,
+        details
+      });
+    } catch (e) {
+      // Don't let error logging cause more errors
+      this.logger.error('Failed to log issue:', e);
+    }
+  }
+
+  /**
+   * Safe upsert helper method for database operations
+   */
+  protected async safeUpsert<R = unknown>(
+    tableName: string,
+    data: Record<string, unknown>,
+    keyField: string,
+    returnFields: string = '*'
+  ): Promise<{ data: R | null; id: string | null; error: Error | null }> {
+    return safeUpsert<R>(
+      this.supabase,
+      tableName,
+      data,
+      keyField,
+      returnFields,
+      { worker: this.queueName }
+    );
+  }
+
+  /**
+   * Run part of the processing of a message in its own span
+   */
+  protected traceOperation<R>(name: string, fn: () => Promise<R>, attributes?: SpanAttributes): Promise<R> {
+    return withSpan(name, () => fn(), { service: this.queueName, attributes });
+  }
+
+  /**
+   * Retry an operation with exponential backoff, traced as a single span
+   */
+  protected withRetry<R>(
+    fn: () => Promise<R>,
+    options: { name: string; maxRetries?: number; baseDelayMs?: number }
+  ): Promise<R> {
+    return this.traceOperation(options.name, () => withRetry(fn, {
+      maxAttempts: (options.maxRetries ?? 2) + 1,
+      initialDelayMs: options.baseDelayMs ?? 1000
+    }));
+  }
+
+  /**
+   * Enqueue a message to a pipeline stage, in the lane of its priority.
+   * Messages enqueued while processing inherit the pipeline run, trace and priority of the current message
+   */
+  async enqueue(queueName: string, message: any): Promise<number> {
+    const { queue, payload, pipelineRunId } = this.prepareMessage(queueName, message);
+
+    // Counted before the send, so a consumer can't count it processed first
+    if (pipelineRunId) {
+      await recordPipelineEvent(this.supabase, pipelineRunId, queueName, 'enqueued');
+    }
+
     try {
       const { data, error } = await this.supabase.rpc(
         'pgmq_send',
-        { 
-          queue_name: queueName, 
-          msg: message 
+        {
+          queue_name: queue,
+          msg: payload
+        }
+      );
+
+      if (error) {
+        throw error;
+      }
+
+      return data;
+    } catch (error) {
+      if (pipelineRunId) {
+        await recordPipelineEvent(this.supabase, pipelineRunId, queueName, 'enqueued', -1);
+      }
+      this.logger.error(`Error enqueuing message to ${queue}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Enqueue a message unless another message with the same dedup key
+   * (e.g. track_discovery:{albumId}:{offset}) was enqueued within the TTL.
+   * The check and the send are atomic; a skipped message returns null and is
+   * counted in queue_metrics as 'deduplicated'.
+   */
+  async enqueueOnce(
+    queueName: string,
+    message: Record<string, unknown>,
+    dedupKey: string,
+    ttlSeconds = this.options.dedupTtlSeconds
+  ): Promise<number | null> {
+    const { queue, payload, pipelineRunId } = this.prepareMessage(queueName, message);
+
+    if (pipelineRunId) {
+      await recordPipelineEvent(this.supabase, pipelineRunId, queueName, 'enqueued');
+    }
+
+    let sent = false;
+    try {
+      const { data, error } = await this.supabase.rpc(
+        'pgmq_send_dedup',
+        {
+          p_queue_name: queue,
+          p_msg: payload,
+          p_dedup_key: dedupKey,
+          p_ttl_seconds: ttlSeconds
         }
       );
-      
+
       if (error) {
         throw error;
       }
-      
+
+      if (data === null) {
+        this.logger.info(`Skipped duplicate message for ${queue}`, { dedupKey });
+        return null;
+      }
+
+      sent = true;
+      return data;
     } catch (error) {
-      this.logger.error(`Error enqueuing message to ${queueName}:`, error);
+      this.logger.error(`Error enqueuing message to ${queue}:`, error);
       throw error;
+    } finally {
+      if (pipelineRunId && !sent) {
+        await recordPipelineEvent(this.supabase, pipelineRunId, queueName, 'enqueued', -1);
+      }
     }
   }
+
+  /**
+   * Lane and payload of a message about to be enqueued to a stage
+   */
+  private prepareMessage(queueName: string, message: Record<string, unknown>): { queue: string; payload: Record<string, unknown>; pipelineRunId?: string } {
+    const pipelineRunId = (message?.pipelineRunId as string | undefined) || this.currentContext?.pipelineRunId;
+    const traceContext = message?.traceContext || getTraceContext();
+    const requested = (message as PrioritizedMessage)?.priority;
+    const priority = isMessagePriority(requested) ? requested : (this.currentContext?.priority || DEFAULT_PRIORITY);
+    const payload = {
+      ...message,
+      priority,
+      ...(pipelineRunId ? { pipelineRunId } : {}),
+      ...(traceContext ? { traceContext } : {})
+    };
+
+    return { queue: laneQueue(queueName, priority), payload, pipelineRunId };
+  }
 }
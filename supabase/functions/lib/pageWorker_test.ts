@@ -0,0 +1,100 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { PageWorker } from './pageWorker.ts';
+import { FakeSupabase } from './testing/fakeSupabase.ts';
+
+class EchoWorker extends PageWorker<{ n: number }> {
+  protected async process(): Promise<void> {}
+}
+
+// A worker whose queue has a backlog, and the re-invocation RPCs it calls
+async function backloggedWorker(reinvokeGranted: boolean) {
+  const db = new FakeSupabase();
+  const reinvoked: Record<string, unknown>[] = [];
+  const released: Record<string, unknown>[] = [];
+  db.registerRpc('reinvoke_worker', args => {
+    reinvoked.push(args);
+    return reinvokeGranted;
+  });
+  db.registerRpc('release_worker_lease', args => {
+    released.push(args);
+    return true;
+  });
+
+  for (let n = 0; n < 3; n++) {
+    await db.client.rpc('pgmq_send', { queue_name: 'echo', msg: { n } });
+  }
+
+  const worker = new EchoWorker('echo', 30, { delayBetweenItemsMs: 0, maxReinvocations: 2 }, { supabase: db.client });
+  return { worker, reinvoked, released };
+}
+
+Deno.test('a worker out of budget starts a chain under a new lease', async () => {
+  const { worker, reinvoked, released } = await backloggedWorker(true);
+
+  const stats = await worker.runLoop({ budgetMs: 0 });
+
+  assertEquals(stats.reinvoked, true);
+  assertEquals(reinvoked.length, 1);
+  const lease = reinvoked[0].p_lease_id as string;
+  assert(lease);
+  assertEquals(reinvoked[0].p_body, { mode: 'loop', chain: 1, lease });
+  assertEquals(released, []);
+});
+
+Deno.test('a chain passes its lease on and releases it when it ends', async () => {
+  const { worker, reinvoked, released } = await backloggedWorker(true);
+
+  await worker.runLoop({ budgetMs: 0, chain: 1, lease: 'chain-lease' });
+  assertEquals(reinvoked.map(args => args.p_lease_id), ['chain-lease']);
+  assertEquals(released, []);
+
+  // The last invocation allowed leaves the backlog to cron
+  await worker.runLoop({ budgetMs: 0, chain: 2, lease: 'chain-lease' });
+  assertEquals(reinvoked.length, 1);
+  assertEquals(released, [{ p_worker_name: 'echo', p_lease_id: 'chain-lease' }]);
+});
+
+Deno.test('a chain denied re-invocation releases its lease', async () => {
+  const { worker, released } = await backloggedWorker(false);
+
+  const stats = await worker.runLoop({ budgetMs: 0, chain: 1, lease: 'chain-lease' });
+
+  assertEquals(stats.reinvoked, false);
+  assertEquals(released.map(args => args.p_lease_id), ['chain-lease']);
+});
+
+Deno.test('enqueueOnce sends a dedup key once until it expires', async () => {
+  const db = new FakeSupabase();
+  const worker = new EchoWorker('echo', 30, {}, { supabase: db.client });
+
+  const first = await worker.enqueueOnce('track_discovery', { albumId: 'a1', priority: 'low' }, 'track_discovery:a1:0', 60);
+  const duplicate = await worker.enqueueOnce('track_discovery', { albumId: 'a1', priority: 'low' }, 'track_discovery:a1:0', 60);
+
+  assert(first !== null);
+  assertEquals(duplicate, null);
+  assertEquals(db.queueDepth('track_discovery'), 1);
+  assertEquals(
+    db.table('queue_metrics').map(metric => [metric.status, metric.msg_id]),
+    [['deduplicated', first]]
+  );
+
+  // Another key, or the same key once its TTL is over, is sent
+  assert(await worker.enqueueOnce('track_discovery', { albumId: 'a1', priority: 'low' }, 'track_discovery:a1:50', 60) !== null);
+  db.advanceTime(61_000);
+  assert(await worker.enqueueOnce('track_discovery', { albumId: 'a1', priority: 'low' }, 'track_discovery:a1:0', 60) !== null);
+  assertEquals(db.queueDepth('track_discovery'), 3);
+});
+
+Deno.test('a deduplicated message is not left pending in its pipeline run', async () => {
+  const db = new FakeSupabase();
+  const worker = new EchoWorker('echo', 30, {}, { supabase: db.client });
+  const message = { albumId: 'a1', pipelineRunId: 'run-1' };
+
+  await worker.enqueueOnce('track_discovery', message, 'track_discovery:a1:0');
+  await worker.enqueueOnce('track_discovery', message, 'track_discovery:a1:0');
+
+  assertEquals(
+    db.table('pipeline_run_stages').map(stage => [stage.stage, stage.pending]),
+    [['track_discovery', 1]]
+  );
+});
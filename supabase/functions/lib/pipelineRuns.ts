@@ -0,0 +1,181 @@
+/**
+ * Pipeline run tracking: ties every message spawned from one artist seed together
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
+import { logger } from './logger.ts';
+
+// Stages in the order messages flow through them
+export const PIPELINE_STAGES = [
+  'artist_discovery',
+  'album_discovery',
+  'track_discovery',
+  'producer_identification',
+  'social_enrichment'
+] as const;
+
+export type PipelineEvent = 'enqueued' | 'processed' | 'failed';
+
+/**
+ * Message payload field that carries the run id between stages
+ */
+export interface PipelineMessage {
+  pipelineRunId?: string;
+}
+
+export interface StageStatus {
+  stage: string;
+  pending: number;
+  processed: number;
+  failed: number;
+}
+
+export interface PipelineRunStatus {
+  id: string;
+  artist_spotify_id: string | null;
+  artist_name: string | null;
+  source: string;
+  status: string;
+  started_at: string;
+  finished_at: string | null;
+  stages: StageStatus[];
+  completion_percentage: number;
+}
+
+const runLogger = logger.child({ component: 'PipelineRuns' });
+
+/**
+ * Create the pipeline_runs row for a new run (idempotent on id)
+ */
+export async function startPipelineRun(
+  supabase: SupabaseClient<Database>,
+  run: {
+    id?: string;
+    artistSpotifyId?: string;
+    artistName?: string;
+    source?: string;
+    seedingJobId?: string;
+    metadata?: Record<string, unknown>;
+  }
+): Promise<string> {
+  const runId = run.id || crypto.randomUUID();
+
+  const { error } = await supabase
+    .from('pipeline_runs')
+    .upsert({
+      id: runId,
+      artist_spotify_id: run.artistSpotifyId || null,
+      artist_name: run.artistName || null,
+      source: run.source || 'manual',
+      seeding_job_id: run.seedingJobId || null,
+      metadata: run.metadata || {}
+    }, {
+      onConflict: 'id',
+      ignoreDuplicates: true
+    });
+
+  if (error) {
+    runLogger.error(`Error creating pipeline run ${runId}:`, error);
+    throw error;
+  }
+
+  return runId;
+}
+
+/**
+ * Atomically adjust the per-stage counters of a run. An 'enqueued' event is
+ * recorded before the send, and taken back with a count of -1 if the send fails.
+ * Never throws: run tracking must not break message processing.
+ */
+export async function recordPipelineEvent(
+  supabase: SupabaseClient<Database>,
+  runId: string,
+  stage: string,
+  event: PipelineEvent,
+  count = 1
+): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('record_pipeline_event', {
+      p_run_id: runId,
+      p_stage: stage,
+      p_event: event,
+      p_count: count
+    });
+
+    if (error) {
+      runLogger.error(`Error recording ${event} event for run ${runId} stage ${stage}:`, error);
+    }
+  } catch (error) {
+    runLogger.error(`Exception recording ${event} event for run ${runId} stage ${stage}:`, error);
+  }
+}
+
+/**
+ * Get the status of a run with per-stage counts and completion percentage
+ */
+export async function getPipelineRunStatus(
+  supabase: SupabaseClient<Database>,
+  runId: string
+): Promise<PipelineRunStatus | null> {
+  const { data: run, error } = await supabase
+    .from('pipeline_runs')
+    .select('*')
+    .eq('id', runId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!run) return null;
+
+  const { data: stageRows, error: stagesError } = await supabase
+    .from('pipeline_run_stages')
+    .select('stage, pending, processed, failed')
+    .eq('run_id', runId);
+
+  if (stagesError) throw stagesError;
+
+  // Report every stage, in pipeline order, even before it has seen messages
+  const stages: StageStatus[] = PIPELINE_STAGES.map(stage => {
+    const row = (stageRows || []).find(r => r.stage === stage);
+    return {
+      stage,
+      pending: row?.pending || 0,
+      processed: row?.processed || 0,
+      failed: row?.failed || 0
+    };
+  });
+
+  const total = stages.reduce((sum, s) => sum + s.pending + s.processed + s.failed, 0);
+  const done = stages.reduce((sum, s) => sum + s.processed + s.failed, 0);
+
+  return {
+    id: run.id,
+    artist_spotify_id: run.artist_spotify_id,
+    artist_name: run.artist_name,
+    source: run.source,
+    status: run.status,
+    started_at: run.started_at,
+    finished_at: run.finished_at,
+    stages,
+    completion_percentage: total > 0 ? Math.round((done / total) * 10000) / 100 : 0
+  };
+}
+
+/**
+ * Find the most recent run for an artist
+ */
+export async function getLatestRunIdForArtist(
+  supabase: SupabaseClient<Database>,
+  artistSpotifyId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('pipeline_runs')
+    .select('id')
+    .eq('artist_spotify_id', artistSpotifyId)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id || null;
+}
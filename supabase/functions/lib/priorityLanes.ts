@@ -0,0 +1,45 @@
+/**
+ * Priority lanes: every pipeline stage has a high lane (<stage>_high) for
+ * interactive requests next to its original queue, which serves as the low
+ * lane for bulk work such as seeding and refreshes. Messages carry their
+ * priority, and messages enqueued while processing inherit it.
+ */
+
+export type MessagePriority = 'high' | 'low';
+
+// Messages without a priority (older messages, requeues) go to the low lane
+export const DEFAULT_PRIORITY: MessagePriority = 'low';
+
+/**
+ * Message payload field that carries the priority between stages
+ */
+export interface PrioritizedMessage {
+  priority?: MessagePriority;
+}
+
+export function isMessagePriority(value: unknown): value is MessagePriority {
+  return value === 'high' || value === 'low';
+}
+
+/**
+ * PGMQ queue of a stage's lane, e.g. ('track_discovery', 'high') -> 'track_discovery_high'
+ */
+export function laneQueue(stage: string, priority: MessagePriority = DEFAULT_PRIORITY): string {
+  return priority === 'high' ? `${stage}_high` : stage;
+}
+
+/**
+ * Both lanes of a stage, high first
+ */
+export function laneQueues(stage: string): string[] {
+  return [laneQueue(stage, 'high'), laneQueue(stage, 'low')];
+}
+
+/**
+ * Order in which to poll the lanes on the given poll: the high lane first on
+ * highWeight out of every highWeight + 1 polls, the low lane first on the rest
+ * so bulk work keeps moving while interactive requests are waiting.
+ */
+export function laneOrder(pollCount: number, highWeight: number): MessagePriority[] {
+  return pollCount % (highWeight + 1) < highWeight ? ['high', 'low'] : ['low', 'high'];
+}
@@ -0,0 +1,310 @@
+/**
+ * Producer identity: which producers row a credited name refers to.
+ *
+ * Every name and external id a producer is known by is a row of
+ * producer_aliases. A credit resolves by its Genius or Spotify artist id
+ * first, and only falls back to its normalized name when the id is unknown.
+ * A name shared by producers that are known under other ids of the same
+ * service is someone else's, so two people with one name stay apart.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
+import { logger } from './logger.ts';
+
+export type ProducerAliasKind = 'name' | 'genius' | 'spotify';
+
+export type ProducerAlias = Database['public']['Tables']['producer_aliases']['Row'];
+
+export type ProducerRow = Database['public']['Tables']['producers']['Row'];
+
+export type DuplicateCandidate = Database['public']['Functions']['producer_duplicate_candidates']['Returns'][number];
+
+export interface ProducerIdentity {
+  normalizedName: string;
+  externalId?: string; // e.g. 'genius-12345' or 'spotify-0qHs8T0ajFVgNXbI1kzbWJ'
+}
+
+export interface ExternalAlias {
+  kind: Exclude<ProducerAliasKind, 'name'>;
+  value: string;
+}
+
+const identityLogger = logger.child({ component: 'ProducerIdentity' });
+
+/**
+ * Key names are compared by, e.g. "Mike WiLL Made-It" -> "mike will made it"
+ */
+export function normalizeProducerName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[-_/]/g, ' ')
+    .replace(/[^a-z0-9À-ÿ\s]/g, '') // Keep accented characters while removing special chars
+    .trim()
+    .replace(/\s+/g, ' '); // Normalize whitespace
+}
+
+/**
+ * The alias of an external id as stored in producer metadata, e.g. 'genius-12345'
+ */
+export function parseExternalId(externalId: string | undefined): ExternalAlias | null {
+  const separator = externalId?.indexOf('-') ?? -1;
+  if (!externalId || separator <= 0) return null;
+
+  const kind = externalId.slice(0, separator);
+  const value = externalId.slice(separator + 1);
+  return (kind === 'genius' || kind === 'spotify') && value ? { kind, value } : null;
+}
+
+/**
+ * Existing producer of each identity, keyed by normalized name. Identities
+ * without one are new producers.
+ */
+export async function resolveProducers(
+  supabase: SupabaseClient<Database>,
+  identities: ProducerIdentity[]
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  const external = new Map<string, ExternalAlias>();
+
+  for (const identity of identities) {
+    const alias = parseExternalId(identity.externalId);
+    if (alias) external.set(identity.normalizedName, alias);
+  }
+
+  // By external id
+  if (external.size > 0) {
+    const { data, error } = await supabase
+      .from('producer_aliases')
+      .select('producer_id, kind, value')
+      .neq('kind', 'name')
+      .in('value', [...external.values()].map(alias => alias.value));
+
+    if (error) throw error;
+
+    for (const [normalizedName, alias] of external) {
+      const match = (data || []).find(row => row.kind === alias.kind && row.value === alias.value);
+      if (match) resolved.set(normalizedName, match.producer_id);
+    }
+  }
+
+  const names = identities.map(identity => identity.normalizedName).filter(name => !resolved.has(name));
+  if (names.length === 0) return resolved;
+
+  // By name, also covering producers created before aliases were recorded
+  const [aliasResult, producerResult] = await Promise.all([
+    supabase
+      .from('producer_aliases')
+      .select('producer_id, value')
+      .eq('kind', 'name')
+      .in('value', names)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('producers')
+      .select('id, normalized_name')
+      .in('normalized_name', names)
+      .order('created_at', { ascending: true })
+  ]);
+
+  if (aliasResult.error) throw aliasResult.error;
+  if (producerResult.error) throw producerResult.error;
+
+  const candidatesByName = new Map<string, string[]>();
+  const addCandidate = (name: string, producerId: string) => {
+    const candidates = candidatesByName.get(name) || [];
+    if (!candidates.includes(producerId)) candidates.push(producerId);
+    candidatesByName.set(name, candidates);
+  };
+
+  for (const row of producerResult.data || []) addCandidate(row.normalized_name, row.id);
+  for (const row of aliasResult.data || []) addCandidate(row.value, row.producer_id);
+
+  // A candidate already known under another id of the same service is a different person
+  const knownIds = new Map<string, Set<string>>();
+  const candidateIds = [...new Set([...candidatesByName.values()].flat())];
+
+  if (external.size > 0 && candidateIds.length > 0) {
+    const { data, error } = await supabase
+      .from('producer_aliases')
+      .select('producer_id, kind')
+      .neq('kind', 'name')
+      .in('producer_id', candidateIds);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const kinds = knownIds.get(row.producer_id) || new Set<string>();
+      kinds.add(row.kind);
+      knownIds.set(row.producer_id, kinds);
+    }
+  }
+
+  for (const name of names) {
+    const alias = external.get(name);
+    const candidates = (candidatesByName.get(name) || [])
+      .filter(producerId => !alias || !knownIds.get(producerId)?.has(alias.kind));
+
+    if (candidates.length > 1) {
+      identityLogger.debug(`${candidates.length} producers are named ${name}, using the first`, { candidates });
+    }
+    if (candidates.length > 0) resolved.set(name, candidates[0]);
+  }
+
+  return resolved;
+}
+
+/**
+ * Record names and external ids of producers. Aliases a producer already has
+ * are skipped; an external id that belongs to another producer fails the batch.
+ */
+export async function addProducerAliases(
+  supabase: SupabaseClient<Database>,
+  aliases: Array<{ producerId: string; kind: ProducerAliasKind; value: string }>,
+  source = 'pipeline'
+): Promise<void> {
+  if (aliases.length === 0) return;
+
+  const unique = new Map(aliases.map(alias => [`${alias.producerId}:${alias.kind}:${alias.value}`, alias]));
+
+  const { error } = await supabase
+    .from('producer_aliases')
+    .upsert([...unique.values()].map(alias => ({
+      producer_id: alias.producerId,
+      kind: alias.kind,
+      value: alias.value,
+      source
+    })), { onConflict: 'producer_id,kind,value', ignoreDuplicates: true });
+
+  if (error) throw error;
+}
+
+/**
+ * Add a name or external id to a producer by hand, e.g. "Metro" for Metro Boomin
+ */
+export async function aliasProducer(
+  supabase: SupabaseClient<Database>,
+  producerId: string,
+  alias: { kind: ProducerAliasKind; value: string },
+  change: { reason?: string; actor?: string } = {}
+): Promise<ProducerAlias> {
+  const value = alias.kind === 'name' ? normalizeProducerName(alias.value) : alias.value.trim();
+
+  await addProducerAliases(supabase, [{ producerId, kind: alias.kind, value }], 'admin');
+
+  const { data, error } = await supabase
+    .from('producer_aliases')
+    .select('*')
+    .eq('producer_id', producerId)
+    .eq('kind', alias.kind)
+    .eq('value', value)
+    .single();
+
+  if (error) throw error;
+
+  const { error: eventError } = await supabase
+    .from('producer_identity_events')
+    .insert({
+      event: 'alias',
+      producer_id: producerId,
+      details: { kind: alias.kind, value, reason: change.reason ?? null },
+      actor: change.actor ?? null
+    });
+
+  if (eventError) throw eventError;
+
+  identityLogger.info(`Added ${alias.kind} alias ${value} to producer ${producerId}`, change);
+  return data;
+}
+
+/**
+ * Merge producers into a target: their credits, aliases and metadata move to
+ * the target and their rows are deleted, in one transaction
+ */
+export async function mergeProducers(
+  supabase: SupabaseClient<Database>,
+  targetId: string,
+  sourceIds: string[],
+  change: { reason?: string; actor?: string } = {}
+): Promise<ProducerRow> {
+  const { data, error } = await supabase.rpc('merge_producers', {
+    p_target_id: targetId,
+    p_source_ids: sourceIds,
+    p_actor: change.actor ?? null,
+    p_reason: change.reason ?? null
+  });
+
+  if (error) throw error;
+
+  identityLogger.info(`Merged ${sourceIds.length} producers into ${targetId}`, { sourceIds, ...change });
+  return data;
+}
+
+/**
+ * Move some of a producer's track credits and external ids to a new producer
+ */
+export async function splitProducer(
+  supabase: SupabaseClient<Database>,
+  producerId: string,
+  split: { name: string; trackIds: string[]; aliasIds?: number[] },
+  change: { reason?: string; actor?: string } = {}
+): Promise<ProducerRow> {
+  const { data, error } = await supabase.rpc('split_producer', {
+    p_producer_id: producerId,
+    p_name: split.name,
+    p_normalized_name: normalizeProducerName(split.name),
+    p_track_ids: split.trackIds,
+    p_alias_ids: split.aliasIds || [],
+    p_actor: change.actor ?? null,
+    p_reason: change.reason ?? null
+  });
+
+  if (error) throw error;
+
+  identityLogger.info(`Split ${split.name} off producer ${producerId}`, { newProducerId: data?.id, tracks: split.trackIds.length, ...change });
+  return data;
+}
+
+/**
+ * Pairs of producers that are likely the same person, most likely first
+ */
+export async function getDuplicateCandidates(
+  supabase: SupabaseClient<Database>,
+  options: { minSimilarity?: number; limit?: number } = {}
+): Promise<DuplicateCandidate[]> {
+  const { data, error } = await supabase.rpc('producer_duplicate_candidates', {
+    p_min_similarity: options.minSimilarity ?? 0.4,
+    p_limit: options.limit ?? 100
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * A producer with its aliases and identity history
+ */
+export async function getProducerIdentity(
+  supabase: SupabaseClient<Database>,
+  producerId: string
+): Promise<{ producer: ProducerRow | null; aliases: ProducerAlias[]; events: Database['public']['Tables']['producer_identity_events']['Row'][] }> {
+  const [producerResult, aliasResult, eventResult] = await Promise.all([
+    supabase.from('producers').select('*').eq('id', producerId).maybeSingle(),
+    supabase.from('producer_aliases').select('*').eq('producer_id', producerId).order('created_at', { ascending: true }),
+    supabase
+      .from('producer_identity_events')
+      .select('*')
+      .or(`producer_id.eq.${producerId},related_ids.cs.{${producerId}}`)
+      .order('created_at', { ascending: false })
+      .limit(50)
+  ]);
+
+  if (producerResult.error) throw producerResult.error;
+  if (aliasResult.error) throw aliasResult.error;
+  if (eventResult.error) throw eventResult.error;
+
+  return {
+    producer: producerResult.data,
+    aliases: aliasResult.data || [],
+    events: eventResult.data || []
+  };
+}
@@ -1,209 +1,210 @@
-
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { Database } from '../types.ts';
 import { logger } from './logger.ts';
-import { wait, withRetry } from './retry.ts';
+import { abortableWait, throwIfAborted } from './cancellation.ts';
+import { RateLimitError } from './errors.ts';
+
+/**
+ * Token bucket shared by every worker through the rate_limit_buckets table.
+ * The bucket holds up to `capacity` tokens and refills at `refillPerSecond`.
+ */
+export interface TokenBucketConfig {
+  capacity: number;        // Maximum burst size
+  refillPerSecond: number; // Sustained request rate
+  maxWaitMs: number;       // Give up instead of waiting longer than this for a token
+}
+
+// Defaults per bucket key; callers may override any field
+export const RATE_LIMIT_BUCKETS: Record<string, Partial<TokenBucketConfig>> = {
+  'spotify-api': { capacity: 20, refillPerSecond: 3 },  // ~180 requests/min per Spotify app across all workers
+  'genius-api': { capacity: 10, refillPerSecond: 2 }    // Genius allows roughly 100-120 requests/min
+};
+
+const DEFAULT_BUCKET: TokenBucketConfig = {
+  capacity: 10,
+  refillPerSecond: 1,
+  maxWaitMs: 60000
+};
+
+// Fraction of acquisitions recorded in rate_limit_events; denials are always recorded
+const EVENT_SAMPLE_RATE = Number(Deno.env.get('RATE_LIMIT_EVENT_SAMPLE_RATE') ?? '0.01');
+
+/**
+ * Thrown when a token would not be available within maxWaitMs
+ */
+export class RateLimitExceededError extends RateLimitError {
+  constructor(public key: string, retryAfterMs: number) {
+    super(`Rate limit for ${key} exceeded, next token in ${retryAfterMs}ms`, { status: 429, retryAfterMs });
+  }
+}
+
+interface Reservation {
+  granted: boolean;
+  waitMs: number;
+  tokensRemaining: number;
+}
 
-export interface RateLimitOptions {
-  key: string;       // Unique identifier for this rate limit (e.g. "spotify-api")
-  maxRequests: number; // Maximum requests in window
-  windowMs: number;  // Window size in milliseconds
-  retryCount?: number; // Optional retry count to enable progressive backoff
+interface LocalBucket {
+  tokens: number;
+  updatedAt: number;
 }
 
+// Per-instance buckets used only while the database is unreachable
+const localBuckets = new Map<string, LocalBucket>();
+
 export class RateLimiter {
   private supabase: SupabaseClient<Database>;
   private logger = logger.child({ component: 'RateLimiter' });
-  
+
   constructor(supabaseClient: SupabaseClient<Database>) {
     this.supabase = supabaseClient;
   }
-  
-  // Enhanced canProceed with more robust concurrency handling and progressive backoff
-  async canProceed(opts: RateLimitOptions): Promise<boolean> {
-    const now = Date.now();
-    const windowEnd = now + opts.windowMs;
-    const logContext = { key: opts.key, maxRequests: opts.maxRequests };
-    
-    try {
-      // Add retries for database operations
-      return await withRetry(async () => {
-        // Start by checking if we have an entry for this key
-        const { data: limitRecord, error } = await this.supabase
-          .from('rate_limits')
-          .select('*')
-          .eq('key', opts.key)
-          .maybeSingle();
-        
-        if (error) {
-          this.logger.error(`Rate limit check error for ${opts.key}:`, error, logContext);
-          
-          await this.logRateLimitEvent(opts.key, 'error', {
-            error: error.message,
-            timestamp: new Date().toISOString()
-          });
-          
-          return true; // Fail open with detailed logging
-        }
-        
-        // Progressive backoff logic
-        let adjustedWindow = opts.windowMs;
-        if (opts.retryCount && opts.retryCount > 0) {
-          // Exponential backoff - doubles window size for each retry
-          adjustedWindow = opts.windowMs * Math.pow(2, Math.min(opts.retryCount, 5));
-          this.logger.info(`Progressive backoff for ${opts.key}`, {
-            ...logContext,
-            window: adjustedWindow,
-            retryCount: opts.retryCount
-          });
-        }
-        
-        // If no record or window expired, create/reset
-        if (!limitRecord || now > (limitRecord.window_end as number)) {
-          // Use atomic database function to avoid race conditions
-          const { error: atomicError } = await this.supabase.rpc('atomic_reset_counter', {
-            counter_key: opts.key,
-            new_window_end: now + adjustedWindow
-          });
-          
-          if (atomicError) {
-            this.logger.error(`Error resetting rate limit counter`, atomicError, logContext);
-          }
-          
-          await this.logRateLimitEvent(opts.key, 'reset', {
-            count: 1,
-            window_ms: adjustedWindow,
-            timestamp: new Date().toISOString()
-          });
-          
-          this.logger.debug(`Rate limit reset for ${opts.key}`, {
-            ...logContext,
-            windowEnd: new Date(now + adjustedWindow).toISOString()
-          });
-          
-          return true;
-        }
-        
-        // More granular rate limit handling
-        const currentCount = limitRecord.count as number;
-        const remainingRequests = opts.maxRequests - currentCount;
-        
-        if (remainingRequests > 0) {
-          // Use atomic increment to avoid race conditions
-          const { data: newCount, error: incrementError } = await this.supabase.rpc('atomic_increment', {
-            counter_key: opts.key,
-            increment_by: 1,
-            metadata: {
-              max_requests: opts.maxRequests,
-              last_updated: new Date().toISOString(),
-              remaining: remainingRequests - 1
-            }
-          });
-          
-          if (incrementError) {
-            this.logger.error(`Error incrementing rate limit counter`, incrementError, logContext);
-          }
-          
-          await this.logRateLimitEvent(opts.key, 'increment', {
-            count: currentCount + 1,
-            remaining: remainingRequests - 1,
-            timestamp: new Date().toISOString()
-          });
-          
-          this.logger.debug(`Rate limit incremented for ${opts.key}`, {
-            ...logContext,
-            count: currentCount + 1,
-            remaining: remainingRequests - 1
-          });
-          
-          return true;
-        }
-        
-        // Rate limit exceeded - log the event
-        await this.logRateLimitEvent(opts.key, 'exceeded', {
-          max: opts.maxRequests,
-          current: currentCount,
-          window_end: new Date(limitRecord.window_end as number).toISOString(),
-          retry_count: opts.retryCount || 0,
-          timestamp: new Date().toISOString()
-        });
-        
-        this.logger.warn(`Rate limit exceeded for ${opts.key}`, {
-          ...logContext,
-          current: currentCount,
-          windowEnd: new Date(limitRecord.window_end as number).toISOString()
-        });
-        
-        return false;
-      }, {
-        maxAttempts: 3,
-        initialDelayMs: 100
-      });
-    } catch (err) {
-      this.logger.error('Unexpected error in rate limiter:', err, logContext);
-      return true; // Always fail open to prevent total service disruption
+
+  /**
+   * Reserve `cost` tokens and sleep until they are available.
+   * Returns the time waited in ms; throws RateLimitExceededError if the wait would exceed maxWaitMs.
+   * The sleep ends early, with the abort reason, once the active message is aborted.
+   */
+  async acquire(key: string, cost = 1, overrides: Partial<TokenBucketConfig> = {}): Promise<number> {
+    // A timed-out message must not take a token it won't use
+    throwIfAborted();
+
+    const config = this.getConfig(key, overrides);
+    const reservation = await this.reserve(key, cost, config);
+
+    if (!reservation.granted) {
+      await this.logRateLimitEvent(key, 'denied', {
+        cost,
+        wait_ms: reservation.waitMs,
+        max_wait_ms: config.maxWaitMs
+      }, true);
+      throw new RateLimitExceededError(key, reservation.waitMs);
+    }
+
+    await this.logRateLimitEvent(key, reservation.waitMs > 0 ? 'waited' : 'acquired', {
+      cost,
+      wait_ms: reservation.waitMs,
+      tokens_remaining: reservation.tokensRemaining
+    });
+
+    if (reservation.waitMs > 0) {
+      this.logger.debug(`Waiting ${reservation.waitMs}ms for ${key} token`, { cost });
+      await abortableWait(reservation.waitMs);
     }
+
+    return reservation.waitMs;
   }
-  
-  // Increment usage count for a key
-  async increment(key: string): Promise<void> {
+
+  /**
+   * Stop handing out tokens until `untilMs` (e.g. from a Retry-After header).
+   * Reservations made meanwhile are spread out at the refill rate after that point.
+   */
+  async block(key: string, untilMs: number): Promise<void> {
+    const config = this.getConfig(key);
+
     try {
-      // Use atomic increment to avoid race conditions
-      const { error } = await this.supabase.rpc('atomic_increment', {
-        counter_key: key,
-        increment_by: 1
+      const { error } = await this.supabase.rpc('block_rate_limit_bucket', {
+        p_key: key,
+        p_until: new Date(untilMs).toISOString(),
+        p_capacity: config.capacity,
+        p_refill_per_second: config.refillPerSecond
       });
-      
-      if (error) {
-        this.logger.error(`Error incrementing rate limit count for ${key}:`, error);
-        return;
-      }
-      
-      await this.logRateLimitEvent(key, 'increment', {
-        timestamp: new Date().toISOString()
-      });
-      
+
+      if (error) throw error;
     } catch (err) {
-      this.logger.error(`Error incrementing rate limit count for ${key}:`, err);
+      this.logger.error(`Error blocking rate limit bucket ${key}:`, err);
     }
+
+    localBuckets.set(key, { tokens: 0, updatedAt: Math.max(untilMs, Date.now()) });
+
+    await this.logRateLimitEvent(key, 'blocked', {
+      until: new Date(untilMs).toISOString()
+    }, true);
+  }
+
+  /**
+   * Current token balance of a bucket, refilled up to now
+   */
+  async getBucketState(key: string): Promise<{ tokens: number; capacity: number; refillPerSecond: number } | null> {
+    const { data, error } = await this.supabase
+      .from('rate_limit_buckets')
+      .select('tokens, capacity, refill_per_second, updated_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const elapsedSeconds = (Date.now() - Date.parse(data.updated_at)) / 1000;
+    return {
+      tokens: Math.min(data.capacity, data.tokens + elapsedSeconds * data.refill_per_second),
+      capacity: data.capacity,
+      refillPerSecond: data.refill_per_second
+    };
+  }
+
+  // Keys like spotify-api:<credential> share the defaults of spotify-api
+  private getConfig(key: string, overrides: Partial<TokenBucketConfig> = {}): TokenBucketConfig {
+    const defaults = RATE_LIMIT_BUCKETS[key] || RATE_LIMIT_BUCKETS[key.split(':')[0]] || {};
+    return { ...DEFAULT_BUCKET, ...defaults, ...overrides };
   }
-  
-  // Reset a rate limit window (useful for handling API reset headers)
-  async reset(key: string, windowEnd?: number): Promise<void> {
+
+  /**
+   * Refill and reserve in one atomic call; falls back to a per-instance bucket if the call fails
+   */
+  private async reserve(key: string, cost: number, config: TokenBucketConfig): Promise<Reservation> {
     try {
-      // Use atomic reset function to avoid race conditions
-      const { error } = await this.supabase.rpc('atomic_reset_counter', {
-        counter_key: key,
-        new_window_end: windowEnd || Date.now() + 60000 // Default 1min
-      });
-      
-      if (error) {
-        this.logger.error(`Error resetting rate limit for ${key}:`, error);
-        return;
-      }
-      
-      await this.logRateLimitEvent(key, 'reset', {
-        window_end: new Date(windowEnd || Date.now() + 60000).toISOString(),
-        timestamp: new Date().toISOString()
-      });
-      
-      this.logger.debug(`Rate limit reset for ${key}`, {
-        windowEnd: new Date(windowEnd || Date.now() + 60000).toISOString()
+      const { data, error } = await this.supabase.rpc('acquire_rate_limit_tokens', {
+        p_key: key,
+        p_cost: cost,
+        p_capacity: config.capacity,
+        p_refill_per_second: config.refillPerSecond,
+        p_max_wait_ms: config.maxWaitMs
       });
+
+      if (error) throw error;
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        granted: row.granted,
+        waitMs: row.wait_ms,
+        tokensRemaining: row.tokens_remaining
+      };
     } catch (err) {
-      this.logger.error(`Error resetting rate limit for ${key}:`, err);
+      this.logger.warn(`Rate limit RPC failed for ${key}, using local bucket`, {
+        error: err instanceof Error ? err.message : String(err)
+      });
+      return this.reserveLocally(key, cost, config);
+    }
+  }
+
+  // Same algorithm as acquire_rate_limit_tokens, scoped to this instance
+  private reserveLocally(key: string, cost: number, config: TokenBucketConfig): Reservation {
+    const now = Date.now();
+    const bucket = localBuckets.get(key) || { tokens: config.capacity, updatedAt: now };
+    const tokens = Math.min(config.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * config.refillPerSecond);
+    const waitMs = tokens >= cost ? 0 : Math.ceil(((cost - tokens) / config.refillPerSecond) * 1000);
+
+    if (waitMs > config.maxWaitMs) {
+      localBuckets.set(key, { tokens, updatedAt: now });
+      return { granted: false, waitMs, tokensRemaining: tokens };
     }
+
+    localBuckets.set(key, { tokens: tokens - cost, updatedAt: now });
+    return { granted: true, waitMs, tokensRemaining: tokens - cost };
   }
-  
-  // Log rate limit events for monitoring
-  private async logRateLimitEvent(key: string, event: string, details: any): Promise<void> {
+
+  // Log rate limit events for monitoring, sampling routine ones
+  private async logRateLimitEvent(key: string, event: string, details: Record<string, unknown>, always = false): Promise<void> {
+    if (!always && Math.random() >= EVENT_SAMPLE_RATE) return;
+
     try {
       await this.supabase
         .from('rate_limit_events')
         .insert({
           key,
           event,
-          details,
+          details: { ...details, sample_rate: always ? 1 : EVENT_SAMPLE_RATE },
           created_at: new Date().toISOString()
         });
     } catch (err) {
@@ -211,29 +212,4 @@ export class RateLimiter {
       this.logger.error('Failed to log rate limit event:', err);
     }
   }
-  
-  // Check remaining capacity for a rate limit
-  async getRemainingCapacity(key: string): Promise<{ remaining: number, resetAt: Date | null }> {
-    try {
-      const { data, error } = await this.supabase
-        .from('rate_limits')
-        .select('count, window_end, metadata')
-        .eq('key', key)
-        .maybeSingle();
-        
-      if (error || !data) {
-        return { remaining: Infinity, resetAt: null }; // No limit found
-      }
-      
-      const metadata = data.metadata as any || {};
-      const maxRequests = metadata.max_requests || 100; // Default if not specified
-      const remaining = Math.max(0, maxRequests - (data.count as number));
-      const resetAt = new Date(data.window_end as number);
-      
-      return { remaining, resetAt };
-    } catch (err) {
-      this.logger.error('Error checking remaining capacity:', err);
-      return { remaining: 1, resetAt: null }; // Conservative default
-    }
-  }
 }
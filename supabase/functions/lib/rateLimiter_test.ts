@@ -0,0 +1,70 @@
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { RateLimiter, RateLimitExceededError } from './rateLimiter.ts';
+import { withAbortSignal } from './cancellation.ts';
+import { FakeSupabase } from './testing/fakeSupabase.ts';
+
+// A limiter whose database is unreachable, so it uses the per-instance bucket
+function localLimiter(): RateLimiter {
+  const db = new FakeSupabase();
+  db.registerRpc('acquire_rate_limit_tokens', () => {
+    throw new Error('connection refused');
+  });
+  return new RateLimiter(db.client);
+}
+
+Deno.test('local bucket grants a burst up to capacity without waiting', async () => {
+  const limiter = localLimiter();
+  const config = { capacity: 3, refillPerSecond: 10, maxWaitMs: 1000 };
+
+  for (let i = 0; i < 3; i++) {
+    assertEquals(await limiter.acquire('test-burst', 1, config), 0);
+  }
+
+  // The fourth token refills in 1/10 s
+  const waited = await limiter.acquire('test-burst', 1, config);
+  assert(waited > 0 && waited <= 100, `waited ${waited}ms`);
+});
+
+Deno.test('local bucket refuses a token that would take longer than maxWaitMs', async () => {
+  const limiter = localLimiter();
+  const config = { capacity: 1, refillPerSecond: 1, maxWaitMs: 500 };
+
+  await limiter.acquire('test-refuse', 1, config);
+  const error = await assertRejects(() => limiter.acquire('test-refuse', 1, config), RateLimitExceededError);
+  assert((error as RateLimitExceededError).retryAfterMs! > 500);
+});
+
+Deno.test('reservations come from the shared bucket when the database answers', async () => {
+  const db = new FakeSupabase();
+  db.registerRpc('acquire_rate_limit_tokens', () => [{ granted: false, wait_ms: 4000, tokens_remaining: 0 }]);
+
+  const error = await assertRejects(() => new RateLimiter(db.client).acquire('test-shared'), RateLimitExceededError);
+  assertEquals((error as RateLimitExceededError).retryAfterMs, 4000);
+  assertEquals(db.table('rate_limit_events').map(event => event.event), ['denied']);
+});
+
+Deno.test('an aborted message stops waiting for its token', async () => {
+  const db = new FakeSupabase();
+  db.registerRpc('acquire_rate_limit_tokens', () => [{ granted: true, wait_ms: 30000, tokens_remaining: -1 }]);
+  const limiter = new RateLimiter(db.client);
+
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(new Error('processing timeout')), 20);
+
+  await assertRejects(
+    () => withAbortSignal(controller.signal, () => limiter.acquire('test-abort')),
+    Error,
+    'processing timeout'
+  );
+  assert(Date.now() - started < 1000);
+
+  // Once aborted, it doesn't reserve another token
+  let reserved = false;
+  db.registerRpc('acquire_rate_limit_tokens', () => {
+    reserved = true;
+    return [{ granted: true, wait_ms: 0, tokens_remaining: 1 }];
+  });
+  await assertRejects(() => withAbortSignal(controller.signal, () => limiter.acquire('test-abort')));
+  assertEquals(reserved, false);
+});
@@ -1,5 +1,8 @@
 
 import { logger } from './logger.ts';
+import { abortableWait, getAbortSignal, throwIfAborted } from './cancellation.ts';
+import { ErrorCategory, categorizeError, isRetryable } from './errors.ts';
+import type { RateLimiter } from './rateLimiter.ts';
 
 // Retry configuration options
 export interface RetryOptions {
@@ -8,7 +11,9 @@ export interface RetryOptions {
   maxDelayMs?: number;
   factor?: number; // Multiplicative factor for exponential backoff
   jitter?: boolean; // Add randomness to delay to prevent thundering herd
-  retryableErrorPredicate?: (err: any) => boolean; // Function to determine if error is retryable
+  retryableErrorPredicate?: (err: any) => boolean; // Overrides the error category's retryability
+  signal?: AbortSignal; // Stops retrying once aborted; defaults to the active signal
+  service?: string; // Retry budget to spend; defaults to the service of the error
 }
 
 // Default retry options
@@ -20,69 +25,6 @@ const DEFAULT_RETRY_OPTIONS: RetryOptions = {
   jitter: true, // Apply jitter by default
 };
 
-// Error categories for handling different types of errors
-export enum ErrorCategory {
-  TRANSIENT, // Temporary error, retryable
-  RATE_LIMIT, // Rate limit error, retryable with specific delay
-  PERMANENT, // Permanent error, not retryable
-  UNKNOWN // Unknown error, default to retryable
-}
-
-/**
- * Categorize errors to determine how they should be handled
- */
-export function categorizeError(error: any): ErrorCategory {
-  // Check error status code for HTTP errors
-  const status = error.status || error.statusCode;
-  
-  // Permanent errors that should not be retried
-  if (
-    status === 400 || // Bad Request
-    status === 401 || // Unauthorized
-    status === 403 || // Forbidden
-    status === 404 || // Not Found
-    status === 405 || // Method Not Allowed
-    status === 409 || // Conflict
-    status === 410 || // Gone
-    status === 412 || // Precondition Failed
-    status === 413 || // Payload Too Large
-    status === 415 || // Unsupported Media Type
-    status === 422 || // Unprocessable Entity
-    status === 431 || // Request Header Fields Too Large
-    (status >= 400 && status < 500 && status !== 429) // Other 4xx errors except rate limit
-  ) {
-    return ErrorCategory.PERMANENT;
-  }
-  
-  // Rate limiting errors
-  if (status === 429) {
-    return ErrorCategory.RATE_LIMIT;
-  }
-  
-  // Transient errors that should be retried
-  if (
-    status === 408 || // Request Timeout
-    status === 425 || // Too Early 
-    status === 500 || // Internal Server Error
-    status === 502 || // Bad Gateway
-    status === 503 || // Service Unavailable
-    status === 504 || // Gateway Timeout
-    (status >= 500 && status < 600) || // Other 5xx server errors
-    error.code === 'ECONNRESET' ||
-    error.code === 'ETIMEDOUT' ||
-    error.code === 'ECONNABORTED' ||
-    error.code === 'ENETUNREACH' ||
-    error.name === 'AbortError' ||
-    error.message?.includes('timeout') ||
-    error.message?.includes('network error')
-  ) {
-    return ErrorCategory.TRANSIENT;
-  }
-  
-  // Default to unknown - we'll generally retry these
-  return ErrorCategory.UNKNOWN;
-}
-
 /**
  * Improved wait function with better handling for very long delays
  */
@@ -126,6 +68,100 @@ export function getRetryDelayFromHeaders(headers: Headers): number | null {
   return null; // Could not parse
 }
 
+// Retries per minute each service may spend across all workers, so an outage
+// doesn't multiply into a retry storm; exhausted budgets fail fast instead
+export const RETRY_BUDGETS: Record<string, number> = {
+  spotify: 60,
+  genius: 30,
+  supabase: 120
+};
+
+const DEFAULT_RETRY_BUDGET = Number(Deno.env.get('RETRY_BUDGET_PER_MINUTE') || '30');
+
+// Shared budget buckets; set by the worker runtime, budgets are per instance without it
+let retryBudgetLimiter: RateLimiter | null = null;
+export function setRetryBudgetLimiter(limiter: RateLimiter | null) { retryBudgetLimiter = limiter; }
+
+// Per-instance minute windows used when no shared limiter is set or it fails
+const localRetryWindows = new Map<string, { startedAt: number; spent: number }>();
+
+/**
+ * Take one retry from the service's budget; false if the budget for this minute is spent
+ */
+export async function spendRetryBudget(service: string): Promise<boolean> {
+  const perMinute = RETRY_BUDGETS[service] ?? DEFAULT_RETRY_BUDGET;
+
+  if (retryBudgetLimiter) {
+    try {
+      await retryBudgetLimiter.acquire(`retry-budget:${service}`, 1, {
+        capacity: perMinute,
+        refillPerSecond: perMinute / 60,
+        maxWaitMs: 0
+      });
+      return true;
+    } catch (error) {
+      if (categorizeError(error) === ErrorCategory.RATE_LIMIT) {
+        return false;
+      }
+      logger.warn(`Retry budget check failed for ${service}, using local budget`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  const now = Date.now();
+  const window = localRetryWindows.get(service);
+  if (!window || now - window.startedAt >= 60000) {
+    localRetryWindows.set(service, { startedAt: now, spent: 1 });
+    return true;
+  }
+  if (window.spent >= perMinute) {
+    return false;
+  }
+  window.spent++;
+  return true;
+}
+
+/**
+ * Whether a failed attempt may be retried: its category allows it and,
+ * for errors of an external service, the service's retry budget isn't spent
+ */
+async function mayRetry(
+  error: { message?: string; service?: string } | null,
+  options: RetryOptions,
+  retryLogger: typeof logger
+): Promise<boolean> {
+  const retryable = options.retryableErrorPredicate ? options.retryableErrorPredicate(error) : isRetryable(error);
+  if (!retryable) {
+    retryLogger.warn(`Non-retryable error encountered`, {
+      error: error?.message,
+      category: categorizeError(error)
+    });
+    return false;
+  }
+
+  const service = options.service ?? error?.service;
+  if (service && !(await spendRetryBudget(service))) {
+    retryLogger.warn(`Retry budget for ${service} exhausted, not retrying`, {
+      error: error?.message,
+      category: categorizeError(error)
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Delay requested by a failed request: its Retry-After header, or the delay the client recorded
+ */
+function getRetryAfterMs(error: { headers?: unknown; retryAfterMs?: number } | null): number | null {
+  const headers = error?.headers;
+  const fromHeaders = headers instanceof Headers ? getRetryDelayFromHeaders(headers) : null;
+  const delay = fromHeaders ?? error?.retryAfterMs;
+  return delay && delay > 0 ? delay : null;
+}
+
 /**
  * Calculate retry delay with exponential backoff and optional jitter
  */
@@ -165,14 +201,19 @@ export async function withRetry<T>(
   
   const retryLogger = logger.child({ operation: 'retry' });
   
+  const signal = retryOptions.signal ?? getAbortSignal();
   let attempt = 1;
   let totalWaitTime = 0;
   const MAX_CUMULATIVE_WAIT = 30 * 60 * 1000; // Maximum 30 minute cumulative wait
   
   while (true) {
+    throwIfAborted(signal);
     try {
       return await fn();
     } catch (error) {
+      // Cancelled work is never retried
+      throwIfAborted(signal);
+      
       // Check if we've reached max attempts
       if (attempt >= retryOptions.maxAttempts) {
         retryLogger.error(`Max retry attempts (${retryOptions.maxAttempts}) reached. Giving up.`, { 
@@ -184,21 +225,6 @@ export async function withRetry<T>(
         throw error;
       }
       
-      // Check if error is retryable
-      const errorCategory = categorizeError(error);
-      const isRetryable = retryOptions.retryableErrorPredicate ? 
-        retryOptions.retryableErrorPredicate(error) : 
-        errorCategory !== ErrorCategory.PERMANENT;
-      
-      if (!isRetryable) {
-        retryLogger.warn(`Non-retryable error encountered`, {
-          error: error.message,
-          category: errorCategory,
-          attempt
-        });
-        throw error;
-      }
-      
       // Check if we've exceeded cumulative wait time
       if (totalWaitTime >= MAX_CUMULATIVE_WAIT) {
         retryLogger.warn(`Exceeded maximum cumulative wait time of ${MAX_CUMULATIVE_WAIT}ms. Giving up.`, {
@@ -208,12 +234,18 @@ export async function withRetry<T>(
         throw error;
       }
       
+      // Check if error is retryable and the service can afford another attempt
+      if (!(await mayRetry(error, retryOptions, retryLogger))) {
+        throw error;
+      }
+      
       // Calculate delay for next retry
+      const errorCategory = categorizeError(error);
       let delay = calculateRetryDelay(attempt, retryOptions);
       
-      // Use Retry-After header if available for rate limit errors
-      if (errorCategory === ErrorCategory.RATE_LIMIT && error.headers) {
-        const retryAfterMs = getRetryDelayFromHeaders(error.headers);
+      // Use Retry-After if available for rate limit errors
+      if (errorCategory === ErrorCategory.RATE_LIMIT) {
+        const retryAfterMs = getRetryAfterMs(error);
         if (retryAfterMs && retryAfterMs > 0) {
           // Cap retry delay to 1 hour maximum
           const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
@@ -221,7 +253,7 @@ export async function withRetry<T>(
           retryLogger.info(`Using capped Retry-After header value: ${delay}ms`, {
             original: retryAfterMs,
             capped: delay,
-            header: error.headers.get('Retry-After')
+            header: error.headers?.get('Retry-After')
           });
         } else {
           // If rate limited but no valid header, use a reasonable default
@@ -239,7 +271,7 @@ export async function withRetry<T>(
       });
       
       // Wait before next attempt
-      await wait(delay);
+      await abortableWait(delay, signal);
       totalWaitTime += delay;
       attempt++;
     }
@@ -269,14 +301,19 @@ export async function withRateLimitedRetry<T>(
     ...options
   };
   
+  const signal = rateLimitOptions.signal ?? getAbortSignal();
   let attempt = 1;
   let totalWaitTime = 0;
   const MAX_CUMULATIVE_WAIT = 30 * 60 * 1000; // Maximum 30 minutes cumulative wait
   
   while (true) {
+    throwIfAborted(signal);
     try {
       return await fn();
     } catch (error) {
+      // Cancelled work is never retried
+      throwIfAborted(signal);
+      
       if (attempt >= rateLimitOptions.maxAttempts) {
         retryLogger.error(`Max rate limit retry attempts reached.`, { 
           attempt, 
@@ -297,29 +334,32 @@ export async function withRateLimitedRetry<T>(
         throw error;
       }
       
+      // Permanent errors aren't retried either, and retries spend the service's budget
+      if (!(await mayRetry(error, rateLimitOptions, retryLogger))) {
+        throw error;
+      }
+      
       // Check for rate limit errors
       const errorCategory = categorizeError(error);
       const isRateLimit = errorCategory === ErrorCategory.RATE_LIMIT;
       let delay = calculateRetryDelay(attempt, rateLimitOptions);
       
-      // Get specific delay from headers for rate limit errors with proper capping
-      if (isRateLimit && error.headers) {
-        const retryAfterMs = getRetryDelayFromHeaders(error.headers);
-        if (retryAfterMs && retryAfterMs > 0) {
-          // Cap retry delay to 2 minutes maximum (reduced from 1 hour)
-          const MAX_RETRY_DELAY = 2 * 60 * 1000; // 2 minutes
-          delay = Math.min(retryAfterMs, MAX_RETRY_DELAY);
-          
-          retryLogger.info(`Using Retry-After header value: ${delay}ms`, {
-            original: retryAfterMs,
-            capped: delay,
-            header: error.headers.get('Retry-After'),
-            resource: resourceKey
-          });
-          
-          if (retryAfterMs > MAX_RETRY_DELAY) {
-            retryLogger.warn(`Capping excessive retry delay ${retryAfterMs}ms to ${MAX_RETRY_DELAY}ms`);
-          }
+      // Get specific delay from Retry-After for rate limit errors with proper capping
+      const retryAfterMs = isRateLimit ? getRetryAfterMs(error) : null;
+      if (retryAfterMs) {
+        // Cap retry delay to 2 minutes maximum (reduced from 1 hour)
+        const MAX_RETRY_DELAY = 2 * 60 * 1000; // 2 minutes
+        delay = Math.min(retryAfterMs, MAX_RETRY_DELAY);
+        
+        retryLogger.info(`Using Retry-After value: ${delay}ms`, {
+          original: retryAfterMs,
+          capped: delay,
+          header: error.headers?.get('Retry-After'),
+          resource: resourceKey
+        });
+        
+        if (retryAfterMs > MAX_RETRY_DELAY) {
+          retryLogger.warn(`Capping excessive retry delay ${retryAfterMs}ms to ${MAX_RETRY_DELAY}ms`);
         }
       } else if (isRateLimit) {
         // Rate limit without header - use conservative default
@@ -336,12 +376,12 @@ export async function withRateLimitedRetry<T>(
         isRateLimit,
         error: error.message,
         status: error.status,
-        endpoint: error.endpointType,
+        service: error.service,
         totalWaitSoFar: totalWaitTime,
         headers: error.headers ? JSON.stringify(Object.fromEntries(error.headers.entries())) : undefined
       });
       
-      await wait(delay);
+      await abortableWait(delay, signal);
       totalWaitTime += delay;
       attempt++;
     }
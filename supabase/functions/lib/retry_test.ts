@@ -0,0 +1,59 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { RETRY_BUDGETS, setRetryBudgetLimiter, spendRetryBudget, withRetry } from './retry.ts';
+import { NotFoundError, TransientError } from './errors.ts';
+import { RateLimiter } from './rateLimiter.ts';
+import { FakeSupabase } from './testing/fakeSupabase.ts';
+
+const FAST = { initialDelayMs: 1, jitter: false };
+
+Deno.test('the local retry budget allows its per-minute retries and no more', async () => {
+  setRetryBudgetLimiter(null);
+  RETRY_BUDGETS['test-local'] = 3;
+
+  const spent = [];
+  for (let i = 0; i < 4; i++) spent.push(await spendRetryBudget('test-local'));
+  assertEquals(spent, [true, true, true, false]);
+});
+
+Deno.test('the shared retry budget refuses a retry when its bucket is empty', async () => {
+  const db = new FakeSupabase();
+  db.registerRpc('acquire_rate_limit_tokens', ({ p_key }) => {
+    assertEquals(p_key, 'retry-budget:test-shared');
+    return [{ granted: false, wait_ms: 1000, tokens_remaining: 0 }];
+  });
+  setRetryBudgetLimiter(new RateLimiter(db.client));
+
+  try {
+    assertEquals(await spendRetryBudget('test-shared'), false);
+  } finally {
+    setRetryBudgetLimiter(null);
+  }
+});
+
+Deno.test('withRetry stops retrying once the service budget is spent', async () => {
+  setRetryBudgetLimiter(null);
+  RETRY_BUDGETS['test-exhausted'] = 1;
+
+  let calls = 0;
+  await assertRejects(() => withRetry(() => {
+    calls++;
+    throw new TransientError('upstream unavailable', { status: 503, service: 'test-exhausted' });
+  }, { ...FAST, maxAttempts: 5 }), TransientError);
+
+  // The first attempt plus the one retry the budget allows
+  assertEquals(calls, 2);
+});
+
+Deno.test('withRetry neither retries nor spends budget on a permanent error', async () => {
+  setRetryBudgetLimiter(null);
+  RETRY_BUDGETS['test-permanent'] = 1;
+
+  let calls = 0;
+  await assertRejects(() => withRetry(() => {
+    calls++;
+    throw new NotFoundError('no such album', { status: 404, service: 'test-permanent' });
+  }, { ...FAST, maxAttempts: 5 }), NotFoundError);
+
+  assertEquals(calls, 1);
+  assertEquals(await spendRetryBudget('test-permanent'), true);
+});
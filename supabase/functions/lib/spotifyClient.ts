@@ -1,16 +1,48 @@
-const SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
-let spotifyAccessToken: string | null = null;
-let spotifyTokenExpiry = 0;
+// Overridable with SPOTIFY_TOKEN_URL / SPOTIFY_API_URL, e.g. to point at a local fake
+const DEFAULT_SPOTIFY_TOKEN_URL = 'https://accounts.spotify.com/api/token';
+const DEFAULT_SPOTIFY_API_URL = 'https://api.spotify.com/v1';
 
 import { CircuitBreakerRegistry } from './circuitBreaker.ts';
-import { globalCache } from './cache.ts';
+import { globalCache, getNamespaceConfig } from './cache.ts';
 import { logger } from './logger.ts';
-import { withRetry, withRateLimitedRetry, wait, getRetryDelayFromHeaders, ErrorCategory, categorizeError } from './retry.ts';
-import { getEnvConfig } from './dbHelpers.ts';
+import { withRetry, withRateLimitedRetry, wait, getRetryDelayFromHeaders } from './retry.ts';
+import { AuthError, NotFoundError, RateLimitError, TransientError, errorForStatus } from './errors.ts';
+import { getActiveSpan, withChildSpan } from './tracing.ts';
+import { abortableWait, anySignal, getAbortSignal, throwIfAborted } from './cancellation.ts';
+import { RateLimiter } from './rateLimiter.ts';
+import { CrawlScope, DEFAULT_CRAWL_SCOPE, albumRelationship, isAlbumInScope, releaseGroupsForScope } from './crawlScope.ts';
+import { SpotifyCredential, SpotifyCredentialPool, SpotifyCredentialStatus, loadSpotifyCredentials, deleteSpotifyUserToken, loadSpotifyUserTokens, saveSpotifyUserToken } from './spotifyCredentials.ts';
+import { AdaptiveConcurrencyLimit, AdaptiveLimitState, loadAdaptiveLimits, persistAdaptiveLimits } from './adaptiveConcurrency.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
 
 // Create a logger instance specifically for Spotify API
 const spotifyLogger = logger.child({ service: 'SpotifyAPI' });
-const env = getEnvConfig();
+
+// Shared token bucket across workers; set by the worker runtime, requests are only pooled without it
+let spotifyRateLimiter: RateLimiter | null = null;
+export function setSpotifyRateLimiter(limiter: RateLimiter | null) { spotifyRateLimiter = limiter; }
+
+// Client credentials to rotate over, loaded on first use
+let credentialPool: SpotifyCredentialPool | null = null;
+function getCredentialPool(): SpotifyCredentialPool {
+  credentialPool ??= new SpotifyCredentialPool(loadSpotifyCredentials());
+  return credentialPool;
+}
+
+// Calls, rate limits and token expiry per credential, for monitoring; empty until Spotify is first called
+export function getSpotifyCredentialStatus(): Record<string, SpotifyCredentialStatus> {
+  return credentialPool?.getStatus() ?? {};
+}
+
+// Where rotated refresh tokens are saved; set when user tokens are loaded
+let userTokenStore: SupabaseClient<Database> | null = null;
+
+// Use the refresh tokens users granted (see spotifyAuth) for the apps they authorized
+export async function loadSpotifyUserCredentials(supabase: SupabaseClient<Database>): Promise<void> {
+  userTokenStore = supabase;
+  await loadSpotifyUserTokens(supabase, getCredentialPool().credentials);
+}
 
 // Track API calls for monitoring
 let _spotifyCallCount = 0;
@@ -47,71 +79,182 @@ initializePool('tracks', 4);   // Was 2
 initializePool('token', 1);    // Keep at 1
 initializePool('other', 3);    // Was 1
 
+// The main endpoint pools adapt their concurrency to 429s and latency;
+// the initial limits above are the starting point until a learned limit is loaded
+function createAdaptiveLimit(endpoint: EndpointType, maxLimit: number, latencyThresholdMs: number): AdaptiveConcurrencyLimit {
+  return new AdaptiveConcurrencyLimit(
+    `spotify-${endpoint}`,
+    { initialLimit: endpointPools.get(endpoint)!.maxConcurrent, maxLimit, latencyThresholdMs },
+    limit => applyPoolLimit(endpoint, limit)
+  );
+}
+
+const adaptiveLimits: Partial<Record<EndpointType, AdaptiveConcurrencyLimit>> = {
+  artists: createAdaptiveLimit('artists', 10, 2000),
+  albums: createAdaptiveLimit('albums', 8, 3000),
+  tracks: createAdaptiveLimit('tracks', 10, 3000)
+};
+
 // Defaults for rate limit handling
 const DEFAULT_RATE_LIMIT_RETRY_SECONDS = 60; // Default retry after 1 minute if no header
 const MAX_RATE_LIMIT_RETRY_SECONDS = 3600; // Cap retry delay to 1 hour max
 
-/** Get a valid Spotify access token via Client Credentials Flow */
-async function refreshSpotifyToken(): Promise<void> {
-  const clientId = env.getRequired('SPOTIFY_CLIENT_ID');
-  const clientSecret = env.getRequired('SPOTIFY_CLIENT_SECRET');
-  
-  const creds = btoa(`${clientId}:${clientSecret}`);
+function spotifyTokenUrl(): string {
+  return Deno.env.get('SPOTIFY_TOKEN_URL') || DEFAULT_SPOTIFY_TOKEN_URL;
+}
+
+function spotifyApiUrl(): string {
+  return Deno.env.get('SPOTIFY_API_URL') || DEFAULT_SPOTIFY_API_URL;
+}
+
+// Keep the rotated refresh token for the next instance; this one already uses it
+async function saveRotatedRefreshToken(credential: SpotifyCredential): Promise<void> {
+  if (!userTokenStore || !credential.refreshToken) return;
+
+  try {
+    await saveSpotifyUserToken(userTokenStore, credential.clientId, credential.refreshToken);
+  } catch (error) {
+    spotifyLogger.error(`Failed to save the rotated refresh token of ${credential.label}:`, error);
+  }
+}
+
+// Stop loading a refresh token the user revoked
+async function forgetRevokedRefreshToken(credential: SpotifyCredential, refreshToken: string): Promise<void> {
+  if (!userTokenStore) return;
+
+  try {
+    await deleteSpotifyUserToken(userTokenStore, credential.clientId, refreshToken);
+  } catch (error) {
+    spotifyLogger.error(`Failed to remove the revoked refresh token of ${credential.label}:`, error);
+  }
+}
+
+/**
+ * Get a valid access token for one credential, with the user's refresh token
+ * when a user authorized the app and the Client Credentials Flow otherwise
+ */
+async function refreshSpotifyToken(credential: SpotifyCredential): Promise<void> {
+  const creds = btoa(`${credential.clientId}:${credential.clientSecret}`);
+  const refreshToken = credential.refreshToken;
+  const grant = refreshToken
+    ? `grant_type=refresh_token&refresh_token=${encodeURIComponent(refreshToken)}`
+    : 'grant_type=client_credentials';
   
-  // Use circuit breaker for token refresh
+  // Use circuit breaker for token refresh, per credential
   const circuit = CircuitBreakerRegistry.getOrCreate({
-    name: 'spotify-token-refresh',
+    name: `spotify-token-refresh-${credential.label}`,
     failureThreshold: 3,
     resetTimeoutMs: 60 * 60 * 1000, // 1 hour
     halfOpenSuccessThreshold: 1
   });
   
   await circuit.fire(async () => {
-    spotifyLogger.debug('Refreshing Spotify access token');
+    spotifyLogger.debug('Refreshing Spotify access token', { credential: credential.label, userScoped: !!refreshToken });
     
     let response; // FIXED: Properly declare the response variable before using it
     
     response = await withRetry(async () => {
       // Use controlledFetch to respect backpressure
-      return await controlledFetch(SPOTIFY_TOKEN_URL, {
+      return await controlledFetch(spotifyTokenUrl(), {
         method: 'POST',
         headers: { 
           'Authorization': `Basic ${creds}`, 
           'Content-Type': 'application/x-www-form-urlencoded' 
         },
-        body: 'grant_type=client_credentials',
-      }, 'token'); // Use token endpoint pool
+        body: grant,
+      }, 'token', credential.label); // Use token endpoint pool
     }, {
       maxAttempts: 5,
       initialDelayMs: 1000,
-      retryableErrorPredicate: (error) => {
-        return categorizeError(error) !== ErrorCategory.PERMANENT;
-      }
+      service: 'spotify'
     });
     
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Failed to refresh Spotify token: ${response.status} ${response.statusText}. Details: ${errorText}`);
+      const message = `Failed to refresh Spotify token: ${response.status} ${response.statusText}. Details: ${errorText}`;
+      // A revoked grant leaves the app to client credentials until a user authorizes it again
+      if (refreshToken && response.status === 400 && errorText.includes('invalid_grant')) {
+        credential.refreshToken = null;
+        await forgetRevokedRefreshToken(credential, refreshToken);
+        throw new TransientError(`${message}. Falling back to client credentials for ${credential.label}`, {
+          status: response.status,
+          service: 'spotify'
+        });
+      }
+      // The token endpoint rejects bad client credentials with 400 invalid_client
+      throw response.status === 400 || response.status === 401
+        ? new AuthError(message, { status: response.status, service: 'spotify' })
+        : errorForStatus(response.status, message, { service: 'spotify', headers: response.headers });
     }
     
     const data = await response.json();
-    spotifyAccessToken = data.access_token;
+    credential.accessToken = data.access_token;
+
+    // Spotify may rotate the refresh token; the old one stops working
+    if (refreshToken && data.refresh_token && data.refresh_token !== refreshToken) {
+      credential.refreshToken = data.refresh_token;
+      await saveRotatedRefreshToken(credential);
+    }
+
     // Refresh 1min early (or 10% of time if less than 10min)
     const refreshBuffer = Math.min(60000, data.expires_in * 100);
-    spotifyTokenExpiry = Date.now() + (data.expires_in * 1000) - refreshBuffer;
+    credential.tokenExpiry = Date.now() + (data.expires_in * 1000) - refreshBuffer;
     
     spotifyLogger.info('Refreshed Spotify access token', { 
+      credential: credential.label,
       expiresIn: data.expires_in,
-      expiryTime: new Date(spotifyTokenExpiry).toISOString()
+      expiryTime: new Date(credential.tokenExpiry).toISOString()
     });
   });
 }
 
-async function ensureToken(): Promise<string> {
-  if (!spotifyAccessToken || Date.now() > spotifyTokenExpiry) {
-    await refreshSpotifyToken();
+/**
+ * Trade the code Spotify sent to the redirect URI for the user's refresh token
+ * (Authorization Code Flow)
+ */
+export async function exchangeSpotifyAuthorizationCode(
+  clientId: string,
+  clientSecret: string,
+  code: string,
+  redirectUri: string
+): Promise<{ refreshToken: string; scope: string }> {
+  const response = await fetch(spotifyTokenUrl(), {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({ grant_type: 'authorization_code', code, redirect_uri: redirectUri })
+  });
+
+  if (!response.ok) {
+    const message = `Failed to exchange Spotify authorization code: ${response.status} ${response.statusText}. Details: ${await response.text()}`;
+    throw response.status === 400 || response.status === 401
+      ? new AuthError(message, { status: response.status, service: 'spotify' })
+      : errorForStatus(response.status, message, { service: 'spotify', headers: response.headers });
+  }
+
+  const data = await response.json();
+  return { refreshToken: data.refresh_token, scope: data.scope || '' };
+}
+
+async function ensureToken(credential: SpotifyCredential): Promise<string> {
+  if (!credential.accessToken || Date.now() > credential.tokenExpiry) {
+    try {
+      await refreshSpotifyToken(credential);
+    } catch (error) {
+      // A rejected app shouldn't fail requests other apps can serve
+      if (error instanceof AuthError && getCredentialPool().hasAlternative(credential)) {
+        getCredentialPool().markRejected(credential);
+        throw new TransientError(`Spotify credential ${credential.label} was rejected, rotating to another one`, {
+          service: 'spotify',
+          cause: error
+        });
+      }
+      throw error;
+    }
   }
-  return spotifyAccessToken!;
+  return credential.accessToken!;
 }
 
 /**
@@ -175,16 +318,20 @@ function determineEndpointType(path: string): EndpointType {
     return 'albums';
   } else if (path.includes('tracks')) {
     return 'tracks';
-  } else if (path === SPOTIFY_TOKEN_URL) {
+  } else if (path === spotifyTokenUrl()) {
     return 'token';
   } else {
     return 'other';
   }
 }
 
-/** Call Spotify API with the proper token and retry logic */
-export async function spotifyApi<T>(path: string, options: { timeout?: number } = {}, retries = 3): Promise<T> {
+/**
+ * Call Spotify API with the proper token and retry logic.
+ * options.signal (by default the active signal) cancels the request and its retries.
+ */
+export async function spotifyApi<T>(path: string, options: { timeout?: number; signal?: AbortSignal } = {}, retries = 3): Promise<T> {
   const endpointType = determineEndpointType(`${path}`);
+  const signal = options.signal ?? getAbortSignal();
   const contextLogger = spotifyLogger.child({ 
     operation: path.split('?')[0],
     endpointType
@@ -195,7 +342,9 @@ export async function spotifyApi<T>(path: string, options: { timeout?: number }
   
   // Try to get from cache first, with a 10 min TTL for most Spotify data
   // This avoids hitting rate limits and speeds up responses
-  return globalCache.getOrFetch<T>(cacheKey, async () => {
+  // Refreshes are conditional on the cached ETag, so an unchanged resource comes back as a 304 without a body
+  // Cache misses are traced as a client span of the current operation
+  return globalCache.getOrFetchConditional<T>(cacheKey, (etag) => withChildSpan(`spotify ${endpointType}`, async (span) => {
     // Use endpoint-specific circuit breaker with more granular control
     const endpointCircuitName = `spotify-${endpointType}-circuit`;
     const endpointCircuit = CircuitBreakerRegistry.getOrCreate({
@@ -215,7 +364,13 @@ export async function spotifyApi<T>(path: string, options: { timeout?: number }
     
     return endpointCircuit.fire(async () => {
       return withRateLimitedRetry(async () => {
-        const token = await ensureToken();
+        // Pick the app to send this attempt as, taking a token from its bucket.
+        // Throws a 429-style error if no token is available soon, which the retry handles
+        const pool = getCredentialPool();
+        const credential = await pool.acquire(spotifyRateLimiter);
+        const token = await ensureToken(credential);
+        getActiveSpan()?.setAttribute('spotify.credential', credential.label);
+        const requestLogger = contextLogger.child({ credential: credential.label });
         
         // Set up a controller for timeout
         const controller = new AbortController();
@@ -224,20 +379,30 @@ export async function spotifyApi<T>(path: string, options: { timeout?: number }
         
         try {
           // Use controlledFetch to implement backpressure with endpoint-specific pool
-          const res = await controlledFetch(`https://api.spotify.com/v1/${path}`, {
-            headers: { 'Authorization': `Bearer ${token}` },
-            signal: controller.signal
-          }, endpointType);
+          const res = await controlledFetch(`${spotifyApiUrl()}/${path}`, {
+            headers: etag ? { 'Authorization': `Bearer ${token}`, 'If-None-Match': etag } : { 'Authorization': `Bearer ${token}` },
+            signal: anySignal(controller.signal, signal)
+          }, endpointType, credential.label);
           
           clearTimeout(timeoutId);
           
+          if (etag) {
+            span?.setAttribute('http.conditional', true);
+            span?.setAttribute('http.not_modified', res.status === 304);
+          }
+          
+          if (res.status === 304 && etag) {
+            requestLogger.debug(`Spotify ${endpointType} resource not modified`, { path });
+            return { notModified: true as const };
+          }
+          
           if (res.status === 429) {
             // Validate the rate limit response
             if (isValidRateLimitResponse(res)) {
               // Get a reasonable retry delay
               const retryDelay = getReasonableRetryDelay(res.headers);
               
-              contextLogger.warn(`Rate limited by Spotify ${endpointType} endpoint, waiting for ${retryDelay}ms before retry`, {
+              requestLogger.warn(`Rate limited by Spotify ${endpointType} endpoint, waiting for ${retryDelay}ms before retry`, {
                 retryAfter: res.headers.get('Retry-After'),
                 path,
                 cappedDelay: retryDelay,
@@ -246,13 +411,27 @@ export async function spotifyApi<T>(path: string, options: { timeout?: number }
               
               // Tell the rate limit circuit about this failure
               await rateLimitCircuit.recordFailure(res, retryDelay); // Pass the capped delay
+              adaptiveLimits[endpointType]?.recordRateLimited();
+              
+              // Spotify limits the whole app, so hold back every worker using this credential
+              await spotifyRateLimiter?.block(credential.bucketKey, Date.now() + retryDelay);
+              pool.markRateLimited(credential, Date.now() + retryDelay);
+              
+              // Another app can take the retry without waiting out this one's limit
+              if (pool.hasAlternative(credential)) {
+                throw new TransientError(`Spotify credential ${credential.label} rate limited on ${endpointType} endpoint, rotating to another one`, {
+                  status: 429,
+                  service: 'spotify'
+                });
+              }
               
               // Let the retry mechanism handle this
-              const error = new Error(`Spotify API rate limited on ${endpointType} endpoint`);
-              (error as any).status = 429;
-              (error as any).headers = res.headers;
-              (error as any).endpointType = endpointType;
-              throw error;
+              throw new RateLimitError(`Spotify API rate limited on ${endpointType} endpoint`, {
+                status: 429,
+                service: 'spotify',
+                headers: res.headers,
+                retryAfterMs: retryDelay
+              });
             } else {
               // This looks like a suspicious rate limit response
               contextLogger.warn('Received suspicious rate limit response, treating as regular error', {
@@ -263,30 +442,45 @@ export async function spotifyApi<T>(path: string, options: { timeout?: number }
               });
               
               // Treat as a regular error, not a rate limit
-              const error = new Error(`Suspicious rate limit response on ${endpointType} endpoint`);
-              (error as any).status = res.status;
-              throw error;
+              throw new TransientError(`Suspicious rate limit response on ${endpointType} endpoint`, {
+                status: res.status,
+                service: 'spotify'
+              });
             }
           }
           
+          if (res.status === 401) {
+            // The token expired or was revoked early; the retry fetches a new one
+            credential.accessToken = null;
+            throw new TransientError(`Spotify rejected the access token of ${credential.label}`, {
+              status: 401,
+              service: 'spotify'
+            });
+          }
+          
           if (!res.ok) {
             const errorText = await res.text();
-            const error = new Error(`Spotify ${endpointType} API error: ${res.status} ${res.statusText}. Details: ${errorText}`);
-            (error as any).status = res.status;
-            (error as any).headers = res.headers;
-            (error as any).endpointType = endpointType;
-            throw error;
+            throw errorForStatus(res.status, `Spotify ${endpointType} API error: ${res.status} ${res.statusText}. Details: ${errorText}`, {
+              service: 'spotify',
+              headers: res.headers
+            });
           }
           
           const data = await res.json();
-          return data as T;
+          return { value: data as T, etag: res.headers.get('ETag') };
           
         } catch (error) {
           clearTimeout(timeoutId);
           
+          // Cancelled by the caller rather than by our own timeout
+          throwIfAborted(signal);
+          
           // Handle AbortError specifically
           if (error.name === 'AbortError') {
-            throw new Error(`Spotify API request timed out for ${path} (${endpointType} endpoint)`);
+            throw new TransientError(`Spotify API request timed out for ${path} (${endpointType} endpoint)`, {
+              service: 'spotify',
+              cause: error
+            });
           }
           
           throw error;
@@ -296,10 +490,15 @@ export async function spotifyApi<T>(path: string, options: { timeout?: number }
         initialDelayMs: getInitialDelayForEndpoint(endpointType),
         maxDelayMs: 30000, 
         factor: getBackoffFactorForEndpoint(endpointType),
-        jitter: true
+        jitter: true,
+        signal,
+        service: 'spotify'
       });
     });
-  }, 600000); // 10 minute cache TTL for Spotify data
+  }, {
+    kind: 'client',
+    attributes: { 'peer.service': 'spotify', 'spotify.endpoint': endpointType, 'spotify.path': path.split('?')[0] }
+  }), { namespace: 'spotify' }); // Shared across instances through api_cache
 }
 
 /**
@@ -338,34 +537,47 @@ function getBackoffFactorForEndpoint(endpointType: EndpointType): number {
   }
 }
 
-// Helper function to verify artist is primary on a Spotify item
-function isArtistPrimary(item: any, artistId: string): boolean {
-  return item.artists && 
-         item.artists.length > 0 && 
-         item.artists[0].id === artistId;
-}
-
+/**
+ * Spotify id of the best match for an artist name, or null when nothing
+ * matches. Failures other than a 404 are thrown, so a rate limit or an outage
+ * is retried instead of being taken for an unknown artist.
+ */
 export async function getSpotifyArtistId(name: string): Promise<string | null> {
   try {
     const data = await spotifyApi<any>(`search?q=${encodeURIComponent(name)}&type=artist&limit=1`);
     return data.artists.items[0]?.id || null;
   } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
     spotifyLogger.error(`Error getting artist ID for ${name}:`, error);
-    return null;
+    throw error;
   }
 }
 
-export async function getArtistAlbums(artistId: string, offset = 0): Promise<any> {
+/**
+ * Get a page of the artist's releases in the given scope. Spotify returns them
+ * grouped by include_groups (in the order given) and newest first within each group.
+ * Releases outside the scope are filtered out of items; total, limit and next
+ * still describe the unfiltered page, so page through with offset + limit.
+ */
+export async function getArtistAlbums(
+  artistId: string,
+  offset = 0,
+  includeGroups?: string,
+  scope: CrawlScope = DEFAULT_CRAWL_SCOPE
+): Promise<any> {
+  includeGroups ??= releaseGroupsForScope(scope).join(',');
   const contextLogger = spotifyLogger.child({ 
     operation: 'getArtistAlbums',
     artistId,
-    offset 
+    offset,
+    includeGroups,
+    scope
   });
   
-  // Only get albums and singles where the artist is the primary artist
-  // We'll filter further in the results to ensure they're truly primary artist releases
   const albums = await spotifyApi<any>(
-    `artists/${artistId}/albums?include_groups=album,single&limit=50&offset=${offset}`,
+    `artists/${artistId}/albums?include_groups=${includeGroups}&limit=50&offset=${offset}`,
     { timeout: 25000 } // Increased timeout for this operation
   );
   
@@ -374,21 +586,10 @@ export async function getArtistAlbums(artistId: string, offset = 0): Promise<any
       total: albums.total
     });
     
-    // Filter to only include albums where the specified artist is the primary artist
-    albums.items = albums.items.filter(album => {
-      // Exclude compilations and appears_on album types
-      if (album.album_type === 'compilation' || album.album_group === 'appears_on') {
-        return false;
-      }
-      
-      // Ensure the specified artist is the primary artist
-      return isArtistPrimary(album, artistId);
-    });
-    
-    // Update the total count to reflect our filtered results
-    albums.total = albums.items.length;
+    // Spotify also lists releases the artist only appears on; keep those the scope covers
+    albums.items = albums.items.filter(album => isAlbumInScope(albumRelationship(album, artistId), scope));
     
-    contextLogger.debug(`Filtered to ${albums.items.length} primary artist albums`);
+    contextLogger.debug(`Filtered to ${albums.items.length} albums in ${scope} scope`);
   }
   
   return albums;
@@ -408,8 +609,65 @@ export async function getTrackDetails(trackId: string): Promise<any> {
   );
 }
 
-// Backpressure-aware fetch wrapper with endpoint-specific concurrency control
-export async function controlledFetch(url: string, options?: RequestInit, endpointType: EndpointType = 'other'): Promise<Response> {
+// Maximum ids per request accepted by Spotify's "get several" endpoints
+const BATCH_LIMITS = {
+  albums: 20,
+  tracks: 50,
+  artists: 50
+} as const;
+
+type BatchResource = keyof typeof BATCH_LIMITS;
+
+/**
+ * Fetch many items with the "get several" endpoint, chunked to the endpoint's limit.
+ * Returns the items keyed by Spotify id; ids Spotify doesn't know are left out.
+ * Each item is also cached under its single-item key, so later lookups of
+ * e.g. `tracks/{id}` are served from memory.
+ */
+async function getSeveral<T extends { id: string }>(resource: BatchResource, ids: string[], timeout: number): Promise<Map<string, T>> {
+  const uniqueIds = [...new Set(ids.filter(Boolean))];
+  const results = new Map<string, T>();
+  const { ttlMs, staleWhileRevalidateMs } = getNamespaceConfig('spotify');
+  const batchSize = BATCH_LIMITS[resource];
+
+  for (let i = 0; i < uniqueIds.length; i += batchSize) {
+    const chunk = uniqueIds.slice(i, i + batchSize);
+    const data = await spotifyApi<Record<string, Array<T | null>>>(`${resource}?ids=${chunk.join(',')}`, { timeout });
+
+    for (const item of data?.[resource] || []) {
+      if (!item?.id) continue; // Unknown ids come back as null
+      results.set(item.id, item);
+      globalCache.set(`spotify-api:${resource}/${item.id}`, item, ttlMs, staleWhileRevalidateMs);
+    }
+  }
+
+  spotifyLogger.debug(`Fetched ${results.size}/${uniqueIds.length} ${resource} in ${Math.ceil(uniqueIds.length / batchSize)} requests`);
+  return results;
+}
+
+export function getSeveralAlbums<T extends { id: string }>(albumIds: string[]): Promise<Map<string, T>> {
+  return getSeveral<T>('albums', albumIds, 20000);
+}
+
+export function getSeveralTracks<T extends { id: string }>(trackIds: string[]): Promise<Map<string, T>> {
+  return getSeveral<T>('tracks', trackIds, 15000);
+}
+
+export function getSeveralArtists<T extends { id: string }>(artistIds: string[]): Promise<Map<string, T>> {
+  return getSeveral<T>('artists', artistIds, 15000);
+}
+
+// Backpressure-aware fetch wrapper with endpoint-specific concurrency control.
+// Honors options.signal, or the active signal when none is given, while queued and in flight
+export async function controlledFetch(
+  url: string,
+  options?: RequestInit,
+  endpointType: EndpointType = 'other',
+  credentialLabel?: string
+): Promise<Response> {
+  const signal = options?.signal ?? getAbortSignal();
+  throwIfAborted(signal);
+  
   // Track API call count
   _spotifyCallCount++;
   
@@ -417,19 +675,27 @@ export async function controlledFetch(url: string, options?: RequestInit, endpoi
   const pool = endpointPools.get(endpointType) || initializePool(endpointType);
   
   // Log request with call count
-  const logContext = { count: _spotifyCallCount, endpoint: endpointType };
+  const logContext = { count: _spotifyCallCount, endpoint: endpointType, credential: credentialLabel };
   spotifyLogger.debug(`API request #${_spotifyCallCount} for ${endpointType}`, logContext);
   
   // Wait until we're under concurrency limit for this endpoint
   while (pool.currentCount >= pool.maxConcurrent) {
-    await wait(200);
+    await abortableWait(200, signal);
   }
   
   pool.currentCount++;
   spotifyLogger.debug(`API request started for ${endpointType} endpoint (${pool.currentCount}/${pool.maxConcurrent})`);
   
   try {
-    return await fetch(url, options);
+    const startTime = Date.now();
+    const res = await fetch(url, signal ? { ...options, signal } : options);
+    
+    // Successful calls feed the adaptive limit; 429s are reported by spotifyApi once validated
+    if (res.ok || res.status === 304) {
+      adaptiveLimits[endpointType]?.recordSuccess(Date.now() - startTime);
+    }
+    
+    return res;
   } finally {
     pool.currentCount--;
     // Add endpoint-specific delay between requests to prevent rate limit issues
@@ -475,11 +741,22 @@ export function getEndpointPoolStatus(): Record<string, { current: number, max:
 }
 
 // Allow updating pool limits at runtime (useful for dynamic configuration)
+// For adaptive pools this sets the limit the controller continues from
 export function updateEndpointPoolLimit(endpoint: EndpointType, maxConcurrent: number): void {
   if (maxConcurrent < 1) {
     throw new Error(`Invalid concurrency limit: ${maxConcurrent}. Must be at least 1.`);
   }
   
+  const adaptive = adaptiveLimits[endpoint];
+  if (adaptive) {
+    adaptive.restore(maxConcurrent);
+    return;
+  }
+  
+  applyPoolLimit(endpoint, maxConcurrent);
+}
+
+function applyPoolLimit(endpoint: EndpointType, maxConcurrent: number): void {
   const pool = endpointPools.get(endpoint);
   if (pool) {
     spotifyLogger.info(`Updating ${endpoint} endpoint concurrency limit: ${pool.maxConcurrent} -> ${maxConcurrent}`);
@@ -489,3 +766,24 @@ export function updateEndpointPoolLimit(endpoint: EndpointType, maxConcurrent: n
     spotifyLogger.info(`Created new ${endpoint} endpoint pool with concurrency limit: ${maxConcurrent}`);
   }
 }
+
+// Adaptive limit state per endpoint, for monitoring
+export function getAdaptiveLimitStatus(): Record<string, AdaptiveLimitState> {
+  const status: Record<string, AdaptiveLimitState> = {};
+  
+  for (const [endpoint, limit] of Object.entries(adaptiveLimits)) {
+    status[endpoint] = limit!.getState();
+  }
+  
+  return status;
+}
+
+// Start from the limits learned by previous invocations
+export function loadSpotifyConcurrencyLimits(supabase: SupabaseClient<Database>): Promise<void> {
+  return loadAdaptiveLimits(supabase, Object.values(adaptiveLimits) as AdaptiveConcurrencyLimit[]);
+}
+
+// Save limits that changed during this invocation
+export function persistSpotifyConcurrencyLimits(supabase: SupabaseClient<Database>): Promise<void> {
+  return persistAdaptiveLimits(supabase, Object.values(adaptiveLimits) as AdaptiveConcurrencyLimit[]);
+}
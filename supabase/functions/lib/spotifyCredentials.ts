@@ -0,0 +1,260 @@
+/**
+ * Pool of Spotify client credentials.
+ *
+ * Spotify rate-limits each app separately, so every configured app has its own
+ * access token and its own token bucket. Requests rotate over the apps: the
+ * pool hands out the next app with a token free right now, skipping apps that
+ * Spotify is throttling or that failed to authenticate, and only waits for a
+ * token when no app has one.
+ *
+ * An app authorized by a Spotify user (see the spotifyAuth function) requests
+ * its tokens with the user's refresh token instead, so its calls are made on
+ * behalf of that user.
+ */
+
+import { logger } from './logger.ts';
+import { RateLimiter, RateLimitExceededError } from './rateLimiter.ts';
+import { AuthError, RateLimitError } from './errors.ts';
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
+
+export interface SpotifyCredential {
+  label: string;        // Safe to log, unlike the client id and secret
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string | null; // User-scoped tokens when set, client credentials otherwise
+  bucketKey: string;    // Token bucket of this app in rate_limit_buckets
+  accessToken: string | null;
+  tokenExpiry: number;
+  blockedUntil: number; // Throttled by Spotify or rejected until then
+  calls: number;
+  rateLimited: number;
+}
+
+export interface SpotifyCredentialStatus {
+  flow: 'client_credentials' | 'refresh_token';
+  calls: number;
+  rateLimited: number;
+  blockedUntil: string | null;
+  tokenExpiresAt: string | null;
+}
+
+// How long a credential whose token request was rejected sits out
+const REJECTED_CREDENTIAL_BACKOFF_MS = 15 * 60 * 1000;
+
+const poolLogger = logger.child({ component: 'SpotifyCredentialPool' });
+
+/**
+ * Label of an app, safe to log unlike its client id. It hashes the whole id
+ * (FNV-1a), so apps whose ids share a prefix get different labels and buckets.
+ */
+export function credentialLabel(clientId: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < clientId.length; i++) {
+    hash ^= clientId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `spotify-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Credentials from SPOTIFY_CREDENTIALS ("clientId:clientSecret,..."), or the
+ * single SPOTIFY_CLIENT_ID / SPOTIFY_CLIENT_SECRET pair without it
+ */
+export function loadSpotifyCredentials(): SpotifyCredential[] {
+  const pairs = (Deno.env.get('SPOTIFY_CREDENTIALS') || '')
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => {
+      const separator = pair.indexOf(':');
+      return [pair.slice(0, separator), pair.slice(separator + 1)];
+    });
+
+  if (pairs.length === 0) {
+    const clientId = Deno.env.get('SPOTIFY_CLIENT_ID');
+    const clientSecret = Deno.env.get('SPOTIFY_CLIENT_SECRET');
+    if (!clientId || !clientSecret) {
+      throw new AuthError('Required environment variable SPOTIFY_CREDENTIALS or SPOTIFY_CLIENT_ID and SPOTIFY_CLIENT_SECRET is missing', {
+        service: 'spotify'
+      });
+    }
+    pairs.push([clientId, clientSecret]);
+  }
+
+  return pairs.map(([clientId, clientSecret], index) => {
+    if (!clientId || !clientSecret) {
+      throw new AuthError(`Spotify credential ${index + 1} must be formatted as clientId:clientSecret`, { service: 'spotify' });
+    }
+
+    const label = credentialLabel(clientId);
+    return {
+      label,
+      clientId,
+      clientSecret,
+      refreshToken: null,
+      bucketKey: `spotify-api:${label}`,
+      accessToken: null,
+      tokenExpiry: 0,
+      blockedUntil: 0,
+      calls: 0,
+      rateLimited: 0
+    };
+  });
+}
+
+export class SpotifyCredentialPool {
+  private next = 0;
+
+  constructor(readonly credentials: SpotifyCredential[]) {}
+
+  /**
+   * Pick the credential for the next request and take a token from its bucket.
+   * Throws RateLimitError if every credential is blocked, and
+   * RateLimitExceededError if no token would be free within the bucket's maxWaitMs.
+   */
+  async acquire(rateLimiter: RateLimiter | null): Promise<SpotifyCredential> {
+    const now = Date.now();
+    const available = this.inRotationOrder().filter(credential => credential.blockedUntil <= now);
+
+    if (available.length === 0) {
+      const retryAfterMs = Math.min(...this.credentials.map(credential => credential.blockedUntil)) - now;
+      throw new RateLimitError(`Every Spotify credential is throttled for another ${retryAfterMs}ms`, {
+        status: 429,
+        service: 'spotify',
+        retryAfterMs
+      });
+    }
+
+    if (rateLimiter && available.length > 1) {
+      for (const credential of available) {
+        try {
+          await rateLimiter.acquire(credential.bucketKey, 1, { maxWaitMs: 0 });
+          return this.use(credential);
+        } catch (error) {
+          if (!(error instanceof RateLimitExceededError)) throw error;
+        }
+      }
+    }
+
+    // No bucket has a token right now: wait for the next credential in line, as a single app would
+    await rateLimiter?.acquire(available[0].bucketKey);
+    return this.use(available[0]);
+  }
+
+  /**
+   * Take a credential out of rotation until Spotify allows it requests again
+   */
+  markRateLimited(credential: SpotifyCredential, untilMs: number): void {
+    credential.rateLimited++;
+    credential.blockedUntil = Math.max(credential.blockedUntil, untilMs);
+    poolLogger.warn(`Spotify credential ${credential.label} rate limited`, {
+      until: new Date(credential.blockedUntil).toISOString()
+    });
+  }
+
+  /**
+   * Take a credential whose token request was rejected out of rotation for a while
+   */
+  markRejected(credential: SpotifyCredential): void {
+    credential.accessToken = null;
+    credential.blockedUntil = Date.now() + REJECTED_CREDENTIAL_BACKOFF_MS;
+    poolLogger.error(`Spotify credential ${credential.label} was rejected, retrying it after ${REJECTED_CREDENTIAL_BACKOFF_MS}ms`);
+  }
+
+  /**
+   * Whether any credential other than this one can serve requests now
+   */
+  hasAlternative(credential: SpotifyCredential): boolean {
+    const now = Date.now();
+    return this.credentials.some(other => other !== credential && other.blockedUntil <= now);
+  }
+
+  getStatus(): Record<string, SpotifyCredentialStatus> {
+    const status: Record<string, SpotifyCredentialStatus> = {};
+
+    for (const credential of this.credentials) {
+      status[credential.label] = {
+        flow: credential.refreshToken ? 'refresh_token' : 'client_credentials',
+        calls: credential.calls,
+        rateLimited: credential.rateLimited,
+        blockedUntil: credential.blockedUntil > Date.now() ? new Date(credential.blockedUntil).toISOString() : null,
+        tokenExpiresAt: credential.accessToken ? new Date(credential.tokenExpiry).toISOString() : null
+      };
+    }
+
+    return status;
+  }
+
+  private inRotationOrder(): SpotifyCredential[] {
+    return [...this.credentials.slice(this.next), ...this.credentials.slice(0, this.next)];
+  }
+
+  private use(credential: SpotifyCredential): SpotifyCredential {
+    this.next = (this.credentials.indexOf(credential) + 1) % this.credentials.length;
+    credential.calls++;
+    return credential;
+  }
+}
+
+/**
+ * Attach the refresh tokens users granted to the apps they authorized. An app
+ * whose token changed requests a new access token on its next call.
+ */
+export async function loadSpotifyUserTokens(
+  supabase: SupabaseClient<Database>,
+  credentials: SpotifyCredential[]
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('spotify_user_tokens')
+    .select('client_id, refresh_token')
+    .in('client_id', credentials.map(credential => credential.clientId));
+
+  if (error) throw error;
+
+  for (const credential of credentials) {
+    const refreshToken = (data || []).find(row => row.client_id === credential.clientId)?.refresh_token ?? null;
+    if (refreshToken !== credential.refreshToken) {
+      credential.refreshToken = refreshToken;
+      credential.accessToken = null;
+    }
+  }
+}
+
+/**
+ * Store the refresh token a user granted to an app, or the one Spotify rotated it to
+ */
+export async function saveSpotifyUserToken(
+  supabase: SupabaseClient<Database>,
+  clientId: string,
+  refreshToken: string,
+  scope?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('spotify_user_tokens')
+    .upsert({
+      client_id: clientId,
+      refresh_token: refreshToken,
+      ...(scope !== undefined ? { scope } : {}),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'client_id' });
+
+  if (error) throw error;
+}
+
+/**
+ * Remove a refresh token Spotify no longer accepts, unless a user authorized the app again meanwhile
+ */
+export async function deleteSpotifyUserToken(
+  supabase: SupabaseClient<Database>,
+  clientId: string,
+  refreshToken: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('spotify_user_tokens')
+    .delete()
+    .eq('client_id', clientId)
+    .eq('refresh_token', refreshToken);
+
+  if (error) throw error;
+}
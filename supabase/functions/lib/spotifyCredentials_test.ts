@@ -0,0 +1,63 @@
+import { assertEquals, assertNotEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { SpotifyCredential, credentialLabel, deleteSpotifyUserToken, loadSpotifyUserTokens, saveSpotifyUserToken } from './spotifyCredentials.ts';
+import { FakeSupabase } from './testing/fakeSupabase.ts';
+
+function credential(clientId: string): SpotifyCredential {
+  const label = credentialLabel(clientId);
+  return {
+    label,
+    clientId,
+    clientSecret: 'secret',
+    refreshToken: null,
+    bucketKey: `spotify-api:${label}`,
+    accessToken: 'client-token',
+    tokenExpiry: Date.now() + 3600_000,
+    blockedUntil: 0,
+    calls: 0,
+    rateLimited: 0
+  };
+}
+
+Deno.test('apps whose client ids share a prefix get different labels', () => {
+  const first = credentialLabel('1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d');
+  const second = credentialLabel('1a2b3c4d00000000000000000000000');
+
+  assertNotEquals(first, second);
+  assertEquals(first, credentialLabel('1a2b3c4d5e6f7a8b9c0d1e2f3a4b5c6d'));
+  assertEquals(/^spotify-[0-9a-f]{8}$/.test(first), true);
+});
+
+Deno.test('user tokens attach to their app and reset its access token', async () => {
+  const db = new FakeSupabase();
+  const authorized = credential('authorized-app');
+  const other = credential('other-app');
+
+  await saveSpotifyUserToken(db.client, 'authorized-app', 'refresh-1', 'user-read-private');
+  await loadSpotifyUserTokens(db.client, [authorized, other]);
+
+  assertEquals([authorized.refreshToken, other.refreshToken], ['refresh-1', null]);
+  assertEquals([authorized.accessToken, other.accessToken], [null, 'client-token']);
+
+  // An unchanged token keeps the access token it already has
+  authorized.accessToken = 'user-token';
+  await loadSpotifyUserTokens(db.client, [authorized]);
+  assertEquals(authorized.accessToken, 'user-token');
+
+  // A rotated token replaces the stored one
+  await saveSpotifyUserToken(db.client, 'authorized-app', 'refresh-2');
+  assertEquals(db.table('spotify_user_tokens').map(row => [row.refresh_token, row.scope]), [['refresh-2', 'user-read-private']]);
+});
+
+Deno.test('a revoked token is deleted unless the app was authorized again', async () => {
+  const db = new FakeSupabase();
+  const app = credential('revoked-app');
+
+  await saveSpotifyUserToken(db.client, 'revoked-app', 'refresh-2');
+  await deleteSpotifyUserToken(db.client, 'revoked-app', 'refresh-1');
+  assertEquals(db.table('spotify_user_tokens').length, 1);
+
+  await deleteSpotifyUserToken(db.client, 'revoked-app', 'refresh-2');
+  await loadSpotifyUserTokens(db.client, [app]);
+  assertEquals(db.table('spotify_user_tokens').length, 0);
+  assertEquals(app.refreshToken, null);
+});
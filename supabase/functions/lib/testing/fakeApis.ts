@@ -0,0 +1,316 @@
+/**
+ * Local HTTP servers imitating the Spotify, Genius and social search APIs
+ * from fixtures. Point the clients at them with SPOTIFY_TOKEN_URL,
+ * SPOTIFY_API_URL, GENIUS_API_URL, SOCIAL_SEARCH_URL and INSTAGRAM_URL.
+ */
+
+export interface SpotifyImage {
+  url: string;
+  height: number | null;
+  width: number | null;
+}
+
+export interface SpotifyArtistRef {
+  id: string;
+  name: string;
+}
+
+export interface SpotifyArtistFixture extends SpotifyArtistRef {
+  popularity?: number;
+  followers?: { total: number };
+  genres?: string[];
+  images?: SpotifyImage[];
+}
+
+export interface SpotifyTrackFixture {
+  id: string;
+  name: string;
+  duration_ms: number;
+  disc_number?: number;
+  track_number?: number;
+  popularity?: number;       // Only returned by the full track endpoints
+  preview_url?: string | null;
+  artists: SpotifyArtistRef[];
+}
+
+export interface SpotifyAlbumFixture {
+  id: string;
+  name: string;
+  album_type: 'album' | 'single' | 'compilation';
+  album_group?: 'album' | 'single' | 'compilation' | 'appears_on'; // Defaults to album_type
+  release_date: string;
+  images?: SpotifyImage[];
+  artists: SpotifyArtistRef[];
+  tracks: SpotifyTrackFixture[];
+}
+
+export interface SpotifyFixtures {
+  artists: SpotifyArtistFixture[];
+  albums: SpotifyAlbumFixture[];
+}
+
+export interface GeniusArtistFixture {
+  id: number;
+  name: string;
+  image_url?: string;
+}
+
+export interface GeniusSongFixture {
+  id: number;
+  title: string;
+  primary_artist: GeniusArtistFixture;
+  featured_artists?: GeniusArtistFixture[];
+  producer_artists?: GeniusArtistFixture[];
+  writer_artists?: GeniusArtistFixture[];
+  custom_performances?: Array<{ label: string; artists: GeniusArtistFixture[] }>;
+}
+
+export interface GeniusFixtures {
+  songs: GeniusSongFixture[];
+}
+
+export interface InstagramProfileFixture {
+  username: string;
+  full_name: string;
+  biography?: string;
+  external_url?: string;
+  is_verified?: boolean;
+  followers?: number;
+  posts?: number;
+}
+
+export interface SocialFixtures {
+  instagram: InstagramProfileFixture[];
+}
+
+export interface FakeServer {
+  url: string;
+  requests: string[]; // Path and query of every request received, in order
+  close(): Promise<void>;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Tag successful GET responses with a hash of their body, and answer a
+// matching If-None-Match with 304 Not Modified, as Spotify does
+async function withEtag(req: Request, res: Response): Promise<Response> {
+  if (req.method !== 'GET' || res.status !== 200) return res;
+
+  const body = await res.text();
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const etag = `"${Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')}"`;
+
+  if (req.headers.get('If-None-Match') === etag) {
+    return new Response(null, { status: 304, headers: { 'ETag': etag } });
+  }
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json', 'ETag': etag } });
+}
+
+function notFound(what: string): Response {
+  return json({ error: { status: 404, message: `${what} not found` } }, 404);
+}
+
+function startFakeServer(handler: (url: URL, req: Request) => Response | Promise<Response>): FakeServer {
+  const requests: string[] = [];
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, (req) => {
+    const url = new URL(req.url);
+    requests.push(`${url.pathname}${url.search}`);
+    return handler(url, req);
+  });
+
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    requests,
+    close: () => server.shutdown()
+  };
+}
+
+function paging<T>(items: T[], url: URL): { items: T[]; total: number; limit: number; offset: number; next: string | null } {
+  const limit = Number(url.searchParams.get('limit') || '20');
+  const offset = Number(url.searchParams.get('offset') || '0');
+  let next: string | null = null;
+
+  if (offset + limit < items.length) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set('offset', String(offset + limit));
+    next = nextUrl.toString();
+  }
+
+  return { items: items.slice(offset, offset + limit), total: items.length, limit, offset, next };
+}
+
+/**
+ * Spotify Web API subset: client credentials token, search, artists,
+ * artist albums, albums, album tracks and tracks (single and "several").
+ * Responses carry ETags and conditional requests are honored.
+ */
+export function startFakeSpotify(fixtures: SpotifyFixtures): FakeServer {
+  const artists = new Map(fixtures.artists.map(a => [a.id, a]));
+  const albums = new Map(fixtures.albums.map(a => [a.id, a]));
+  const tracks = new Map(fixtures.albums.flatMap(album => album.tracks.map(t => [t.id, { track: t, album }] as const)));
+
+  const fullArtist = (artist: SpotifyArtistFixture) => ({
+    type: 'artist',
+    popularity: 0,
+    followers: { total: 0 },
+    genres: [],
+    images: [],
+    ...artist
+  });
+
+  const simplifiedAlbum = ({ tracks: albumTracks, ...album }: SpotifyAlbumFixture) => ({
+    type: 'album',
+    album_group: album.album_type,
+    images: [],
+    ...album,
+    total_tracks: albumTracks.length
+  });
+
+  const simplifiedTrack = ({ popularity: _popularity, ...track }: SpotifyTrackFixture) => ({
+    type: 'track',
+    disc_number: 1,
+    track_number: 1,
+    preview_url: null,
+    ...track
+  });
+
+  const fullTrack = (id: string) => {
+    const entry = tracks.get(id);
+    if (!entry) return null;
+    return { ...simplifiedTrack(entry.track), popularity: entry.track.popularity ?? 0, album: simplifiedAlbum(entry.album) };
+  };
+
+  const fullAlbum = (id: string, url: URL) => {
+    const album = albums.get(id);
+    if (!album) return null;
+    return { ...simplifiedAlbum(album), tracks: paging(album.tracks.map(simplifiedTrack), url) };
+  };
+
+  const ids = (url: URL) => (url.searchParams.get('ids') || '').split(',').filter(Boolean);
+
+  const route = async (url: URL, req: Request): Promise<Response> => {
+    const path = url.pathname.replace(/^\/v1/, '');
+
+    if (req.method === 'POST' && path === '/api/token') {
+      await req.text();
+      return json({ access_token: 'fake-spotify-token', token_type: 'Bearer', expires_in: 3600 });
+    }
+
+    if (path === '/search') {
+      const query = (url.searchParams.get('q') || '').toLowerCase();
+      const matches = fixtures.artists.filter(a => a.name.toLowerCase().includes(query)).map(fullArtist);
+      return json({ artists: paging(matches, url) });
+    }
+
+    if (path === '/artists') return json({ artists: ids(url).map(id => artists.has(id) ? fullArtist(artists.get(id)!) : null) });
+    if (path === '/albums') return json({ albums: ids(url).map(id => fullAlbum(id, url)) });
+    if (path === '/tracks') return json({ tracks: ids(url).map(fullTrack) });
+
+    let match = path.match(/^\/artists\/([^/]+)\/albums$/);
+    if (match) {
+      const artistId = match[1];
+      const groups = (url.searchParams.get('include_groups') || 'album,single,compilation,appears_on').split(',');
+      const releases = fixtures.albums
+        .filter(album => album.artists.some(a => a.id === artistId))
+        .map(album => ({
+          ...simplifiedAlbum(album),
+          // Releases by other artists show up in the artist's appears_on group
+          album_group: album.artists[0].id === artistId ? (album.album_group || album.album_type) : 'appears_on'
+        }))
+        .filter(album => groups.includes(album.album_group))
+        // Grouped in the requested order, newest first within each group
+        .sort((a, b) => groups.indexOf(a.album_group) - groups.indexOf(b.album_group) || b.release_date.localeCompare(a.release_date));
+      return json(paging(releases, url));
+    }
+
+    match = path.match(/^\/albums\/([^/]+)\/tracks$/);
+    if (match) {
+      const album = albums.get(match[1]);
+      return album ? json(paging(album.tracks.map(simplifiedTrack), url)) : notFound('Album');
+    }
+
+    match = path.match(/^\/(artists|albums|tracks)\/([^/]+)$/);
+    if (match) {
+      const [, resource, id] = match;
+      const item = resource === 'artists'
+        ? (artists.has(id) ? fullArtist(artists.get(id)!) : null)
+        : resource === 'albums' ? fullAlbum(id, url) : fullTrack(id);
+      return item ? json(item) : notFound(resource);
+    }
+
+    return notFound(`Endpoint ${path}`);
+  };
+
+  return startFakeServer(async (url, req) => withEtag(req, await route(url, req)));
+}
+
+/**
+ * Genius API subset: search (matched on song title) and songs/{id}
+ */
+export function startFakeGenius(fixtures: GeniusFixtures): FakeServer {
+  return startFakeServer((url) => {
+    if (url.pathname === '/search') {
+      const query = (url.searchParams.get('q') || '').toLowerCase();
+      const hits = fixtures.songs
+        .filter(song => query.includes(song.title.toLowerCase()))
+        .map(({ id, title, primary_artist, featured_artists = [] }) => ({
+          type: 'song',
+          result: { id, title, primary_artist, featured_artists }
+        }));
+      return json({ meta: { status: 200 }, response: { hits } });
+    }
+
+    const match = url.pathname.match(/^\/songs\/(\d+)$/);
+    if (match) {
+      const song = fixtures.songs.find(s => s.id === Number(match[1]));
+      if (!song) return json({ meta: { status: 404, message: 'Not found' } }, 404);
+      return json({
+        meta: { status: 200 },
+        response: { song: { featured_artists: [], producer_artists: [], writer_artists: [], custom_performances: [], ...song } }
+      });
+    }
+
+    return json({ meta: { status: 404, message: 'Not found' } }, 404);
+  });
+}
+
+/**
+ * DuckDuckGo HTML search and Instagram profile lookups used by social enrichment.
+ * Search results link every profile whose full name appears in the query.
+ */
+export function startFakeSocial(fixtures: SocialFixtures = { instagram: [] }): FakeServer {
+  return startFakeServer((url) => {
+    if (url.pathname.startsWith('/html')) {
+      const query = (url.searchParams.get('q') || '').toLowerCase();
+      const links = fixtures.instagram
+        .filter(profile => query.includes(profile.full_name.toLowerCase()))
+        .map(profile => `<a class="result__a" href="https://www.instagram.com/${profile.username}">${profile.full_name} (@${profile.username})</a>`);
+      return new Response(`<html><body>${links.join('\n')}</body></html>`, {
+        headers: { 'Content-Type': 'text/html' }
+      });
+    }
+
+    const username = decodeURIComponent(url.pathname.split('/').filter(Boolean)[0] || '');
+    const profile = fixtures.instagram.find(p => p.username === username);
+    if (!profile) return json({ message: 'Page not found' }, 404);
+
+    return json({
+      graphql: {
+        user: {
+          username: profile.username,
+          full_name: profile.full_name,
+          biography: profile.biography || '',
+          external_url: profile.external_url || '',
+          is_verified: profile.is_verified || false,
+          edge_followed_by: { count: profile.followers || 0 },
+          edge_owner_to_timeline_media: { count: profile.posts || 0 }
+        }
+      }
+    });
+  });
+}
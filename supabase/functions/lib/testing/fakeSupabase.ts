@@ -0,0 +1,640 @@
+/**
+ * In-memory stand-in for the Supabase client used by the workers.
+ *
+ * Implements the subset of the PostgREST query builder the workers call
+ * (select/insert/upsert/update/delete with eq/neq/in/is/not/gt/gte/lt/lte
+ * filters, order, limit, single/maybeSingle) over plain arrays of rows, plus
+ * the pgmq_* RPCs backed by in-memory queues. Other RPCs can be registered
+ * with registerRpc(). Time is virtual so tests can expire visibility timeouts.
+ * Like the real client's fetch, requests made under an aborted signal fail
+ * without touching any data.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../../types.ts';
+import { abortError, getAbortSignal } from '../cancellation.ts';
+import { CircuitEvent, CircuitRecord, CircuitState, applyCircuitEvent } from '../circuitBreaker.ts';
+
+export type Row = Record<string, any>;
+
+export interface FakeError {
+  message: string;
+  code: string;
+  details?: string | null;
+  hint?: string | null;
+}
+
+export interface FakeResult<T = unknown> {
+  data: T | null;
+  error: FakeError | null;
+  count?: number | null;
+  status: number;
+}
+
+export type RpcHandler = (args: Row, db: FakeSupabase) => unknown | Promise<unknown>;
+
+export interface FakeQueueMessage {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  vt: number; // Epoch ms (virtual clock) after which the message is visible again
+  message: unknown;
+}
+
+/**
+ * Unique keys per table, used for upsert conflicts and 23505 errors.
+ * The first key of each table is its primary key.
+ */
+const DEFAULT_UNIQUE_KEYS: Record<string, string[][]> = {
+  artists: [['id'], ['spotify_id']],
+  albums: [['id'], ['spotify_id']],
+  tracks: [['id'], ['spotify_id']],
+  genius_match_reviews: [['id'], ['track_id']],
+  normalized_tracks: [['normalized_name', 'artist_id']],
+  producers: [['id']],
+  producer_aliases: [['id'], ['producer_id', 'kind', 'value']],
+  track_credits: [['track_id', 'producer_id', 'role']],
+  track_performers: [['id'], ['track_id', 'spotify_artist_id']],
+  worker_status: [['worker_name']],
+  pipeline_runs: [['id']],
+  pipeline_run_stages: [['run_id', 'stage']],
+  api_cache: [['key']],
+  rate_limit_buckets: [['key']],
+  adaptive_concurrency_limits: [['name']],
+  circuit_breakers: [['name']],
+  queue_dedup: [['dedup_key']],
+  traces: [['span_id']]
+};
+
+// Tables whose rows get a generated uuid id when none is given
+const UUID_ID_TABLES = new Set(['artists', 'albums', 'tracks', 'producers', 'track_credits', 'pipeline_runs', 'maintenance_logs']);
+
+function error(message: string, code: string): FakeError {
+  return { message, code, details: null, hint: null };
+}
+
+/**
+ * What postgrest-js returns when its fetch rejects, here because the signal is aborted
+ */
+function abortedResult(signal: AbortSignal | undefined): FakeResult | null {
+  if (!signal?.aborted) {
+    return null;
+  }
+  const reason = abortError(signal);
+  return { data: null, error: error(`${reason.name}: ${reason.message}`, ''), status: 0 };
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : structuredClone(value);
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return 1;
+  if (b === null || b === undefined) return -1;
+  return a < b ? -1 : 1;
+}
+
+export class FakeSupabase {
+  readonly tables = new Map<string, Row[]>();
+  readonly queues = new Map<string, FakeQueueMessage[]>();
+  readonly archived = new Map<string, FakeQueueMessage[]>();
+  readonly missingRpcs = new Set<string>(); // Called but never registered, so the real schema may lack them too
+  private rpcs = new Map<string, RpcHandler>();
+  private uniqueKeys: Record<string, string[][]>;
+  private nextMsgId = 1;
+  private nextSerialId = 1;
+  private clockOffsetMs = 0;
+
+  constructor(seed: Record<string, Row[]> = {}, uniqueKeys: Record<string, string[][]> = {}) {
+    this.uniqueKeys = { ...DEFAULT_UNIQUE_KEYS, ...uniqueKeys };
+    for (const [table, rows] of Object.entries(seed)) {
+      this.tables.set(table, rows.map(row => this.withDefaults(table, clone(row))));
+    }
+    this.registerDefaultRpcs();
+  }
+
+  /**
+   * The fake typed as a Supabase client, for injection into workers
+   */
+  get client(): SupabaseClient<Database> {
+    return {
+      from: (table: string) => new FakeQueryBuilder(this, table),
+      rpc: (name: string, args: Row = {}) => this.rpc(name, args)
+    } as unknown as SupabaseClient<Database>;
+  }
+
+  now(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  /**
+   * Move the virtual clock forward, e.g. to let hidden messages be redelivered
+   */
+  advanceTime(ms: number): void {
+    this.clockOffsetMs += ms;
+  }
+
+  table(name: string): Row[] {
+    let rows = this.tables.get(name);
+    if (!rows) {
+      rows = [];
+      this.tables.set(name, rows);
+    }
+    return rows;
+  }
+
+  registerRpc(name: string, handler: RpcHandler): void {
+    this.rpcs.set(name, handler);
+  }
+
+  registeredRpcs(): string[] {
+    return [...this.rpcs.keys()];
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<FakeResult> {
+    const aborted = abortedResult(getAbortSignal());
+    if (aborted) {
+      return aborted;
+    }
+
+    const handler = this.rpcs.get(name);
+    if (!handler) {
+      this.missingRpcs.add(name);
+      return { data: null, error: error(`function public.${name} does not exist`, '42883'), status: 404 };
+    }
+
+    try {
+      return { data: clone(await handler(args, this)) ?? null, error: null, status: 200 };
+    } catch (e) {
+      return { data: null, error: error(e instanceof Error ? e.message : String(e), 'P0001'), status: 400 };
+    }
+  }
+
+  // ---- Queues ----
+
+  send(queueName: string, message: unknown): number {
+    const msgId = this.nextMsgId++;
+    const queue = this.queues.get(queueName) || [];
+    queue.push({
+      msg_id: msgId,
+      read_ct: 0,
+      enqueued_at: new Date(this.now()).toISOString(),
+      vt: this.now(),
+      message: clone(message)
+    });
+    this.queues.set(queueName, queue);
+    return msgId;
+  }
+
+  /**
+   * Messages in the queue, including ones hidden by a visibility timeout
+   */
+  queueDepth(queueName: string): number {
+    return this.queues.get(queueName)?.length || 0;
+  }
+
+  visibleCount(queueName: string): number {
+    return (this.queues.get(queueName) || []).filter(m => m.vt <= this.now()).length;
+  }
+
+  // ---- Table operations used by the query builder ----
+
+  /**
+   * Insert (or upsert) rows; like a single statement, either every row is written or none
+   */
+  insertRows(table: string, rows: Row[], upsert?: { onConflict?: string; ignoreDuplicates?: boolean }): FakeResult<Row[]> {
+    const target = this.table(table);
+    const updates: Array<[Row, Row]> = [];
+    const inserts: Row[] = [];
+
+    for (const input of rows) {
+      const conflictKey = upsert ? this.conflictKey(table, input, upsert.onConflict) : null;
+      const existing = conflictKey
+        ? [...target, ...inserts].find(row => conflictKey.every(col => row[col] === input[col]))
+        : undefined;
+
+      if (existing) {
+        if (!upsert?.ignoreDuplicates) updates.push([existing, input]);
+        continue;
+      }
+
+      const row = this.withDefaults(table, clone(input));
+      const violated = this.violatedKey(table, row, undefined, inserts);
+      if (violated) {
+        return this.uniqueViolation(table, violated);
+      }
+      inserts.push(row);
+    }
+
+    for (const [existing, input] of updates) {
+      Object.assign(existing, clone(input));
+    }
+    target.push(...inserts);
+
+    return { data: [...updates.map(([existing]) => existing), ...inserts], error: null, status: 201 };
+  }
+
+  private conflictKey(table: string, row: Row, onConflict?: string): string[] | null {
+    if (onConflict) {
+      return onConflict.split(',').map(col => col.trim());
+    }
+    // Like PostgREST, default to the primary key, if the row has it
+    const primaryKey = this.uniqueKeys[table]?.[0] || ['id'];
+    return primaryKey.every(col => row[col] !== undefined) ? primaryKey : null;
+  }
+
+  private violatedKey(table: string, row: Row, ignore?: Row, pending: Row[] = []): string[] | null {
+    for (const key of this.uniqueKeys[table] || [['id']]) {
+      if (key.some(col => row[col] === undefined || row[col] === null)) continue;
+      const clash = [...this.table(table), ...pending]
+        .some(other => other !== ignore && key.every(col => other[col] === row[col]));
+      if (clash) return key;
+    }
+    return null;
+  }
+
+  private uniqueViolation(table: string, key: string[]): FakeResult<Row[]> {
+    return {
+      data: null,
+      error: error(`duplicate key value violates unique constraint "${table}_${key.join('_')}_key"`, '23505'),
+      status: 409
+    };
+  }
+
+  private withDefaults(table: string, row: Row): Row {
+    if (row.id === undefined) {
+      if (UUID_ID_TABLES.has(table)) {
+        row.id = crypto.randomUUID();
+      } else if ((this.uniqueKeys[table]?.[0] || ['id']).join() === 'id') {
+        row.id = this.nextSerialId++;
+      }
+    }
+    if (row.created_at === undefined) {
+      row.created_at = new Date(this.now()).toISOString();
+    }
+    return row;
+  }
+
+  updateRows(table: string, rows: Row[], values: Row): FakeResult<Row[]> {
+    for (const row of rows) {
+      const updated = { ...row, ...clone(values) };
+      const violated = this.violatedKey(table, updated, row);
+      if (violated) {
+        return this.uniqueViolation(table, violated);
+      }
+    }
+    for (const row of rows) {
+      Object.assign(row, clone(values));
+    }
+    return { data: rows, error: null, status: 200 };
+  }
+
+  deleteRows(table: string, rows: Row[]): FakeResult<Row[]> {
+    const doomed = new Set(rows);
+    this.tables.set(table, this.table(table).filter(row => !doomed.has(row)));
+    return { data: rows, error: null, status: 200 };
+  }
+
+  private registerDefaultRpcs(): void {
+    this.registerRpc('pgmq_send', ({ queue_name, msg }) => this.send(queue_name, msg));
+
+    this.registerRpc('pgmq_send_dedup', ({ p_queue_name, p_msg, p_dedup_key, p_ttl_seconds = 21600 }) => {
+      const existing = this.table('queue_dedup').find(row => row.dedup_key === p_dedup_key);
+      if (existing && Date.parse(existing.expires_at) > this.now()) {
+        this.insertRows('queue_metrics', [{
+          queue_name: p_queue_name.replace(/_high$/, ''),
+          msg_id: existing.msg_id ?? 0,
+          status: 'deduplicated',
+          details: { dedup_key: p_dedup_key, queue: p_queue_name }
+        }]);
+        return null;
+      }
+
+      const msgId = this.send(p_queue_name, p_msg);
+      this.insertRows('queue_dedup', [{
+        dedup_key: p_dedup_key,
+        queue_name: p_queue_name,
+        msg_id: msgId,
+        created_at: new Date(this.now()).toISOString(),
+        expires_at: new Date(this.now() + p_ttl_seconds * 1000).toISOString()
+      }], { onConflict: 'dedup_key' });
+      return msgId;
+    });
+
+    this.registerRpc('pgmq_read', ({ queue_name, visibility_timeout, batch_size }) => {
+      const visible = (this.queues.get(queue_name) || [])
+        .filter(m => m.vt <= this.now())
+        .slice(0, batch_size || 1);
+
+      return visible.map(m => {
+        m.read_ct++;
+        m.vt = this.now() + (visibility_timeout || 0) * 1000;
+        return { ...m, vt: new Date(m.vt).toISOString() };
+      });
+    });
+
+    this.registerRpc('pgmq_archive', ({ queue_name, msg_id }) => {
+      const queue = this.queues.get(queue_name) || [];
+      const index = queue.findIndex(m => m.msg_id === msg_id);
+      if (index === -1) return false;
+
+      const [message] = queue.splice(index, 1);
+      this.archived.set(queue_name, [...(this.archived.get(queue_name) || []), message]);
+      return true;
+    });
+
+    this.registerRpc('pgmq_drop_and_recreate_queue', ({ queue_name }) => {
+      this.queues.set(queue_name, []);
+      return null;
+    });
+
+    // Tokens are always available; tests exercising limits can register their own handler
+    this.registerRpc('acquire_rate_limit_tokens', ({ p_capacity }) => [{
+      granted: true,
+      wait_ms: 0,
+      tokens_remaining: p_capacity
+    }]);
+    this.registerRpc('block_rate_limit_bucket', () => null);
+
+    // Worker control plane, with canonical names as stored (no legacy name mapping)
+    this.registerRpc('get_worker_control', ({ p_worker_name }) => {
+      const row = this.table('worker_status').find(w => w.worker_name === p_worker_name);
+      if (!row) return null;
+
+      const inFlight = [p_worker_name, `${p_worker_name}_high`]
+        .some(queue => (this.queues.get(queue) || []).some(m => m.read_ct > 0 && m.vt > this.now()));
+      if (row.state === 'draining' && !inFlight) {
+        Object.assign(row, { state: 'paused', is_paused: true, paused_at: new Date(this.now()).toISOString() });
+      }
+      return row;
+    });
+    this.registerRpc('set_worker_state', ({ p_worker_name, p_state, p_reason = null, p_actor = null }) => {
+      const { data } = this.insertRows('worker_status', [{
+        worker_name: p_worker_name,
+        state: p_state,
+        is_paused: p_state === 'paused',
+        paused_by: p_state === 'paused' ? p_actor : null,
+        reason: p_reason,
+        updated_by: p_actor
+      }], { onConflict: 'worker_name' });
+      return data?.[0];
+    });
+
+    // Same state machine as the SQL function, on the virtual clock
+    this.registerRpc('circuit_breaker_transition', ({ p_name, p_event, p_expected_state = null, p_details = {}, p_actor = null }) => {
+      const { circuit, history } = applyCircuitEvent(
+        this.table('circuit_breakers').find(row => row.name === p_name) as CircuitRecord | undefined,
+        p_name,
+        p_event as CircuitEvent,
+        p_expected_state as CircuitState | null,
+        p_details,
+        p_actor,
+        this.now()
+      );
+      this.insertRows('circuit_breakers', [circuit], { onConflict: 'name' });
+      if (history) {
+        this.insertRows('circuit_breaker_events', [history]);
+      }
+      return circuit;
+    });
+
+    // Nothing to call offline; tests can register a handler to observe re-invocations
+    this.registerRpc('reinvoke_worker', () => false);
+    this.registerRpc('release_worker_lease', () => false);
+
+    this.registerRpc('begin_transaction', () => null);
+    this.registerRpc('commit_transaction', () => null);
+    this.registerRpc('rollback_transaction', () => null);
+
+    // Same counters as the SQL function, without the run status bookkeeping
+    this.registerRpc('record_pipeline_event', ({ p_run_id, p_stage, p_event, p_count = 1 }) => {
+      const stages = this.table('pipeline_run_stages');
+      let stage = stages.find(s => s.run_id === p_run_id && s.stage === p_stage);
+      if (!stage) {
+        stage = { run_id: p_run_id, stage: p_stage, pending: 0, processed: 0, failed: 0 };
+        stages.push(stage);
+      }
+
+      if (p_event === 'enqueued') {
+        stage.pending += p_count;
+      } else {
+        stage.pending -= p_count;
+        stage[p_event === 'processed' ? 'processed' : 'failed'] += p_count;
+      }
+      stage.updated_at = new Date(this.now()).toISOString();
+      return null;
+    });
+  }
+}
+
+type Filter = (row: Row) => boolean;
+
+const FILTER_OPERATORS: Record<string, (value: unknown, expected: unknown) => boolean> = {
+  eq: (value, expected) => value === expected,
+  neq: (value, expected) => value !== expected,
+  gt: (value, expected) => value !== null && value !== undefined && compare(value, expected) > 0,
+  gte: (value, expected) => value !== null && value !== undefined && compare(value, expected) >= 0,
+  lt: (value, expected) => value !== null && value !== undefined && compare(value, expected) < 0,
+  lte: (value, expected) => value !== null && value !== undefined && compare(value, expected) <= 0,
+  in: (value, expected) => (expected as unknown[]).includes(value),
+  is: (value, expected) => (value ?? null) === expected
+};
+
+/**
+ * Thenable query builder mirroring the PostgREST builder's chaining API
+ */
+class FakeQueryBuilder implements PromiseLike<FakeResult> {
+  private operation: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private updateValues: Row = {};
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {};
+  private columns: string | null = null;
+  private returning = false;
+  private filters: Filter[] = [];
+  private ordering: Array<{ column: string; ascending: boolean }> = [];
+  private maxRows: number | null = null;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+  private countRequested = false;
+  private headOnly = false;
+  private signal: AbortSignal | undefined = getAbortSignal();
+
+  constructor(private db: FakeSupabase, private tableName: string) {}
+
+  select(columns = '*', options: { count?: string; head?: boolean } = {}): this {
+    this.columns = columns;
+    if (this.operation === 'select') {
+      this.countRequested = !!options.count;
+      this.headOnly = !!options.head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(values) ? values : [values];
+    this.upsertOptions = options;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.updateValues = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this { return this.filter(column, 'eq', value); }
+  neq(column: string, value: unknown): this { return this.filter(column, 'neq', value); }
+  gt(column: string, value: unknown): this { return this.filter(column, 'gt', value); }
+  gte(column: string, value: unknown): this { return this.filter(column, 'gte', value); }
+  lt(column: string, value: unknown): this { return this.filter(column, 'lt', value); }
+  lte(column: string, value: unknown): this { return this.filter(column, 'lte', value); }
+  in(column: string, values: unknown[]): this { return this.filter(column, 'in', values); }
+  is(column: string, value: unknown): this { return this.filter(column, 'is', value); }
+
+  not(column: string, operator: string, value: unknown): this {
+    const test = FILTER_OPERATORS[operator];
+    if (!test) throw new Error(`FakeSupabase does not support not.${operator}`);
+    this.filters.push(row => !test(row[column], value));
+    return this;
+  }
+
+  match(query: Row): this {
+    for (const [column, value] of Object.entries(query)) {
+      this.eq(column, value);
+    }
+    return this;
+  }
+
+  filter(column: string, operator: string, value: unknown): this {
+    const test = FILTER_OPERATORS[operator];
+    if (!test) throw new Error(`FakeSupabase does not support the ${operator} filter`);
+    this.filters.push(row => test(row[column], value));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.maxRows = count;
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  abortSignal(signal: AbortSignal): this {
+    this.signal = signal;
+    return this;
+  }
+
+  then<R1 = FakeResult, R2 = never>(
+    onFulfilled?: ((value: FakeResult) => R1 | PromiseLike<R1>) | null,
+    onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+  ): PromiseLike<R1 | R2> {
+    return Promise.resolve().then(() => this.execute()).then(onFulfilled, onRejected);
+  }
+
+  private execute(): FakeResult {
+    const aborted = abortedResult(this.signal);
+    if (aborted) {
+      return aborted;
+    }
+
+    let result: FakeResult<Row[]>;
+
+    switch (this.operation) {
+      case 'insert':
+        result = this.db.insertRows(this.tableName, this.payload);
+        break;
+      case 'upsert':
+        result = this.db.insertRows(this.tableName, this.payload, this.upsertOptions);
+        break;
+      case 'update':
+        result = this.db.updateRows(this.tableName, this.matchingRows(), this.updateValues);
+        break;
+      case 'delete':
+        result = this.db.deleteRows(this.tableName, this.matchingRows());
+        break;
+      default:
+        result = { data: this.matchingRows(), error: null, status: 200 };
+    }
+
+    if (result.error) return result;
+
+    // Writes return nothing unless followed by select()
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null, status: result.status };
+    }
+
+    let rows = this.sorted(result.data || []);
+    const count = rows.length;
+    if (this.maxRows !== null) rows = rows.slice(0, this.maxRows);
+    const data = rows.map(row => this.project(row));
+
+    if (this.headOnly) {
+      return { data: null, error: null, count, status: 200 };
+    }
+
+    if (this.cardinality !== 'many') {
+      if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+        return {
+          data: null,
+          error: error(`JSON object requested, multiple (or no) rows returned`, 'PGRST116'),
+          status: 406
+        };
+      }
+      return { data: data[0] ?? null, error: null, status: 200 };
+    }
+
+    return { data, error: null, count: this.countRequested ? count : null, status: result.status };
+  }
+
+  private matchingRows(): Row[] {
+    return this.db.table(this.tableName).filter(row => this.filters.every(test => test(row)));
+  }
+
+  private sorted(rows: Row[]): Row[] {
+    if (this.ordering.length === 0) return rows;
+    return [...rows].sort((a, b) => {
+      for (const { column, ascending } of this.ordering) {
+        const order = compare(a[column], b[column]);
+        if (order !== 0) return ascending ? order : -order;
+      }
+      return 0;
+    });
+  }
+
+  private project(row: Row): Row {
+    if (!this.columns || this.columns.trim() === '*') return clone(row);
+
+    const projected: Row = {};
+    for (const column of this.columns.split(',').map(c => c.trim()).filter(Boolean)) {
+      projected[column] = clone(row[column] ?? null);
+    }
+    return projected;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * A small catalogue that exercises every pipeline stage: one seed artist with
+ * an album and a single, a featured artist, Genius producer and engineering credits and an
+ * Instagram profile for one of the producers.
+ */
+
+import { GeniusFixtures, SocialFixtures, SpotifyFixtures } from './fakeApis.ts';
+
+export interface PipelineFixtures {
+  spotify: SpotifyFixtures;
+  genius: GeniusFixtures;
+  social: SocialFixtures;
+}
+
+const NOVA_LANE = { id: 'spotify-artist-nova-lane', name: 'Nova Lane' };
+const ECHO_PARK = { id: 'spotify-artist-echo-park', name: 'Echo Park' };
+
+export const SAMPLE_FIXTURES: PipelineFixtures = {
+  spotify: {
+    artists: [
+      { ...NOVA_LANE, popularity: 72, followers: { total: 120000 }, genres: ['indie pop'] },
+      { ...ECHO_PARK, popularity: 45, followers: { total: 18000 }, genres: ['alt r&b'] }
+    ],
+    albums: [
+      {
+        id: 'spotify-album-night-drive',
+        name: 'Night Drive',
+        album_type: 'album',
+        release_date: '2024-03-15',
+        artists: [NOVA_LANE],
+        tracks: [
+          { id: 'spotify-track-city-lights', name: 'City Lights', duration_ms: 201000, track_number: 1, popularity: 64, artists: [NOVA_LANE] },
+          { id: 'spotify-track-afterglow', name: 'Afterglow', duration_ms: 187000, track_number: 2, popularity: 58, artists: [NOVA_LANE, ECHO_PARK] }
+        ]
+      },
+      {
+        id: 'spotify-album-slow-burn',
+        name: 'Slow Burn',
+        album_type: 'single',
+        release_date: '2024-09-06',
+        artists: [NOVA_LANE],
+        tracks: [
+          { id: 'spotify-track-slow-burn', name: 'Slow Burn', duration_ms: 174000, track_number: 1, popularity: 70, artists: [NOVA_LANE] }
+        ]
+      }
+    ]
+  },
+  genius: {
+    songs: [
+      {
+        id: 9100001,
+        title: 'City Lights',
+        primary_artist: { id: 5100001, name: 'Nova Lane' },
+        producer_artists: [{ id: 5200001, name: 'Mara Quinn' }],
+        writer_artists: [{ id: 5100001, name: 'Nova Lane' }]
+      },
+      {
+        id: 9100002,
+        title: 'Afterglow',
+        primary_artist: { id: 5100001, name: 'Nova Lane' },
+        featured_artists: [{ id: 5100002, name: 'Echo Park' }],
+        producer_artists: [{ id: 5200001, name: 'Mara Quinn' }, { id: 5200002, name: 'Theo Banks' }],
+        custom_performances: [
+          { label: 'Mixing Engineer', artists: [{ id: 5200001, name: 'Mara Quinn' }] },
+          { label: 'Recorded At', artists: [{ id: 5300001, name: 'Harbor Sound Studios' }] }
+        ]
+      },
+      {
+        id: 9100003,
+        title: 'Slow Burn',
+        primary_artist: { id: 5100001, name: 'Nova Lane' },
+        producer_artists: [{ id: 5200002, name: 'Theo Banks' }]
+      }
+    ]
+  },
+  social: {
+    instagram: [
+      {
+        username: 'maraquinnbeats',
+        full_name: 'Mara Quinn',
+        biography: 'Producer / engineer. Nova Lane, Echo Park.',
+        external_url: 'https://maraquinn.example.com',
+        is_verified: false,
+        followers: 8400,
+        posts: 212
+      }
+    ]
+  }
+};
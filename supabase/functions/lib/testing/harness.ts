@@ -0,0 +1,154 @@
+/**
+ * Drives the artist_discovery -> social_enrichment chain offline: the workers
+ * run against a FakeSupabase and the fake HTTP APIs, with no network or database.
+ *
+ *   const harness = createPipelineHarness(SAMPLE_FIXTURES);
+ *   try {
+ *     await harness.seed({ artistName: 'Nova Lane' });
+ *     await harness.drain();
+ *     harness.db.table('track_credits');
+ *   } finally {
+ *     await harness.close();
+ *   }
+ *
+ * The API caches are module singletons with cleanup intervals, so deno tests
+ * using the harness need `sanitizeOps: false`.
+ */
+
+import { globalCache, volatileCache } from '../cache.ts';
+import { PIPELINE_STAGES } from '../pipelineRuns.ts';
+import { laneQueues } from '../priorityLanes.ts';
+import { PageWorker, RunStats } from '../pageWorker.ts';
+import { FakeServer, startFakeGenius, startFakeSocial, startFakeSpotify } from './fakeApis.ts';
+import { FakeSupabase, Row } from './fakeSupabase.ts';
+import { PipelineFixtures } from './fixtures.ts';
+import { ArtistDiscoveryMsg, ArtistDiscoveryWorker } from '../../artistDiscovery/worker.ts';
+import { AlbumDiscoveryWorker } from '../../albumDiscovery/worker.ts';
+import { TrackDiscoveryWorker } from '../../trackDiscovery/worker.ts';
+import { ProducerIdentificationWorker } from '../../producerIdentification/worker.ts';
+import { SocialEnrichmentWorker } from '../../socialEnrichment/worker.ts';
+
+export interface HarnessOptions {
+  tables?: Record<string, Row[]>; // Rows the fake database starts with
+}
+
+export interface DrainResult {
+  rounds: number;
+  stats: Record<string, RunStats>; // Totals per stage
+}
+
+export interface PipelineHarness {
+  db: FakeSupabase;
+  workers: Record<typeof PIPELINE_STAGES[number], PageWorker<unknown>>;
+  servers: { spotify: FakeServer; genius: FakeServer; social: FakeServer };
+  seed(msg: ArtistDiscoveryMsg): Promise<string>;
+  drain(maxRounds?: number): Promise<DrainResult>;
+  close(): Promise<void>;
+}
+
+function overrideEnv(values: Record<string, string>): () => void {
+  const previous = Object.fromEntries(Object.keys(values).map(name => [name, Deno.env.get(name)]));
+  for (const [name, value] of Object.entries(values)) {
+    Deno.env.set(name, value);
+  }
+
+  return () => {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  };
+}
+
+export function createPipelineHarness(
+  fixtures: PipelineFixtures,
+  options: HarnessOptions = {}
+): PipelineHarness {
+  const servers = {
+    spotify: startFakeSpotify(fixtures.spotify),
+    genius: startFakeGenius(fixtures.genius),
+    social: startFakeSocial(fixtures.social)
+  };
+
+  const restoreEnv = overrideEnv({
+    SPOTIFY_CLIENT_ID: 'fake-client-id',
+    SPOTIFY_CLIENT_SECRET: 'fake-client-secret',
+    SPOTIFY_TOKEN_URL: `${servers.spotify.url}/api/token`,
+    SPOTIFY_API_URL: `${servers.spotify.url}/v1`,
+    GENIUS_ACCESS_TOKEN: 'fake-genius-token',
+    GENIUS_API_URL: servers.genius.url,
+    SOCIAL_SEARCH_URL: `${servers.social.url}/html/`,
+    INSTAGRAM_URL: servers.social.url
+  });
+
+  // Responses cached by an earlier harness would bypass the fake servers
+  globalCache.clear();
+  volatileCache.clear();
+
+  const db = new FakeSupabase(options.tables);
+  const deps = { supabase: db.client, options: { delayBetweenItemsMs: 0 } };
+
+  const artistDiscovery = new ArtistDiscoveryWorker(deps);
+  const workers = {
+    artist_discovery: artistDiscovery,
+    album_discovery: new AlbumDiscoveryWorker(deps),
+    track_discovery: new TrackDiscoveryWorker(deps),
+    producer_identification: new ProducerIdentificationWorker(deps),
+    social_enrichment: new SocialEnrichmentWorker(deps)
+  } as PipelineHarness['workers'];
+
+  /**
+   * Run each stage in pipeline order until every queue is empty. When only
+   * messages hidden by a visibility timeout remain, the virtual clock is moved
+   * past it so failed messages are retried (and eventually dead-lettered).
+   */
+  async function drain(maxRounds = 50): Promise<DrainResult> {
+    const stats: Record<string, RunStats> = {};
+    let rounds = 0;
+
+    // Both priority lanes of a stage count
+    const depth = (stage: string) => laneQueues(stage).reduce((sum, queue) => sum + db.queueDepth(queue), 0);
+    const visible = (stage: string) => laneQueues(stage).reduce((sum, queue) => sum + db.visibleCount(queue), 0);
+
+    while (rounds < maxRounds && PIPELINE_STAGES.some(stage => depth(stage) > 0)) {
+      rounds++;
+
+      if (PIPELINE_STAGES.every(stage => visible(stage) === 0)) {
+        const nextVisible = Math.min(...PIPELINE_STAGES.flatMap(stage =>
+          laneQueues(stage).flatMap(queue => (db.queues.get(queue) || []).map(m => m.vt))
+        ));
+        db.advanceTime(nextVisible - db.now() + 1);
+      }
+
+      for (const stage of PIPELINE_STAGES) {
+        while (visible(stage) > 0) {
+          const run = await workers[stage].run();
+          const total = stats[stage] ||= { processed: 0, succeeded: 0, failed: 0, deadLettered: 0, rateLimited: 0, durationMs: 0 };
+          total.processed += run.processed;
+          total.succeeded += run.succeeded;
+          total.failed += run.failed;
+          total.deadLettered += run.deadLettered;
+          total.rateLimited += run.rateLimited;
+          total.durationMs += run.durationMs;
+
+          // A paused worker or a failed read leaves the queue as it is
+          if (run.processed === 0) break;
+        }
+      }
+    }
+
+    return { rounds, stats };
+  }
+
+  return {
+    db,
+    workers,
+    servers,
+    seed: (msg) => artistDiscovery.seed(msg),
+    drain,
+    close: async () => {
+      restoreEnv();
+      await Promise.all(Object.values(servers).map(server => server.close()));
+    }
+  };
+}
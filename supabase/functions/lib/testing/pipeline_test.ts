@@ -0,0 +1,89 @@
+import { assertArrayIncludes, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createPipelineHarness } from './harness.ts';
+import { SAMPLE_FIXTURES } from './fixtures.ts';
+import { FakeSupabase } from './fakeSupabase.ts';
+
+// dbHelpers calls these without checking the result; no migration creates them
+const UNDEFINED_IN_SCHEMA = new Set(['begin_transaction', 'commit_transaction', 'rollback_transaction']);
+
+async function schemaSql(): Promise<string> {
+  const sqlDir = new URL('../../../sql/', import.meta.url);
+  const files = [new URL('../../../README.md', import.meta.url)];
+  for await (const entry of Deno.readDir(sqlDir)) {
+    if (entry.name.endsWith('.sql')) files.push(new URL(entry.name, sqlDir));
+  }
+  return (await Promise.all(files.map(file => Deno.readTextFile(file)))).join('\n');
+}
+
+Deno.test({
+  name: 'pipeline writes the albums, tracks and credits of a seeded artist',
+  sanitizeOps: false,
+  fn: async () => {
+    const harness = createPipelineHarness(SAMPLE_FIXTURES);
+    try {
+      const runId = await harness.seed({ artistName: 'Nova Lane' });
+      const { stats } = await harness.drain();
+
+      for (const stage of Object.values(stats)) {
+        assertEquals(stage.failed, 0);
+        assertEquals(stage.deadLettered, 0);
+      }
+
+      const db = harness.db;
+      assertEquals(db.table('artists').map(artist => artist.spotify_id), ['spotify-artist-nova-lane']);
+      assertEquals(
+        db.table('albums').map(album => album.spotify_id).sort(),
+        ['spotify-album-night-drive', 'spotify-album-slow-burn']
+      );
+      assertEquals(
+        db.table('tracks').map(track => track.spotify_id).sort(),
+        ['spotify-track-afterglow', 'spotify-track-city-lights', 'spotify-track-slow-burn']
+      );
+
+      const producerNames = new Map(db.table('producers').map(producer => [producer.id, producer.name]));
+      const trackNames = new Map(db.table('tracks').map(track => [track.id, track.name]));
+      const credits = db.table('track_credits')
+        .map(credit => `${trackNames.get(credit.track_id)}: ${producerNames.get(credit.producer_id)} (${credit.role})`)
+        .sort();
+
+      assertEquals(credits, [
+        'Afterglow: Mara Quinn (mixing_engineer)',
+        'Afterglow: Mara Quinn (producer)',
+        'Afterglow: Theo Banks (producer)',
+        'City Lights: Mara Quinn (producer)',
+        'City Lights: Nova Lane (writer)',
+        'Slow Burn: Theo Banks (producer)'
+      ]);
+
+      // The featured artist performs on the track but isn't a producer
+      assertEquals([...producerNames.values()].sort(), ['Mara Quinn', 'Nova Lane', 'Theo Banks']);
+      assertArrayIncludes(
+        db.table('track_performers').map(performer => `${trackNames.get(performer.track_id)}: ${performer.name} (${performer.role})`),
+        ['Afterglow: Nova Lane (primary)', 'Afterglow: Echo Park (featured)']
+      );
+
+      assertEquals(
+        db.table('producers').find(producer => producer.name === 'Mara Quinn')?.instagram_handle,
+        'maraquinnbeats'
+      );
+
+      // Every message the run enqueued was counted once, before it was processed
+      const stages = db.table('pipeline_run_stages').filter(stage => stage.run_id === runId);
+      assertEquals(stages.map(stage => stage.pending), stages.map(() => 0));
+      assertEquals(stages.find(stage => stage.stage === 'producer_identification')?.processed, 3);
+
+      assertEquals([...db.missingRpcs], []);
+    } finally {
+      await harness.close();
+    }
+  }
+});
+
+Deno.test('fake RPCs are functions the schema creates', async () => {
+  const sql = await schemaSql();
+  const undefinedRpcs = new FakeSupabase().registeredRpcs()
+    .filter(name => !UNDEFINED_IN_SCHEMA.has(name))
+    .filter(name => !new RegExp(`FUNCTION\\s+(public\\.)?${name}\\s*\\(`, 'i').test(sql));
+
+  assertEquals(undefinedRpcs, []);
+});
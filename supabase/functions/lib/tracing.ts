@@ -0,0 +1,353 @@
+/**
+ * Distributed tracing: spans with parent/child ids, persisted to the traces table
+ * and optionally exported as OTLP/JSON.
+ *
+ * The active span follows async execution, so library code (Spotify, Genius,
+ * Supabase writes) can open child spans without being handed a parent. Trace
+ * context crosses queue boundaries in the traceContext field of each message.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { SupabaseClient, createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
+import { logger, generateTraceId } from './logger.ts';
+import { abortableFetch } from './cancellation.ts';
+
+export type SpanKind = 'internal' | 'server' | 'client' | 'producer' | 'consumer';
+export type SpanStatus = 'ok' | 'error';
+export type SpanAttributes = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Context carried between processes (e.g. in a queued message) to continue a trace
+ */
+export interface TraceContext {
+  traceId: string;
+  spanId: string;
+  sampled: boolean;
+}
+
+/**
+ * Message payload field that carries the trace context between stages
+ */
+export interface TracedMessage {
+  traceContext?: TraceContext;
+}
+
+/**
+ * A finished span as stored in the traces table
+ */
+export interface SpanRecord {
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  service: string;
+  kind: SpanKind;
+  start_time: string;
+  end_time: string;
+  duration_ms: number;
+  status: SpanStatus;
+  status_message: string | null;
+  attributes: SpanAttributes;
+}
+
+export interface SpanOptions {
+  service?: string;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  parent?: TraceContext; // Remote parent, e.g. from a queued message
+}
+
+const DEFAULT_SERVICE = 'producer-tracker';
+const MAX_BUFFERED_SPANS = 1000;
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+
+const tracingLogger = logger.child({ component: 'Tracing' });
+const activeSpan = new AsyncLocalStorage<Span>();
+let finishedSpans: SpanRecord[] = [];
+let flushClient: SupabaseClient<Database> | undefined;
+
+// Fraction of new traces that are recorded; continued traces keep their parent's decision
+const sampleRate = Number(Deno.env.get('TRACE_SAMPLE_RATE') ?? '1');
+
+export function generateSpanId(): string {
+  return generateTraceId().substring(0, 16);
+}
+
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId: string | null;
+  readonly sampled: boolean;
+  readonly name: string;
+  readonly service: string;
+  readonly kind: SpanKind;
+  private attributes: SpanAttributes;
+  private startTime = Date.now();
+  private status: SpanStatus = 'ok';
+  private statusMessage: string | null = null;
+  private ended = false;
+
+  constructor(name: string, parent: TraceContext | undefined, options: SpanOptions = {}) {
+    this.name = name;
+    this.traceId = parent?.traceId || generateTraceId();
+    this.spanId = generateSpanId();
+    this.parentSpanId = parent?.spanId || null;
+    this.sampled = parent ? parent.sampled : Math.random() < sampleRate;
+    this.service = options.service || DEFAULT_SERVICE;
+    this.kind = options.kind || 'internal';
+    this.attributes = { ...(options.attributes || {}) };
+  }
+
+  setAttribute(key: string, value: string | number | boolean | null | undefined): void {
+    this.attributes[key] = value;
+  }
+
+  setError(error: unknown): void {
+    this.status = 'error';
+    this.statusMessage = error instanceof Error ? error.message : String(error);
+  }
+
+  context(): TraceContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: this.sampled };
+  }
+
+  end(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    if (!this.sampled) return;
+
+    if (finishedSpans.length >= MAX_BUFFERED_SPANS) {
+      tracingLogger.warn(`Span buffer full, dropping span ${this.name}`);
+      return;
+    }
+
+    const endTime = Date.now();
+    finishedSpans.push({
+      trace_id: this.traceId,
+      span_id: this.spanId,
+      parent_span_id: this.parentSpanId,
+      name: this.name,
+      service: this.service,
+      kind: this.kind,
+      start_time: new Date(this.startTime).toISOString(),
+      end_time: new Date(endTime).toISOString(),
+      duration_ms: endTime - this.startTime,
+      status: this.status,
+      status_message: this.statusMessage,
+      attributes: this.attributes
+    });
+  }
+}
+
+/**
+ * Get the span of the code currently executing, if any
+ */
+export function getActiveSpan(): Span | undefined {
+  return activeSpan.getStore();
+}
+
+/**
+ * Get the context to propagate to downstream work, if a trace is active
+ */
+export function getTraceContext(): TraceContext | undefined {
+  return getActiveSpan()?.context();
+}
+
+/**
+ * Run fn inside a new span, child of the active span (or of options.parent).
+ * The span is marked as failed if fn throws.
+ */
+export async function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T>,
+  options: SpanOptions = {}
+): Promise<T> {
+  const parent = options.parent || getTraceContext();
+  const span = new Span(name, parent, {
+    ...options,
+    service: options.service || getActiveSpan()?.service
+  });
+
+  try {
+    return await activeSpan.run(span, () => fn(span));
+  } catch (error) {
+    span.setError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Like withSpan, but only records a span when a trace is already active.
+ * Used for automatic instrumentation of shared clients.
+ */
+export function withChildSpan<T>(
+  name: string,
+  fn: (span?: Span) => Promise<T>,
+  options: SpanOptions = {}
+): Promise<T> {
+  if (!getActiveSpan()) {
+    return fn();
+  }
+  return withSpan(name, fn, options);
+}
+
+/**
+ * fetch replacement for Supabase clients that records a span per write request.
+ * Requests made on behalf of an aborted message fail without being sent.
+ */
+export function tracedFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const method = (init?.method || 'GET').toUpperCase();
+  const url = new URL(input instanceof Request ? input.url : String(input));
+
+  // Reads are not traced, nor are the writes that persist the traces themselves
+  if (method === 'GET' || method === 'HEAD' || url.pathname.endsWith('/rest/v1/traces')) {
+    return abortableFetch(input, init);
+  }
+
+  const target = url.pathname.split('/rest/v1/')[1] || url.pathname;
+  const name = target.startsWith('rpc/')
+    ? `supabase.rpc ${target.substring(4)}`
+    : `supabase.${method.toLowerCase()} ${target}`;
+
+  return withChildSpan(name, async (span) => {
+    const res = await abortableFetch(input, init);
+    span?.setAttribute('http.status_code', res.status);
+    if (!res.ok) {
+      span?.setError(new Error(`Supabase ${method} ${target} failed with status ${res.status}`));
+    }
+    return res;
+  }, { kind: 'client', attributes: { 'db.operation': method, 'db.target': target } });
+}
+
+/**
+ * Convert spans to an OTLP/JSON ExportTraceServiceRequest, grouped by service
+ */
+export function toOtlpJson(spans: SpanRecord[]) {
+  const byService = new Map<string, SpanRecord[]>();
+  for (const span of spans) {
+    const list = byService.get(span.service) || [];
+    list.push(span);
+    byService.set(span.service, list);
+  }
+
+  const toNanos = (iso: string) => `${new Date(iso).getTime()}000000`;
+
+  return {
+    resourceSpans: Array.from(byService.entries()).map(([service, serviceSpans]) => ({
+      resource: {
+        attributes: [{ key: 'service.name', value: { stringValue: service } }]
+      },
+      scopeSpans: [{
+        scope: { name: DEFAULT_SERVICE },
+        spans: serviceSpans.map(span => ({
+          traceId: span.trace_id,
+          spanId: span.span_id,
+          parentSpanId: span.parent_span_id || undefined,
+          name: span.name,
+          kind: OTLP_SPAN_KINDS[span.kind],
+          startTimeUnixNano: toNanos(span.start_time),
+          endTimeUnixNano: toNanos(span.end_time),
+          attributes: Object.entries(span.attributes)
+            .filter(([, value]) => value !== undefined && value !== null)
+            .map(([key, value]) => ({
+              key,
+              value: typeof value === 'number'
+                ? (Number.isInteger(value) ? { intValue: value } : { doubleValue: value })
+                : typeof value === 'boolean' ? { boolValue: value } : { stringValue: String(value) }
+            })),
+          status: span.status === 'error'
+            ? { code: 2, message: span.status_message || '' }
+            : { code: 1 }
+        }))
+      }]
+    }))
+  };
+}
+
+/**
+ * Send spans to the collector at OTEL_EXPORTER_OTLP_ENDPOINT, if configured
+ */
+async function exportOtlp(spans: SpanRecord[]): Promise<void> {
+  const endpoint = Deno.env.get('OTEL_EXPORTER_OTLP_ENDPOINT');
+  if (!endpoint) return;
+
+  // Same format as the standard OTEL_EXPORTER_OTLP_HEADERS variable: key1=value1,key2=value2
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  for (const pair of (Deno.env.get('OTEL_EXPORTER_OTLP_HEADERS') || '').split(',')) {
+    const [key, ...value] = pair.split('=');
+    if (key && value.length > 0) headers[key.trim()] = value.join('=').trim();
+  }
+
+  const res = await fetch(`${endpoint.replace(/\/$/, '')}/v1/traces`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(toOtlpJson(spans))
+  });
+
+  if (!res.ok) {
+    throw new Error(`OTLP export failed: ${res.status} ${res.statusText}`);
+  }
+}
+
+/**
+ * Persist buffered spans to the traces table and the OTLP collector.
+ * Never throws: losing spans must not fail the work that produced them.
+ */
+export async function flushSpans(supabase: SupabaseClient<Database>): Promise<void> {
+  if (finishedSpans.length === 0) return;
+
+  const spans = finishedSpans;
+  finishedSpans = [];
+
+  try {
+    const { error } = await supabase.from('traces').insert(spans);
+    if (error) {
+      tracingLogger.error(`Failed to store ${spans.length} spans:`, error);
+    }
+  } catch (error) {
+    tracingLogger.error(`Exception storing ${spans.length} spans:`, error);
+  }
+
+  try {
+    await exportOtlp(spans);
+  } catch (error) {
+    tracingLogger.error(`Failed to export ${spans.length} spans:`, error);
+  }
+}
+
+/**
+ * Wrap an edge function's request handler in a server span. Work the request
+ * starts, such as a seeded message, continues its trace, and every span the
+ * request buffered is written before the response is returned.
+ */
+export function traceRequests(
+  service: string,
+  handler: (req: Request) => Promise<Response>
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    if (req.method === 'OPTIONS') {
+      return handler(req);
+    }
+
+    try {
+      return await withSpan(`${service}.request`, async (span) => {
+        const res = await handler(req);
+        span.setAttribute('http.status_code', res.status);
+        if (res.status >= 500) {
+          span.setError(new Error(`${service} responded with status ${res.status}`));
+        }
+        return res;
+      }, { service, kind: 'server', attributes: { 'http.method': req.method } });
+    } finally {
+      flushClient ||= createClient<Database>(
+        Deno.env.get('SUPABASE_URL') || '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+      );
+      await flushSpans(flushClient);
+    }
+  };
+}
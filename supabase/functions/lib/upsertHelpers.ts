@@ -5,6 +5,7 @@
 
 import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { logger } from './logger.ts';
+import { throwIfAborted } from './cancellation.ts';
 
 /**
  * Helper to safely upsert a record and handle unique constraint violations
@@ -14,6 +15,7 @@ import { logger } from './logger.ts';
  * @param keyField The field that might cause constraint violations (usually the external ID)
  * @param returnFields Fields to return from the operation
  * @param loggerContext Optional context for logging
+ * @throws The abort reason if the active signal is aborted, instead of writing
  */
 export async function safeUpsert<T = any>(
   supabase: SupabaseClient,
@@ -29,6 +31,8 @@ export async function safeUpsert<T = any>(
     ...loggerContext 
   });
   
+  throwIfAborted();
+  
   try {
     // First try the upsert operation
     const { data: upsertedData, error: upsertError } = await supabase
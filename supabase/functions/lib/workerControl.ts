@@ -0,0 +1,98 @@
+/**
+ * Worker control plane: pause, resume, drain and throttle workers by canonical name.
+ * The same worker_status row is honored by the cron dispatcher and PageWorker.
+ */
+
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from '../types.ts';
+import { logger } from './logger.ts';
+import { PIPELINE_STAGES } from './pipelineRuns.ts';
+
+// Queue workers use their queue name; the rest are cron-only jobs
+export const WORKER_NAMES = [...PIPELINE_STAGES, 'maintenance', 'artist_refresh'] as const;
+
+export type WorkerName = typeof WORKER_NAMES[number];
+
+export type WorkerState = 'running' | 'draining' | 'paused';
+
+export type WorkerControl = Database['public']['Tables']['worker_status']['Row'];
+
+const controlLogger = logger.child({ component: 'WorkerControl' });
+
+/**
+ * Same mapping as the canonical_worker_name SQL function, e.g.
+ * 'artist-discovery-worker' and 'artist_discovery_worker' -> 'artist_discovery'
+ */
+export function canonicalWorkerName(name: string): string {
+  return name.trim().toLowerCase().replace(/[-_]worker$/, '').replace(/-/g, '_');
+}
+
+export function isWorkerName(name: string): name is WorkerName {
+  return (WORKER_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Control row for a worker, completing its drain if nothing is in flight.
+ * Never throws: a worker that can't read its control row runs as usual.
+ */
+export async function getWorkerControl(
+  supabase: SupabaseClient<Database>,
+  workerName: string
+): Promise<WorkerControl | null> {
+  try {
+    const { data, error } = await supabase.rpc('get_worker_control', { p_worker_name: workerName });
+
+    if (error) {
+      controlLogger.error(`Error reading control state for ${workerName}:`, error);
+      return null;
+    }
+
+    // A composite NULL comes back as a row of nulls
+    return data?.worker_name ? data : null;
+  } catch (error) {
+    controlLogger.error(`Exception reading control state for ${workerName}:`, error);
+    return null;
+  }
+}
+
+export async function setWorkerState(
+  supabase: SupabaseClient<Database>,
+  workerName: WorkerName,
+  state: WorkerState,
+  change: { reason?: string; actor?: string } = {}
+): Promise<WorkerControl> {
+  const { data, error } = await supabase.rpc('set_worker_state', {
+    p_worker_name: workerName,
+    p_state: state,
+    p_reason: change.reason ?? null,
+    p_actor: change.actor ?? null
+  });
+
+  if (error) throw error;
+
+  controlLogger.info(`Set ${workerName} to ${state}`, { reason: change.reason, actor: change.actor });
+  return data;
+}
+
+/**
+ * Override a worker's batch size and delay between messages; null restores its own option
+ */
+export async function setWorkerRate(
+  supabase: SupabaseClient<Database>,
+  workerName: WorkerName,
+  rate: { batchSize: number | null; delayBetweenItemsMs: number | null },
+  change: { reason?: string; actor?: string } = {}
+): Promise<WorkerControl> {
+  const { data, error } = await supabase.rpc('set_worker_rate', {
+    p_worker_name: workerName,
+    p_batch_size: rate.batchSize,
+    p_delay_between_items_ms: rate.delayBetweenItemsMs,
+    p_reason: change.reason ?? null,
+    p_actor: change.actor ?? null
+  });
+
+  if (error) throw error;
+
+  controlLogger.info(`Set ${workerName} rate`, { ...rate, reason: change.reason, actor: change.actor });
+  return data;
+}
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
 import { Database } from "../types.ts";
 import { CircuitBreakerRegistry } from "../lib/circuitBreaker.ts";
+import { traceRequests } from "../lib/tracing.ts";
 
 // Define CORS headers
 const corsHeaders = {
@@ -20,14 +21,15 @@ interface MaintenanceTask {
 const QUEUE_DEPTH_WARNING_THRESHOLD = 100; // Warn if more than 100 messages in queue
 const ERROR_RATE_WARNING_THRESHOLD = 5; // Warn if error rate exceeds 5%
 const LATENCY_WARNING_THRESHOLD = 10000; // Warn if p95 latency exceeds 10 seconds
+const TRACE_RETENTION_DAYS = 7;
+const COLLABORATOR_RECLASSIFY_BATCH = 500; // Collaborator credits moved to performers per run
 
 async function performMaintenance(supabase: SupabaseClient<Database>): Promise<{ [key: string]: any }> {
   const results: { [key: string]: any } = {};
   const warnings: string[] = [];
   
-  // Initialize circuit breaker registry with supabase client
+  // Read circuit breaker state from the circuit_breakers table
   CircuitBreakerRegistry.setSupabaseClient(supabase);
-  await CircuitBreakerRegistry.loadFromStorage();
   
   // Define maintenance tasks
   const tasks: MaintenanceTask[] = [
@@ -203,7 +205,7 @@ async function performMaintenance(supabase: SupabaseClient<Database>): Promise<{
       name: 'check_circuit_breakers',
       description: 'Check circuit breaker status and log alerts',
       run: async (client) => {
-        // Get statuses from in-memory registry
+        // Get statuses of every circuit, not just the ones this instance created
         const cbStatuses = await CircuitBreakerRegistry.getAllStatuses();
         
         // Log open circuits
@@ -223,6 +225,23 @@ async function performMaintenance(supabase: SupabaseClient<Database>): Promise<{
         };
       }
     },
+    {
+      name: 'check_concurrency_limits',
+      description: 'Report adaptive Spotify concurrency limits and warn on throttled pools',
+      run: async (client) => {
+        const { data, error } = await client.functions.invoke('concurrencyLimits', { method: 'GET' });
+        if (error) throw error;
+        
+        const limits = data?.limits || [];
+        for (const limit of limits) {
+          if (limit.effective_limit <= 1) {
+            warnings.push(`Adaptive concurrency for ${limit.name} has dropped to ${limit.effective_limit}; Spotify is rate limiting or slow`);
+          }
+        }
+        
+        return { limits };
+      }
+    },
     {
       name: 'analyze_processing_rates',
       description: 'Analyze processing rates and times by queue',
@@ -304,11 +323,64 @@ async function performMaintenance(supabase: SupabaseClient<Database>): Promise<{
         
         return {
           trace_count: traceSummary?.length || 0,
+          error_traces: (traceSummary || []).filter(trace => (trace.error_count || 0) > 0).length,
           total_spans: totalSpans,
           unique_services: Array.from(services),
           unique_operations: Array.from(operations)
         };
       }
+    },
+    {
+      name: 'prune_api_cache',
+      description: 'Delete cached API responses past their stale window',
+      run: async (client) => {
+        const { count, error } = await client
+          .from('api_cache')
+          .delete({ count: 'exact' })
+          .lt('stale_until', new Date().toISOString());
+
+        if (error) throw error;
+        return { pruned: count || 0 };
+      }
+    },
+    {
+      name: 'prune_traces',
+      description: `Delete spans older than ${TRACE_RETENTION_DAYS} days`,
+      run: async (client) => {
+        const cutoff = new Date(Date.now() - TRACE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+        const { count, error } = await client
+          .from('traces')
+          .delete({ count: 'exact' })
+          .lt('start_time', cutoff);
+
+        if (error) throw error;
+        return { pruned: count || 0, cutoff };
+      }
+    },
+    {
+      name: 'prune_queue_dedup',
+      description: 'Delete expired deduplication keys',
+      run: async (client) => {
+        const { count, error } = await client
+          .from('queue_dedup')
+          .delete({ count: 'exact' })
+          .lt('expires_at', new Date().toISOString());
+
+        if (error) throw error;
+        return { pruned: count || 0 };
+      }
+    },
+    {
+      name: 'reclassify_collaborator_producers',
+      description: 'Move Spotify co-artists stored as collaborator producers to track performers',
+      run: async (client) => {
+        const { data, error } = await client.rpc('reclassify_collaborator_producers', {
+          p_limit: COLLABORATOR_RECLASSIFY_BATCH
+        });
+
+        if (error) throw error;
+        return data?.[0] || null;
+      }
     }
   ];
   
@@ -362,7 +434,7 @@ async function performMaintenance(supabase: SupabaseClient<Database>): Promise<{
   }
 }
 
-serve(async (req: Request) => {
+serve(traceRequests('maintenance', async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -395,4 +467,4 @@ serve(async (req: Request) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
     });
   }
-});
+}));
@@ -0,0 +1,64 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { getLatestRunIdForArtist, getPipelineRunStatus } from "../lib/pipelineRuns.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const statusLogger = logger.child({ operation: 'pipelineStatus' });
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Report per-stage progress of a pipeline run, looked up by run id
+ * or as the latest run for a seed artist
+ */
+serve(traceRequests('pipelineStatus', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    const url = new URL(req.url);
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const artistId = url.searchParams.get('artistId') || body.artistId;
+    let runId = url.searchParams.get('runId') || body.runId;
+
+    if (!runId && artistId) {
+      runId = await getLatestRunIdForArtist(supabase, artistId);
+    }
+
+    if (!runId) {
+      return jsonResponse({
+        success: false,
+        error: artistId ? `No pipeline run found for artist ${artistId}` : 'runId or artistId is required'
+      }, artistId ? 404 : 400);
+    }
+
+    const run = await getPipelineRunStatus(supabase, runId);
+    if (!run) {
+      return jsonResponse({ success: false, error: `Pipeline run ${runId} not found` }, 404);
+    }
+
+    return jsonResponse({ success: true, run });
+  } catch (error) {
+    statusLogger.error('Pipeline status error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
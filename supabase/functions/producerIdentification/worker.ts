@@ -0,0 +1,721 @@
+
+import { PageWorker, MessageContext, WorkerDependencies } from "../lib/pageWorker.ts";
+import { NotFoundError, ValidationError } from "../lib/errors.ts";
+import { getTrackDetails } from "../lib/spotifyClient.ts";
+import { GeniusSongResult, createGeniusClient } from "../lib/geniusClient.ts";
+import { CreditEvidence, CreditRole, creditRoleForLabel } from "../lib/creditRoles.ts";
+import { GeniusCandidate, matchGeniusHits } from "../lib/geniusMatcher.ts";
+import { ProducerAliasKind, addProducerAliases, normalizeProducerName, parseExternalId, resolveProducers } from "../lib/producerIdentity.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger, generateTraceId } from "../lib/logger.ts";
+import { getActiveSpan, getTraceContext } from "../lib/tracing.ts";
+import { withRetry } from "../lib/retry.ts";
+import { createDbTransactionHelpers } from "../lib/dbHelpers.ts";
+import { validate as uuidValidate } from "https://deno.land/std@0.178.0/uuid/mod.ts";
+
+export interface ProducerIdentificationMsg {
+  trackId: string;    // Spotify Track ID
+  trackUuid?: string; // Database UUID - optional for backward compatibility
+  trackName: string;
+  albumId: string;
+  artistId: string;
+  geniusSongId?: number; // Chosen by a reviewer; skips matching
+}
+
+interface SpotifyTrackArtists {
+  artists: Array<{ id: string; name: string }>;
+}
+
+interface Producer {
+  name: string;
+  normalizedName: string;
+  source: string; 
+  role: CreditRole;
+  label?: string;       // The credit as the source words it, e.g. "Additional Production"
+  evidence: CreditEvidence;
+  confidence: number;
+  external_id?: string;
+  image_url?: string;
+  metadata?: any;
+}
+
+interface ProducerRecord {
+  id?: string;
+  name: string;
+  normalized_name: string;
+  image_url: string | null;
+  metadata: {
+    source: string;
+    roles: string[];
+    external_ids?: string[];
+    discovery_timestamp: string;
+    [key: string]: any;
+  };
+}
+
+interface TrackCredit {
+  track_id: string;     // Must be a valid UUID
+  producer_id: string;  // Must be a valid UUID
+  role: CreditRole;
+  credited_as: string | null;
+  evidence: CreditEvidence;
+  confidence: number;
+  source: string;
+  updated_at: string;
+}
+
+interface TrackPerformer {
+  track_id: string;
+  spotify_artist_id: string;
+  artist_id: string | null;
+  name: string;
+  role: 'primary' | 'featured';
+  position: number;
+}
+
+export class ProducerIdentificationWorker extends PageWorker<ProducerIdentificationMsg> {
+  private geniusClient;
+  private workerLogger = logger.child({ worker: 'ProducerIdentificationWorker' });
+  private MAX_BATCH_SIZE = 25; // Maximum producers to process in one batch
+  private processingChunkSize = 5; // Number of producers to process in one database operation
+
+  constructor(deps: WorkerDependencies = {}) {
+    super('producer_identification', 180, {}, deps); // Increased timeout from 60 to 180 seconds
+    const geniusToken = Deno.env.get("GENIUS_ACCESS_TOKEN");
+    if (!geniusToken) {
+      this.workerLogger.warn("GENIUS_ACCESS_TOKEN not set, Genius integration will be skipped");
+    } else {
+      this.geniusClient = createGeniusClient(geniusToken, this.supabase);
+    }
+  }
+
+  /**
+   * Validates if the string is a valid UUID
+   */
+  private isValidUuid(id: string): boolean {
+    return uuidValidate(id);
+  }
+  
+  /**
+   * Process producers in smaller batches to avoid timeout issues
+   */
+  private async processProducerBatch(producers: Producer[]): Promise<Map<string, string>> {
+    if (producers.length === 0) {
+      return new Map();
+    }
+    
+    // Process producers in smaller chunks to avoid timeouts
+    const chunks = [];
+    for (let i = 0; i < producers.length; i += this.processingChunkSize) {
+      chunks.push(producers.slice(i, i + this.processingChunkSize));
+    }
+    
+    const producerIdMap = new Map<string, string>();
+    
+    for (const chunk of chunks) {
+      const chunkMap = await this.getOrCreateProducers(chunk);
+      
+      // Merge the chunk map into the main map
+      for (const [key, value] of chunkMap.entries()) {
+        producerIdMap.set(key, value);
+      }
+      
+      // Add a small delay between chunks to reduce database contention
+      if (chunks.length > 1) {
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+    }
+    
+    return producerIdMap;
+  }
+  
+  /**
+   * Get or create producers in batch. Credits resolve to existing producers by
+   * their Genius or Spotify id before their name (see producerIdentity.ts).
+   */
+  private async getOrCreateProducers(producers: Producer[]): Promise<Map<string, string>> {
+    if (producers.length === 0) {
+      return new Map();
+    }
+    
+    const contextLogger = this.workerLogger.child({
+      operation: 'getOrCreateProducers',
+      count: producers.length
+    });
+    
+    const dbHelpers = createDbTransactionHelpers(this.supabase as SupabaseClient<Database>);
+    const normalizedNameToProducer = new Map<string, Producer>();
+    const creditsByName = new Map<string, Producer[]>();
+    
+    // Deduplicate by normalized name; one person can hold several roles on a track
+    for (const producer of producers) {
+      const credits = creditsByName.get(producer.normalizedName) || [];
+      credits.push(producer);
+      creditsByName.set(producer.normalizedName, credits);
+      
+      if (!normalizedNameToProducer.get(producer.normalizedName)?.external_id) {
+        normalizedNameToProducer.set(producer.normalizedName, producer);
+      }
+    }
+    
+    const rolesOf = (normalizedName: string) => (creditsByName.get(normalizedName) || []).map(p => p.role);
+    const externalIdsOf = (normalizedName: string) => (creditsByName.get(normalizedName) || [])
+      .flatMap(p => p.external_id ? [p.external_id] : []);
+    
+    try {
+      return await dbHelpers.withDbRetry(async () => {
+        // First check which producers already exist
+        const resolved = await resolveProducers(
+          this.supabase as SupabaseClient<Database>,
+          Array.from(normalizedNameToProducer.values()).map(p => ({ normalizedName: p.normalizedName, externalId: p.external_id }))
+        );
+        
+        const { data: existingProducers, error } = resolved.size === 0
+          ? { data: [], error: null }
+          : await this.supabase
+            .from('producers')
+            .select('id, name, normalized_name, metadata, image_url')
+            .in('id', [...new Set(resolved.values())]);
+          
+        if (error) {
+          contextLogger.error('Error fetching existing producers:', error);
+          throw error;
+        }
+        
+        const existingById = new Map((existingProducers || []).map(existing => [existing.id, existing]));
+        
+        // Map of normalized name to producer id
+        const producerIdMap = new Map<string, string>();
+        
+        // Producers that need to be updated; several credits can resolve to one producer
+        const producersToUpdate = new Map<string, { id: string; metadata: any; image_url: string | null }>();
+        
+        // Add existing producers to the map and prepare updates
+        for (const [normalizedName, producerId] of resolved) {
+          const existingProducer = existingById.get(producerId);
+          if (!existingProducer) {
+            continue;
+          }
+          
+          if (!this.isValidUuid(existingProducer.id)) {
+            contextLogger.warn(`Found producer with invalid UUID: ${existingProducer.id}, skipping`);
+            continue;
+          }
+          
+          producerIdMap.set(normalizedName, existingProducer.id);
+          
+          // Get the producer from our input set
+          const producer = normalizedNameToProducer.get(normalizedName);
+          if (producer) {
+            // Update metadata with new information
+            const currentMetadata = producersToUpdate.get(existingProducer.id)?.metadata || existingProducer.metadata || {};
+            
+            // Only update image if we don't already have one
+            const imageUrl = producersToUpdate.get(existingProducer.id)?.image_url || existingProducer.image_url || producer.image_url || null;
+            
+            // Merge metadata carefully
+            const roles = [...new Set([...(currentMetadata.roles || []), ...rolesOf(normalizedName)])];
+            const sources = [...new Set([...(currentMetadata.sources || []), producer.source])];
+            const externalIds = [...new Set([...(currentMetadata.external_ids || []), ...externalIdsOf(normalizedName)])];
+            
+            producersToUpdate.set(existingProducer.id, {
+              id: existingProducer.id,
+              metadata: {
+                ...currentMetadata,
+                roles,
+                sources,
+                external_ids: externalIds,
+                ...(producer.metadata || {})
+              },
+              image_url: imageUrl
+            });
+          }
+          
+          // Remove from the map of producers to create
+          normalizedNameToProducer.delete(normalizedName);
+        }
+        
+        // Update existing producers in batch if needed
+        if (producersToUpdate.size > 0) {
+          const { error: updateError } = await this.supabase
+            .from('producers')
+            .upsert(Array.from(producersToUpdate.values()));
+            
+          if (updateError) {
+            contextLogger.error('Error updating producers:', updateError);
+          } else {
+            contextLogger.debug(`Updated ${producersToUpdate.size} existing producers`);
+          }
+        }
+        
+        // Prepare new producers to be created
+        const newProducers: ProducerRecord[] = Array.from(normalizedNameToProducer.values()).map(p => ({
+          name: p.name,
+          normalized_name: p.normalizedName,
+          image_url: p.image_url || null,
+          metadata: { 
+            source: p.source,
+            roles: [...new Set(rolesOf(p.normalizedName))],
+            external_ids: [...new Set(externalIdsOf(p.normalizedName))],
+            discovery_timestamp: new Date().toISOString(),
+            ...(p.metadata || {})
+          }
+        }));
+        
+        // Create new producers
+        if (newProducers.length > 0) {
+          const { data: createdProducers, error: insertError } = await this.supabase
+            .from('producers')
+            .insert(newProducers)
+            .select('id, normalized_name');
+
+          if (insertError) {
+            contextLogger.error('Error inserting producers:', insertError);
+            throw insertError;
+          }
+          
+          // Add new producers to the id map
+          for (const created of (createdProducers || [])) {
+            if (this.isValidUuid(created.id)) {
+              producerIdMap.set(created.normalized_name, created.id);
+            } else {
+              contextLogger.warn(`Created producer with invalid UUID: ${created.id}, skipping`);
+            }
+          }
+          
+          contextLogger.info(`Created ${newProducers.length} new producers`);
+        }
+        
+        // Record each credit's name and id, so the next credit with that id finds this producer
+        const aliases: Array<{ producerId: string; kind: ProducerAliasKind; value: string }> = [];
+        for (const producer of producers) {
+          const producerId = producerIdMap.get(producer.normalizedName);
+          if (!producerId) continue;
+          
+          aliases.push({ producerId, kind: 'name', value: producer.normalizedName });
+          
+          const externalAlias = parseExternalId(producer.external_id);
+          if (externalAlias) aliases.push({ producerId, ...externalAlias });
+        }
+        
+        try {
+          await addProducerAliases(this.supabase as SupabaseClient<Database>, aliases);
+        } catch (aliasError) {
+          // The credits are still linked; the aliases are recorded again on the next credit
+          contextLogger.error('Error recording producer aliases:', aliasError);
+        }
+        
+        return producerIdMap;
+      });
+    } catch (error) {
+      contextLogger.error(`Failed to get or create producers:`, error);
+      return new Map();
+    }
+  }
+  
+  /**
+   * Credits of a Genius song in the role vocabulary: producers and writers,
+   * and the custom performances whose label maps to a role
+   */
+  private extractGeniusCredits(song: GeniusSongResult['response']['song'], spotifyTrackId: string): Producer[] {
+    // Get fallback image from primary artist if available
+    const fallbackImage = song.primary_artist?.image_url;
+    
+    const credited = [
+      ...(song.producer_artists || []).map(artist => ({ artist, role: 'producer' as const, label: 'Producer' })),
+      ...(song.writer_artists || []).map(artist => ({ artist, role: 'writer' as const, label: 'Writer' })),
+      ...(song.custom_performances || []).flatMap(performance => {
+        const role = creditRoleForLabel(performance.label);
+        return role ? (performance.artists || []).map(artist => ({ artist, role, label: performance.label })) : [];
+      })
+    ];
+    
+    return credited.map(({ artist, role, label }) => ({
+      name: artist.name,
+      normalizedName: normalizeProducerName(artist.name),
+      source: 'genius',
+      confidence: 0.9, // Very high confidence for explicit credits
+      role,
+      label,
+      evidence: { spotify_track_id: spotifyTrackId, genius_song_id: song.id, genius_artist_id: artist.id },
+      external_id: `genius-${artist.id}`,
+      image_url: artist.image_url || fallbackImage
+    }));
+  }
+
+  /**
+   * Store the artists Spotify lists on the track as its performers, linked to
+   * catalog artists where there are any. Performers are not producers.
+   */
+  private async recordPerformers(track: SpotifyTrackArtists, trackUuid: string): Promise<void> {
+    if (track.artists.length === 0) {
+      return;
+    }
+
+    const { data: catalogArtists, error: artistError } = await this.supabase
+      .from('artists')
+      .select('id, spotify_id')
+      .in('spotify_id', track.artists.map(artist => artist.id));
+
+    if (artistError) throw artistError;
+
+    const artistIdBySpotifyId = new Map((catalogArtists || []).map(artist => [artist.spotify_id, artist.id]));
+    const performers: TrackPerformer[] = track.artists.map((artist, position) => ({
+      track_id: trackUuid,
+      spotify_artist_id: artist.id,
+      artist_id: artistIdBySpotifyId.get(artist.id) || null,
+      name: artist.name,
+      role: position === 0 ? 'primary' : 'featured',
+      position
+    }));
+
+    const { error } = await withRetry(async () => {
+      return this.supabase
+        .from('track_performers')
+        .upsert(performers, { onConflict: 'track_id,spotify_artist_id' });
+    }, {
+      maxAttempts: 3,
+      initialDelayMs: 300
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Find the Genius song of a track among the search hits. Returns null when
+   * no hit matches well enough, or when the best match was sent to review.
+   */
+  private async matchGeniusSong(
+    msg: ProducerIdentificationMsg,
+    track: SpotifyTrackArtists,
+    trackUuid: string,
+    signal: AbortSignal
+  ): Promise<number | null> {
+    if (msg.geniusSongId) {
+      return msg.geniusSongId;
+    }
+
+    const target = {
+      title: msg.trackName,
+      primaryArtist: track.artists[0]?.name || '',
+      featuredArtists: track.artists.slice(1).map(artist => artist.name)
+    };
+    const contextLogger = this.workerLogger.child({ operation: 'matchGeniusSong', trackId: msg.trackId });
+
+    const searchResult = await this.geniusClient!.search(target.title, target.primaryArtist, signal);
+    const match = matchGeniusHits(target, searchResult?.response?.hits || []);
+
+    getActiveSpan()?.setAttribute('genius.match_decision', match.decision);
+    getActiveSpan()?.setAttribute('genius.match_score', match.best?.score ?? 0);
+
+    if (match.decision === 'accepted' && match.best) {
+      contextLogger.debug(`Matched Genius song ${match.best.songId} (${match.reason})`);
+      await this.recordGeniusMatch(trackUuid, match.best.songId, match.best.score);
+      return match.best.songId;
+    }
+
+    if (match.decision === 'review') {
+      contextLogger.info(`Sending Genius match for ${msg.trackName} to review: ${match.reason}`);
+      await this.queueMatchReview(msg, trackUuid, target.primaryArtist, match.candidates);
+      return null;
+    }
+
+    contextLogger.info(`No Genius song matches ${msg.trackName} by ${target.primaryArtist}: ${match.reason}`);
+    return null;
+  }
+
+  private async recordGeniusMatch(trackUuid: string, songId: number, score: number): Promise<void> {
+    const { error } = await this.supabase
+      .from('tracks')
+      .update({ genius_song_id: songId, genius_match_score: score })
+      .eq('id', trackUuid);
+
+    if (error) {
+      // Credits are still written; the match is recorded again on the next identification
+      this.workerLogger.error(`Error recording Genius match for track ${trackUuid}:`, error);
+    }
+  }
+
+  /**
+   * Leave an ambiguous match for a reviewer, once per track. Accepting it
+   * requeues this message with the chosen song.
+   */
+  private async queueMatchReview(
+    msg: ProducerIdentificationMsg,
+    trackUuid: string,
+    artistName: string,
+    candidates: GeniusCandidate[]
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('genius_match_reviews')
+      .upsert({
+        track_id: trackUuid,
+        spotify_track_id: msg.trackId,
+        track_name: msg.trackName,
+        artist_name: artistName,
+        candidates: candidates.slice(0, 5),
+        best_score: candidates[0]?.score ?? null,
+        message: msg
+      }, { onConflict: 'track_id', ignoreDuplicates: true });
+
+    if (error) {
+      this.workerLogger.error(`Error queueing Genius match review for track ${msg.trackId}:`, error);
+    }
+  }
+
+  protected async process(msg: ProducerIdentificationMsg, ctx: MessageContext): Promise<void> {
+    const { trackId, trackName } = msg;
+    const traceId = getTraceContext()?.traceId || generateTraceId();
+    const contextLogger = this.workerLogger.child({
+      operation: 'process',
+      trackId,
+      trackName,
+      traceId
+    });
+    
+    contextLogger.info(`Processing producer identification for track ${trackName} (${trackId})`);
+    
+    try {
+      const track = await getTrackDetails(trackId);
+      contextLogger.debug(`Found ${track.artists.length} artists for track ${trackName}`);
+
+      // Get track UUID from our database or use provided trackUuid
+      let dbTrackId = msg.trackUuid;
+      
+      if (!dbTrackId) {
+        contextLogger.debug(`No trackUuid provided in message, looking up from database`);
+        const { data: dbTrack } = await this.supabase
+          .from('tracks')
+          .select('id')
+          .eq('spotify_id', trackId)
+          .single();
+
+        if (!dbTrack) {
+          throw new NotFoundError(`Track ${trackId} not found in database`);
+        }
+        
+        dbTrackId = dbTrack.id;
+      }
+
+      // Validate UUID format
+      if (!this.isValidUuid(dbTrackId)) {
+        throw new ValidationError(`Invalid track UUID format: ${dbTrackId}`);
+      }
+
+      // Spotify's artists performed the track; only explicit credits make someone a producer
+      await this.recordPerformers(track, dbTrackId);
+      contextLogger.debug(`Stored ${track.artists.length} performers for track ${trackName}`);
+      
+      // Fetch additional producer/writer information from Genius
+      let geniusProducers: Producer[] = [];
+      
+      if (this.geniusClient) {
+        try {
+          contextLogger.debug(`Searching for track on Genius: ${trackName}`);
+          
+          // Search for the track on Genius and pick the hit that is this recording
+          const geniusId = await this.matchGeniusSong(msg, track, dbTrackId, ctx.signal);
+          
+          if (geniusId) {
+            contextLogger.debug(`Found matching track on Genius with ID: ${geniusId}`);
+            
+            // Fetch full credits
+            const geniusSongResult = await this.geniusClient.getSong(geniusId, ctx.signal);
+            const song = geniusSongResult?.response?.song;
+            
+            if (song) {
+              geniusProducers = this.extractGeniusCredits(song, trackId);
+              contextLogger.info(
+                `Found ${geniusProducers.length} credits from Genius for track ${trackName}`,
+                { roles: [...new Set(geniusProducers.map(p => p.role))] }
+              );
+            }
+          }
+        } catch (error) {
+          // A timed-out message must stop here rather than finish without credits
+          if (ctx.signal.aborted) throw error;
+          
+          contextLogger.error(`Error fetching data from Genius for track ${trackName}:`, error);
+        }
+      }
+
+      const uniqueProducersByCredit = new Map<string, Producer>();
+
+      // Deduplicate by name and role, preferring higher confidence sources
+      for (const producer of geniusProducers) {
+        const creditKey = `${producer.normalizedName}:${producer.role}`;
+        
+        if (!uniqueProducersByCredit.has(creditKey) || 
+            producer.confidence > uniqueProducersByCredit.get(creditKey)!.confidence) {
+          uniqueProducersByCredit.set(creditKey, producer);
+        }
+      }
+      
+      // Convert to array and limit batch size
+      let uniqueProducers = Array.from(uniqueProducersByCredit.values());
+      
+      // Limit batch size to avoid timeouts
+      if (uniqueProducers.length > this.MAX_BATCH_SIZE) {
+        contextLogger.warn(`Large number of producers (${uniqueProducers.length}) found for track ${trackName}, limiting to ${this.MAX_BATCH_SIZE}`);
+        uniqueProducers = uniqueProducers.slice(0, this.MAX_BATCH_SIZE);
+      }
+      
+      contextLogger.debug(`Identified ${uniqueProducers.length} unique producers for track ${trackName}`);
+      
+      if (uniqueProducers.length === 0) {
+        contextLogger.info(`No producers identified for track ${trackName}`);
+        return;
+      }
+      
+      // Get or create all producers in batch
+      const producerIdMap = await this.processProducerBatch(uniqueProducers);
+      
+      if (producerIdMap.size === 0) {
+        contextLogger.warn(`Failed to get producer IDs for track ${trackName}`);
+        return;
+      }
+      
+      // Create track credits in batch, one per producer and role
+      const trackCredits: TrackCredit[] = [];
+      const creditedAt = new Date().toISOString();
+      const socialEnrichmentQueue: { producerId: string, producerName: string }[] = [];
+      
+      for (const producer of uniqueProducers) {
+        const producerId = producerIdMap.get(producer.normalizedName);
+        if (!producerId) {
+          contextLogger.warn(`No producer ID found for ${producer.name}`);
+          continue;
+        }
+        
+        if (!this.isValidUuid(producerId)) {
+          contextLogger.warn(`Invalid producer UUID format: ${producerId} for producer ${producer.name}`);
+          continue;
+        }
+        
+        trackCredits.push({
+          track_id: dbTrackId,
+          producer_id: producerId,
+          role: producer.role,
+          credited_as: producer.label || null,
+          evidence: producer.evidence,
+          confidence: producer.confidence,
+          source: producer.source,
+          updated_at: creditedAt
+        });
+        
+        if (!socialEnrichmentQueue.some(queued => queued.producerId === producerId)) {
+          socialEnrichmentQueue.push({
+            producerId,
+            producerName: producer.name
+          });
+        }
+      }
+      
+      // Insert all track credits at once; a credit found again keeps its created_at
+      if (trackCredits.length > 0) {
+        const { error: relationError } = await withRetry(async () => {
+          return this.supabase
+            .from('track_credits')
+            .upsert(trackCredits, { onConflict: 'track_id,producer_id,role' });
+        }, {
+          maxAttempts: 3,
+          initialDelayMs: 300
+        });
+
+        if (relationError) {
+          contextLogger.error('Error creating track credits:', relationError);
+          throw relationError;
+        }
+        
+        contextLogger.info(`Created ${trackCredits.length} track credits`);
+      }
+      
+      // Enqueue social enrichment tasks in batch, with a limit to avoid overwhelming the queue
+      const MAX_ENRICHMENT_QUEUE = 10;
+      const enrichmentBatch = socialEnrichmentQueue.slice(0, MAX_ENRICHMENT_QUEUE);
+      
+      for (const producer of enrichmentBatch) {
+        const msgId = await this.enqueueOnce('social_enrichment', {
+          producerId: producer.producerId,
+          producerName: producer.producerName
+        }, `social_enrichment:${producer.producerId}`);
+        
+        if (msgId !== null) {
+          contextLogger.debug(`Enqueued social enrichment for ${producer.producerName}`);
+        }
+      }
+      
+      if (socialEnrichmentQueue.length > MAX_ENRICHMENT_QUEUE) {
+        contextLogger.info(`Limited social enrichment queue to ${MAX_ENRICHMENT_QUEUE} out of ${socialEnrichmentQueue.length} producers`);
+      }
+      
+      contextLogger.info(`Finished processing performers and producers for track ${trackName}`);
+    } catch (error) {
+      contextLogger.error(`Error processing producer identification for track ${trackId}:`, error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Record tracks whose producer identification was abandoned so they can be requeued later
+   */
+  protected async onDeadLetter(msg: ProducerIdentificationMsg, ctx: MessageContext, error: Error): Promise<void> {
+    await this.logIssue('producer_identification_dead_letter', {
+      trackId: msg.trackId,
+      trackUuid: msg.trackUuid,
+      trackName: msg.trackName,
+      attempts: ctx.attempt,
+      error: error.message
+    });
+  }
+  
+  /**
+   * Implement health check endpoint
+   */
+  async getHealthStatus(): Promise<object> {
+    try {
+      // Get queue statistics
+      const { data: queueStats, error } = await this.supabase.rpc(
+        'pgmq_read', 
+        { 
+          queue_name: 'producer_identification', 
+          visibility_timeout: 0,
+          batch_size: 1
+        }
+      );
+      
+      // Count pending messages
+      const pendingMessagesCount = queueStats?.length || 0;
+      
+      return {
+        status: 'healthy',
+        queue: 'producer_identification',
+        pendingMessages: pendingMessagesCount,
+        workerTimeout: 180
+      };
+    } catch (e) {
+      return {
+        status: 'unhealthy',
+        error: e.message
+      };
+    }
+  }
+}
+
+// Set up global error handlers
+addEventListener("error", (event) => {
+  logger.error("Uncaught error:", {
+    message: event.message,
+    filename: event.filename,
+    lineno: event.lineno,
+    colno: event.colno,
+    error: event.error
+  });
+});
+
+addEventListener("unhandledrejection", (event) => {
+  logger.error("Unhandled promise rejection:", {
+    reason: event.reason
+  });
+});
@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { validate as uuidValidate } from "https://deno.land/std@0.178.0/uuid/mod.ts";
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import {
+  ProducerAliasKind,
+  aliasProducer,
+  getDuplicateCandidates,
+  getProducerIdentity,
+  mergeProducers,
+  splitProducer
+} from "../lib/producerIdentity.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const adminLogger = logger.child({ operation: 'producerIdentity' });
+
+const ALIAS_KINDS: ProducerAliasKind[] = ['name', 'genius', 'spotify'];
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function uuidList(value: unknown): string[] | null {
+  return Array.isArray(value) && value.length > 0 && value.every(id => typeof id === 'string' && uuidValidate(id))
+    ? value as string[]
+    : null;
+}
+
+/**
+ * Resolve duplicate and conflated producers. Merges and splits are atomic and
+ * recorded in producer_identity_events with their actor and reason.
+ *
+ * GET ?producerId=uuid                                       -> producer, aliases and identity events
+ * GET [?minSimilarity=0.4&limit=100]                         -> likely duplicate pairs, most likely first
+ * POST { action: 'merge', targetId, sourceIds, reason?, actor? }
+ *      (credits, aliases and metadata of sourceIds move to targetId; sourceIds are deleted)
+ * POST { action: 'split', producerId, name, trackIds, aliasIds?, reason?, actor? }
+ *      (the tracks and external id aliases move to a new producer called name)
+ * POST { action: 'alias', producerId, kind?, value, reason?, actor? }
+ *      (kind is 'name' by default, or 'genius' / 'spotify' for an artist id)
+ */
+serve(traceRequests('producerIdentity', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    if (req.method === 'GET') {
+      const params = new URL(req.url).searchParams;
+      const producerId = params.get('producerId');
+
+      if (producerId) {
+        if (!uuidValidate(producerId)) {
+          return jsonResponse({ success: false, error: 'producerId must be a UUID' }, 400);
+        }
+
+        const identity = await getProducerIdentity(supabase, producerId);
+        if (!identity.producer) {
+          return jsonResponse({ success: false, error: `Producer ${producerId} not found` }, 404);
+        }
+
+        return jsonResponse({ success: true, ...identity });
+      }
+
+      const minSimilarity = Number(params.get('minSimilarity') ?? 0.4);
+      const limit = Number(params.get('limit') ?? 100);
+
+      if (!(minSimilarity > 0 && minSimilarity <= 1) || !Number.isInteger(limit) || limit < 1 || limit > 1000) {
+        return jsonResponse({ success: false, error: 'minSimilarity must be in (0, 1] and limit an integer from 1 to 1000' }, 400);
+      }
+
+      const candidates = await getDuplicateCandidates(supabase, { minSimilarity, limit });
+      return jsonResponse({ success: true, candidates });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const change = { reason: body.reason, actor: body.actor || 'producerIdentity' };
+
+    if (body.action === 'merge') {
+      const sourceIds = uuidList(body.sourceIds);
+
+      if (!uuidValidate(String(body.targetId || '')) || !sourceIds) {
+        return jsonResponse({ success: false, error: 'targetId and a non-empty list of sourceIds must be UUIDs' }, 400);
+      }
+
+      if (sourceIds.includes(body.targetId)) {
+        return jsonResponse({ success: false, error: 'sourceIds must not include targetId' }, 400);
+      }
+
+      const producer = await mergeProducers(supabase, body.targetId, [...new Set(sourceIds)], change);
+      adminLogger.info(`Merged ${sourceIds.length} producers into ${producer.name}`, { targetId: producer.id, actor: change.actor });
+
+      return jsonResponse({ success: true, producer });
+    }
+
+    if (body.action === 'split') {
+      const trackIds = uuidList(body.trackIds);
+      const aliasIds = body.aliasIds === undefined ? [] : body.aliasIds;
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+      if (!uuidValidate(String(body.producerId || '')) || !name || !trackIds) {
+        return jsonResponse({ success: false, error: 'producerId, name and a non-empty list of trackIds are required' }, 400);
+      }
+
+      if (!Array.isArray(aliasIds) || !aliasIds.every(id => Number.isInteger(id))) {
+        return jsonResponse({ success: false, error: 'aliasIds must be a list of alias ids' }, 400);
+      }
+
+      const producer = await splitProducer(supabase, body.producerId, { name, trackIds, aliasIds }, change);
+      adminLogger.info(`Split ${name} off producer ${body.producerId}`, { newProducerId: producer.id, actor: change.actor });
+
+      return jsonResponse({ success: true, producer });
+    }
+
+    if (body.action === 'alias') {
+      const kind = body.kind || 'name';
+      const value = typeof body.value === 'string' ? body.value.trim() : '';
+
+      if (!uuidValidate(String(body.producerId || '')) || !value) {
+        return jsonResponse({ success: false, error: 'producerId and value are required' }, 400);
+      }
+
+      if (!ALIAS_KINDS.includes(kind)) {
+        return jsonResponse({ success: false, error: `kind must be one of: ${ALIAS_KINDS.join(', ')}` }, 400);
+      }
+
+      const alias = await aliasProducer(supabase, body.producerId, { kind, value }, change);
+      return jsonResponse({ success: true, alias });
+    }
+
+    return jsonResponse({ success: false, error: "action must be one of: merge, split, alias" }, 400);
+  } catch (error) {
+    adminLogger.error('Producer identity admin error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
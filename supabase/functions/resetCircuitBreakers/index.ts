@@ -1,15 +1,16 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
-import { CircuitBreakerRegistry } from "../lib/circuitBreaker.ts";
+import { CircuitBreakerRegistry, CircuitState, transitionCircuit } from "../lib/circuitBreaker.ts";
 import { logger } from "../lib/logger.ts";
+import { traceRequests } from "../lib/tracing.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-serve(async (req: Request) => {
+serve(traceRequests('resetCircuitBreakers', async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response(null, {
@@ -34,12 +35,9 @@ serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
     
-    // Set up circuit breaker registry with supabase client
+    // Resets go through circuit_breaker_transition, so every instance sees them
     CircuitBreakerRegistry.setSupabaseClient(supabase);
     
-    // Load existing circuit breakers from storage
-    await CircuitBreakerRegistry.loadFromStorage();
-    
     // Initialize logger
     const resetLogger = logger.child({ 
       operation: 'resetCircuitBreakers',
@@ -50,7 +48,7 @@ serve(async (req: Request) => {
     
     if (circuitName) {
       // Reset specific circuit
-      await CircuitBreakerRegistry.reset(circuitName);
+      await CircuitBreakerRegistry.reset(circuitName, 'resetCircuitBreakers');
       result = { 
         success: true, 
         message: `Circuit ${circuitName} reset successfully`
@@ -60,7 +58,8 @@ serve(async (req: Request) => {
       // Get all circuit statuses
       const statuses = await CircuitBreakerRegistry.getAllStatuses();
       
-      // Reset spotify related circuits if they've been open for more than 4 hours
+      // Reset spotify related circuits if they've been open for more than 4 hours;
+      // circuits an operator forced open stay open
       const now = Date.now();
       const MAX_OPEN_DURATION = 4 * 60 * 60 * 1000; // 4 hours
       
@@ -68,11 +67,17 @@ serve(async (req: Request) => {
       
       for (const status of statuses) {
         if (
-          status.name.startsWith('spotify') && 
-          status.state === 'open' &&
-          (now - status.lastStateChange) > MAX_OPEN_DURATION
+          String(status.name).startsWith('spotify') && 
+          status.state === CircuitState.OPEN &&
+          !status.forced &&
+          (now - Date.parse(String(status.lastStateChange))) > MAX_OPEN_DURATION
         ) {
-          await CircuitBreakerRegistry.reset(status.name);
+          // Only resets the circuit if it is still open when the transition runs
+          await transitionCircuit(supabase, String(status.name), 'force_close', {
+            expectedState: CircuitState.OPEN,
+            details: { reason: 'open for more than 4 hours' },
+            actor: 'resetCircuitBreakers'
+          });
           resetCircuits.push(status.name);
           resetLogger.info(`Auto-reset long-open circuit: ${status.name}`);
         }
@@ -117,4 +122,4 @@ serve(async (req: Request) => {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
   }
-});
+}));
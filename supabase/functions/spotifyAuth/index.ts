@@ -0,0 +1,168 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { traceRequests } from "../lib/tracing.ts";
+import { SpotifyCredential, loadSpotifyCredentials, saveSpotifyUserToken } from "../lib/spotifyCredentials.ts";
+import { exchangeSpotifyAuthorizationCode } from "../lib/spotifyClient.ts";
+
+// Overridable with SPOTIFY_AUTHORIZE_URL, e.g. to point at a local fake
+const DEFAULT_SPOTIFY_AUTHORIZE_URL = 'https://accounts.spotify.com/authorize';
+const DEFAULT_SPOTIFY_USER_SCOPES = 'user-read-private';
+// How long a user has to approve the app after the authorize URL was issued
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const authLogger = logger.child({ operation: 'spotifyAuth' });
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+// Spotify redirects the user's browser here, so the callback answers in plain text
+function textResponse(body: string, status = 200): Response {
+  return new Response(body, {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'text/plain; charset=utf-8' }
+  });
+}
+
+function redirectUri(): string {
+  return Deno.env.get('SPOTIFY_REDIRECT_URI') || `${Deno.env.get('SUPABASE_URL')}/functions/v1/spotifyAuth`;
+}
+
+function base64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64 + '='.repeat((4 - base64.length % 4) % 4)), c => c.charCodeAt(0));
+}
+
+function stateKey(credential: SpotifyCredential, usage: KeyUsage): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(credential.clientSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * State for the authorize URL: the credential and an expiry, signed with the
+ * app's secret so a callback can't be forged for it
+ */
+async function signState(credential: SpotifyCredential): Promise<string> {
+  const payload = `${credential.label}.${Date.now() + STATE_TTL_MS}`;
+  const signature = await crypto.subtle.sign('HMAC', await stateKey(credential, 'sign'), new TextEncoder().encode(payload));
+  return `${payload}.${base64Url(signature)}`;
+}
+
+/**
+ * The credential a callback's state was issued for, or null if it's forged or expired
+ */
+async function verifyState(credentials: SpotifyCredential[], state: string): Promise<SpotifyCredential | null> {
+  const [label, expiresAt, signature] = state.split('.');
+  const credential = credentials.find(c => c.label === label);
+  if (!credential || !signature || !(Number(expiresAt) > Date.now())) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await stateKey(credential, 'verify'),
+      fromBase64Url(signature),
+      new TextEncoder().encode(`${label}.${expiresAt}`)
+    );
+    return valid ? credential : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Let a Spotify user authorize one of the configured apps (Authorization Code
+ * Flow). Workers then request that app's tokens with the user's refresh token.
+ * Deployed without JWT verification, as Spotify's redirect carries no token;
+ * issuing an authorize URL needs the service role key instead.
+ *
+ * GET ?credential=<label>?    -> { url } for the user to open (the first app by default)
+ * GET ?code=...&state=...     -> Spotify's redirect; stores the user's refresh token
+ */
+serve(traceRequests('spotifyAuth', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+
+  try {
+    const credentials = loadSpotifyCredentials();
+
+    if (url.searchParams.has('code') || url.searchParams.has('error')) {
+      const credential = await verifyState(credentials, url.searchParams.get('state') || '');
+      if (!credential) {
+        return textResponse('This authorization link is invalid or has expired. Request a new one.', 400);
+      }
+
+      const code = url.searchParams.get('code');
+      if (!code) {
+        authLogger.warn(`Spotify authorization of ${credential.label} was declined`, { error: url.searchParams.get('error') });
+        return textResponse(`Spotify authorization was declined: ${url.searchParams.get('error')}`, 400);
+      }
+
+      const { refreshToken, scope } = await exchangeSpotifyAuthorizationCode(
+        credential.clientId,
+        credential.clientSecret,
+        code,
+        redirectUri()
+      );
+
+      const supabase = createClient<Database>(
+        Deno.env.get('SUPABASE_URL') || '',
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+      );
+      await saveSpotifyUserToken(supabase, credential.clientId, refreshToken, scope);
+
+      authLogger.info(`Stored a user refresh token for ${credential.label}`, { scope });
+      return textResponse(`Spotify app ${credential.label} is authorized. Workers use it from their next run; you can close this window.`);
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ success: false, error: 'The service role key is required to issue an authorize URL' }, 401);
+    }
+
+    const label = url.searchParams.get('credential');
+    const credential = label ? credentials.find(c => c.label === label) : credentials[0];
+    if (!credential) {
+      return jsonResponse({
+        success: false,
+        error: `credential must be one of: ${credentials.map(c => c.label).join(', ')}`
+      }, 400);
+    }
+
+    const authorizeUrl = new URL(Deno.env.get('SPOTIFY_AUTHORIZE_URL') || DEFAULT_SPOTIFY_AUTHORIZE_URL);
+    authorizeUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: credential.clientId,
+      scope: Deno.env.get('SPOTIFY_USER_SCOPES') || DEFAULT_SPOTIFY_USER_SCOPES,
+      redirect_uri: redirectUri(),
+      state: await signState(credential)
+    }).toString();
+
+    return jsonResponse({ success: true, credential: credential.label, url: authorizeUrl.toString() });
+  } catch (error) {
+    authLogger.error('Spotify authorization error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
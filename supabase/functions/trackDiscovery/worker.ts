@@ -0,0 +1,516 @@
+
+import { PageWorker, WorkerDependencies } from "../lib/pageWorker.ts";
+import { ValidationError } from "../lib/errors.ts";
+import { getAlbumTracks, getSeveralTracks, wait } from "../lib/spotifyClient.ts";
+import { withRetry } from "../lib/retry.ts";
+import { logger, generateTraceId } from "../lib/logger.ts";
+import { getTraceContext } from "../lib/tracing.ts";
+import { createDbTransactionHelpers } from "../lib/dbHelpers.ts";
+import {
+  AlbumRelationship,
+  CrawlScope,
+  TrackRelationship,
+  isTrackInScope,
+  parseCrawlScope,
+  trackDiscoveryDedupKey,
+  trackRelationship
+} from "../lib/crawlScope.ts";
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { validate as uuidValidate } from "https://deno.land/std@0.178.0/uuid/mod.ts";
+
+export interface TrackDiscoveryMsg {
+  albumId: string;
+  albumName: string;
+  artistId: string;
+  offset?: number;
+  crawlScope?: CrawlScope;                // Defaults to primary
+  albumRelationship?: AlbumRelationship; // How the artist relates to the album, defaults to primary
+}
+
+interface Track {
+  id: string;
+  name: string;
+  duration_ms: number;
+  popularity: number;
+  preview_url: string | null;
+  disc_number: number;
+  track_number: number;
+  artists: Array<{ id: string; name: string }>;
+}
+
+interface TrackWithDetails extends Track {
+  normalizedName: string;
+  relationship: TrackRelationship;
+}
+
+interface TrackInsertData {
+  spotify_id: string;
+  album_id: string;
+  name: string;
+  duration_ms: number;
+  popularity: number;
+  spotify_preview_url: string | null;
+  relationship: TrackRelationship;
+  metadata: {
+    source: string;
+    disc_number: number;
+    track_number: number;
+    discovery_timestamp: string;
+  };
+}
+
+interface NormalizedTrackData {
+  normalized_name: string;
+  artist_id: string;
+  representative_track_id: string;
+}
+
+export class TrackDiscoveryWorker extends PageWorker<TrackDiscoveryMsg> {
+  private workerLogger = logger.child({ worker: 'TrackDiscoveryWorker' });
+  private batchSize = 3; // Reduced from 10 to 3 to reduce concurrency
+  
+  constructor(deps: WorkerDependencies = {}) {
+    super('track_discovery', 120, {}, deps); // Increased timeout from 60 to 120 seconds
+  }
+
+  private normalizeTrackName(name: string): string {
+    this.workerLogger.debug(`Normalizing track name: "${name}"`);
+    
+    return name
+      .toLowerCase()
+      .replace(/\(.*?\)/g, '') // Remove parentheses and their contents
+      .replace(/\[.*?\]/g, '') // Remove square brackets and their contents
+      .replace(/feat\.|ft\./g, '') // Remove feat. or ft.
+      .replace(/[^a-z0-9À-ÿ\s]/g, '') // Keep accented characters while removing special chars
+      .trim()
+      .replace(/\s+/g, ' '); // Normalize whitespace
+  }
+
+  private getTrackRelationship(track: Track, artistId: string, details?: Track): TrackRelationship | null {
+    const artists = track.artists?.length ? track.artists : details?.artists;
+    return trackRelationship({ artists }, artistId);
+  }
+
+  /**
+   * Fetch full details (popularity, preview URL, artists) for a page of tracks in one batch request
+   */
+  private async fetchTrackDetails(tracks: Track[]): Promise<Map<string, Track>> {
+    try {
+      return await getSeveralTracks<Track>(tracks.map(track => track.id));
+    } catch (error) {
+      this.workerLogger.error(`Error fetching details for ${tracks.length} tracks:`, error);
+      // Continue with the simplified track objects from the album
+      return new Map<string, Track>();
+    }
+  }
+
+  private async checkExistingTracks(normalizedNames: string[], artistUuid: string): Promise<Set<string>> {
+    if (normalizedNames.length === 0) return new Set<string>();
+    
+    // Validate artistUuid is a valid UUID
+    if (!this.isValidUuid(artistUuid)) {
+      this.workerLogger.warn(`Invalid artist UUID format: ${artistUuid}`);
+      return new Set<string>();
+    }
+    
+    const dbHelpers = createDbTransactionHelpers(this.supabase as SupabaseClient<Database>);
+    
+    try {
+      return await dbHelpers.withDbRetry(async () => {
+        const { data, error } = await this.supabase
+          .from('normalized_tracks')
+          .select('normalized_name')
+          .eq('artist_id', artistUuid)
+          .in('normalized_name', normalizedNames);
+
+        if (error) {
+          this.workerLogger.error(`Error checking for existing tracks:`, error);
+          throw error;
+        }
+        
+        return new Set((data || []).map(row => row.normalized_name));
+      });
+    } catch (error) {
+      this.workerLogger.error(`Failed to check existing tracks:`, error);
+      return new Set<string>();
+    }
+  }
+  
+  /**
+   * Helper method to validate UUID format
+   */
+  private isValidUuid(id: string): boolean {
+    return uuidValidate(id);
+  }
+  
+  /**
+   * Create or update tracks in batches with proper transaction handling
+   */
+  private async createTracks(
+    tracksWithDetails: TrackWithDetails[], 
+    albumUuid: string, 
+    artistUuid: string,
+    albumRelationship: AlbumRelationship
+  ): Promise<Map<string, string>> {
+    if (tracksWithDetails.length === 0) return new Map();
+    
+    // Validate UUIDs
+    if (!this.isValidUuid(albumUuid)) {
+      this.workerLogger.error(`Invalid album UUID format: ${albumUuid}`);
+      return new Map();
+    }
+    
+    if (!this.isValidUuid(artistUuid)) {
+      this.workerLogger.error(`Invalid artist UUID format: ${artistUuid}`);
+      return new Map();
+    }
+    
+    const traceId = getTraceContext()?.traceId || generateTraceId();
+    const contextLogger = this.workerLogger.child({ 
+      operation: 'createTracks',
+      batchSize: tracksWithDetails.length,
+      traceId
+    });
+    
+    const dbHelpers = createDbTransactionHelpers(this.supabase as SupabaseClient<Database>);
+    
+    try {
+      return await dbHelpers.withTransaction(async (tx) => {
+        const trackIdMap = new Map<string, string>();
+        contextLogger.debug(`Processing batch of ${tracksWithDetails.length} tracks`);
+        
+        // 1. Prepare track data for insertion
+        const tracksToInsert: TrackInsertData[] = tracksWithDetails.map(track => ({
+          spotify_id: track.id,
+          album_id: albumUuid,
+          name: track.name,
+          duration_ms: track.duration_ms,
+          popularity: track.popularity,
+          spotify_preview_url: track.preview_url,
+          relationship: track.relationship,
+          metadata: {
+            source: 'spotify',
+            disc_number: track.disc_number,
+            track_number: track.track_number,
+            discovery_timestamp: new Date().toISOString()
+          }
+        }));
+        
+        // 2. Insert tracks in a batch. On a guest appearance, tracks already
+        // stored for the album's own artist are left as they are
+        const guest = albumRelationship !== 'primary';
+        const { data: trackData, error: trackInsertError } = await this.supabase
+          .from('tracks')
+          .upsert(tracksToInsert, guest ? { onConflict: 'spotify_id', ignoreDuplicates: true } : undefined)
+          .select('id, spotify_id');
+
+        if (trackInsertError) {
+          contextLogger.error('Error upserting tracks batch:', trackInsertError);
+          throw trackInsertError;
+        }
+        
+        // Map spotify_id to UUID for later use
+        (trackData || []).forEach(track => {
+          trackIdMap.set(track.spotify_id, track.id);
+        });
+        
+        const skipped = tracksToInsert.map(track => track.spotify_id).filter(id => !trackIdMap.has(id));
+        if (guest && skipped.length > 0) {
+          const { data: existingTracks, error: existingError } = await this.supabase
+            .from('tracks')
+            .select('id, spotify_id')
+            .in('spotify_id', skipped);
+
+          if (existingError) {
+            contextLogger.error('Error looking up existing tracks:', existingError);
+            throw existingError;
+          }
+          (existingTracks || []).forEach(track => {
+            trackIdMap.set(track.spotify_id, track.id);
+          });
+        }
+        
+        // 3. Prepare normalized track data for insertion
+        // Only proceed with valid track IDs from the previous operation
+        const normalizedTracksToInsert: NormalizedTrackData[] = [];
+        
+        for (const track of tracksWithDetails) {
+          const dbTrackId = trackIdMap.get(track.id);
+          
+          if (!dbTrackId) {
+            contextLogger.warn(`No database ID found for Spotify track ${track.id}, skipping normalized track entry`);
+            continue;
+          }
+          
+          if (!this.isValidUuid(dbTrackId)) {
+            contextLogger.warn(`Invalid track UUID: ${dbTrackId} for Spotify ID ${track.id}, skipping normalized track entry`);
+            continue;
+          }
+          
+          normalizedTracksToInsert.push({
+            normalized_name: track.normalizedName,
+            artist_id: artistUuid,
+            representative_track_id: dbTrackId // Use the database UUID, not the Spotify ID
+          });
+        }
+        
+        if (normalizedTracksToInsert.length === 0) {
+          contextLogger.warn('No valid normalized tracks to insert');
+          return trackIdMap;
+        }
+        
+        // 4. Insert normalized tracks in a batch
+        const { error: normalizedError } = await withRetry(async () => {
+          return this.supabase
+            .from('normalized_tracks')
+            .upsert(normalizedTracksToInsert);
+        }, {
+          maxAttempts: 3,
+          initialDelayMs: 200
+        });
+
+        if (normalizedError) {
+          contextLogger.error('Error upserting normalized tracks batch:', normalizedError);
+          throw normalizedError;
+        }
+        
+        contextLogger.info(`Successfully inserted ${normalizedTracksToInsert.length} normalized tracks`);
+        return trackIdMap;
+      });
+    } catch (error) {
+      contextLogger.error(`Error in batch track creation:`, error);
+      return new Map();
+    }
+  }
+  
+  /**
+   * Process tracks sequentially rather than in parallel batches
+   */
+  private async processTracks(
+    tracks: Track[],
+    artistId: string,
+    artistUuid: string,
+    albumUuid: string,
+    albumId: string,
+    scope: CrawlScope,
+    albumRelationship: AlbumRelationship
+  ): Promise<{ validCount: number; filteredCount: number; duplicateCount: number }> {
+    const stats = {
+      validCount: 0,
+      filteredCount: 0,
+      duplicateCount: 0
+    };
+    
+    if (tracks.length === 0) return stats;
+    
+    // Validate UUIDs
+    if (!this.isValidUuid(artistUuid)) {
+      this.workerLogger.error(`Invalid artist UUID format: ${artistUuid} - cannot process tracks`);
+      return stats;
+    }
+    
+    if (!this.isValidUuid(albumUuid)) {
+      this.workerLogger.error(`Invalid album UUID format: ${albumUuid} - cannot process tracks`);
+      return stats;
+    }
+    
+    const trackDetails = await this.fetchTrackDetails(tracks);
+    const detailedTracks: TrackWithDetails[] = [];
+    const normalizedNames: string[] = [];
+    
+    // First prepare all tracks
+    for (const track of tracks) {
+      try {
+        const relationship = this.getTrackRelationship(track, artistId, trackDetails.get(track.id));
+        
+        if (!isTrackInScope(relationship, scope)) {
+          this.workerLogger.debug(`Skipping track "${track.name}" as ${artistId} is ${relationship || 'not credited'} on it, outside the ${scope} scope`);
+          stats.filteredCount++;
+          continue;
+        }
+        
+        const normalizedName = this.normalizeTrackName(track.name);
+        normalizedNames.push(normalizedName);
+        
+        // Add to detailed tracks
+        detailedTracks.push({
+          ...track,
+          normalizedName,
+          relationship: relationship!
+        });
+      } catch (error) {
+        this.workerLogger.error(`Error processing track ${track.name}:`, error);
+      }
+    }
+    
+    if (detailedTracks.length === 0) return stats;
+    
+    // Get existing tracks to filter out duplicates
+    const existingTracks = await this.checkExistingTracks(normalizedNames, artistUuid);
+    
+    // Filter out already existing tracks
+    const newTracks = detailedTracks.filter(track => {
+      const exists = existingTracks.has(track.normalizedName);
+      if (exists) stats.duplicateCount++;
+      return !exists;
+    });
+    
+    if (newTracks.length === 0) {
+      this.workerLogger.info(`No new tracks to process for album with ID: ${albumId}`);
+      return stats;
+    }
+    
+    // Process tracks in smaller batches
+    for (let i = 0; i < newTracks.length; i += this.batchSize) {
+      const batch = newTracks.slice(i, i + this.batchSize);
+      
+      const batchDetailedTracks: TrackWithDetails[] = batch.map(track => {
+        const details = trackDetails.get(track.id);
+        // Keep the original track if Spotify returned no details for it
+        return details
+          ? { ...track, popularity: details.popularity, preview_url: details.preview_url }
+          : track;
+      });
+      
+      // Create tracks and process results
+      const trackUuids = await this.createTracks(batchDetailedTracks, albumUuid, artistUuid, albumRelationship);
+      
+      // Enqueue producer identification for successfully created tracks
+      for (const track of batchDetailedTracks) {
+        const trackUuid = trackUuids.get(track.id);
+        
+        if (trackUuid && this.isValidUuid(trackUuid)) {
+          const msgId = await this.enqueueOnce('producer_identification', {
+            trackId: track.id,
+            trackUuid: trackUuid, // Add database UUID to message
+            trackName: track.name,
+            albumId,
+            artistId
+          }, `producer_identification:${track.id}`);
+          
+          if (msgId !== null) {
+            this.workerLogger.debug(`Enqueued producer identification for track "${track.name}"`);
+          }
+          stats.validCount++;
+        } else {
+          this.workerLogger.warn(`No valid UUID for track ${track.name} (Spotify ID: ${track.id}), skipping producer identification`);
+        }
+      }
+    }
+    
+    return stats;
+  }
+
+  protected async process(msg: TrackDiscoveryMsg): Promise<void> {
+    const { albumId, albumName, artistId, offset = 0 } = msg;
+    const scope = parseCrawlScope(msg.crawlScope);
+    const albumRelationship = msg.albumRelationship || 'primary';
+    const traceId = getTraceContext()?.traceId || generateTraceId();
+    const contextLogger = this.workerLogger.child({ 
+      operation: 'process',
+      albumName,
+      albumId,
+      offset,
+      traceId
+    });
+    
+    contextLogger.info(`Processing track discovery for album ${albumName} (${albumId}) with offset ${offset}`);
+    
+    try {
+      const { data: artistData, error: artistError } = await this.supabase
+        .from('artists')
+        .select('id')
+        .eq('spotify_id', artistId)
+        .single();
+
+      if (artistError || !artistData) {
+        throw new Error(`Artist ${artistId} not found in database: ${artistError?.message || "No data returned"}`);
+      }
+
+      const artistUuid = artistData.id;
+      
+      if (!this.isValidUuid(artistUuid)) {
+        throw new ValidationError(`Invalid artist UUID format: ${artistUuid}`);
+      }
+      
+      // Add delay before fetching tracks
+      await wait(800); // Increased delay before fetching album tracks
+      
+      const tracks = await getAlbumTracks(albumId, offset);
+      contextLogger.info(`Found ${tracks.items.length} potential tracks in album ${albumName}`);
+
+      const { data: album, error: albumError } = await this.supabase
+        .from('albums')
+        .select('id')
+        .eq('spotify_id', albumId)
+        .single();
+
+      if (albumError || !album) {
+        throw new Error(`Album ${albumId} not found in database: ${albumError?.message || "No data returned"}`);
+      }
+      
+      if (!this.isValidUuid(album.id)) {
+        throw new ValidationError(`Invalid album UUID format: ${album.id}`);
+      }
+      
+      // Process tracks in batches
+      const stats = await this.processTracks(
+        tracks.items, 
+        artistId, 
+        artistUuid, 
+        album.id,
+        albumId,
+        scope,
+        albumRelationship
+      );
+      
+      contextLogger.info(`Processed ${tracks.items.length} tracks`, { 
+        valid: stats.validCount, 
+        filtered: stats.filteredCount, 
+        duplicates: stats.duplicateCount 
+      });
+      
+      // If we have more tracks to process, enqueue the next batch. A guest's
+      // tracks can be anywhere on a compilation, so keep paging through pages without any
+      const hasMore = tracks.items.length > 0 && offset + tracks.items.length < tracks.total;
+      if (hasMore && (stats.validCount > 0 || albumRelationship !== 'primary')) {
+        // Add more delay between pagination
+        await wait(2500); // Increased delay between page requests
+        
+        const newOffset = offset + tracks.items.length;
+        await this.enqueueOnce('track_discovery', {
+          albumId,
+          albumName,
+          artistId,
+          offset: newOffset,
+          crawlScope: msg.crawlScope,
+          albumRelationship: msg.albumRelationship
+        }, trackDiscoveryDedupKey(albumId, artistId, albumRelationship, newOffset));
+        contextLogger.info(`Enqueued next page of tracks`, { newOffset });
+      } else {
+        contextLogger.info(`Finished processing all tracks for album ${albumName}`);
+      }
+    } catch (error) {
+      contextLogger.error(`Error in track discovery:`, error);
+      throw error;
+    }
+  }
+}
+
+// Set up global error handlers
+addEventListener("error", (event) => {
+  logger.error("Uncaught error:", {
+    message: event.message,
+    filename: event.filename,
+    lineno: event.lineno,
+    colno: event.colno,
+    error: event.error
+  });
+});
+
+addEventListener("unhandledrejection", (event) => {
+  logger.error("Unhandled promise rejection:", {
+    reason: event.reason
+  });
+});
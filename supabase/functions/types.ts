@@ -10,6 +10,9 @@ export interface Database {
           failed_at: string;
           fail_count: number;
           details: any | null;
+          replayed_at: string | null;
+          replayed_by: string | null;
+          replay_count: number;
         };
         Insert: {
           id?: number;
@@ -18,6 +21,129 @@ export interface Database {
           failed_at?: string;
           fail_count: number;
           details?: any | null;
+          replayed_at?: string | null;
+          replayed_by?: string | null;
+          replay_count?: number;
+        };
+      };
+      dead_letter_replays: {
+        Row: {
+          id: number;
+          dead_letter_id: number;
+          queue_name: string;
+          new_msg_id: number | null;
+          replayed_by: string;
+          reason: string | null;
+          patch: any | null;
+          replayed_at: string;
+        };
+        Insert: {
+          id?: number;
+          dead_letter_id: number;
+          queue_name: string;
+          new_msg_id?: number | null;
+          replayed_by: string;
+          reason?: string | null;
+          patch?: any | null;
+          replayed_at?: string;
+        };
+      };
+      pipeline_runs: {
+        Row: {
+          id: string;
+          artist_spotify_id: string | null;
+          artist_name: string | null;
+          source: string;
+          seeding_job_id: string | null;
+          status: string;
+          started_at: string;
+          finished_at: string | null;
+          last_activity_at: string;
+          metadata: any;
+        };
+        Insert: {
+          id?: string;
+          artist_spotify_id?: string | null;
+          artist_name?: string | null;
+          source?: string;
+          seeding_job_id?: string | null;
+          status?: string;
+          started_at?: string;
+          finished_at?: string | null;
+          last_activity_at?: string;
+          metadata?: any;
+        };
+      };
+      pipeline_run_stages: {
+        Row: {
+          run_id: string;
+          stage: string;
+          pending: number;
+          processed: number;
+          failed: number;
+          updated_at: string;
+        };
+        Insert: {
+          run_id: string;
+          stage: string;
+          pending?: number;
+          processed?: number;
+          failed?: number;
+          updated_at?: string;
+        };
+      };
+      api_cache: {
+        Row: {
+          key: string;
+          value: any;
+          expires_at: string;
+          stale_until: string;
+          etag: string | null;
+          source: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          key: string;
+          value: any;
+          expires_at: string;
+          stale_until: string;
+          etag?: string | null;
+          source?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      traces: {
+        Row: {
+          span_id: string;
+          trace_id: string;
+          parent_span_id: string | null;
+          name: string;
+          service: string;
+          kind: string;
+          start_time: string;
+          end_time: string;
+          duration_ms: number;
+          status: string;
+          status_message: string | null;
+          attributes: any;
+          created_at: string;
+        };
+        Insert: {
+          span_id: string;
+          trace_id: string;
+          parent_span_id?: string | null;
+          name: string;
+          service: string;
+          kind?: string;
+          start_time: string;
+          end_time: string;
+          duration_ms: number;
+          status?: string;
+          status_message?: string | null;
+          attributes?: any;
+          created_at?: string;
         };
       };
       queue_metrics: {
@@ -54,6 +180,184 @@ export interface Database {
           updated_at?: string;
         };
       };
+      worker_status: {
+        Row: {
+          worker_name: string;
+          state: 'running' | 'draining' | 'paused';
+          is_paused: boolean;
+          paused_at: string | null;
+          paused_by: string | null;
+          drain_requested_at: string | null;
+          reason: string | null;
+          updated_by: string | null;
+          batch_size: number | null;
+          delay_between_items_ms: number | null;
+          reinvoke_lease_id: string | null;
+          reinvoke_lease_until: string | null;
+          last_updated: string | null;
+        };
+        Insert: {
+          worker_name: string;
+          state?: 'running' | 'draining' | 'paused';
+          is_paused?: boolean;
+          paused_at?: string | null;
+          paused_by?: string | null;
+          drain_requested_at?: string | null;
+          reason?: string | null;
+          updated_by?: string | null;
+          batch_size?: number | null;
+          delay_between_items_ms?: number | null;
+          reinvoke_lease_id?: string | null;
+          reinvoke_lease_until?: string | null;
+          last_updated?: string | null;
+        };
+      };
+      queue_dedup: {
+        Row: {
+          dedup_key: string;
+          queue_name: string;
+          msg_id: number | null;
+          created_at: string;
+          expires_at: string;
+        };
+        Insert: {
+          dedup_key: string;
+          queue_name: string;
+          msg_id?: number | null;
+          created_at?: string;
+          expires_at: string;
+        };
+      };
+      circuit_breakers: {
+        Row: {
+          name: string;
+          state: 'closed' | 'open' | 'half-open';
+          failure_count: number;
+          success_count: number;
+          failure_threshold: number;
+          reset_timeout_ms: number;
+          half_open_success_threshold: number;
+          last_failure_time: string | null;
+          last_state_change: string;
+          retry_at: string | null;
+          forced: boolean;
+          version: number;
+          updated_by: string | null;
+        };
+        Insert: {
+          name: string;
+          state?: 'closed' | 'open' | 'half-open';
+          failure_count?: number;
+          success_count?: number;
+          failure_threshold: number;
+          reset_timeout_ms: number;
+          half_open_success_threshold?: number;
+          last_failure_time?: string | null;
+          last_state_change?: string;
+          retry_at?: string | null;
+          forced?: boolean;
+          version?: number;
+          updated_by?: string | null;
+        };
+      };
+      circuit_breaker_events: {
+        Row: {
+          id: string;
+          circuit_name: string;
+          old_state: string;
+          new_state: string;
+          failure_count: number;
+          event: string | null;
+          actor: string | null;
+          details: Record<string, unknown> | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          circuit_name: string;
+          old_state: string;
+          new_state: string;
+          failure_count: number;
+          event?: string | null;
+          actor?: string | null;
+          details?: Record<string, unknown> | null;
+          created_at?: string;
+        };
+      };
+      adaptive_concurrency_limits: {
+        Row: {
+          name: string;
+          current_limit: number;
+          last_decrease_at: string | null;
+          stats: any;
+          updated_at: string;
+        };
+        Insert: {
+          name: string;
+          current_limit: number;
+          last_decrease_at?: string | null;
+          stats?: any;
+          updated_at?: string;
+        };
+      };
+      spotify_user_tokens: {
+        Row: {
+          client_id: string;
+          refresh_token: string;
+          scope: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          client_id: string;
+          refresh_token: string;
+          scope?: string | null;
+          updated_at?: string;
+        };
+      };
+      rate_limit_buckets: {
+        Row: {
+          key: string;
+          tokens: number;
+          capacity: number;
+          refill_per_second: number;
+          updated_at: string;
+        };
+        Insert: {
+          key: string;
+          tokens: number;
+          capacity: number;
+          refill_per_second: number;
+          updated_at?: string;
+        };
+      };
+      rate_limit_events: {
+        Row: {
+          id: number;
+          key: string;
+          event: string;
+          details: any | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          key: string;
+          event: string;
+          details?: any | null;
+          created_at?: string;
+        };
+      };
+      artist_refresh_cadence: {
+        Row: {
+          min_popularity: number;
+          refresh_interval: string;
+          updated_at: string;
+        };
+        Insert: {
+          min_popularity: number;
+          refresh_interval: string;
+          updated_at?: string;
+        };
+      };
       maintenance_logs: {
         Row: {
           id: string;
@@ -71,6 +375,7 @@ export interface Database {
           id: string;
           name: string;
           normalized_name: string;
+          image_url: string | null;
           metadata: any | null;
           created_at: string | null;
           updated_at: string | null;
@@ -84,6 +389,7 @@ export interface Database {
           id?: string;
           name: string;
           normalized_name: string;
+          image_url?: string | null;
           metadata?: any | null;
           created_at?: string | null;
           updated_at?: string | null;
@@ -94,13 +400,105 @@ export interface Database {
           email?: string | null;
         };
       };
+      producer_aliases: {
+        Row: {
+          id: number;
+          producer_id: string;
+          kind: string;
+          value: string;
+          source: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          producer_id: string;
+          kind: string;
+          value: string;
+          source?: string;
+          created_at?: string;
+        };
+      };
+      producer_identity_events: {
+        Row: {
+          id: number;
+          event: string;
+          producer_id: string;
+          related_ids: string[];
+          details: Record<string, unknown>;
+          actor: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          event: string;
+          producer_id: string;
+          related_ids?: string[];
+          details?: Record<string, unknown>;
+          actor?: string | null;
+          created_at?: string;
+        };
+      };
+      genius_match_reviews: {
+        Row: {
+          id: number;
+          track_id: string;
+          spotify_track_id: string;
+          track_name: string;
+          artist_name: string;
+          candidates: Record<string, unknown>[];
+          best_score: number | null;
+          message: Record<string, unknown>;
+          status: string;
+          genius_song_id: number | null;
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          track_id: string;
+          spotify_track_id: string;
+          track_name: string;
+          artist_name: string;
+          candidates: Record<string, unknown>[];
+          best_score?: number | null;
+          message: Record<string, unknown>;
+          status?: string;
+          genius_song_id?: number | null;
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+      };
+      track_performers: {
+        Row: {
+          id: number;
+          track_id: string;
+          spotify_artist_id: string | null;
+          artist_id: string | null;
+          name: string;
+          role: string;
+          position: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: number;
+          track_id: string;
+          spotify_artist_id?: string | null;
+          artist_id?: string | null;
+          name: string;
+          role?: string;
+          position?: number | null;
+          created_at?: string;
+        };
+      };
     };
     Functions: {
       pgmq_read: {
         Args: {
           queue_name: string;
-          vt: number;
-          qty: number;
+          visibility_timeout: number;
+          batch_size: number;
         };
         Returns: {
           msg_id: number;
@@ -124,6 +522,161 @@ export interface Database {
         };
         Returns: boolean;
       };
+      circuit_breaker_transition: {
+        Args: {
+          p_name: string;
+          p_event: string;
+          p_expected_state?: string | null;
+          p_details?: Record<string, unknown>;
+          p_actor?: string | null;
+        };
+        Returns: Database['public']['Tables']['circuit_breakers']['Row'];
+      };
+      record_pipeline_event: {
+        Args: {
+          p_run_id: string;
+          p_stage: string;
+          p_event: string;
+          p_count?: number;
+        };
+        Returns: undefined;
+      };
+      acquire_rate_limit_tokens: {
+        Args: {
+          p_key: string;
+          p_cost: number;
+          p_capacity: number;
+          p_refill_per_second: number;
+          p_max_wait_ms?: number;
+        };
+        Returns: {
+          granted: boolean;
+          wait_ms: number;
+          tokens_remaining: number;
+        }[];
+      };
+      block_rate_limit_bucket: {
+        Args: {
+          p_key: string;
+          p_until: string;
+          p_capacity: number;
+          p_refill_per_second: number;
+        };
+        Returns: undefined;
+      };
+      claim_artists_for_refresh: {
+        Args: {
+          p_limit?: number;
+          p_claim_timeout?: string;
+        };
+        Returns: {
+          artist_id: string;
+          spotify_id: string;
+          name: string;
+          popularity: number | null;
+          latest_release_date: string | null;
+        }[];
+      };
+      get_worker_control: {
+        Args: {
+          p_worker_name: string;
+        };
+        Returns: Database['public']['Tables']['worker_status']['Row'];
+      };
+      set_worker_state: {
+        Args: {
+          p_worker_name: string;
+          p_state: string;
+          p_reason?: string | null;
+          p_actor?: string | null;
+        };
+        Returns: Database['public']['Tables']['worker_status']['Row'];
+      };
+      set_worker_rate: {
+        Args: {
+          p_worker_name: string;
+          p_batch_size?: number | null;
+          p_delay_between_items_ms?: number | null;
+          p_reason?: string | null;
+          p_actor?: string | null;
+        };
+        Returns: Database['public']['Tables']['worker_status']['Row'];
+      };
+      merge_producers: {
+        Args: {
+          p_target_id: string;
+          p_source_ids: string[];
+          p_actor?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: Database['public']['Tables']['producers']['Row'];
+      };
+      split_producer: {
+        Args: {
+          p_producer_id: string;
+          p_name: string;
+          p_normalized_name: string;
+          p_track_ids: string[];
+          p_alias_ids?: number[];
+          p_actor?: string | null;
+          p_reason?: string | null;
+        };
+        Returns: Database['public']['Tables']['producers']['Row'];
+      };
+      producer_duplicate_candidates: {
+        Args: {
+          p_min_similarity?: number;
+          p_limit?: number;
+        };
+        Returns: {
+          producer_id: string;
+          producer_name: string;
+          duplicate_id: string;
+          duplicate_name: string;
+          name_similarity: number;
+          shared_artists: number;
+          shared_tracks: number;
+          score: number;
+        }[];
+      };
+      reclassify_collaborator_producers: {
+        Args: {
+          p_limit?: number;
+        };
+        Returns: {
+          performers: number;
+          credits_removed: number;
+          producers_deleted: number;
+          performers_linked: number;
+          remaining: number;
+        }[];
+      };
+      pgmq_send_dedup: {
+        Args: {
+          p_queue_name: string;
+          p_msg: Record<string, unknown>;
+          p_dedup_key: string;
+          p_ttl_seconds?: number;
+        };
+        Returns: number | null;
+      };
+      reinvoke_worker: {
+        Args: {
+          p_worker_name: string;
+          p_function_name: string;
+          p_lease_id: string;
+          p_lease_seconds: number;
+          p_body?: Record<string, unknown>;
+        };
+        Returns: boolean;
+      };
+      release_worker_lease: {
+        Args: {
+          p_worker_name: string;
+          p_lease_id: string;
+        };
+        Returns: boolean;
+      };
       pgmq_get_stalled_messages: {
         Args: {
           max_stalled_minutes?: number;
@@ -139,6 +692,30 @@ export interface Database {
       };
     };
     Views: {
+      artists_due_for_refresh: {
+        Row: {
+          id: string;
+          spotify_id: string;
+          name: string;
+          popularity: number | null;
+          last_crawled_at: string | null;
+          refresh_requested_at: string | null;
+          refresh_interval: string;
+          latest_release_date: string | null;
+        };
+      };
+      trace_summary: {
+        Row: {
+          trace_id: string;
+          start_time: string;
+          end_time: string;
+          duration_ms: number;
+          span_count: number;
+          error_count: number;
+          services: string[];
+          operations: string[];
+        };
+      };
       queue_stats: {
         Row: {
           queue_name: string;
@@ -146,6 +723,7 @@ export interface Database {
           messages_processed: number;
           success_count: number;
           error_count: number;
+          dead_letter_count: number;
           avg_processing_ms: number;
           max_processing_ms: number;
         };
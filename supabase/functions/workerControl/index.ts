@@ -0,0 +1,103 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.4';
+import { Database } from "../types.ts";
+import { logger } from "../lib/logger.ts";
+import { WORKER_NAMES, canonicalWorkerName, isWorkerName, setWorkerRate, setWorkerState } from "../lib/workerControl.ts";
+import { traceRequests } from "../lib/tracing.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const controlLogger = logger.child({ operation: 'workerControl' });
+
+const STATE_BY_ACTION = {
+  pause: 'paused',
+  resume: 'running',
+  drain: 'draining'
+} as const;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+}
+
+function optionalCount(value: unknown, min: number): number | null | undefined {
+  if (value === undefined || value === null) return null;
+  const count = Number(value);
+  return Number.isInteger(count) && count >= min ? count : undefined;
+}
+
+/**
+ * Pause, resume, drain and throttle workers. Changes apply to both the cron
+ * dispatcher and the worker itself from its next run.
+ *
+ * GET                                                        -> control state of every worker
+ * POST { action: 'pause' | 'resume' | 'drain', worker, reason?, actor? }
+ * POST { action: 'set-rate', worker, batchSize?, delayBetweenItemsMs?, reason?, actor? }
+ *      (omitted or null values restore the worker's own option)
+ */
+serve(traceRequests('workerControl', async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      Deno.env.get('SUPABASE_URL') || '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''
+    );
+
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('worker_status')
+        .select('*')
+        .order('worker_name');
+
+      if (error) throw error;
+
+      // Workers without a row are running with their own options
+      const workers = WORKER_NAMES.map(name =>
+        (data || []).find(row => row.worker_name === name) || { worker_name: name, state: 'running' }
+      );
+
+      return jsonResponse({ success: true, workers });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const worker = canonicalWorkerName(String(body.worker || ''));
+
+    if (!isWorkerName(worker)) {
+      return jsonResponse({ success: false, error: `worker must be one of: ${WORKER_NAMES.join(', ')}` }, 400);
+    }
+
+    const change = { reason: body.reason, actor: body.actor || 'workerControl' };
+
+    if (body.action in STATE_BY_ACTION) {
+      const state = STATE_BY_ACTION[body.action as keyof typeof STATE_BY_ACTION];
+      const status = await setWorkerState(supabase, worker, state, change);
+      return jsonResponse({ success: true, worker: status });
+    }
+
+    if (body.action === 'set-rate') {
+      const batchSize = optionalCount(body.batchSize, 1);
+      const delayBetweenItemsMs = optionalCount(body.delayBetweenItemsMs, 0);
+
+      if (batchSize === undefined || delayBetweenItemsMs === undefined) {
+        return jsonResponse({ success: false, error: 'batchSize must be an integer of at least 1 and delayBetweenItemsMs at least 0' }, 400);
+      }
+
+      const status = await setWorkerRate(supabase, worker, { batchSize, delayBetweenItemsMs }, change);
+      return jsonResponse({ success: true, worker: status });
+    }
+
+    return jsonResponse({ success: false, error: "action must be one of: pause, resume, drain, set-rate" }, 400);
+  } catch (error) {
+    controlLogger.error('Worker control error:', error);
+
+    return jsonResponse({ success: false, error: error.message }, 500);
+  }
+}));
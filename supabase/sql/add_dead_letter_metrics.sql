@@ -0,0 +1,21 @@
+
+-- Workers now record one queue_metrics row per delivery with status
+-- 'success', 'error' (will be retried) or 'dead_letter' (moved to pgmq_dead_letter_items)
+CREATE OR REPLACE VIEW public.queue_stats AS
+SELECT 
+  queue_name,
+  date_trunc('hour', processed_at) AS hour,
+  COUNT(*) AS messages_processed,
+  COUNT(*) FILTER (WHERE status = 'success') AS success_count,
+  COUNT(*) FILTER (WHERE status IN ('error', 'dead_letter')) AS error_count,
+  COUNT(*) FILTER (WHERE status = 'dead_letter') AS dead_letter_count,
+  AVG((details->>'processing_time_ms')::numeric) FILTER (WHERE status = 'success') AS avg_processing_ms,
+  MAX((details->>'processing_time_ms')::numeric) FILTER (WHERE status = 'success') AS max_processing_ms
+FROM 
+  queue_metrics
+WHERE 
+  msg_id <> 0 -- Skip legacy batch-level rows
+GROUP BY 
+  queue_name, hour
+ORDER BY 
+  hour DESC, queue_name;
@@ -0,0 +1,18 @@
+
+-- Concurrency limits learned by the AIMD controllers in the Spotify client,
+-- so each function invocation starts from the last known good limit
+CREATE TABLE IF NOT EXISTS public.adaptive_concurrency_limits (
+  name TEXT PRIMARY KEY, -- e.g. spotify-artists, spotify-albums, spotify-tracks
+  current_limit DOUBLE PRECISION NOT NULL,
+  last_decrease_at TIMESTAMPTZ,
+  -- successes, rate_limits and slow_calls counted by the function instance that
+  -- last saved the limit, since that instance started (across its invocations)
+  stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT ON public.adaptive_concurrency_limits TO anon;
+ALTER TABLE public.adaptive_concurrency_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading adaptive_concurrency_limits" ON public.adaptive_concurrency_limits
+  FOR SELECT USING (true);
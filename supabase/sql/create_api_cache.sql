@@ -0,0 +1,18 @@
+
+-- Persistent second tier of the API response cache, shared by all edge function instances
+CREATE TABLE IF NOT EXISTS public.api_cache (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  stale_until TIMESTAMPTZ NOT NULL, -- Stale entries are served until here while being refreshed
+  etag TEXT,
+  source TEXT NOT NULL DEFAULT 'unknown', -- Cache namespace: spotify, genius, instagram
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_cache_stale_until ON public.api_cache (stale_until);
+CREATE INDEX IF NOT EXISTS idx_api_cache_source ON public.api_cache (source);
+
+-- Only the service role reads and writes the cache
+ALTER TABLE public.api_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,110 @@
+
+-- Incremental re-crawl of known artists to pick up new releases
+
+-- When album discovery last finished an artist, and when a refresh was last queued for it
+ALTER TABLE public.artists ADD COLUMN IF NOT EXISTS last_crawled_at TIMESTAMPTZ;
+ALTER TABLE public.artists ADD COLUMN IF NOT EXISTS refresh_requested_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_artists_last_crawled_at ON public.artists (last_crawled_at NULLS FIRST);
+CREATE INDEX IF NOT EXISTS idx_albums_artist_release_date ON public.albums (artist_id, release_date DESC);
+
+-- How often artists are re-crawled, by Spotify popularity (0-100).
+-- An artist uses the tier with the highest min_popularity at or below its popularity.
+CREATE TABLE IF NOT EXISTS public.artist_refresh_cadence (
+  min_popularity INTEGER PRIMARY KEY CHECK (min_popularity BETWEEN 0 AND 100),
+  refresh_interval INTERVAL NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.artist_refresh_cadence (min_popularity, refresh_interval) VALUES
+  (70, interval '1 day'),
+  (40, interval '3 days'),
+  (0, interval '7 days')
+ON CONFLICT (min_popularity) DO NOTHING;
+
+GRANT SELECT ON public.artist_refresh_cadence TO anon;
+ALTER TABLE public.artist_refresh_cadence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading artist refresh cadence" ON public.artist_refresh_cadence
+  FOR SELECT USING (true);
+
+-- Artists whose last crawl is older than their cadence, with the newest release we have
+CREATE OR REPLACE VIEW public.artists_due_for_refresh AS
+SELECT
+  a.id,
+  a.spotify_id,
+  a.name,
+  a.popularity,
+  a.last_crawled_at,
+  a.refresh_requested_at,
+  c.refresh_interval,
+  (SELECT MAX(al.release_date) FROM albums al WHERE al.artist_id = a.id) AS latest_release_date
+FROM
+  artists a
+  CROSS JOIN LATERAL (
+    SELECT refresh_interval
+    FROM artist_refresh_cadence
+    WHERE min_popularity <= COALESCE(a.popularity, 0)
+    ORDER BY min_popularity DESC
+    LIMIT 1
+  ) c
+WHERE
+  a.spotify_id IS NOT NULL
+  AND (a.last_crawled_at IS NULL OR a.last_crawled_at < now() - c.refresh_interval);
+
+-- Claim up to p_limit due artists so concurrent schedulers don't queue them twice.
+-- A claim expires after p_claim_timeout if the crawl never records last_crawled_at.
+CREATE OR REPLACE FUNCTION public.claim_artists_for_refresh(
+  p_limit INTEGER DEFAULT 50,
+  p_claim_timeout INTERVAL DEFAULT interval '6 hours'
+)
+RETURNS TABLE (
+  artist_id UUID,
+  spotify_id TEXT,
+  name TEXT,
+  popularity INTEGER,
+  latest_release_date DATE
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.id, d.refresh_requested_at, d.latest_release_date
+    FROM artists_due_for_refresh d
+    WHERE d.refresh_requested_at IS NULL
+       OR d.refresh_requested_at < now() - p_claim_timeout
+       OR (d.last_crawled_at IS NOT NULL AND d.refresh_requested_at < d.last_crawled_at)
+    ORDER BY d.last_crawled_at NULLS FIRST, d.popularity DESC NULLS LAST
+    LIMIT p_limit
+  ),
+  claimed AS (
+    UPDATE artists a
+    SET refresh_requested_at = now()
+    FROM due
+    WHERE a.id = due.id
+      -- Lost the race if another scheduler claimed the artist meanwhile
+      AND a.refresh_requested_at IS NOT DISTINCT FROM due.refresh_requested_at
+    RETURNING a.id, a.spotify_id, a.name, a.popularity, due.latest_release_date
+  )
+  SELECT claimed.id, claimed.spotify_id, claimed.name, claimed.popularity, claimed.latest_release_date
+  FROM claimed;
+END;
+$$;
+
+-- Queue due artists for a refresh crawl every hour
+SELECT cron.schedule(
+  'artist-refresh',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url:=current_setting('app.settings.supabase_url') || '/functions/v1/albumDiscovery',
+    headers:=jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key')
+    ),
+    body:='{"action": "refresh"}'::jsonb
+  ) WHERE NOT is_worker_paused('artist_refresh');
+  $$
+);
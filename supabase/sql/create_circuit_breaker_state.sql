@@ -0,0 +1,215 @@
+
+-- Circuit breaker state lives only in circuit_breakers and only changes through
+-- circuit_breaker_transition, which locks the row, applies one event and records
+-- the transition in circuit_breaker_events in the same transaction.
+CREATE TABLE IF NOT EXISTS public.circuit_breakers (
+  name TEXT PRIMARY KEY,
+  state TEXT NOT NULL DEFAULT 'closed',
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  success_count INTEGER NOT NULL DEFAULT 0,
+  failure_threshold INTEGER NOT NULL,
+  reset_timeout_ms INTEGER NOT NULL,
+  last_failure_time TIMESTAMPTZ,
+  last_state_change TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.circuit_breakers
+  ADD COLUMN IF NOT EXISTS half_open_success_threshold INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS retry_at TIMESTAMPTZ,              -- When an open circuit may be probed
+  ADD COLUMN IF NOT EXISTS forced BOOLEAN NOT NULL DEFAULT false, -- Held open by an operator
+  ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS updated_by TEXT;
+
+UPDATE public.circuit_breakers SET state = 'half-open' WHERE state = 'half_open';
+UPDATE public.circuit_breakers
+SET retry_at = COALESCE(last_failure_time, last_state_change) + make_interval(secs => reset_timeout_ms / 1000.0)
+WHERE state = 'open' AND retry_at IS NULL;
+
+ALTER TABLE public.circuit_breakers DROP CONSTRAINT IF EXISTS circuit_breakers_state_check;
+ALTER TABLE public.circuit_breakers
+  ADD CONSTRAINT circuit_breakers_state_check CHECK (state IN ('closed', 'open', 'half-open'));
+
+CREATE TABLE IF NOT EXISTS public.circuit_breaker_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  circuit_name TEXT NOT NULL,
+  old_state TEXT NOT NULL,
+  new_state TEXT NOT NULL,
+  failure_count INTEGER NOT NULL,
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.circuit_breaker_events
+  ADD COLUMN IF NOT EXISTS event TEXT,
+  ADD COLUMN IF NOT EXISTS actor TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_circuit_breaker_events_circuit
+  ON public.circuit_breaker_events (circuit_name, created_at DESC);
+
+GRANT SELECT ON public.circuit_breaker_events TO anon;
+ALTER TABLE public.circuit_breaker_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading circuit_breaker_events" ON public.circuit_breaker_events
+  FOR SELECT USING (true);
+
+-- Apply one event to a circuit atomically:
+--   register     create the circuit with the given settings if it doesn't exist
+--   success      count a success; closes a half-open circuit after enough of them
+--   failure      count a failure; opens a closed circuit at the threshold, reopens a half-open one
+--   probe        move an open circuit whose retry time has passed to half-open
+--   force_open   hold the circuit open until force_close
+--   force_close  close the circuit and clear its counts
+--   tune         change failure_threshold, reset_timeout_ms or half_open_success_threshold
+-- With p_expected_state the event only applies if the circuit is still in that
+-- state (compare-and-set), so instances acting on a stale copy change nothing.
+-- p_details may carry the settings above, retry_after_ms and reason.
+-- Returns the circuit as it is after the call.
+CREATE OR REPLACE FUNCTION public.circuit_breaker_transition(
+  p_name TEXT,
+  p_event TEXT,
+  p_expected_state TEXT DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::jsonb,
+  p_actor TEXT DEFAULT NULL
+)
+RETURNS public.circuit_breakers
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_row public.circuit_breakers;
+  v_old public.circuit_breakers;
+  v_retry_after_ms BIGINT;
+BEGIN
+  INSERT INTO public.circuit_breakers (name, failure_threshold, reset_timeout_ms, half_open_success_threshold)
+  VALUES (
+    p_name,
+    COALESCE((p_details->>'failure_threshold')::int, 5),
+    COALESCE((p_details->>'reset_timeout_ms')::int, 30000),
+    COALESCE((p_details->>'half_open_success_threshold')::int, 1)
+  )
+  ON CONFLICT (name) DO NOTHING;
+
+  SELECT * INTO v_row FROM public.circuit_breakers WHERE name = p_name FOR UPDATE;
+  v_old := v_row;
+
+  IF p_expected_state IS NOT NULL AND v_row.state <> p_expected_state THEN
+    RETURN v_row;
+  END IF;
+
+  v_retry_after_ms := COALESCE((p_details->>'retry_after_ms')::bigint, v_row.reset_timeout_ms);
+
+  CASE p_event
+    WHEN 'register' THEN
+      NULL;
+
+    WHEN 'success' THEN
+      IF v_row.state = 'half-open' THEN
+        v_row.success_count := v_row.success_count + 1;
+        IF v_row.success_count >= v_row.half_open_success_threshold THEN
+          v_row.state := 'closed';
+          v_row.failure_count := 0;
+          v_row.success_count := 0;
+          v_row.retry_at := NULL;
+        END IF;
+      ELSIF v_row.state = 'closed' THEN
+        -- The threshold counts consecutive failures
+        v_row.failure_count := 0;
+      END IF;
+
+    WHEN 'failure' THEN
+      v_row.last_failure_time := now();
+      IF v_row.state = 'closed' THEN
+        v_row.failure_count := v_row.failure_count + 1;
+        IF v_row.failure_count >= v_row.failure_threshold THEN
+          v_row.state := 'open';
+          v_row.retry_at := now() + make_interval(secs => v_retry_after_ms / 1000.0);
+        END IF;
+      ELSIF v_row.state = 'half-open' THEN
+        v_row.state := 'open';
+        v_row.failure_count := v_row.failure_count + 1;
+        v_row.success_count := 0;
+        v_row.retry_at := now() + make_interval(secs => v_retry_after_ms / 1000.0);
+      ELSIF NOT v_row.forced THEN
+        -- Late failures of an open circuit can only push its retry time out
+        v_row.retry_at := GREATEST(v_row.retry_at, now() + make_interval(secs => v_retry_after_ms / 1000.0));
+      END IF;
+
+    WHEN 'probe' THEN
+      IF v_row.state = 'open' AND NOT v_row.forced AND COALESCE(v_row.retry_at, now()) <= now() THEN
+        v_row.state := 'half-open';
+        v_row.success_count := 0;
+      END IF;
+
+    WHEN 'force_open' THEN
+      v_row.state := 'open';
+      v_row.forced := true;
+      v_row.success_count := 0;
+      v_row.retry_at := NULL;
+
+    WHEN 'force_close' THEN
+      v_row.state := 'closed';
+      v_row.forced := false;
+      v_row.failure_count := 0;
+      v_row.success_count := 0;
+      v_row.retry_at := NULL;
+
+    WHEN 'tune' THEN
+      v_row.failure_threshold := COALESCE((p_details->>'failure_threshold')::int, v_row.failure_threshold);
+      v_row.reset_timeout_ms := COALESCE((p_details->>'reset_timeout_ms')::int, v_row.reset_timeout_ms);
+      v_row.half_open_success_threshold := COALESCE(
+        (p_details->>'half_open_success_threshold')::int,
+        v_row.half_open_success_threshold
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Unknown circuit breaker event %', p_event;
+  END CASE;
+
+  IF v_row IS NOT DISTINCT FROM v_old THEN
+    RETURN v_row;
+  END IF;
+
+  IF v_row.state <> v_old.state THEN
+    v_row.last_state_change := now();
+  END IF;
+  v_row.version := v_old.version + 1;
+  v_row.updated_by := COALESCE(p_actor, v_old.updated_by);
+
+  UPDATE public.circuit_breakers SET
+    state = v_row.state,
+    failure_count = v_row.failure_count,
+    success_count = v_row.success_count,
+    failure_threshold = v_row.failure_threshold,
+    reset_timeout_ms = v_row.reset_timeout_ms,
+    half_open_success_threshold = v_row.half_open_success_threshold,
+    last_failure_time = v_row.last_failure_time,
+    last_state_change = v_row.last_state_change,
+    retry_at = v_row.retry_at,
+    forced = v_row.forced,
+    version = v_row.version,
+    updated_by = v_row.updated_by
+  WHERE name = p_name;
+
+  -- Every state change and every operator action is part of the history
+  IF v_row.state <> v_old.state OR p_event IN ('force_open', 'force_close', 'tune') THEN
+    INSERT INTO public.circuit_breaker_events (circuit_name, old_state, new_state, failure_count, event, actor, details)
+    VALUES (
+      p_name,
+      v_old.state,
+      v_row.state,
+      v_row.failure_count,
+      p_event,
+      p_actor,
+      jsonb_build_object(
+        'reason', p_details->>'reason',
+        'failure_threshold', v_row.failure_threshold,
+        'reset_timeout_ms', v_row.reset_timeout_ms,
+        'half_open_success_threshold', v_row.half_open_success_threshold,
+        'retry_at', v_row.retry_at
+      )
+    );
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
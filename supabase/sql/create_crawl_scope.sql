@@ -0,0 +1,44 @@
+-- Configurable catalog coverage per artist, and how each album and track was found
+
+-- How much of the artist's catalog is crawled:
+--   primary    - own albums and singles, tracks where the artist is first
+--   features   - also tracks on those releases where the artist is featured
+--   appears_on - also compilations and other artists' releases the artist appears on
+ALTER TABLE public.artists ADD COLUMN IF NOT EXISTS crawl_scope TEXT NOT NULL DEFAULT 'primary'
+  CHECK (crawl_scope IN ('primary', 'features', 'appears_on'));
+
+-- How the artist whose crawl stored the album relates to it. A guest crawl never
+-- overwrites an album or track already stored for its own artist.
+ALTER TABLE public.albums ADD COLUMN IF NOT EXISTS relationship TEXT NOT NULL DEFAULT 'primary'
+  CHECK (relationship IN ('primary', 'appears_on', 'compilation'));
+
+-- How that artist is credited on the track
+ALTER TABLE public.tracks ADD COLUMN IF NOT EXISTS relationship TEXT NOT NULL DEFAULT 'primary'
+  CHECK (relationship IN ('primary', 'featured'));
+
+CREATE INDEX IF NOT EXISTS idx_albums_artist_relationship ON public.albums (artist_id, relationship);
+
+-- Guest appearances have their own release dates, so a refresh only starts
+-- from the newest release of the artist's own catalog
+CREATE OR REPLACE VIEW public.artists_due_for_refresh AS
+SELECT
+  a.id,
+  a.spotify_id,
+  a.name,
+  a.popularity,
+  a.last_crawled_at,
+  a.refresh_requested_at,
+  c.refresh_interval,
+  (SELECT MAX(al.release_date) FROM albums al WHERE al.artist_id = a.id AND al.relationship = 'primary') AS latest_release_date
+FROM
+  artists a
+  CROSS JOIN LATERAL (
+    SELECT refresh_interval
+    FROM artist_refresh_cadence
+    WHERE min_popularity <= COALESCE(a.popularity, 0)
+    ORDER BY min_popularity DESC
+    LIMIT 1
+  ) c
+WHERE
+  a.spotify_id IS NOT NULL
+  AND (a.last_crawled_at IS NULL OR a.last_crawled_at < now() - c.refresh_interval);
@@ -0,0 +1,48 @@
+
+-- Track replays of dead-lettered messages back into their original queue
+ALTER TABLE public.pgmq_dead_letter_items
+  ADD COLUMN IF NOT EXISTS replayed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS replayed_by TEXT,
+  ADD COLUMN IF NOT EXISTS replay_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_items_pending
+  ON public.pgmq_dead_letter_items (queue_name, failed_at DESC)
+  WHERE replayed_at IS NULL;
+
+-- Audit trail with one row per replayed message
+CREATE TABLE IF NOT EXISTS public.dead_letter_replays (
+  id BIGSERIAL PRIMARY KEY,
+  dead_letter_id BIGINT NOT NULL REFERENCES public.pgmq_dead_letter_items(id) ON DELETE CASCADE,
+  queue_name TEXT NOT NULL,
+  new_msg_id BIGINT,
+  replayed_by TEXT NOT NULL,
+  reason TEXT,
+  patch JSONB,
+  replayed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_replays_dead_letter_id
+  ON public.dead_letter_replays (dead_letter_id);
+
+GRANT SELECT ON public.dead_letter_replays TO anon;
+ALTER TABLE public.dead_letter_replays ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading dead_letter_replays" ON public.dead_letter_replays
+  FOR SELECT USING (true);
+
+-- Only count dead letters that are still waiting for a fix
+CREATE OR REPLACE VIEW public.dead_letter_analysis AS
+SELECT 
+  queue_name,
+  COALESCE(details->>'category', 'unknown') AS error_category,
+  COUNT(*) AS error_count,
+  MAX(failed_at) AS last_occurrence,
+  MIN(failed_at) AS first_occurrence
+FROM 
+  pgmq_dead_letter_items
+WHERE 
+  replayed_at IS NULL
+GROUP BY 
+  queue_name, error_category
+ORDER BY 
+  error_count DESC;
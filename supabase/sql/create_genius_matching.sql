@@ -0,0 +1,35 @@
+-- Genius song matched to each track, and ambiguous matches waiting for a reviewer
+
+-- The Genius song whose credits were used, and how well it matched (0-1).
+-- A score of 1 means a reviewer chose the song.
+ALTER TABLE public.tracks ADD COLUMN IF NOT EXISTS genius_song_id BIGINT;
+ALTER TABLE public.tracks ADD COLUMN IF NOT EXISTS genius_match_score NUMERIC(4, 3);
+
+CREATE INDEX IF NOT EXISTS idx_tracks_genius_song_id ON public.tracks (genius_song_id);
+
+-- One review per track; accepting it requeues the producer identification message with the chosen song
+CREATE TABLE IF NOT EXISTS public.genius_match_reviews (
+  id BIGSERIAL PRIMARY KEY,
+  track_id UUID NOT NULL UNIQUE REFERENCES public.tracks(id) ON DELETE CASCADE,
+  spotify_track_id TEXT NOT NULL,
+  track_name TEXT NOT NULL,
+  artist_name TEXT NOT NULL,
+  candidates JSONB NOT NULL, -- Scored search hits, best first
+  best_score NUMERIC(4, 3),
+  message JSONB NOT NULL,    -- The producer identification message to requeue
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  genius_song_id BIGINT,     -- The song the reviewer accepted
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_genius_match_reviews_pending
+  ON public.genius_match_reviews (created_at)
+  WHERE status = 'pending';
+
+GRANT SELECT ON public.genius_match_reviews TO anon;
+ALTER TABLE public.genius_match_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading genius_match_reviews" ON public.genius_match_reviews
+  FOR SELECT USING (true);
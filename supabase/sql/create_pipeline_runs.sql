@@ -0,0 +1,98 @@
+
+-- One row per artist seed, tracking everything the seed spawns across the pipeline
+CREATE TABLE IF NOT EXISTS public.pipeline_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_spotify_id TEXT,
+  artist_name TEXT,
+  source TEXT NOT NULL DEFAULT 'manual',
+  seeding_job_id UUID,
+  status TEXT NOT NULL DEFAULT 'running', -- running, completed, completed_with_errors
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  last_activity_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_artist
+  ON public.pipeline_runs (artist_spotify_id, started_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_runs_seeding_job
+  ON public.pipeline_runs (seeding_job_id)
+  WHERE seeding_job_id IS NOT NULL;
+
+-- Per-stage message counters of a run
+CREATE TABLE IF NOT EXISTS public.pipeline_run_stages (
+  run_id UUID NOT NULL REFERENCES public.pipeline_runs(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL,
+  pending INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (run_id, stage)
+);
+
+GRANT SELECT ON public.pipeline_runs TO anon;
+GRANT SELECT ON public.pipeline_run_stages TO anon;
+ALTER TABLE public.pipeline_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pipeline_run_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading pipeline_runs" ON public.pipeline_runs
+  FOR SELECT USING (true);
+CREATE POLICY "Allow reading pipeline_run_stages" ON public.pipeline_run_stages
+  FOR SELECT USING (true);
+
+-- Atomically apply an 'enqueued', 'processed' or 'failed' event to a stage of a run.
+-- A run is finished once no stage has pending messages; a later enqueue
+-- (e.g. a dead letter replay) reopens it. Senders record 'enqueued' before the
+-- send and a count of -1 when it fails. pending isn't floored at 0, so an
+-- event recorded out of order shows up as a negative count.
+CREATE OR REPLACE FUNCTION public.record_pipeline_event(
+  p_run_id UUID,
+  p_stage TEXT,
+  p_event TEXT,
+  p_count INTEGER DEFAULT 1
+)
+RETURNS VOID AS $$
+DECLARE
+  v_pending BIGINT;
+  v_failed BIGINT;
+BEGIN
+  IF p_event NOT IN ('enqueued', 'processed', 'failed') THEN
+    RAISE EXCEPTION 'Unknown pipeline event: %', p_event;
+  END IF;
+
+  -- Runs started outside the seed endpoint still get a row
+  INSERT INTO pipeline_runs (id) VALUES (p_run_id)
+  ON CONFLICT (id) DO NOTHING;
+
+  INSERT INTO pipeline_run_stages (run_id, stage, pending, processed, failed)
+  VALUES (
+    p_run_id,
+    p_stage,
+    CASE WHEN p_event = 'enqueued' THEN p_count ELSE -p_count END,
+    CASE WHEN p_event = 'processed' THEN p_count ELSE 0 END,
+    CASE WHEN p_event = 'failed' THEN p_count ELSE 0 END
+  )
+  ON CONFLICT (run_id, stage) DO UPDATE SET
+    pending = pipeline_run_stages.pending +
+      CASE WHEN p_event = 'enqueued' THEN p_count ELSE -p_count END,
+    processed = pipeline_run_stages.processed + EXCLUDED.processed,
+    failed = pipeline_run_stages.failed + EXCLUDED.failed,
+    updated_at = now();
+
+  SELECT COALESCE(SUM(pending), 0), COALESCE(SUM(failed), 0)
+  INTO v_pending, v_failed
+  FROM pipeline_run_stages
+  WHERE run_id = p_run_id;
+
+  UPDATE pipeline_runs SET
+    last_activity_at = now(),
+    status = CASE
+      WHEN v_pending > 0 THEN 'running'
+      WHEN v_failed > 0 THEN 'completed_with_errors'
+      ELSE 'completed'
+    END,
+    finished_at = CASE WHEN v_pending > 0 THEN NULL ELSE COALESCE(finished_at, now()) END
+  WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,29 @@
+
+-- High priority lane per pipeline stage. The original queue of each stage is
+-- its low lane; PageWorker polls both, favoring the high lane.
+-- Each lane is created on its own, so one that already exists doesn't skip the rest.
+DO $$
+DECLARE
+  v_queue TEXT;
+BEGIN
+  FOREACH v_queue IN ARRAY ARRAY[
+    'artist_discovery_high',
+    'album_discovery_high',
+    'track_discovery_high',
+    'producer_identification_high',
+    'social_enrichment_high'
+  ] LOOP
+    IF EXISTS (SELECT 1 FROM pgmq.list_queues() WHERE queue_name = v_queue) THEN
+      RAISE NOTICE 'Queue already exists: %', v_queue;
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      PERFORM pgmq.create(v_queue);
+    EXCEPTION
+      WHEN duplicate_table THEN
+        RAISE NOTICE 'Queue already exists: %', v_queue;
+    END;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,388 @@
+-- Producer identities: every name and external id a producer is known by,
+-- merge and split operations, and a report of likely duplicates.
+-- Merges and splits work on credits per role, so run
+-- create_track_producer_roles.sql right after this file.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- kind 'name' holds a normalized name; 'genius' and 'spotify' hold artist ids.
+-- An external id belongs to one producer, a name can belong to several.
+CREATE TABLE IF NOT EXISTS public.producer_aliases (
+  id BIGSERIAL PRIMARY KEY,
+  producer_id UUID NOT NULL REFERENCES public.producers(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('name', 'genius', 'spotify')),
+  value TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'pipeline', -- pipeline, backfill, merge, split or admin
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (producer_id, kind, value)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_producer_aliases_external_id
+  ON public.producer_aliases (kind, value)
+  WHERE kind <> 'name';
+
+CREATE INDEX IF NOT EXISTS idx_producer_aliases_value ON public.producer_aliases (value);
+
+-- Merges, splits and aliases added by hand; producer ids stay readable after a merge deletes them
+CREATE TABLE IF NOT EXISTS public.producer_identity_events (
+  id BIGSERIAL PRIMARY KEY,
+  event TEXT NOT NULL CHECK (event IN ('merge', 'split', 'alias')),
+  producer_id UUID NOT NULL,         -- The merge target, the split producer or the aliased producer
+  related_ids UUID[] NOT NULL DEFAULT '{}', -- The merged producers, or the producer split off
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_producer_identity_events_producer
+  ON public.producer_identity_events (producer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_producer_identity_events_related
+  ON public.producer_identity_events USING gin (related_ids);
+
+-- Two people can share a name, so the name no longer identifies a producer
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  FOR constraint_name IN
+    SELECT con.conname
+    FROM pg_constraint con
+    JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY (con.conkey)
+    WHERE con.conrelid = 'public.producers'::regclass
+      AND con.contype = 'u'
+      AND att.attname = 'normalized_name'
+      AND array_length(con.conkey, 1) = 1
+  LOOP
+    EXECUTE format('ALTER TABLE public.producers DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_producers_normalized_name ON public.producers (normalized_name);
+CREATE INDEX IF NOT EXISTS idx_producers_normalized_name_trgm
+  ON public.producers USING gin (normalized_name gin_trgm_ops);
+
+-- Backfill: each producer's name, also as normalized now (hyphens became spaces),
+-- and the external ids recorded in its metadata
+INSERT INTO public.producer_aliases (producer_id, kind, value, source)
+SELECT id, 'name', normalized_name, 'backfill'
+FROM public.producers
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.producer_aliases (producer_id, kind, value, source)
+SELECT id, 'name', trim(regexp_replace(
+    regexp_replace(regexp_replace(lower(name), '[-_/]', ' ', 'g'), '[^a-z0-9À-ÿ\s]', '', 'g'),
+    '\s+', ' ', 'g')), 'backfill'
+FROM public.producers
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.producer_aliases (producer_id, kind, value, source)
+SELECT DISTINCT ON (split_part(external_id, '-', 1), substring(external_id FROM position('-' IN external_id) + 1))
+  p.id,
+  split_part(external_id, '-', 1),
+  substring(external_id FROM position('-' IN external_id) + 1),
+  'backfill'
+FROM public.producers p,
+  jsonb_array_elements_text(COALESCE(p.metadata->'external_ids', '[]'::jsonb)) AS external_id
+WHERE split_part(external_id, '-', 1) IN ('genius', 'spotify')
+ORDER BY split_part(external_id, '-', 1), substring(external_id FROM position('-' IN external_id) + 1), p.created_at
+ON CONFLICT DO NOTHING;
+
+GRANT SELECT ON public.producer_aliases TO anon;
+GRANT SELECT ON public.producer_identity_events TO anon;
+ALTER TABLE public.producer_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.producer_identity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading producer_aliases" ON public.producer_aliases
+  FOR SELECT USING (true);
+CREATE POLICY "Allow reading producer_identity_events" ON public.producer_identity_events
+  FOR SELECT USING (true);
+
+-- Merge producers into a target in one transaction: their track credits,
+-- aliases and metadata move to the target, and the merged rows are deleted.
+-- Credits are combined per role.
+CREATE OR REPLACE FUNCTION public.merge_producers(
+  p_target_id UUID,
+  p_source_ids UUID[],
+  p_actor TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.producers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_target public.producers;
+  v_source public.producers;
+  v_metadata JSONB;
+  v_merged JSONB := '[]'::jsonb;
+BEGIN
+  IF p_target_id = ANY (p_source_ids) THEN
+    RAISE EXCEPTION 'Cannot merge producer % into itself', p_target_id;
+  END IF;
+
+  SELECT * INTO v_target FROM public.producers WHERE id = p_target_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Producer % not found', p_target_id;
+  END IF;
+
+  v_metadata := COALESCE(v_target.metadata, '{}'::jsonb);
+
+  FOR v_source IN
+    SELECT * FROM public.producers WHERE id = ANY (p_source_ids) ORDER BY created_at FOR UPDATE
+  LOOP
+    -- The target's own values win
+    v_metadata := COALESCE(v_source.metadata, '{}'::jsonb) || v_metadata;
+    v_merged := v_merged || jsonb_build_object('id', v_source.id, 'name', v_source.name);
+
+    UPDATE public.producers SET
+      image_url = COALESCE(image_url, v_source.image_url),
+      instagram_handle = COALESCE(instagram_handle, v_source.instagram_handle),
+      instagram_bio = COALESCE(instagram_bio, v_source.instagram_bio),
+      email = COALESCE(email, v_source.email),
+      enriched_at = COALESCE(enriched_at, v_source.enriched_at)
+    WHERE id = p_target_id;
+  END LOOP;
+
+  IF jsonb_array_length(v_merged) <> COALESCE(array_length(p_source_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Not every producer of % exists', p_source_ids;
+  END IF;
+
+  -- Lists are combined rather than replaced
+  SELECT v_metadata || jsonb_build_object(
+      'roles', COALESCE(jsonb_agg(DISTINCT value) FILTER (WHERE key = 'roles'), '[]'::jsonb),
+      'sources', COALESCE(jsonb_agg(DISTINCT value) FILTER (WHERE key = 'sources'), '[]'::jsonb),
+      'external_ids', COALESCE(jsonb_agg(DISTINCT value) FILTER (WHERE key = 'external_ids'), '[]'::jsonb),
+      'merged_from', COALESCE(v_target.metadata->'merged_from', '[]'::jsonb) || v_merged
+    )
+  INTO v_metadata
+  FROM public.producers p,
+    LATERAL (VALUES ('roles'), ('sources'), ('external_ids')) AS lists(key),
+    LATERAL jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(p.metadata->key) = 'array' THEN p.metadata->key ELSE '[]'::jsonb END
+    ) AS value
+  WHERE p.id = p_target_id OR p.id = ANY (p_source_ids);
+
+  UPDATE public.producers SET metadata = v_metadata, updated_at = now() WHERE id = p_target_id;
+
+  -- Credits in a role the target already has on the track keep the higher confidence
+  UPDATE public.track_producers t
+  SET confidence = GREATEST(t.confidence, s.confidence)
+  FROM public.track_producers s
+  WHERE t.producer_id = p_target_id
+    AND s.producer_id = ANY (p_source_ids)
+    AND s.track_id = t.track_id
+    AND s.role = t.role;
+
+  DELETE FROM public.track_producers s
+  WHERE s.producer_id = ANY (p_source_ids)
+    AND EXISTS (
+      SELECT 1 FROM public.track_producers t
+      WHERE t.producer_id = p_target_id AND t.track_id = s.track_id AND t.role = s.role
+    );
+
+  -- Two merged producers in the same role on a track become one credit
+  DELETE FROM public.track_producers s
+  USING public.track_producers d
+  WHERE s.producer_id = ANY (p_source_ids)
+    AND d.producer_id = ANY (p_source_ids)
+    AND s.track_id = d.track_id
+    AND s.role = d.role
+    AND (s.confidence, s.id) < (d.confidence, d.id);
+
+  UPDATE public.track_producers SET producer_id = p_target_id WHERE producer_id = ANY (p_source_ids);
+
+  -- Every name and id of the merged producers now finds the target
+  DELETE FROM public.producer_aliases s
+  WHERE s.producer_id = ANY (p_source_ids)
+    AND EXISTS (
+      SELECT 1 FROM public.producer_aliases t
+      WHERE t.producer_id = p_target_id AND t.kind = s.kind AND t.value = s.value
+    );
+
+  DELETE FROM public.producer_aliases s
+  USING public.producer_aliases d
+  WHERE s.producer_id = ANY (p_source_ids)
+    AND d.producer_id = ANY (p_source_ids)
+    AND s.kind = d.kind AND s.value = d.value
+    AND s.id > d.id;
+
+  UPDATE public.producer_aliases SET producer_id = p_target_id WHERE producer_id = ANY (p_source_ids);
+
+  INSERT INTO public.producer_aliases (producer_id, kind, value, source)
+  SELECT p_target_id, 'name', normalized_name, 'merge'
+  FROM public.producers
+  WHERE id = ANY (p_source_ids) OR id = p_target_id
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.producers WHERE id = ANY (p_source_ids);
+
+  INSERT INTO public.producer_identity_events (event, producer_id, related_ids, details, actor)
+  VALUES ('merge', p_target_id, p_source_ids, jsonb_build_object('reason', p_reason, 'merged', v_merged), p_actor);
+
+  SELECT * INTO v_target FROM public.producers WHERE id = p_target_id;
+  RETURN v_target;
+END;
+$$;
+
+-- Split some of a producer's track credits and external ids off into a new
+-- producer, e.g. when two people who share a name were resolved as one
+CREATE OR REPLACE FUNCTION public.split_producer(
+  p_producer_id UUID,
+  p_name TEXT,
+  p_normalized_name TEXT,
+  p_track_ids UUID[],
+  p_alias_ids BIGINT[] DEFAULT '{}',
+  p_actor TEXT DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS public.producers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_producer public.producers;
+  v_split public.producers;
+  v_moved_tracks INTEGER;
+  v_moved_aliases INTEGER;
+BEGIN
+  SELECT * INTO v_producer FROM public.producers WHERE id = p_producer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Producer % not found', p_producer_id;
+  END IF;
+
+  INSERT INTO public.producers (name, normalized_name, metadata)
+  VALUES (p_name, p_normalized_name, jsonb_build_object(
+    'source', 'split',
+    'split_from', p_producer_id,
+    'discovery_timestamp', now()
+  ))
+  RETURNING * INTO v_split;
+
+  UPDATE public.track_producers
+  SET producer_id = v_split.id
+  WHERE producer_id = p_producer_id AND track_id = ANY (p_track_ids);
+  GET DIAGNOSTICS v_moved_tracks = ROW_COUNT;
+
+  UPDATE public.producer_aliases
+  SET producer_id = v_split.id, source = 'split'
+  WHERE producer_id = p_producer_id AND id = ANY (p_alias_ids) AND kind <> 'name';
+  GET DIAGNOSTICS v_moved_aliases = ROW_COUNT;
+
+  -- The ids moved away no longer describe the original producer, and each
+  -- producer's roles are the roles of the credits it keeps
+  UPDATE public.producers
+  SET metadata = jsonb_set(COALESCE(metadata, '{}'::jsonb), '{external_ids}', COALESCE((
+      SELECT jsonb_agg(external_id)
+      FROM jsonb_array_elements_text(COALESCE(metadata->'external_ids', '[]'::jsonb)) AS external_id
+      WHERE external_id NOT IN (
+        SELECT a.kind || '-' || a.value FROM public.producer_aliases a WHERE a.producer_id = v_split.id
+      )
+    ), '[]'::jsonb)) || jsonb_build_object('roles', COALESCE((
+      SELECT jsonb_agg(DISTINCT tp.role) FROM public.track_producers tp
+      WHERE tp.producer_id = p_producer_id AND tp.role <> 'collaborator'
+    ), '[]'::jsonb)),
+    updated_at = now()
+  WHERE id = p_producer_id;
+
+  UPDATE public.producers
+  SET metadata = metadata || jsonb_build_object(
+    'external_ids', COALESCE((
+      SELECT jsonb_agg(a.kind || '-' || a.value) FROM public.producer_aliases a WHERE a.producer_id = v_split.id
+    ), '[]'::jsonb),
+    'roles', COALESCE((
+      SELECT jsonb_agg(DISTINCT tp.role) FROM public.track_producers tp
+      WHERE tp.producer_id = v_split.id AND tp.role <> 'collaborator'
+    ), '[]'::jsonb)
+  )
+  WHERE id = v_split.id
+  RETURNING * INTO v_split;
+
+  INSERT INTO public.producer_aliases (producer_id, kind, value, source)
+  VALUES (v_split.id, 'name', p_normalized_name, 'split')
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.producer_identity_events (event, producer_id, related_ids, details, actor)
+  VALUES ('split', p_producer_id, ARRAY[v_split.id], jsonb_build_object(
+    'reason', p_reason,
+    'name', p_name,
+    'tracks', v_moved_tracks,
+    'aliases', v_moved_aliases
+  ), p_actor);
+
+  RETURN v_split;
+END;
+$$;
+
+-- Only the service role merges and splits producers
+REVOKE EXECUTE ON FUNCTION public.merge_producers(UUID, UUID[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.split_producer(UUID, TEXT, TEXT, UUID[], BIGINT[], TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Pairs of producers that are likely the same person, most likely first.
+-- Names are compared by trigram similarity; shared artists are the album
+-- artists both produced for, shared tracks the tracks credited to both
+-- (in any role, counting each track once).
+-- Producers split from each other are known to be different people.
+CREATE OR REPLACE FUNCTION public.producer_duplicate_candidates(
+  p_min_similarity REAL DEFAULT 0.4,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  producer_id UUID,
+  producer_name TEXT,
+  duplicate_id UUID,
+  duplicate_name TEXT,
+  name_similarity REAL,
+  shared_artists INTEGER,
+  shared_tracks INTEGER,
+  score REAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM set_config('pg_trgm.similarity_threshold', p_min_similarity::text, true);
+
+  RETURN QUERY
+  WITH pairs AS (
+    SELECT a.id AS a_id, a.name AS a_name, b.id AS b_id, b.name AS b_name,
+      similarity(a.normalized_name, b.normalized_name) AS name_similarity
+    FROM public.producers a
+    JOIN public.producers b ON a.normalized_name % b.normalized_name AND a.id < b.id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.producer_identity_events e
+      WHERE e.event = 'split'
+        AND ((e.producer_id = a.id AND b.id = ANY (e.related_ids))
+          OR (e.producer_id = b.id AND a.id = ANY (e.related_ids)))
+    )
+  ),
+  producer_artists AS (
+    SELECT DISTINCT tp.producer_id, al.artist_id
+    FROM public.track_producers tp
+    JOIN public.tracks t ON t.id = tp.track_id
+    JOIN public.albums al ON al.id = t.album_id
+    WHERE tp.producer_id IN (SELECT a_id FROM pairs UNION SELECT b_id FROM pairs)
+  ),
+  scored AS (
+    SELECT p.*,
+      (SELECT count(*)::INTEGER FROM producer_artists x
+        JOIN producer_artists y ON y.artist_id = x.artist_id AND y.producer_id = p.b_id
+        WHERE x.producer_id = p.a_id) AS shared_artists,
+      (SELECT count(DISTINCT x.track_id)::INTEGER FROM public.track_producers x
+        JOIN public.track_producers y ON y.track_id = x.track_id AND y.producer_id = p.b_id
+        WHERE x.producer_id = p.a_id) AS shared_tracks
+    FROM pairs p
+  )
+  SELECT s.a_id, s.a_name, s.b_id, s.b_name, s.name_similarity, s.shared_artists, s.shared_tracks,
+    (0.6 * s.name_similarity
+      + 0.3 * LEAST(s.shared_artists, 5) / 5.0
+      + CASE WHEN s.shared_tracks > 0 THEN 0.1 ELSE 0 END)::REAL
+  FROM scored s
+  ORDER BY 8 DESC, s.name_similarity DESC
+  LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.producer_duplicate_candidates(REAL, INTEGER) TO anon;
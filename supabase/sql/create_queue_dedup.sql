@@ -0,0 +1,79 @@
+
+-- Deduplication keys for idempotent enqueue: a message sent with a key that was
+-- already used within its TTL is dropped, atomically with the send.
+CREATE TABLE IF NOT EXISTS public.queue_dedup (
+  dedup_key TEXT PRIMARY KEY, -- e.g. track_discovery:{albumId}:{offset}
+  queue_name TEXT NOT NULL,
+  msg_id BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_dedup_expires_at ON public.queue_dedup (expires_at);
+
+GRANT SELECT ON public.queue_dedup TO anon;
+ALTER TABLE public.queue_dedup ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading queue_dedup" ON public.queue_dedup
+  FOR SELECT USING (true);
+
+-- Send a message unless its dedup key is still live. Returns the new msg_id, or
+-- NULL for a duplicate, which is counted in queue_metrics as 'deduplicated'.
+-- An expired key is taken over by the new message.
+CREATE OR REPLACE FUNCTION public.pgmq_send_dedup(
+  p_queue_name TEXT,
+  p_msg JSONB,
+  p_dedup_key TEXT,
+  p_ttl_seconds INTEGER DEFAULT 21600
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_claimed TEXT;
+  v_existing_msg_id BIGINT;
+  v_msg_id BIGINT;
+BEGIN
+  INSERT INTO public.queue_dedup (dedup_key, queue_name, expires_at)
+  VALUES (p_dedup_key, p_queue_name, now() + make_interval(secs => p_ttl_seconds))
+  ON CONFLICT (dedup_key) DO UPDATE SET
+    queue_name = EXCLUDED.queue_name,
+    msg_id = NULL,
+    created_at = now(),
+    expires_at = EXCLUDED.expires_at
+  WHERE queue_dedup.expires_at <= now()
+  RETURNING dedup_key INTO v_claimed;
+
+  IF v_claimed IS NULL THEN
+    SELECT msg_id INTO v_existing_msg_id FROM public.queue_dedup WHERE dedup_key = p_dedup_key;
+
+    -- Metrics are per stage, so both priority lanes count under the stage name
+    INSERT INTO public.queue_metrics (queue_name, msg_id, status, details)
+    VALUES (
+      regexp_replace(p_queue_name, '_high$', ''),
+      COALESCE(v_existing_msg_id, 0),
+      'deduplicated',
+      jsonb_build_object('dedup_key', p_dedup_key, 'queue', p_queue_name)
+    );
+
+    RETURN NULL;
+  END IF;
+
+  SELECT pgmq.send(p_queue_name, p_msg) INTO v_msg_id;
+
+  UPDATE public.queue_dedup SET msg_id = v_msg_id WHERE dedup_key = p_dedup_key;
+
+  RETURN v_msg_id;
+END;
+$$;
+
+-- Skipped enqueues per stage and hour
+CREATE OR REPLACE VIEW public.queue_dedup_stats AS
+SELECT
+  queue_name,
+  date_trunc('hour', processed_at) AS hour,
+  COUNT(*) AS skipped
+FROM public.queue_metrics
+WHERE status = 'deduplicated'
+GROUP BY queue_name, date_trunc('hour', processed_at);
@@ -0,0 +1,94 @@
+
+-- Token buckets shared by all workers; replaces the select-then-increment counters in rate_limits
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  key TEXT PRIMARY KEY,
+  tokens DOUBLE PRECISION NOT NULL, -- Negative while reservations are waiting for refill
+  capacity DOUBLE PRECISION NOT NULL,
+  refill_per_second DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp() -- Tokens were last refilled up to here
+);
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_events (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  event TEXT NOT NULL, -- acquired, waited, denied, blocked
+  details JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_key_created
+  ON public.rate_limit_events (key, created_at DESC);
+
+-- Atomically refill a bucket and reserve p_cost tokens.
+-- Returns how long the caller must wait before using them; if that is longer
+-- than p_max_wait_ms nothing is reserved and granted is false.
+CREATE OR REPLACE FUNCTION public.acquire_rate_limit_tokens(
+  p_key TEXT,
+  p_cost DOUBLE PRECISION,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_second DOUBLE PRECISION,
+  p_max_wait_ms INTEGER DEFAULT 60000
+)
+RETURNS TABLE (granted BOOLEAN, wait_ms INTEGER, tokens_remaining DOUBLE PRECISION) AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_bucket rate_limit_buckets%ROWTYPE;
+  v_tokens DOUBLE PRECISION;
+  v_wait_ms INTEGER;
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, capacity, refill_per_second, updated_at)
+  VALUES (p_key, p_capacity, p_capacity, p_refill_per_second, v_now)
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO v_bucket FROM rate_limit_buckets WHERE key = p_key FOR UPDATE;
+
+  -- updated_at may be in the future after block_rate_limit_bucket, which makes the refill negative
+  v_tokens := LEAST(
+    p_capacity,
+    v_bucket.tokens + EXTRACT(EPOCH FROM (v_now - v_bucket.updated_at)) * p_refill_per_second
+  );
+
+  v_wait_ms := CASE
+    WHEN v_tokens >= p_cost THEN 0
+    ELSE CEIL((p_cost - v_tokens) / p_refill_per_second * 1000)::INTEGER
+  END;
+
+  IF v_wait_ms > p_max_wait_ms THEN
+    UPDATE rate_limit_buckets SET
+      tokens = v_tokens,
+      capacity = p_capacity,
+      refill_per_second = p_refill_per_second,
+      updated_at = v_now
+    WHERE key = p_key;
+
+    RETURN QUERY SELECT FALSE, v_wait_ms, v_tokens;
+    RETURN;
+  END IF;
+
+  UPDATE rate_limit_buckets SET
+    tokens = v_tokens - p_cost,
+    capacity = p_capacity,
+    refill_per_second = p_refill_per_second,
+    updated_at = v_now
+  WHERE key = p_key;
+
+  RETURN QUERY SELECT TRUE, v_wait_ms, v_tokens - p_cost;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Empty a bucket and start refilling it only at p_until (e.g. from a Retry-After header)
+CREATE OR REPLACE FUNCTION public.block_rate_limit_bucket(
+  p_key TEXT,
+  p_until TIMESTAMPTZ,
+  p_capacity DOUBLE PRECISION,
+  p_refill_per_second DOUBLE PRECISION
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO rate_limit_buckets (key, tokens, capacity, refill_per_second, updated_at)
+  VALUES (p_key, 0, p_capacity, p_refill_per_second, p_until)
+  ON CONFLICT (key) DO UPDATE SET
+    tokens = LEAST(rate_limit_buckets.tokens, 0),
+    updated_at = GREATEST(rate_limit_buckets.updated_at, p_until);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,14 @@
+-- Refresh tokens Spotify users granted to the configured apps through the
+-- spotifyAuth function (Authorization Code Flow). Workers request the tokens
+-- of an app listed here on behalf of its user, and the others with client
+-- credentials. Secrets: only the service role may read them.
+CREATE TABLE IF NOT EXISTS public.spotify_user_tokens (
+  client_id TEXT PRIMARY KEY,
+  refresh_token TEXT NOT NULL,
+  scope TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.spotify_user_tokens ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.spotify_user_tokens FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,42 @@
+
+-- Spans recorded by the edge functions, one row per span
+CREATE TABLE IF NOT EXISTS public.traces (
+  span_id TEXT PRIMARY KEY,
+  trace_id TEXT NOT NULL,
+  parent_span_id TEXT,
+  name TEXT NOT NULL,
+  service TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'internal', -- internal, server, client, producer, consumer
+  start_time TIMESTAMPTZ NOT NULL,
+  end_time TIMESTAMPTZ NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'ok', -- ok, error
+  status_message TEXT,
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_traces_trace_id ON public.traces (trace_id);
+CREATE INDEX IF NOT EXISTS idx_traces_start_time ON public.traces (start_time DESC);
+
+GRANT SELECT ON public.traces TO anon;
+ALTER TABLE public.traces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow reading traces" ON public.traces
+  FOR SELECT USING (true);
+
+-- One row per trace, used by the check_trace_health maintenance task
+CREATE OR REPLACE VIEW public.trace_summary AS
+SELECT
+  trace_id,
+  MIN(start_time) AS start_time,
+  MAX(end_time) AS end_time,
+  EXTRACT(EPOCH FROM (MAX(end_time) - MIN(start_time))) * 1000 AS duration_ms,
+  COUNT(*) AS span_count,
+  COUNT(*) FILTER (WHERE status = 'error') AS error_count,
+  ARRAY_AGG(DISTINCT service) AS services,
+  ARRAY_AGG(DISTINCT name) AS operations
+FROM
+  traces
+GROUP BY
+  trace_id;
@@ -0,0 +1,67 @@
+-- Credits model: one track_credits row per track, person and role, with the
+-- source that credited it, the raw evidence, a confidence and timestamps.
+-- Run after create_track_producer_roles.sql.
+
+-- The existing credits become the first track_credits rows. On a re-run
+-- track_credits exists and track_producers is the view defined below.
+DO $$
+BEGIN
+  IF to_regclass('public.track_credits') IS NULL THEN
+    ALTER TABLE public.track_producers RENAME TO track_credits;
+  END IF;
+END $$;
+
+ALTER INDEX IF EXISTS public.idx_track_producers_track_producer_role RENAME TO idx_track_credits_track_producer_role;
+ALTER INDEX IF EXISTS public.idx_track_producers_producer_role RENAME TO idx_track_credits_producer_role;
+
+-- track_producers was created with each foreign key twice, which makes
+-- embedding track_credits from tracks or producers ambiguous (PGRST201).
+-- Keep track_producers_track_id_fkey and track_producers_producer_id_fkey.
+ALTER TABLE public.track_credits DROP CONSTRAINT IF EXISTS fk_track_producers_track;
+ALTER TABLE public.track_credits DROP CONSTRAINT IF EXISTS fk_track_producers_producer;
+
+-- What the source said, e.g. {"genius_song_id": 378195, "genius_artist_id": 649, "spotify_track_id": "..."}
+-- or {"spotify_artist_id": "...", "spotify_track_id": "..."}
+ALTER TABLE public.track_credits ADD COLUMN IF NOT EXISTS evidence JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- created_at is when the credit was first found, updated_at when a source last confirmed it
+ALTER TABLE public.track_credits ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_track_credits_track_role ON public.track_credits (track_id, role);
+
+-- Backfill the evidence still known: the track's matched Genius song and the
+-- producer's external ids. Rows from before have no record of which id was used.
+-- Rows that already have evidence are left alone, so a re-run keeps what workers wrote.
+UPDATE public.track_credits c
+SET evidence = jsonb_strip_nulls(jsonb_build_object(
+    'spotify_track_id', t.spotify_id,
+    'genius_song_id', CASE WHEN c.source = 'genius' THEN t.genius_song_id END,
+    'genius_artist_id', CASE WHEN c.source = 'genius' THEN (
+      SELECT a.value::BIGINT FROM public.producer_aliases a
+      WHERE a.producer_id = c.producer_id AND a.kind = 'genius'
+      ORDER BY a.created_at
+      LIMIT 1
+    ) END,
+    'spotify_artist_id', CASE WHEN c.source = 'spotify' THEN (
+      SELECT a.value FROM public.producer_aliases a
+      WHERE a.producer_id = c.producer_id AND a.kind = 'spotify'
+      ORDER BY a.created_at
+      LIMIT 1
+    ) END,
+    'backfilled', true
+  )),
+  updated_at = COALESCE(c.created_at, now())
+FROM public.tracks t
+WHERE t.id = c.track_id
+  AND c.evidence = '{}'::jsonb;
+
+GRANT SELECT ON public.track_credits TO anon;
+
+-- Readers of track_producers, and the producer merge and split functions,
+-- keep working through a view. Writes through it reach track_credits.
+CREATE OR REPLACE VIEW public.track_producers
+WITH (security_invoker = true) AS
+SELECT id, track_id, producer_id, role, credited_as, source, confidence, created_at
+FROM public.track_credits;
+
+GRANT SELECT ON public.track_producers TO anon;
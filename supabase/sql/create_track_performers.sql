@@ -0,0 +1,131 @@
+-- Performers: the artists Spotify lists on a track, primary artist first.
+-- They perform the track, which doesn't make them producers, so they live
+-- apart from track_credits. Run after create_track_credits.sql.
+
+CREATE TABLE IF NOT EXISTS public.track_performers (
+  id BIGSERIAL PRIMARY KEY,
+  track_id UUID NOT NULL REFERENCES public.tracks(id) ON DELETE CASCADE,
+  spotify_artist_id TEXT,
+  -- Set when the artist is in the catalog; performers don't add artists to the crawl
+  artist_id UUID REFERENCES public.artists(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'featured' CHECK (role IN ('primary', 'featured')),
+  position INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (track_id, spotify_artist_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_track_performers_artist ON public.track_performers (artist_id);
+CREATE INDEX IF NOT EXISTS idx_track_performers_spotify_artist ON public.track_performers (spotify_artist_id);
+
+GRANT SELECT ON public.track_performers TO anon;
+
+ALTER TABLE public.track_performers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow reading track performers" ON public.track_performers;
+CREATE POLICY "Allow reading track performers" ON public.track_performers
+  FOR SELECT USING (true);
+
+-- Turn collaborator credits into performers, a batch at a time. Producers left
+-- without any credit were only ever co-artists and are deleted; the others
+-- lose the collaborator role. Also links performers whose artist has since
+-- been crawled. Safe to run repeatedly.
+CREATE OR REPLACE FUNCTION public.reclassify_collaborator_producers(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (performers INTEGER, credits_removed INTEGER, producers_deleted INTEGER, performers_linked INTEGER, remaining BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_credit_ids UUID[];
+  v_producer_ids UUID[];
+  v_performers INTEGER := 0;
+  v_named INTEGER := 0;
+  v_credits INTEGER := 0;
+  v_deleted INTEGER := 0;
+  v_linked INTEGER := 0;
+BEGIN
+  UPDATE track_performers tp
+  SET artist_id = a.id
+  FROM artists a
+  WHERE tp.artist_id IS NULL AND a.spotify_id = tp.spotify_artist_id;
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+
+  SELECT array_agg(id), array_agg(DISTINCT producer_id)
+  INTO v_credit_ids, v_producer_ids
+  FROM (
+    SELECT id, producer_id FROM track_credits
+    WHERE role = 'collaborator'
+    ORDER BY created_at
+    LIMIT p_limit
+  ) batch;
+
+  IF v_credit_ids IS NULL THEN
+    RETURN QUERY SELECT 0, 0, 0, v_linked, 0::BIGINT;
+    RETURN;
+  END IF;
+
+  -- The Spotify artist id comes from the credit's evidence, or the producer's alias
+  CREATE TEMP TABLE reclassified ON COMMIT DROP AS
+  SELECT c.track_id, p.name, COALESCE(
+      c.evidence->>'spotify_artist_id',
+      (SELECT a.value FROM producer_aliases a
+       WHERE a.producer_id = c.producer_id AND a.kind = 'spotify'
+       ORDER BY a.created_at
+       LIMIT 1)
+    ) AS spotify_artist_id
+  FROM track_credits c
+  JOIN producers p ON p.id = c.producer_id
+  WHERE c.id = ANY(v_credit_ids);
+
+  INSERT INTO track_performers (track_id, spotify_artist_id, artist_id, name, role)
+  SELECT r.track_id, r.spotify_artist_id, ar.id, r.name, 'featured'
+  FROM reclassified r
+  LEFT JOIN artists ar ON ar.spotify_id = r.spotify_artist_id
+  WHERE r.spotify_artist_id IS NOT NULL
+  ON CONFLICT (track_id, spotify_artist_id) DO NOTHING;
+  GET DIAGNOSTICS v_performers = ROW_COUNT;
+
+  -- Collaborators from before external ids were recorded are kept by name
+  INSERT INTO track_performers (track_id, name, role)
+  SELECT DISTINCT r.track_id, r.name, 'featured'
+  FROM reclassified r
+  WHERE r.spotify_artist_id IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM track_performers tp
+      WHERE tp.track_id = r.track_id AND lower(tp.name) = lower(r.name)
+    );
+  GET DIAGNOSTICS v_named = ROW_COUNT;
+
+  DROP TABLE reclassified;
+
+  DELETE FROM track_credits WHERE id = ANY(v_credit_ids);
+  GET DIAGNOSTICS v_credits = ROW_COUNT;
+
+  -- Producers whose only credits were collaborations, with their aliases
+  DELETE FROM producers p
+  WHERE p.id = ANY(v_producer_ids)
+    AND NOT EXISTS (SELECT 1 FROM track_credits c WHERE c.producer_id = p.id);
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  UPDATE producers p
+  SET metadata = jsonb_set(p.metadata, '{roles}', COALESCE((
+      SELECT jsonb_agg(r.role) FROM jsonb_array_elements_text(p.metadata->'roles') AS r(role)
+      WHERE r.role <> 'collaborator'
+    ), '[]'::jsonb)),
+    updated_at = now()
+  WHERE p.id = ANY(v_producer_ids)
+    AND jsonb_typeof(p.metadata->'roles') = 'array';
+
+  RETURN QUERY SELECT
+    v_performers + v_named,
+    v_credits,
+    v_deleted,
+    v_linked,
+    (SELECT count(*) FROM track_credits WHERE role = 'collaborator');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reclassify_collaborator_producers(INTEGER) FROM PUBLIC, anon, authenticated;
+
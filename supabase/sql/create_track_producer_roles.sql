@@ -0,0 +1,58 @@
+-- Track credits carry their role: one track_producers row per track, producer
+-- and role, each with its own source and confidence
+
+-- producer, co_producer, additional_producer, writer, mixing_engineer,
+-- mastering_engineer, recording_engineer and programmer are credits from
+-- Genius; collaborator is a co-artist Spotify lists on the track
+ALTER TABLE public.track_producers ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'producer'
+  CHECK (role IN (
+    'producer', 'co_producer', 'additional_producer', 'writer', 'mixing_engineer',
+    'mastering_engineer', 'recording_engineer', 'programmer', 'collaborator'
+  ));
+
+-- The credit as the source words it, e.g. "Additional Production"
+ALTER TABLE public.track_producers ADD COLUMN IF NOT EXISTS credited_as TEXT;
+
+-- Existing rows kept one credit per producer: Spotify rows are collaborators,
+-- Genius rows of producers only known as writers are writing credits
+UPDATE public.track_producers tp
+SET role = CASE
+    WHEN tp.source = 'spotify' THEN 'collaborator'
+    WHEN p.metadata->'roles' ? 'writer' AND NOT p.metadata->'roles' ? 'producer' THEN 'writer'
+    ELSE 'producer'
+  END
+FROM public.producers p
+WHERE p.id = tp.producer_id;
+
+-- A producer can now hold several roles on one track
+DO $$
+DECLARE
+  constraint_name TEXT;
+BEGIN
+  FOR constraint_name IN
+    SELECT con.conname
+    FROM pg_constraint con
+    WHERE con.conrelid = 'public.track_producers'::regclass
+      AND con.contype = 'u'
+      AND (
+        SELECT array_agg(att.attname::TEXT ORDER BY att.attname)
+        FROM pg_attribute att
+        WHERE att.attrelid = con.conrelid AND att.attnum = ANY (con.conkey)
+      ) = ARRAY['producer_id', 'track_id']
+  LOOP
+    EXECUTE format('ALTER TABLE public.track_producers DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END $$;
+
+-- Rows written twice before there was a key keep the higher confidence
+DELETE FROM public.track_producers s
+USING public.track_producers d
+WHERE s.track_id = d.track_id
+  AND s.producer_id = d.producer_id
+  AND s.role = d.role
+  AND (s.confidence, s.id) < (d.confidence, d.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_track_producers_track_producer_role
+  ON public.track_producers (track_id, producer_id, role);
+
+CREATE INDEX IF NOT EXISTS idx_track_producers_producer_role ON public.track_producers (producer_id, role);
@@ -0,0 +1,235 @@
+
+-- Worker control plane: one worker_status row per canonical worker name, read by
+-- both the cron dispatcher (is_worker_paused) and PageWorker (get_worker_control).
+--
+-- Canonical names are the queue names for queue workers (artist_discovery,
+-- album_discovery, track_discovery, producer_identification, social_enrichment)
+-- plus maintenance and artist_refresh. Legacy spellings such as
+-- 'artist-discovery-worker' or 'artist_discovery_worker' map to the same row.
+--
+-- States:
+--   running  -> invoked by cron, reads and processes messages
+--   draining -> still invoked, but reads no new messages; becomes paused once
+--               no message of its queue is in flight (read but not yet settled)
+--   paused   -> not invoked by cron, and PageWorker skips the run
+
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS state TEXT NOT NULL DEFAULT 'running';
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS reason TEXT;
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS updated_by TEXT;
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS drain_requested_at TIMESTAMPTZ;
+-- Throttle overrides; NULL keeps the worker's own option
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS batch_size INTEGER CHECK (batch_size > 0);
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS delay_between_items_ms INTEGER CHECK (delay_between_items_ms >= 0);
+
+DO $$
+BEGIN
+  ALTER TABLE public.worker_status
+    ADD CONSTRAINT worker_status_state_check CHECK (state IN ('running', 'draining', 'paused'));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.canonical_worker_name(p_worker_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT replace(regexp_replace(lower(trim(p_worker_name)), '[-_]worker$', ''), '-', '_');
+$$;
+
+-- Fold rows written under legacy names into their canonical row (paused wins)
+INSERT INTO public.worker_status (worker_name, is_paused, paused_at, paused_by, last_updated)
+SELECT DISTINCT ON (public.canonical_worker_name(worker_name))
+  public.canonical_worker_name(worker_name), is_paused, paused_at, paused_by, last_updated
+FROM public.worker_status
+WHERE worker_name <> public.canonical_worker_name(worker_name)
+ORDER BY public.canonical_worker_name(worker_name), is_paused DESC, last_updated DESC
+ON CONFLICT (worker_name) DO UPDATE SET
+  is_paused = worker_status.is_paused OR EXCLUDED.is_paused,
+  paused_at = COALESCE(worker_status.paused_at, EXCLUDED.paused_at),
+  paused_by = COALESCE(worker_status.paused_by, EXCLUDED.paused_by),
+  last_updated = now();
+
+DELETE FROM public.worker_status WHERE worker_name <> public.canonical_worker_name(worker_name);
+
+UPDATE public.worker_status SET state = 'paused' WHERE is_paused AND state = 'running';
+
+-- Keep state in step with writers that only set is_paused (setup_cron_jobs.sql, manual SQL)
+CREATE OR REPLACE FUNCTION public.sync_worker_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_paused AND NEW.state = 'running' THEN
+      NEW.state := 'paused';
+    END IF;
+  ELSIF NEW.is_paused IS DISTINCT FROM OLD.is_paused AND NEW.state = OLD.state THEN
+    NEW.state := CASE WHEN NEW.is_paused THEN 'paused' ELSE 'running' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS worker_status_sync_state ON public.worker_status;
+CREATE TRIGGER worker_status_sync_state
+  BEFORE INSERT OR UPDATE ON public.worker_status
+  FOR EACH ROW EXECUTE FUNCTION public.sync_worker_state();
+
+-- Legacy name arguments keep working for callers not yet updated
+CREATE OR REPLACE FUNCTION public.is_worker_paused(worker TEXT) RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.worker_status
+    WHERE worker_name = public.canonical_worker_name(worker) AND state = 'paused'
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Move a worker to running, draining or paused, recording why and who asked
+CREATE OR REPLACE FUNCTION public.set_worker_state(
+  p_worker_name TEXT,
+  p_state TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL
+)
+RETURNS public.worker_status
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row public.worker_status;
+BEGIN
+  IF p_state NOT IN ('running', 'draining', 'paused') THEN
+    RAISE EXCEPTION 'Unknown worker state: %', p_state;
+  END IF;
+
+  INSERT INTO public.worker_status AS ws (
+    worker_name, state, is_paused, paused_at, paused_by, drain_requested_at, reason, updated_by, last_updated
+  )
+  VALUES (
+    public.canonical_worker_name(p_worker_name),
+    p_state,
+    p_state = 'paused',
+    CASE WHEN p_state = 'paused' THEN now() END,
+    CASE WHEN p_state = 'paused' THEN p_actor END,
+    CASE WHEN p_state = 'draining' THEN now() END,
+    p_reason,
+    p_actor,
+    now()
+  )
+  ON CONFLICT (worker_name) DO UPDATE SET
+    state = EXCLUDED.state,
+    is_paused = EXCLUDED.is_paused,
+    -- Re-pausing or re-draining keeps the original timestamps
+    paused_at = CASE WHEN EXCLUDED.state = 'paused' THEN COALESCE(ws.paused_at, now()) END,
+    paused_by = CASE WHEN EXCLUDED.state = 'paused' THEN COALESCE(EXCLUDED.paused_by, ws.paused_by) END,
+    drain_requested_at = CASE WHEN EXCLUDED.state = 'draining' THEN COALESCE(ws.drain_requested_at, now()) END,
+    reason = EXCLUDED.reason,
+    updated_by = EXCLUDED.updated_by,
+    last_updated = now()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Override (or with NULLs, reset) how many messages a worker reads per run and
+-- how long it waits between them
+CREATE OR REPLACE FUNCTION public.set_worker_rate(
+  p_worker_name TEXT,
+  p_batch_size INTEGER DEFAULT NULL,
+  p_delay_between_items_ms INTEGER DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL
+)
+RETURNS public.worker_status
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_row public.worker_status;
+BEGIN
+  INSERT INTO public.worker_status AS ws (
+    worker_name, batch_size, delay_between_items_ms, reason, updated_by, last_updated
+  )
+  VALUES (
+    public.canonical_worker_name(p_worker_name),
+    p_batch_size,
+    p_delay_between_items_ms,
+    p_reason,
+    p_actor,
+    now()
+  )
+  ON CONFLICT (worker_name) DO UPDATE SET
+    batch_size = EXCLUDED.batch_size,
+    delay_between_items_ms = EXCLUDED.delay_between_items_ms,
+    reason = EXCLUDED.reason,
+    updated_by = EXCLUDED.updated_by,
+    last_updated = now()
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Control row a worker reads at the start of each run. A draining worker whose
+-- queue has no message in flight is paused here, completing the drain. Both
+-- priority lanes count (create_priority_lanes.sql adds the high one).
+-- Returns NULL when the worker has no row (running with its own options).
+CREATE OR REPLACE FUNCTION public.get_worker_control(p_worker_name TEXT)
+RETURNS public.worker_status
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_name TEXT := public.canonical_worker_name(p_worker_name);
+  v_row public.worker_status;
+  v_queue TEXT;
+  v_count BIGINT;
+  v_in_flight BIGINT := 0;
+BEGIN
+  SELECT * INTO v_row FROM public.worker_status WHERE worker_name = v_name;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_row.state = 'draining' THEN
+    FOREACH v_queue IN ARRAY ARRAY[v_name, v_name || '_high'] LOOP
+      IF to_regclass(format('pgmq.%I', 'q_' || v_queue)) IS NOT NULL THEN
+        EXECUTE format('SELECT count(*) FROM pgmq.%I WHERE read_ct > 0 AND vt > now()', 'q_' || v_queue)
+          INTO v_count;
+        v_in_flight := v_in_flight + v_count;
+      END IF;
+    END LOOP;
+
+    IF v_in_flight = 0 THEN
+      UPDATE public.worker_status
+      SET state = 'paused',
+          is_paused = true,
+          paused_at = now(),
+          paused_by = COALESCE(updated_by, 'drain'),
+          last_updated = now()
+      WHERE worker_name = v_name AND state = 'draining'
+      RETURNING * INTO v_row;
+    END IF;
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- psql helpers, now backed by set_worker_state
+CREATE OR REPLACE PROCEDURE pause_worker(worker_name TEXT, paused_by TEXT)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.set_worker_state(worker_name, 'paused', NULL, paused_by);
+END;
+$$;
+
+CREATE OR REPLACE PROCEDURE unpause_worker(worker_name TEXT)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM public.set_worker_state(worker_name, 'running', NULL, 'psql');
+END;
+$$;
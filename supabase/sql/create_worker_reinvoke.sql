@@ -0,0 +1,121 @@
+-- Self re-invocation for looping workers: when an invocation runs out of its
+-- wall-clock budget with messages left, it asks the database to call its
+-- function again through pg_net, so a backlog drains without waiting for cron.
+-- Requires create_worker_control.sql.
+--
+-- A chain of re-invocations holds a lease on its worker's worker_status row.
+-- Cron doesn't start the worker while the lease is held, so at most one chain
+-- drains a queue. The lease expires by itself if an invocation dies.
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS reinvoke_lease_id UUID;
+ALTER TABLE public.worker_status ADD COLUMN IF NOT EXISTS reinvoke_lease_until TIMESTAMPTZ;
+
+-- Edge function of each worker that may re-invoke itself, NULL for any other name
+CREATE OR REPLACE FUNCTION public.worker_function_name(p_worker_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE public.canonical_worker_name(p_worker_name)
+    WHEN 'artist_discovery' THEN 'artistDiscovery'
+    WHEN 'album_discovery' THEN 'albumDiscovery'
+    WHEN 'track_discovery' THEN 'trackDiscovery'
+    WHEN 'producer_identification' THEN 'producerIdentification'
+    WHEN 'social_enrichment' THEN 'socialEnrichment'
+  END;
+$$;
+
+-- Replaces the version without a lease
+DROP FUNCTION IF EXISTS public.reinvoke_worker(TEXT, TEXT, JSONB);
+
+-- Take or renew the worker's lease and queue an HTTP call to its function.
+-- Skipped (returns false) while the worker is paused or draining, or while
+-- another chain holds the lease.
+CREATE OR REPLACE FUNCTION public.reinvoke_worker(
+  p_worker_name TEXT,
+  p_function_name TEXT,
+  p_lease_id UUID,
+  p_lease_seconds INTEGER,
+  p_body JSONB DEFAULT '{}'::jsonb
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_name TEXT := public.canonical_worker_name(p_worker_name);
+  v_function TEXT := public.worker_function_name(p_worker_name);
+BEGIN
+  IF v_function IS NULL OR v_function IS DISTINCT FROM p_function_name THEN
+    RAISE EXCEPTION 'Worker % cannot re-invoke function %', p_worker_name, p_function_name;
+  END IF;
+
+  IF p_lease_seconds IS NULL OR p_lease_seconds <= 0 THEN
+    RAISE EXCEPTION 'Lease must last at least one second';
+  END IF;
+
+  INSERT INTO worker_status (worker_name)
+  VALUES (v_name)
+  ON CONFLICT (worker_name) DO NOTHING;
+
+  UPDATE worker_status
+  SET reinvoke_lease_id = p_lease_id,
+      reinvoke_lease_until = now() + make_interval(secs => p_lease_seconds)
+  WHERE worker_name = v_name
+    AND state = 'running'
+    AND (reinvoke_lease_id IS NULL
+      OR reinvoke_lease_id = p_lease_id
+      OR reinvoke_lease_until <= now());
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM net.http_post(
+    url:=current_setting('app.settings.supabase_url') || '/functions/v1/' || v_function,
+    headers:=jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.supabase_anon_key')
+    ),
+    body:=p_body
+  );
+
+  RETURN true;
+END;
+$$;
+
+-- End a chain: give up the lease if it is still this chain's
+CREATE OR REPLACE FUNCTION public.release_worker_lease(p_worker_name TEXT, p_lease_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE worker_status
+  SET reinvoke_lease_id = NULL,
+      reinvoke_lease_until = NULL
+  WHERE worker_name = public.canonical_worker_name(p_worker_name)
+    AND reinvoke_lease_id = p_lease_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reinvoke_worker(TEXT, TEXT, UUID, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_worker_lease(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Checked by the cron dispatcher (setup_cron_jobs.sql) before starting a worker
+CREATE OR REPLACE FUNCTION public.is_worker_chain_active(worker TEXT) RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM public.worker_status
+    WHERE worker_name = public.canonical_worker_name(worker)
+      AND reinvoke_lease_id IS NOT NULL
+      AND reinvoke_lease_until > now()
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,18 @@
+
+-- Workers now record one error taxonomy in queue_metrics and dead letters:
+-- transient, rate_limit, not_found, validation, auth and unknown.
+-- Map the categories recorded before so reports and replays by category
+-- cover old and new rows alike.
+UPDATE public.pgmq_dead_letter_items
+SET details = jsonb_set(details, '{category}', to_jsonb(CASE details->>'category'
+    WHEN 'timeout' THEN 'transient'
+    WHEN 'permission_denied' THEN 'auth'
+  END))
+WHERE details->>'category' IN ('timeout', 'permission_denied');
+
+UPDATE public.queue_metrics
+SET details = jsonb_set(details, '{category}', to_jsonb(CASE details->>'category'
+    WHEN 'timeout' THEN 'transient'
+    WHEN 'permission_denied' THEN 'auth'
+  END))
+WHERE details->>'category' IN ('timeout', 'permission_denied');
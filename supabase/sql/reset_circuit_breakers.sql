@@ -1,10 +1,8 @@
 
--- Create function to reset a specific circuit breaker
+-- Manual resets close circuits through circuit_breaker_transition
+-- (create_circuit_breaker_state.sql), which records them in circuit_breaker_events
 CREATE OR REPLACE FUNCTION reset_circuit_breaker(circuit_name TEXT) 
 RETURNS BOOLEAN AS $$
-DECLARE
-  reset_successful BOOLEAN := FALSE;
-  response JSONB;
 BEGIN
   -- Check if the circuit exists
   IF NOT EXISTS (
@@ -14,45 +12,18 @@ BEGIN
     RAISE EXCEPTION 'Circuit % does not exist', circuit_name;
   END IF;
 
-  -- Call the resetCircuitBreakers edge function
-  SELECT content::jsonb INTO response
-  FROM net.http_post(
-    url := concat(current_setting('app.settings.supabase_url'), '/functions/v1/resetCircuitBreakers'),
-    headers := jsonb_build_object(
-      'Content-Type', 'application/json',
-      'Authorization', concat('Bearer ', current_setting('app.settings.supabase_anon_key'))
-    ),
-    body := jsonb_build_object('circuitName', circuit_name)
+  PERFORM public.circuit_breaker_transition(
+    circuit_name, 'force_close', NULL,
+    jsonb_build_object('reason', 'manual reset'),
+    'sql_function'
   );
-  
-  -- Check if reset was successful
-  IF response->>'success' = 'true' THEN
-    reset_successful := TRUE;
-    
-    -- Log the reset operation
-    INSERT INTO worker_issues (
-      worker_name, 
-      issue_type, 
-      details
-    ) VALUES (
-      'circuit_breaker_manager',
-      'manual_circuit_reset',
-      jsonb_build_object(
-        'circuit_name', circuit_name,
-        'reset_method', 'sql_function',
-        'response', response,
-        'timestamp', now()
-      )
-    );
-  ELSE
-    RAISE WARNING 'Failed to reset circuit %: %', circuit_name, response;
-  END IF;
 
-  RETURN reset_successful;
+  RETURN TRUE;
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to reset all open Spotify circuit breakers
+-- Function to reset all open Spotify circuit breakers; circuits an operator
+-- forced open stay open
 CREATE OR REPLACE FUNCTION reset_all_spotify_circuits() 
 RETURNS INTEGER AS $$
 DECLARE
@@ -63,10 +34,14 @@ BEGIN
   FOR circuit_rec IN 
     SELECT name 
     FROM circuit_breakers 
-    WHERE name LIKE 'spotify%' AND state = 'open'
+    WHERE name LIKE 'spotify%' AND state = 'open' AND NOT forced
   LOOP
-    -- Reset each circuit
-    IF reset_circuit_breaker(circuit_rec.name) THEN
+    -- Only a circuit that is still open is closed, and counted
+    IF (public.circuit_breaker_transition(
+      circuit_rec.name, 'force_close', 'open',
+      jsonb_build_object('reason', 'batch reset of Spotify circuits'),
+      'sql_function'
+    )).state = 'closed' THEN
       reset_count := reset_count + 1;
     END IF;
   END LOOP;
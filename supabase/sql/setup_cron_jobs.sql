@@ -22,6 +22,16 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Whether a chain of self re-invocations is draining the worker's queue.
+-- create_worker_reinvoke.sql defines the real check; until then there are no chains.
+DO $$
+BEGIN
+  IF to_regprocedure('public.is_worker_chain_active(text)') IS NULL THEN
+    CREATE FUNCTION public.is_worker_chain_active(worker TEXT) RETURNS BOOLEAN
+    LANGUAGE sql AS 'SELECT false';
+  END IF;
+END $$;
+
 -- Function to schedule worker invocations
 CREATE OR REPLACE PROCEDURE schedule_worker_invocations()
 LANGUAGE plpgsql
@@ -49,7 +59,7 @@ BEGIN
     $$
     DO $$
     BEGIN
-      IF NOT is_worker_paused('artist-discovery-worker') THEN
+      IF NOT is_worker_paused('artist_discovery') AND NOT is_worker_chain_active('artist_discovery') THEN
         PERFORM net.http_post(
           url:='$$ || url || $$/functions/v1/artistDiscovery',
           headers:='{"Content-Type": "application/json", "Authorization": "Bearer $$ || anon_key || $$"}'::jsonb,
@@ -67,7 +77,7 @@ BEGIN
     $$
     DO $$
     BEGIN
-      IF NOT is_worker_paused('album-discovery-worker') THEN
+      IF NOT is_worker_paused('album_discovery') AND NOT is_worker_chain_active('album_discovery') THEN
         PERFORM net.http_post(
           url:='$$ || url || $$/functions/v1/albumDiscovery',
           headers:='{"Content-Type": "application/json", "Authorization": "Bearer $$ || anon_key || $$"}'::jsonb,
@@ -85,7 +95,7 @@ BEGIN
     $$
     DO $$
     BEGIN
-      IF NOT is_worker_paused('track-discovery-worker') THEN
+      IF NOT is_worker_paused('track_discovery') AND NOT is_worker_chain_active('track_discovery') THEN
         PERFORM net.http_post(
           url:='$$ || url || $$/functions/v1/trackDiscovery',
           headers:='{"Content-Type": "application/json", "Authorization": "Bearer $$ || anon_key || $$"}'::jsonb,
@@ -103,7 +113,7 @@ BEGIN
     $$
     DO $$
     BEGIN
-      IF NOT is_worker_paused('producer-identification-worker') THEN
+      IF NOT is_worker_paused('producer_identification') AND NOT is_worker_chain_active('producer_identification') THEN
         PERFORM net.http_post(
           url:='$$ || url || $$/functions/v1/producerIdentification',
           headers:='{"Content-Type": "application/json", "Authorization": "Bearer $$ || anon_key || $$"}'::jsonb,
@@ -121,7 +131,7 @@ BEGIN
     $$
     DO $$
     BEGIN
-      IF NOT is_worker_paused('social-enrichment-worker') THEN
+      IF NOT is_worker_paused('social_enrichment') AND NOT is_worker_chain_active('social_enrichment') THEN
         PERFORM net.http_post(
           url:='$$ || url || $$/functions/v1/socialEnrichment',
           headers:='{"Content-Type": "application/json", "Authorization": "Bearer $$ || anon_key || $$"}'::jsonb,
@@ -139,7 +149,7 @@ BEGIN
     $$
     DO $$
     BEGIN
-      IF NOT is_worker_paused('maintenance-worker') THEN
+      IF NOT is_worker_paused('maintenance') THEN
         PERFORM net.http_post(
           url:='$$ || url || $$/functions/v1/maintenance',
           headers:='{"Content-Type": "application/json", "Authorization": "Bearer $$ || anon_key || $$"}'::jsonb,
@@ -153,21 +163,21 @@ BEGIN
   -- Insert initial worker status records if they don't exist
   INSERT INTO worker_status (worker_name, is_paused)
   VALUES 
-    ('artist-discovery-worker', false),
-    ('album-discovery-worker', false),
-    ('track-discovery-worker', false),
-    ('producer-identification-worker', false),
-    ('social-enrichment-worker', true),  -- Set this worker to paused
-    ('maintenance-worker', false)
+    ('artist_discovery', false),
+    ('album_discovery', false),
+    ('track_discovery', false),
+    ('producer_identification', false),
+    ('social_enrichment', true),  -- Set this worker to paused
+    ('maintenance', false)
   ON CONFLICT (worker_name) DO NOTHING;
   
-  -- Make sure social-enrichment-worker is specifically paused
+  -- Make sure social_enrichment is specifically paused
   UPDATE worker_status
   SET is_paused = true,
       paused_at = now(),
       paused_by = 'system',
       last_updated = now()
-  WHERE worker_name = 'social-enrichment-worker';
+  WHERE worker_name = 'social_enrichment';
 END;
 $$;
 
@@ -29,15 +29,15 @@ BEGIN
   
   -- If we have multiple recent circuit trips, pause the workers
   IF should_pause THEN
-    CALL pause_worker('artist_discovery_worker', 'auto_circuit_monitor');
-    CALL pause_worker('album_discovery_worker', 'auto_circuit_monitor');
-    CALL pause_worker('track_discovery_worker', 'auto_circuit_monitor');
+    CALL pause_worker('artist_discovery', 'auto_circuit_monitor');
+    CALL pause_worker('album_discovery', 'auto_circuit_monitor');
+    CALL pause_worker('track_discovery', 'auto_circuit_monitor');
     
     -- Log the pause action
     INSERT INTO worker_issues (worker_name, issue_type, details)
     VALUES ('circuit_monitor', 'workers_paused', jsonb_build_object(
       'reason', 'multiple_circuit_trips',
-      'paused_workers', jsonb_build_array('artist_discovery_worker', 'album_discovery_worker', 'track_discovery_worker'),
+      'paused_workers', jsonb_build_array('artist_discovery', 'album_discovery', 'track_discovery'),
       'auto_unpause_at', now() + interval '30 minutes',
       'timestamp', now()
     ));
@@ -45,22 +45,23 @@ BEGIN
     -- Schedule the workers to be unpaused in 30 minutes
     PERFORM pg_sleep(1800); -- 30 minutes in seconds
     
-    CALL unpause_worker('artist_discovery_worker');
-    CALL unpause_worker('album_discovery_worker');
-    CALL unpause_worker('track_discovery_worker');
+    CALL unpause_worker('artist_discovery');
+    CALL unpause_worker('album_discovery');
+    CALL unpause_worker('track_discovery');
     
     -- Log the unpause action
     INSERT INTO worker_issues (worker_name, issue_type, details)
     VALUES ('circuit_monitor', 'workers_unpaused', jsonb_build_object(
       'reason', 'auto_timeout',
-      'unpaused_workers', jsonb_build_array('artist_discovery_worker', 'album_discovery_worker', 'track_discovery_worker'),
+      'unpaused_workers', jsonb_build_array('artist_discovery', 'album_discovery', 'track_discovery'),
       'timestamp', now()
     ));
   END IF;
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to reset long-open circuit breakers
+-- Circuits left open for hours are closed through circuit_breaker_transition
+-- (create_circuit_breaker_state.sql); forced circuits stay open
 CREATE OR REPLACE FUNCTION reset_long_open_circuits()
 RETURNS void AS $$
 DECLARE
@@ -70,16 +71,13 @@ BEGIN
     SELECT * 
     FROM circuit_breakers 
     WHERE state = 'open' 
+      AND NOT forced
       AND last_state_change < (now() - interval '4 hours')
   LOOP
-    -- Call the function to reset the circuit breaker
-    PERFORM net.http_post(
-      url:=concat(current_setting('app.settings.supabase_url'), '/functions/v1/resetCircuitBreakers'),
-      headers:=jsonb_build_object(
-        'Content-Type', 'application/json',
-        'Authorization', concat('Bearer ', current_setting('app.settings.supabase_anon_key'))
-      ),
-      body:=jsonb_build_object('circuitName', circuit.name)
+    PERFORM public.circuit_breaker_transition(
+      circuit.name, 'force_close', 'open',
+      jsonb_build_object('reason', 'open for more than 4 hours'),
+      'circuit_monitor'
     );
     
     -- Log the reset operation